@@ -11,6 +11,7 @@ mkdir -p dist
 echo "Compiling TypeScript..."
 npx tsc
 npx tsc -p tsconfig.ui.json
+npx tsc -p tsconfig.cli.json
 
 # Copy UI HTML to dist
 echo "Copying UI files..."
@@ -22,7 +23,9 @@ echo ""
 echo "Plugin files:"
 echo "  - dist/code.js (main plugin code)"
 echo "  - dist/ui.js (UI code)"
+echo "  - dist/pptx-converter.js, dist/pptx-package.js, dist/xml.js, dist/zip.js (PowerPoint writer)"
 echo "  - dist/ui.html (UI interface)"
+echo "  - dist/cli/cli.js (command line converter)"
 echo ""
 echo "To use in Figma/FigJam:"
 echo "1. Open FigJam desktop app"
@@ -0,0 +1,361 @@
+#!/usr/bin/env node
+// FigJam to PowerPoint - Command Line Interface
+// Converts saved plugin exports to .pptx, XML or JSON without opening Figma
+
+/// <reference path="./model.d.ts" />
+
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { ConversionOptions, PPTXConverter, ScalingMode } from './pptx-converter.js';
+import { DiagramExporter } from './diagram.js';
+import { describeIssues } from './fidelity.js';
+import { DEFAULT_FONT_SUBSTITUTIONS, FontSubstitutions } from './fonts.js';
+import { HiddenLayersMode } from './layers.js';
+import { EXPORT_SCHEMA } from './schema.js';
+import { ColorMode, FORMAT_EXTENSIONS, OutputFormat, parsePresets, toConversionOptions } from './settings.js';
+import { SlideOrder, SlideSize } from './slide-builder.js';
+import { PlaceholderMode } from './slide-layout.js';
+import { StickyNotesMode } from './stickies.js';
+import { DEFAULT_THEME_COLORS } from './theme.js';
+
+interface CLIOptions {
+  inputs: string[];
+  output?: string;
+  format: OutputFormat;
+  conversion: ConversionOptions;
+}
+
+/** Options as given on the command line, before a preset fills in the rest */
+type ParsedArguments = Omit<CLIOptions, 'format'> & {
+  format?: OutputFormat;
+  presetsFile?: string;
+  presetName?: string;
+  // Substitutions given with --font, added to those of the preset or the defaults
+  fonts: FontSubstitutions;
+};
+
+const USAGE = `Usage: figjam2pptx convert <input...> [options]
+       figjam2pptx schema
+
+Converts figjam2pptx JSON exports, or the raw {nodes, pageInfo} payload of the
+plugin, to PowerPoint. Inputs may be files or directories of .json files, and
+are validated against the export schema, which "schema" prints.
+
+Options:
+  -o, --output <path>        Output file, or output directory for several inputs
+  -f, --format <format>      pptx (default), xml, json, mermaid, dot or drawio
+                             for the shapes and connectors as a diagram, or zip
+                             for all of them and the fidelity report in one archive
+  --slide-size <size>        16:9 (default), 4:3, A4, content, or WxH in inches (e.g. 10x7.5)
+  --slide-order <order>      reading (default), layer or name
+  --sticky-notes <mode>      slide (default), notes or both
+  --placeholders <mode>      title (default) to write slide titles into title
+                             placeholders, structured to also write stacked text
+                             and sticky columns as bullets, or none
+  --hidden <mode>            skip (default) to leave hidden layers out, or hidden
+                             to write them as hidden shapes and slides
+  --scaling <mode>           fit (default) to scale frames to the slide, or actual
+                             to keep their size unless they do not fit
+  --dpi <n>                  Board resolution the sizes are in, 96 (default)
+  --colors <mode>            theme (default) to write colors matching the theme
+                             color table as theme colors, or rgb
+  --font <family>=<font>     Write text in a board font family in another font,
+                             e.g. "Inter=Arial"; may be repeated. FigJam's fonts
+                             are substituted with Office fonts by default
+  --presets <file>           Presets file exported from the plugin
+  --preset <name>            Use the named preset from --presets; other options
+                             given override the preset
+  -h, --help                 Show this help
+`;
+
+const FORMATS: OutputFormat[] = ['pptx', 'xml', 'json', 'mermaid', 'dot', 'drawio', 'zip'];
+const SLIDE_ORDERS: SlideOrder[] = ['reading', 'layer', 'name'];
+const PRESET_SLIDE_SIZES: SlideSize[] = ['16:9', '4:3', 'A4', 'content'];
+const STICKY_NOTES_MODES: StickyNotesMode[] = ['slide', 'notes', 'both'];
+const PLACEHOLDER_MODES: PlaceholderMode[] = ['none', 'title', 'structured'];
+const HIDDEN_LAYERS_MODES: HiddenLayersMode[] = ['skip', 'hidden'];
+const SCALING_MODES: ScalingMode[] = ['fit', 'actual'];
+const COLOR_MODES: ColorMode[] = ['theme', 'rgb'];
+
+async function main(argv: string[]): Promise<void> {
+  if (argv.length === 0 || argv.includes('-h') || argv.includes('--help')) {
+    process.stdout.write(USAGE);
+    return;
+  }
+
+  const [command, ...rest] = argv;
+  if (command === 'schema') {
+    process.stdout.write(`${JSON.stringify(EXPORT_SCHEMA, null, 2)}\n`);
+    return;
+  }
+  if (command !== 'convert') {
+    throw new Error(`Unknown command "${command}"\n\n${USAGE}`);
+  }
+
+  const options = await applyPreset(parseArguments(rest));
+  const files = await collectInputFiles(options.inputs);
+  if (files.length === 0) {
+    throw new Error('No .json input files found');
+  }
+
+  // A single input may be written to a file; several inputs need a directory
+  const batch = files.length > 1 ||
+    (await isDirectory(options.inputs[0])) ||
+    (!!options.output && (await isDirectory(options.output)));
+  if (batch && options.output) {
+    await fs.mkdir(options.output, { recursive: true });
+  }
+
+  for (const file of files) {
+    const outputPath = getOutputPath(file, options, batch);
+    if (path.resolve(outputPath) === path.resolve(file)) {
+      // Converting a directory to json would otherwise stop at its first file
+      if (!batch) {
+        throw new Error(`Refusing to overwrite the input file ${file}, give another output with -o`);
+      }
+      process.stderr.write(`Skipping ${file}: the output would overwrite it, give an output directory with -o\n`);
+      continue;
+    }
+    const report = await convertFile(file, outputPath, options);
+    process.stdout.write(`${file} -> ${outputPath} (${describeIssues(report)})\n`);
+  }
+}
+
+function parseArguments(args: string[]): ParsedArguments {
+  const options: ParsedArguments = { inputs: [], conversion: {}, fonts: {} };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const value = () => {
+      const next = args[++i];
+      if (next === undefined) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      return next;
+    };
+
+    switch (arg) {
+      case '-o':
+      case '--output':
+        options.output = value();
+        break;
+
+      case '-f':
+      case '--format':
+        options.format = oneOf(arg, value(), FORMATS);
+        break;
+
+      case '--slide-size':
+        parseSlideSize(value(), options.conversion);
+        break;
+
+      case '--slide-order':
+        options.conversion.slideOrder = oneOf(arg, value(), SLIDE_ORDERS);
+        break;
+
+      case '--sticky-notes':
+        options.conversion.stickyNotes = oneOf(arg, value(), STICKY_NOTES_MODES);
+        break;
+
+      case '--placeholders':
+        options.conversion.placeholders = oneOf(arg, value(), PLACEHOLDER_MODES);
+        break;
+
+      case '--hidden':
+        options.conversion.hiddenLayers = oneOf(arg, value(), HIDDEN_LAYERS_MODES);
+        break;
+
+      case '--scaling':
+        options.conversion.scaling = oneOf(arg, value(), SCALING_MODES);
+        break;
+
+      case '--dpi': {
+        const dpi = Number(value());
+        if (!(dpi > 0) || !isFinite(dpi)) {
+          throw new Error(`Invalid value "${args[i]}" for ${arg}, expected a positive number`);
+        }
+        options.conversion.dpi = dpi;
+        break;
+      }
+
+      case '--colors':
+        options.conversion.themeColors = oneOf(arg, value(), COLOR_MODES) === 'theme' ? DEFAULT_THEME_COLORS : undefined;
+        break;
+
+      case '--font': {
+        const [family, typeface] = value().split('=').map(part => part.trim());
+        if (!family || !typeface) {
+          throw new Error(`Invalid value "${args[i]}" for ${arg}, expected <family>=<font>`);
+        }
+        options.fonts[family] = typeface;
+        break;
+      }
+
+      case '--presets':
+        options.presetsFile = value();
+        break;
+
+      case '--preset':
+        options.presetName = value();
+        break;
+
+      default:
+        if (arg.startsWith('-')) {
+          throw new Error(`Unknown option ${arg}`);
+        }
+        options.inputs.push(arg);
+    }
+  }
+
+  if (options.inputs.length === 0) {
+    throw new Error(`No input given\n\n${USAGE}`);
+  }
+  if (options.presetName !== undefined && !options.presetsFile) {
+    throw new Error('--preset needs a --presets file');
+  }
+
+  return options;
+}
+
+/**
+ * Start from the named preset, when one is given, and apply the options given
+ * on the command line over it
+ */
+async function applyPreset(parsed: ParsedArguments): Promise<CLIOptions> {
+  const { presetsFile, presetName, fonts, ...options } = parsed;
+  if (!presetsFile || presetName === undefined) {
+    return {
+      ...options,
+      format: options.format || 'pptx',
+      conversion: {
+        themeColors: DEFAULT_THEME_COLORS,
+        placeholders: 'title',
+        ...options.conversion,
+        fontSubstitutions: { ...DEFAULT_FONT_SUBSTITUTIONS, ...fonts }
+      }
+    };
+  }
+
+  const presets = parsePresets(await fs.readFile(presetsFile, 'utf8'));
+  const preset = presets.find(p => p.name === presetName);
+  if (!preset) {
+    throw new Error(`No preset "${presetName}" in ${presetsFile}, expected one of: ${presets.map(p => p.name).join(', ')}`);
+  }
+
+  return {
+    ...options,
+    format: options.format || preset.settings.format,
+    conversion: {
+      ...toConversionOptions(preset.settings),
+      ...options.conversion,
+      fontSubstitutions: { ...preset.settings.fontSubstitutions, ...fonts }
+    }
+  };
+}
+
+function oneOf<T extends string>(option: string, value: string, allowed: T[]): T {
+  if (!allowed.includes(value as T)) {
+    throw new Error(`Invalid value "${value}" for ${option}, expected one of: ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+function parseSlideSize(value: string, conversion: ConversionOptions) {
+  const custom = /^(\d+(?:\.\d+)?)x(\d+(?:\.\d+)?)$/i.exec(value);
+  if (custom) {
+    conversion.slideSize = 'custom';
+    conversion.customSlideSize = { width: parseFloat(custom[1]), height: parseFloat(custom[2]) };
+    return;
+  }
+  conversion.slideSize = oneOf('--slide-size', value, PRESET_SLIDE_SIZES);
+}
+
+async function collectInputFiles(inputs: string[]): Promise<string[]> {
+  const files: string[] = [];
+
+  for (const input of inputs) {
+    if (await isDirectory(input)) {
+      const entries = await fs.readdir(input);
+      entries
+        .filter(entry => entry.toLowerCase().endsWith('.json'))
+        .sort()
+        .forEach(entry => files.push(path.join(input, entry)));
+    } else {
+      files.push(input);
+    }
+  }
+
+  return files;
+}
+
+async function isDirectory(file: string): Promise<boolean> {
+  try {
+    return (await fs.stat(file)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+function getOutputPath(file: string, options: CLIOptions, batch: boolean): string {
+  const name = `${path.basename(file, path.extname(file))}.${FORMAT_EXTENSIONS[options.format]}`;
+
+  if (!options.output) {
+    return path.join(path.dirname(file), name);
+  }
+  return batch ? path.join(options.output, name) : options.output;
+}
+
+/**
+ * Convert one input and return its fidelity report. Image fills are reported
+ * as left out, since exports do not carry image data.
+ */
+async function convertFile(file: string, outputPath: string, options: CLIOptions): Promise<FidelityIssueData[]> {
+  const { nodes, pageInfo, issues } = parseInput(await fs.readFile(file, 'utf8'), file);
+  // Decks are converted once, for the file and its report
+  const pptx = options.format === 'pptx' || options.format === 'zip'
+    ? PPTXConverter.convert(nodes, pageInfo, options.conversion, {}, issues)
+    : null;
+  const report = pptx ? pptx.report : PPTXConverter.fidelityReport(nodes, pageInfo, options.conversion, {}, issues);
+
+  switch (options.format) {
+    case 'pptx':
+      await fs.writeFile(outputPath, pptx!.data);
+      break;
+
+    case 'xml':
+      await fs.writeFile(outputPath, PPTXConverter.toXML(nodes, pageInfo, options.conversion));
+      break;
+
+    case 'json':
+      await fs.writeFile(outputPath, PPTXConverter.toJSON(nodes, pageInfo, report));
+      break;
+
+    case 'mermaid':
+    case 'dot':
+    case 'drawio':
+      await fs.writeFile(outputPath, DiagramExporter.toDiagram(options.format, nodes, pageInfo));
+      break;
+
+    case 'zip':
+      await fs.writeFile(outputPath, PPTXConverter.toBundle(nodes, pageInfo, path.basename(outputPath, '.zip'), pptx!));
+      break;
+  }
+
+  return report;
+}
+
+/**
+ * Accept either a JSON export or the raw {nodes, pageInfo} plugin payload
+ */
+function parseInput(content: string, file: string): ExportPayload {
+  try {
+    return PPTXConverter.fromJSON(content, path.basename(file, path.extname(file)));
+  } catch (error) {
+    throw new Error(`${file}: ${(error as Error).message}`);
+  }
+}
+
+main(process.argv.slice(2)).catch(error => {
+  process.stderr.write(`Error: ${error.message}\n`);
+  process.exit(1);
+});
@@ -1,95 +1,479 @@
 // FigJam to PowerPoint Plugin - Main Code
 // This runs in the Figma plugin sandbox with access to the FigJam API
 
-interface ExtractedNodeData {
-  id: string;
-  name: string;
-  type: string;
-  x: number;
-  y: number;
+/// <reference path="./model.d.ts" />
+
+interface ImageAsset {
+  bytes: Uint8Array;
   width: number;
   height: number;
-  rotation: number;
-  visible: boolean;
-  fills?: any[];
-  strokes?: any[];
-  strokeWeight?: number;
-  text?: string;
-  cornerRadius?: number;
-  shapeType?: string;
-  connectorStart?: any;
-  connectorEnd?: any;
-  children?: ExtractedNodeData[];
 }
 
+/** Problems with what the user asked to export, shown to them as they are */
+class ExportError extends Error {}
+
+/** Raised inside a running export once the user cancels it */
+class ExportCancelledError extends Error {}
+
+// Nodes extracted between pauses that let FigJam handle input and redraw
+const EXTRACTION_BATCH_SIZE = 100;
+
+// Only containers are extracted with their children; other nodes with children export as pictures
+const CONTAINER_TYPES = ['GROUP', 'FRAME', 'SECTION'];
+
+// Paint types extractFills keeps
+const SUPPORTED_PAINT_TYPES = ['SOLID', 'IMAGE', 'GRADIENT_LINEAR', 'GRADIENT_RADIAL', 'GRADIENT_ANGULAR', 'GRADIENT_DIAMOND'];
+
+// Client storage keys for the user's last settings and their presets
+const SETTINGS_KEY = 'settings';
+const PRESETS_KEY = 'presets';
+
+// Shared plugin data namespace for settings saved with the board
+const PLUGIN_DATA_NAMESPACE = 'figjam2pptx';
+
+// FigJam shapes imported rectangles, ellipses, polygons and stars become
+const IMPORTED_SHAPE_TYPES: { [type: string]: ShapeWithTextNode['shapeType'] } = {
+  RECTANGLE: 'SQUARE',
+  ELLIPSE: 'ELLIPSE',
+  STAR: 'STAR',
+  'polygon-3': 'TRIANGLE_UP',
+  'polygon-4': 'DIAMOND',
+  'polygon-5': 'PENTAGON',
+  'polygon-6': 'HEXAGON',
+  'polygon-8': 'OCTAGON'
+};
+
+// Font of imported text whose own font is not available
+const FALLBACK_FONT: FontName = { family: 'Inter', style: 'Regular' };
+
+/**
+ * Progress of the running export. Work pauses after every batch to keep
+ * FigJam responsive, reports progress to the UI, and stops with an
+ * ExportCancelledError once the export is cancelled.
+ */
+class ExportJob {
+  cancelled = false;
+  // What could not be extracted, sent to the UI with the nodes
+  readonly issues: FidelityIssueData[] = [];
+  private phase: 'nodes' | 'images' = 'nodes';
+  private processed = 0;
+  private total = 0;
+  private frame = '';
+  private streamed: StreamedNodeData[] = [];
+
+  start(phase: 'nodes' | 'images', total: number) {
+    this.phase = phase;
+    this.processed = 0;
+    this.total = total;
+    this.report();
+  }
+
+  /** Name the frame or page being worked on */
+  setFrame(name: string) {
+    this.frame = name;
+    this.report();
+  }
+
+  async advance(batchSize: number = EXTRACTION_BATCH_SIZE) {
+    this.throwIfCancelled();
+    this.processed++;
+    if (this.processed % batchSize === 0) {
+      this.flush();
+      this.report();
+      await new Promise(resolve => setTimeout(resolve, 0));
+      this.throwIfCancelled();
+    }
+  }
+
+  /** Queue an extracted node for the UI; its children are queued before it */
+  stream(data: ExtractedNodeData, parentId?: string) {
+    this.streamed.push({ node: 'children' in data ? { ...data, children: [] } : data, parentId });
+  }
+
+  /** Post the nodes queued since the last batch */
+  flush() {
+    if (this.streamed.length > 0) {
+      figma.ui.postMessage({ type: 'nodes', batch: this.streamed });
+      this.streamed = [];
+    }
+  }
+
+  /** Record an issue of a node, once per node and kind of issue */
+  addIssue(node: SceneNode, severity: FidelitySeverity, code: string, message: string) {
+    if (!this.issues.some(issue => issue.nodeId === node.id && issue.code === code)) {
+      this.issues.push({ nodeId: node.id, nodeName: node.name, severity, code, message, source: 'extraction' });
+    }
+  }
+
+  throwIfCancelled() {
+    if (this.cancelled) {
+      throw new ExportCancelledError('Export cancelled');
+    }
+  }
+
+  private report() {
+    figma.ui.postMessage({
+      type: 'progress',
+      phase: this.phase,
+      processed: this.processed,
+      total: this.total,
+      frame: this.frame
+    });
+  }
+}
+
+let activeJob: ExportJob | null = null;
+
 // Show UI when plugin runs
 figma.showUI(__html__, {
   width: 400,
-  height: 500,
+  height: 600,
   themeColors: true
 });
 
 // Handle messages from UI
-figma.ui.onmessage = (msg) => {
-  if (msg.type === 'process-selection') {
-    processSelection();
+figma.ui.onmessage = async (msg) => {
+  if (msg.type === 'export') {
+    await processExport(msg.scope || 'selection', msg.framePattern || '');
+  } else if (msg.type === 'cancel') {
+    if (activeJob) {
+      activeJob.cancelled = true;
+    }
+  } else if (msg.type === 'select-node') {
+    await selectNode(msg.id);
+  } else if (msg.type === 'load-settings') {
+    await loadSettings();
+  } else if (msg.type === 'save-settings') {
+    await saveSettings(msg.settings, msg.document);
+  } else if (msg.type === 'save-presets') {
+    await figma.clientStorage.setAsync(PRESETS_KEY, msg.presets);
+  } else if (msg.type === 'import') {
+    await importNodes(msg.nodes, msg.images || {}, msg.bounds);
+  } else if (msg.type === 'resize') {
+    figma.ui.resize(msg.width, msg.height);
   } else if (msg.type === 'close') {
     figma.closePlugin();
   }
 };
 
-function processSelection() {
-  const selection = figma.currentPage.selection;
-
-  if (selection.length === 0) {
-    figma.ui.postMessage({
-      type: 'error',
-      message: 'Please select at least one object to export'
-    });
+/**
+ * Extract the nodes of the scope and stream them to the UI: nodes batch by
+ * batch as they are extracted, then every image asset, then the page info
+ * once everything has been sent
+ */
+async function processExport(scope: ExportScope, framePattern: string) {
+  if (activeJob) {
     return;
   }
+  const job = new ExportJob();
+  activeJob = job;
 
   try {
-    const extractedData: ExtractedNodeData[] = [];
+    const extractedData = scope === 'all-pages'
+      ? await extractAllPages(job)
+      : await extractNodes(getExportRoots(scope, framePattern), job);
+
+    job.flush();
+
+    await sendImageAssets(extractedData, job);
+
+    // Exports spanning several pages are named after the file
+    const pageInfo: PageInfoData = scope === 'all-pages'
+      ? { id: figma.root.id, name: figma.root.name }
+      : { id: figma.currentPage.id, name: figma.currentPage.name };
+
+    figma.ui.postMessage({ type: 'data-ready', pageInfo, issues: job.issues });
+  } catch (error) {
+    if (error instanceof ExportCancelledError) {
+      figma.ui.postMessage({ type: 'cancelled' });
+    } else {
+      figma.ui.postMessage({
+        type: 'error',
+        message: error instanceof ExportError ? error.message : `Error exporting: ${error}`
+      });
+    }
+  } finally {
+    activeJob = null;
+  }
+}
+
+/**
+ * Send the UI the user's last settings, the settings saved with the board and
+ * the user's presets; the UI validates and completes them
+ */
+async function loadSettings() {
+  let documentSettings: unknown;
+  try {
+    const saved = figma.root.getSharedPluginData(PLUGIN_DATA_NAMESPACE, SETTINGS_KEY);
+    documentSettings = saved ? JSON.parse(saved) : undefined;
+  } catch (error) {
+    // Settings saved with the board by another version are ignored when unreadable
+    documentSettings = undefined;
+  }
+
+  figma.ui.postMessage({
+    type: 'settings',
+    user: await figma.clientStorage.getAsync(SETTINGS_KEY),
+    document: documentSettings,
+    presets: await figma.clientStorage.getAsync(PRESETS_KEY)
+  });
+}
+
+/**
+ * Remember the settings for the user, and with the board for everyone who
+ * exports it when asked to; otherwise any settings saved with the board are cleared
+ */
+async function saveSettings(settings: unknown, saveWithDocument: boolean) {
+  await figma.clientStorage.setAsync(SETTINGS_KEY, settings);
+  figma.root.setSharedPluginData(PLUGIN_DATA_NAMESPACE, SETTINGS_KEY, saveWithDocument ? JSON.stringify(settings) : '');
+}
+
+/**
+ * Select a node clicked in the export preview and bring it into view,
+ * switching to its page when it is on another one
+ */
+async function selectNode(id: string) {
+  const node = await figma.getNodeByIdAsync(id);
+  if (!node || node.type === 'DOCUMENT' || node.type === 'PAGE') {
+    return;
+  }
+
+  let page = node.parent;
+  while (page && page.type !== 'PAGE') {
+    page = page.parent;
+  }
+  if (page && page !== figma.currentPage) {
+    await figma.setCurrentPageAsync(page as PageNode);
+  }
+
+  figma.currentPage.selection = [node];
+  figma.viewport.scrollAndZoomIntoView([node]);
+}
+
+/**
+ * Top-level nodes of the current page to export for the given scope
+ */
+function getExportRoots(scope: ExportScope, framePattern: string): readonly SceneNode[] {
+  const page = figma.currentPage;
+
+  switch (scope) {
+    case 'page':
+      if (page.children.length === 0) {
+        throw new ExportError('The current page is empty');
+      }
+      return page.children;
 
-    for (const node of selection) {
-      const data = extractNodeData(node);
-      if (data) {
-        extractedData.push(data);
+    case 'frames': {
+      const frames = findFramesByName(page, framePattern);
+      if (frames.length === 0) {
+        throw new ExportError(`No frames or sections match "${framePattern}"`);
       }
+      return frames;
     }
 
-    // Send data to UI for clipboard handling
-    figma.ui.postMessage({
-      type: 'data-ready',
-      data: extractedData,
-      pageInfo: {
-        name: figma.currentPage.name,
-        width: figma.currentPage.width,
-        height: figma.currentPage.height
+    case 'selection':
+    default:
+      if (page.selection.length === 0) {
+        throw new ExportError('Please select at least one object to export');
       }
-    });
-  } catch (error) {
-    figma.ui.postMessage({
-      type: 'error',
-      message: `Error processing selection: ${error}`
-    });
+      return page.selection;
   }
 }
 
-function extractNodeData(node: SceneNode): ExtractedNodeData | null {
+async function extractNodes(
+  nodes: readonly SceneNode[],
+  job: ExportJob,
+  started: boolean = false,
+  pageId?: string
+): Promise<ExtractedNodeData[]> {
+  const extractedData: ExtractedNodeData[] = [];
+  if (!started) {
+    job.start('nodes', countNodes(nodes));
+  }
+
+  // Selection order reflects click order; export in layer order instead
+  for (const node of sortByLayerOrder(nodes)) {
+    if (node.type === 'FRAME' || node.type === 'SECTION') {
+      job.setFrame(node.name);
+    }
+    const data = await extractNodeData(node, job);
+    if (data) {
+      data.zIndex = extractedData.length;
+      extractedData.push(data);
+      job.stream(data, pageId);
+    }
+  }
+
+  return extractedData;
+}
+
+/**
+ * Extract every non-empty page of the file. With dynamic page loading, pages
+ * other than the current one must be loaded before their content is read.
+ */
+async function extractAllPages(job: ExportJob): Promise<PageNodeData[]> {
+  const pages: PageNodeData[] = [];
+
+  for (const page of figma.root.children) {
+    job.throwIfCancelled();
+    await page.loadAsync();
+  }
+  job.start('nodes', figma.root.children.reduce((total, page) => total + countNodes(page.children), 0));
+
+  for (const page of figma.root.children) {
+    if (page.children.length === 0) {
+      continue;
+    }
+
+    const bounds = getPageBounds(page.children);
+    const pageData: PageNodeData = {
+      id: page.id,
+      name: page.name,
+      type: 'PAGE',
+      x: bounds.x,
+      y: bounds.y,
+      width: bounds.width,
+      height: bounds.height,
+      rotation: 0,
+      visible: true,
+      children: await extractNodes(page.children, job, true, page.id)
+    };
+    pages.push(pageData);
+    job.stream(pageData);
+  }
+
+  if (pages.length === 0) {
+    throw new ExportError('The file has no content to export');
+  }
+  return pages;
+}
+
+/**
+ * Number of nodes extraction will visit, to report progress against
+ */
+function countNodes(nodes: readonly SceneNode[]): number {
+  return nodes.reduce((total, node) => total + 1 +
+    (CONTAINER_TYPES.includes(node.type) && 'children' in node ? countNodes(node.children) : 0), 0);
+}
+
+function getPageBounds(nodes: readonly SceneNode[]): Rect {
+  const boxes = nodes
+    .map(node => node.absoluteBoundingBox)
+    .filter((box): box is Rect => box !== null);
+  if (boxes.length === 0) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+
+  const minX = Math.min(...boxes.map(box => box.x));
+  const minY = Math.min(...boxes.map(box => box.y));
+  const maxX = Math.max(...boxes.map(box => box.x + box.width));
+  const maxY = Math.max(...boxes.map(box => box.y + box.height));
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Frames and sections whose names match the pattern, outermost matches only.
+ * Patterns are case-insensitive globs ("Slide *", "Step ?"), or regular
+ * expressions written as /.../.
+ */
+function findFramesByName(page: PageNode, pattern: string): SceneNode[] {
+  const matcher = createNameMatcher(pattern);
+  const frames = page.findAllWithCriteria({ types: ['FRAME', 'SECTION'] })
+    .filter(frame => matcher(frame.name));
+  const ids = new Set(frames.map(frame => frame.id));
+
+  const hasMatchingAncestor = (node: BaseNode) => {
+    for (let parent = node.parent; parent && parent.type !== 'PAGE'; parent = parent.parent) {
+      if (ids.has(parent.id)) {
+        return true;
+      }
+    }
+    return false;
+  };
+
+  return frames.filter(frame => !hasMatchingAncestor(frame));
+}
+
+function createNameMatcher(pattern: string): (name: string) => boolean {
+  const trimmed = pattern.trim();
+  if (!trimmed) {
+    throw new ExportError('Enter a frame name pattern, e.g. "Slide *"');
+  }
+
+  const regex = /^\/(.+)\/([a-z]*)$/.exec(trimmed);
+  if (regex) {
+    try {
+      const expression = new RegExp(regex[1], regex[2].replace('g', ''));
+      return name => expression.test(name);
+    } catch (error) {
+      throw new ExportError(`Invalid frame name pattern: ${(error as Error).message}`);
+    }
+  }
+
+  const glob = trimmed
+    .split('')
+    .map(char => char === '*' ? '.*' : char === '?' ? '.' : char.replace(/[.+^${}()|[\]\\]/g, '\\$&'))
+    .join('');
+  const expression = new RegExp(`^${glob}$`, 'i');
+  return name => expression.test(name.trim());
+}
+
+function sortByLayerOrder(nodes: readonly SceneNode[]): SceneNode[] {
+  // Path of child indices from the page down to the node, bottom-most layer first
+  const layerPath = (node: BaseNode): number[] => {
+    const path: number[] = [];
+    let current: BaseNode = node;
+    while (current.parent && current.type !== 'PAGE') {
+      path.unshift(current.parent.children.indexOf(current as SceneNode));
+      current = current.parent;
+    }
+    return path;
+  };
+
+  const paths = new Map(nodes.map(node => [node.id, layerPath(node)]));
+
+  return [...nodes].sort((a, b) => {
+    const pathA = paths.get(a.id)!;
+    const pathB = paths.get(b.id)!;
+    for (let i = 0; i < Math.min(pathA.length, pathB.length); i++) {
+      if (pathA[i] !== pathB[i]) {
+        return pathA[i] - pathB[i];
+      }
+    }
+    return pathA.length - pathB.length;
+  });
+}
+
+// Exported coordinates of top-level nodes are page coordinates
+const IDENTITY_TRANSFORM: Transform = [[1, 0, 0], [0, 1, 0]];
+
+/**
+ * Extract a node, expressing its geometry in the given coordinate space
+ * (the absolute transform of the space its exported parent positions it in)
+ */
+async function extractNodeData(
+  node: SceneNode,
+  job: ExportJob,
+  space: Transform = IDENTITY_TRANSFORM
+): Promise<ExtractedNodeData | null> {
+  await job.advance();
+  const transform = multiplyTransforms(invertTransform(space), node.absoluteTransform);
+
   // Base properties common to all nodes
-  const baseData: ExtractedNodeData = {
+  const baseData: BaseNodeData = {
     id: node.id,
     name: node.name,
-    type: node.type,
-    x: node.x,
-    y: node.y,
+    x: transform[0][2],
+    y: transform[1][2],
     width: 'width' in node ? node.width : 0,
     height: 'height' in node ? node.height : 0,
     rotation: 'rotation' in node ? node.rotation : 0,
-    visible: node.visible
+    transform,
+    visible: node.visible,
+    ...(node.locked ? { locked: true } : {}),
+    ...extractAppearance(node)
   };
+  reportSkippedPaints(node, job);
 
   // Extract type-specific properties
   switch (node.type) {
@@ -112,161 +496,1212 @@ function extractNodeData(node: SceneNode): ExtractedNodeData | null {
       return extractTextData(node as TextNode, baseData);
 
     case 'CONNECTOR':
-      return extractConnectorData(node as ConnectorNode, baseData);
+      return await extractConnectorData(node as ConnectorNode, baseData, space);
 
     case 'GROUP':
     case 'FRAME':
-      return extractContainerData(node as GroupNode | FrameNode, baseData);
+    case 'SECTION':
+      return await extractContainerData(node as GroupNode | FrameNode | SectionNode, baseData, job, space);
+
+    case 'LINE':
+      return extractLineData(node as LineNode, baseData);
+
+    case 'VECTOR':
+    case 'HIGHLIGHT':
+      return extractVectorData(node as VectorNode | HighlightNode, baseData);
+
+    case 'STAR':
+      return extractStarData(node as StarNode, baseData);
+
+    case 'TABLE':
+      return extractTableData(node as TableNode, baseData);
+
+    case 'CODE_BLOCK':
+      return extractCodeBlockData(node as CodeBlockNode, baseData);
 
+    case 'WIDGET':
+    case 'EMBED':
+    case 'LINK_UNFURL':
+    case 'MEDIA':
+      return extractEmbedData(node as WidgetNode | EmbedNode | LinkUnfurlNode | MediaNode, baseData);
+
+    // Stamps are drawn glyphs and export as pictures like other unsupported types
+    case 'STAMP':
     default:
-      // For unsupported types, return base data
-      console.log(`Unsupported node type: ${node.type}`);
-      return baseData;
+      // Render unsupported types as a picture so nothing disappears from the slide;
+      // the fidelity report lists them
+      return {
+        ...baseData,
+        type: node.type as OtherNodeData['type'],
+        fallbackImage: `node:${node.id}`
+      };
   }
 }
 
-function extractRectangleData(rect: RectangleNode, baseData: ExtractedNodeData): ExtractedNodeData {
+function extractRectangleData(rect: RectangleNode, baseData: BaseNodeData): ShapeNodeData {
   return {
     ...baseData,
+    type: rect.type,
     cornerRadius: rect.cornerRadius as number,
     fills: extractFills(rect.fills),
     strokes: extractStrokes(rect.strokes),
-    strokeWeight: rect.strokeWeight
+    strokeWeight: rect.strokeWeight as number,
+    ...extractStrokeStyle(rect)
   };
 }
 
-function extractEllipseData(ellipse: EllipseNode, baseData: ExtractedNodeData): ExtractedNodeData {
+function extractEllipseData(ellipse: EllipseNode, baseData: BaseNodeData): ShapeNodeData {
   return {
     ...baseData,
+    type: ellipse.type,
     fills: extractFills(ellipse.fills),
     strokes: extractStrokes(ellipse.strokes),
-    strokeWeight: ellipse.strokeWeight
+    strokeWeight: ellipse.strokeWeight as number,
+    ...extractStrokeStyle(ellipse)
   };
 }
 
-function extractPolygonData(polygon: PolygonNode, baseData: ExtractedNodeData): ExtractedNodeData {
+function extractPolygonData(polygon: PolygonNode, baseData: BaseNodeData): ShapeNodeData {
   return {
     ...baseData,
+    type: polygon.type,
     fills: extractFills(polygon.fills),
     strokes: extractStrokes(polygon.strokes),
-    strokeWeight: polygon.strokeWeight,
+    strokeWeight: polygon.strokeWeight as number,
+    ...extractStrokeStyle(polygon),
     shapeType: `polygon-${polygon.pointCount}`
   };
 }
 
-function extractShapeWithTextData(shape: ShapeWithTextNode, baseData: ExtractedNodeData): ExtractedNodeData {
+function extractShapeWithTextData(shape: ShapeWithTextNode, baseData: BaseNodeData): ShapeWithTextNodeData {
   return {
     ...baseData,
+    type: shape.type,
     shapeType: shape.shapeType,
+    cornerRadius: shape.cornerRadius,
     fills: extractFills(shape.fills),
     strokes: extractStrokes(shape.strokes),
-    text: extractTextContent(shape.text)
+    strokeWeight: shape.strokeWeight as number,
+    ...extractStrokeStyle(shape),
+    text: extractTextContent(shape.text),
+    textParagraphs: extractTextParagraphs(shape.text)
   };
 }
 
-function extractStickyData(sticky: StickyNode, baseData: ExtractedNodeData): ExtractedNodeData {
+function extractStickyData(sticky: StickyNode, baseData: BaseNodeData): StickyNodeData {
   return {
     ...baseData,
+    type: sticky.type,
     fills: extractFills(sticky.fills),
-    text: extractTextContent(sticky.text)
+    text: extractTextContent(sticky.text),
+    textParagraphs: extractTextParagraphs(sticky.text),
+    isWideWidth: sticky.isWideWidth,
+    authorName: sticky.authorName,
+    authorVisible: sticky.authorVisible
   };
 }
 
-function extractTextData(textNode: TextNode, baseData: ExtractedNodeData): ExtractedNodeData {
+function extractTextData(textNode: TextNode, baseData: BaseNodeData): TextNodeData {
   return {
     ...baseData,
+    type: textNode.type,
     text: textNode.characters,
+    textParagraphs: extractTextParagraphs(textNode),
+    textAlignHorizontal: textNode.textAlignHorizontal,
+    textAlignVertical: textNode.textAlignVertical,
+    fontName: textNode.fontName !== figma.mixed
+      ? { family: textNode.fontName.family, style: textNode.fontName.style }
+      : undefined,
+    fontSize: textNode.fontSize !== figma.mixed ? textNode.fontSize : undefined,
+    textAutoResize: textNode.textAutoResize,
     fills: extractFills(textNode.fills)
   };
 }
 
-function extractConnectorData(connector: ConnectorNode, baseData: ExtractedNodeData): ExtractedNodeData {
+function extractLineData(line: LineNode, baseData: BaseNodeData): LineNodeData {
   return {
     ...baseData,
-    strokes: extractStrokes(connector.strokes),
-    strokeWeight: connector.strokeWeight,
-    connectorStart: {
-      x: connector.connectorStart.position?.x || 0,
-      y: connector.connectorStart.position?.y || 0,
-      endpointNodeId: connector.connectorStart.endpointNodeId
-    },
-    connectorEnd: {
-      x: connector.connectorEnd.position?.x || 0,
-      y: connector.connectorEnd.position?.y || 0,
-      endpointNodeId: connector.connectorEnd.endpointNodeId
+    type: line.type,
+    strokes: extractStrokes(line.strokes),
+    strokeWeight: line.strokeWeight as number,
+    ...extractStrokeStyle(line)
+  };
+}
+
+function extractVectorData(vector: VectorNode | HighlightNode, baseData: BaseNodeData): VectorNodeData {
+  return {
+    ...baseData,
+    type: vector.type,
+    fills: extractFills(vector.fills),
+    strokes: extractStrokes(vector.strokes),
+    strokeWeight: vector.strokeWeight as number,
+    ...extractStrokeStyle(vector),
+    vectorPaths: vector.vectorPaths.map(path => ({ windingRule: path.windingRule, data: path.data }))
+  };
+}
+
+function extractStarData(star: StarNode, baseData: BaseNodeData): StarNodeData {
+  return {
+    ...baseData,
+    type: star.type,
+    fills: extractFills(star.fills),
+    strokes: extractStrokes(star.strokes),
+    strokeWeight: star.strokeWeight as number,
+    ...extractStrokeStyle(star),
+    pointCount: star.pointCount,
+    innerRadius: star.innerRadius
+  };
+}
+
+/**
+ * The plugin API does not expose merged cells, so every cell is exported
+ * with the default span of one
+ */
+function extractTableData(table: TableNode, baseData: BaseNodeData): TableNodeData {
+  const cells: TableCellData[][] = [];
+  const columnWidths: number[] = [];
+  const rowHeights: number[] = [];
+
+  for (let row = 0; row < table.numRows; row++) {
+    const rowCells: TableCellData[] = [];
+    for (let column = 0; column < table.numColumns; column++) {
+      const cell = table.cellAt(row, column);
+      rowCells.push({
+        text: extractTextContent(cell.text),
+        textParagraphs: extractTextParagraphs(cell.text),
+        fills: extractFills(cell.fills)
+      });
+      if (row === 0) {
+        columnWidths.push(cell.width);
+      }
+      if (column === 0) {
+        rowHeights.push(cell.height);
+      }
     }
+    cells.push(rowCells);
+  }
+
+  return {
+    ...baseData,
+    type: table.type,
+    fills: extractFills(table.fills),
+    columnWidths,
+    rowHeights,
+    cells
   };
 }
 
-function extractContainerData(container: GroupNode | FrameNode, baseData: ExtractedNodeData): ExtractedNodeData {
+function extractCodeBlockData(codeBlock: CodeBlockNode, baseData: BaseNodeData): CodeBlockNodeData {
+  return {
+    ...baseData,
+    type: codeBlock.type,
+    code: codeBlock.code,
+    codeLanguage: codeBlock.codeLanguage
+  };
+}
+
+/**
+ * Widgets, embeds, link previews and media are rendered as pictures; the
+ * converter links them to their URL or falls back to a titled placeholder
+ */
+function extractEmbedData(
+  node: WidgetNode | EmbedNode | LinkUnfurlNode | MediaNode,
+  baseData: BaseNodeData
+): EmbedNodeData {
+  const embedData: EmbedNodeData = {
+    ...baseData,
+    type: node.type,
+    title: node.name,
+    fallbackImage: `node:${node.id}`
+  };
+
+  if (node.type === 'EMBED') {
+    const data = node.embedData;
+    embedData.title = data.title || node.name;
+    embedData.url = data.canonicalUrl || data.srcUrl;
+    embedData.description = data.description || undefined;
+    embedData.provider = data.provider || undefined;
+  } else if (node.type === 'LINK_UNFURL') {
+    const data = node.linkUnfurlData;
+    embedData.title = data.title || data.url;
+    embedData.url = data.url;
+    embedData.description = data.description || undefined;
+    embedData.provider = data.provider || undefined;
+  }
+
+  return embedData;
+}
+
+async function extractConnectorData(
+  connector: ConnectorNode,
+  baseData: BaseNodeData,
+  space: Transform
+): Promise<ConnectorNodeData> {
+  const connectorStart = await extractConnectorEndpoint(connector, connector.connectorStart, connector.connectorStartStrokeCap);
+  const connectorEnd = await extractConnectorEndpoint(connector, connector.connectorEnd, connector.connectorEndStrokeCap);
+
+  // Auto magnets attach to whichever side faces the opposite endpoint
+  resolveAutoMagnet(connectorStart, connectorEnd);
+  resolveAutoMagnet(connectorEnd, connectorStart);
+
+  return {
+    ...baseData,
+    type: connector.type,
+    strokes: extractStrokes(connector.strokes),
+    strokeWeight: connector.strokeWeight as number,
+    ...extractStrokeStyle(connector),
+    text: extractTextContent(connector.text) || undefined,
+    textParagraphs: extractTextParagraphs(connector.text),
+    connectorLineType: connector.connectorLineType,
+    connectorStart: toEndpointData(connectorStart, space),
+    connectorEnd: toEndpointData(connectorEnd, space)
+  };
+}
+
+// Endpoints are resolved in page coordinates, then converted to the export space
+interface ResolvedConnectorEndpoint extends ConnectorEndpointData {
+  nodeBounds?: Rect;
+  autoMagnet?: boolean;
+}
+
+async function extractConnectorEndpoint(
+  connector: ConnectorNode,
+  endpoint: ConnectorEndpoint,
+  strokeCap: ConnectorStrokeCap
+): Promise<ResolvedConnectorEndpoint> {
+  const data: ResolvedConnectorEndpoint = { x: 0, y: 0, strokeCap };
+
+  if ('position' in endpoint) {
+    Object.assign(data, applyTransform(getCoordinateSpace(connector), endpoint.position.x, endpoint.position.y));
+  }
+
+  if (!('endpointNodeId' in endpoint)) {
+    return data;
+  }
+
+  data.endpointNodeId = endpoint.endpointNodeId;
+
+  const target = await figma.getNodeByIdAsync(endpoint.endpointNodeId);
+  const targetBounds = target && 'absoluteBoundingBox' in target ? target.absoluteBoundingBox : null;
+  if (!targetBounds) {
+    return data;
+  }
+
+  const bounds: Rect = targetBounds;
+  data.nodeBounds = bounds;
+
+  if ('magnet' in endpoint && endpoint.magnet !== 'AUTO' && endpoint.magnet !== 'NONE') {
+    data.magnet = endpoint.magnet;
+    Object.assign(data, getMagnetPosition(bounds, endpoint.magnet));
+  } else if ('position' in endpoint) {
+    data.magnet = getNearestSide(bounds, data.x, data.y);
+  } else {
+    data.autoMagnet = true;
+  }
+
+  return data;
+}
+
+function resolveAutoMagnet(endpoint: ResolvedConnectorEndpoint, opposite: ResolvedConnectorEndpoint) {
+  const bounds = endpoint.nodeBounds;
+  if (bounds && endpoint.autoMagnet) {
+    const target = opposite.nodeBounds
+      ? { x: opposite.nodeBounds.x + opposite.nodeBounds.width / 2, y: opposite.nodeBounds.y + opposite.nodeBounds.height / 2 }
+      : { x: opposite.x, y: opposite.y };
+    const dx = target.x - (bounds.x + bounds.width / 2);
+    const dy = target.y - (bounds.y + bounds.height / 2);
+    const side: ConnectorSide = Math.abs(dx) * bounds.height >= Math.abs(dy) * bounds.width
+      ? (dx >= 0 ? 'RIGHT' : 'LEFT')
+      : (dy >= 0 ? 'BOTTOM' : 'TOP');
+    endpoint.magnet = side;
+    Object.assign(endpoint, getMagnetPosition(bounds, side));
+  }
+}
+
+function toEndpointData(endpoint: ResolvedConnectorEndpoint, space: Transform): ConnectorEndpointData {
+  const position = applyTransform(invertTransform(space), endpoint.x, endpoint.y);
+  return {
+    x: position.x,
+    y: position.y,
+    endpointNodeId: endpoint.endpointNodeId,
+    magnet: endpoint.magnet,
+    strokeCap: endpoint.strokeCap
+  };
+}
+
+function getMagnetPosition(bounds: Rect, side: ConnectorSide): { x: number; y: number } {
+  switch (side) {
+    case 'TOP':
+      return { x: bounds.x + bounds.width / 2, y: bounds.y };
+    case 'BOTTOM':
+      return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height };
+    case 'LEFT':
+      return { x: bounds.x, y: bounds.y + bounds.height / 2 };
+    case 'RIGHT':
+      return { x: bounds.x + bounds.width, y: bounds.y + bounds.height / 2 };
+    default:
+      return { x: bounds.x + bounds.width / 2, y: bounds.y + bounds.height / 2 };
+  }
+}
+
+function getNearestSide(bounds: Rect, x: number, y: number): ConnectorSide {
+  const distances: [ConnectorSide, number][] = [
+    ['TOP', Math.abs(y - bounds.y)],
+    ['BOTTOM', Math.abs(y - (bounds.y + bounds.height))],
+    ['LEFT', Math.abs(x - bounds.x)],
+    ['RIGHT', Math.abs(x - (bounds.x + bounds.width))]
+  ];
+  return distances.sort((a, b) => a[1] - b[1])[0][0];
+}
+
+function getCoordinateSpace(node: SceneNode): Transform {
+  // Groups do not define a coordinate space; x/y are relative to the nearest non-group ancestor
+  let parent = node.parent;
+  while (parent && parent.type === 'GROUP') {
+    parent = parent.parent;
+  }
+  if (parent && 'absoluteTransform' in parent) {
+    return parent.absoluteTransform;
+  }
+  return IDENTITY_TRANSFORM;
+}
+
+function multiplyTransforms(a: Transform, b: Transform): Transform {
+  return [
+    [
+      a[0][0] * b[0][0] + a[0][1] * b[1][0],
+      a[0][0] * b[0][1] + a[0][1] * b[1][1],
+      a[0][0] * b[0][2] + a[0][1] * b[1][2] + a[0][2]
+    ],
+    [
+      a[1][0] * b[0][0] + a[1][1] * b[1][0],
+      a[1][0] * b[0][1] + a[1][1] * b[1][1],
+      a[1][0] * b[0][2] + a[1][1] * b[1][2] + a[1][2]
+    ]
+  ];
+}
+
+function invertTransform(t: Transform): Transform {
+  const determinant = t[0][0] * t[1][1] - t[0][1] * t[1][0];
+  const a = t[1][1] / determinant;
+  const b = -t[0][1] / determinant;
+  const c = -t[1][0] / determinant;
+  const d = t[0][0] / determinant;
+  return [
+    [a, b, -(a * t[0][2] + b * t[1][2])],
+    [c, d, -(c * t[0][2] + d * t[1][2])]
+  ];
+}
+
+function applyTransform(t: Transform, x: number, y: number): { x: number; y: number } {
+  return {
+    x: t[0][0] * x + t[0][1] * y + t[0][2],
+    y: t[1][0] * x + t[1][1] * y + t[1][2]
+  };
+}
+
+async function extractContainerData(
+  container: GroupNode | FrameNode | SectionNode,
+  baseData: BaseNodeData,
+  job: ExportJob,
+  space: Transform
+): Promise<ContainerNodeData> {
   const children: ExtractedNodeData[] = [];
 
+  // Frames and sections position their children locally; groups are not a
+  // coordinate space, so their children share the group's own space
+  const childSpace = container.type === 'GROUP' ? space : container.absoluteTransform;
+
   for (const child of container.children) {
-    const childData = extractNodeData(child);
+    const childData = await extractNodeData(child, job, childSpace);
     if (childData) {
+      // Children are listed bottom-most first
+      childData.zIndex = children.length;
       children.push(childData);
+      job.stream(childData, container.id);
     }
   }
 
-  return {
+  const containerData: ContainerNodeData = {
     ...baseData,
+    type: container.type,
     children
   };
+
+  // Frames and sections have their own background paint, groups do not
+  if (container.type === 'FRAME' || container.type === 'SECTION') {
+    Object.assign(containerData, {
+      fills: extractFills(container.fills),
+      strokes: extractStrokes(container.strokes),
+      strokeWeight: container.strokeWeight as number,
+      ...extractStrokeStyle(container)
+    });
+  }
+
+  return containerData;
 }
 
-function extractTextContent(textNode: TextNode): string {
+function extractTextContent(textNode: TextNode | TextSublayerNode): string {
   return textNode.characters;
 }
 
-function extractFills(fills: readonly Paint[] | typeof figma.mixed): any[] {
-  if (fills === figma.mixed || !fills) {
-    return [];
-  }
+function extractTextParagraphs(textNode: TextNode | TextSublayerNode): TextParagraphData[] {
+  const segments = textNode.getStyledTextSegments([
+    'fontName',
+    'fontSize',
+    'fontWeight',
+    'textDecoration',
+    'fills',
+    'hyperlink',
+    'listOptions',
+    'indentation'
+  ]);
 
-  return Array.from(fills)
-    .filter(fill => fill.visible !== false)
-    .map(fill => {
-      if (fill.type === 'SOLID') {
-        return {
-          type: 'solid',
-          color: {
-            r: Math.round(fill.color.r * 255),
-            g: Math.round(fill.color.g * 255),
-            b: Math.round(fill.color.b * 255)
-          },
-          opacity: fill.opacity !== undefined ? fill.opacity : 1
-        };
-      } else if (fill.type === 'IMAGE') {
-        return {
-          type: 'image',
-          imageHash: fill.imageHash,
-          scaleMode: fill.scaleMode,
-          opacity: fill.opacity !== undefined ? fill.opacity : 1
-        };
-      } else if (fill.type.startsWith('GRADIENT')) {
-        return {
-          type: 'gradient',
-          gradientType: fill.type,
-          gradientStops: fill.gradientStops.map(stop => ({
-            position: stop.position,
-            color: {
-              r: Math.round(stop.color.r * 255),
-              g: Math.round(stop.color.g * 255),
-              b: Math.round(stop.color.b * 255),
-              a: stop.color.a
-            }
-          })),
-          opacity: fill.opacity !== undefined ? fill.opacity : 1
+  const paragraphs: TextParagraphData[] = [];
+  let current: TextParagraphData | null = null;
+
+  for (const segment of segments) {
+    // Segments may span several paragraphs; every newline closes one
+    const lines = segment.characters.split('\n');
+
+    lines.forEach((line, index) => {
+      if (!current) {
+        current = {
+          runs: [],
+          listType: segment.listOptions.type !== 'NONE' ? segment.listOptions.type : undefined,
+          indentation: segment.indentation
         };
+        paragraphs.push(current);
+      }
+
+      if (line.length > 0) {
+        const fill = segment.fills.find(paint => paint.type === 'SOLID' && paint.visible !== false) as SolidPaint | undefined;
+        current.runs.push({
+          text: line,
+          fontFamily: segment.fontName.family,
+          fontStyle: segment.fontName.style,
+          fontSize: segment.fontSize,
+          bold: segment.fontWeight >= 600,
+          italic: /italic|oblique/i.test(segment.fontName.style),
+          underline: segment.textDecoration === 'UNDERLINE',
+          strikethrough: segment.textDecoration === 'STRIKETHROUGH',
+          color: fill ? toRGB255(fill.color) : undefined,
+          opacity: fill ? (fill.opacity !== undefined ? fill.opacity : 1) : undefined,
+          hyperlink: segment.hyperlink && segment.hyperlink.type === 'URL' ? segment.hyperlink.value : undefined
+        });
+      }
+
+      if (index < lines.length - 1) {
+        current = null;
       }
-      return { type: 'unknown' };
     });
+  }
+
+  return paragraphs;
+}
+
+/**
+ * Opacity, blend mode and visible effects of a node, omitting the defaults
+ */
+function extractAppearance(node: SceneNode): Pick<BaseNodeData, 'opacity' | 'blendMode' | 'effects'> {
+  const appearance: Pick<BaseNodeData, 'opacity' | 'blendMode' | 'effects'> = {};
+
+  if ('opacity' in node && node.opacity < 1) {
+    appearance.opacity = node.opacity;
+  }
+  if ('blendMode' in node && node.blendMode !== 'PASS_THROUGH' && node.blendMode !== 'NORMAL') {
+    appearance.blendMode = node.blendMode;
+  }
+  if ('effects' in node) {
+    const effects = extractEffects(node.effects);
+    if (effects.length > 0) {
+      appearance.effects = effects;
+    }
+  }
+
+  return appearance;
+}
+
+function extractEffects(effects: readonly Effect[]): EffectData[] {
+  const result: EffectData[] = [];
+
+  for (const effect of effects) {
+    if (!effect.visible) {
+      continue;
+    }
+
+    if (effect.type === 'DROP_SHADOW' || effect.type === 'INNER_SHADOW') {
+      result.push({
+        type: effect.type,
+        radius: effect.radius,
+        color: toRGB255(effect.color),
+        opacity: effect.color.a,
+        offset: { x: effect.offset.x, y: effect.offset.y },
+        spread: effect.spread || 0
+      });
+    } else if (effect.type === 'LAYER_BLUR' || effect.type === 'BACKGROUND_BLUR') {
+      result.push({ type: effect.type, radius: effect.radius });
+    }
+  }
+
+  return result;
+}
+
+function extractStrokeStyle(node: MinimalStrokesMixin & { strokeCap?: StrokeCap | typeof figma.mixed }): StrokeStyleData {
+  const style: StrokeStyleData = { strokeAlign: node.strokeAlign };
+
+  if (node.dashPattern.length > 0) {
+    style.dashPattern = [...node.dashPattern];
+  }
+  if (node.strokeJoin !== figma.mixed) {
+    style.strokeJoin = node.strokeJoin;
+  }
+  if (node.strokeCap !== undefined && node.strokeCap !== figma.mixed) {
+    style.strokeCap = node.strokeCap;
+  }
+
+  return style;
+}
+
+function toRGB255(color: RGB): ColorData {
+  return {
+    r: Math.round(color.r * 255),
+    g: Math.round(color.g * 255),
+    b: Math.round(color.b * 255)
+  };
+}
+
+/**
+ * Post every image the converter needs to the UI, one message per image:
+ * the bytes of image fills and renderings of nodes exported as pictures
+ */
+async function sendImageAssets(nodes: ExtractedNodeData[], job: ExportJob): Promise<void> {
+  const requests = new Map<string, ExtractedNodeData>();
+
+  const visit = (node: ExtractedNodeData) => {
+    for (const fill of ('fills' in node && node.fills) || []) {
+      if (fill.type === 'image' && fill.imageHash && !requests.has(fill.imageHash)) {
+        requests.set(fill.imageHash, node);
+      }
+    }
+    if (node.fallbackImage && !requests.has(node.fallbackImage)) {
+      requests.set(node.fallbackImage, node);
+    }
+    for (const child of ('children' in node && node.children) || []) {
+      visit(child);
+    }
+  };
+  nodes.forEach(visit);
+
+  job.start('images', requests.size);
+  for (const [key, node] of requests) {
+    const image = key === node.fallbackImage ? await renderNode(node, job) : await loadImage(key);
+    if (image) {
+      figma.ui.postMessage({ type: 'image', key, image });
+    }
+    await job.advance(1);
+  }
+}
+
+async function loadImage(imageHash: string): Promise<ImageAsset | null> {
+  const image = figma.getImageByHash(imageHash);
+  if (!image) {
+    return null;
+  }
+  const size = await image.getSizeAsync();
+  return { bytes: await image.getBytesAsync(), ...size };
+}
+
+async function renderNode(node: ExtractedNodeData, job: ExportJob): Promise<ImageAsset | null> {
+  const source = await figma.getNodeByIdAsync(node.id);
+  if (!source || !('exportAsync' in source)) {
+    return null;
+  }
+
+  try {
+    // Render at 2x so the picture stays sharp when the slide is scaled up
+    const bytes = await source.exportAsync({ format: 'PNG', constraint: { type: 'SCALE', value: 2 } });
+    return { bytes, width: node.width * 2, height: node.height * 2 };
+  } catch (error) {
+    // Embeds and media may not render; the converter draws a placeholder instead
+    job.addIssue(source as SceneNode, 'warning', 'render-failed', `Could not be rendered as a picture: ${error}`);
+    return null;
+  }
 }
 
-function extractStrokes(strokes: readonly Paint[] | typeof figma.mixed): any[] {
+/**
+ * Video, pattern and shader paints have no PowerPoint equivalent and are left out
+ */
+function reportSkippedPaints(node: SceneNode, job: ExportJob) {
+  const paints: Paint[] = [
+    ...('fills' in node && node.fills !== figma.mixed ? node.fills : []),
+    ...('strokes' in node ? node.strokes : [])
+  ];
+  const skipped = paints.filter(paint => paint.visible !== false && !SUPPORTED_PAINT_TYPES.includes(paint.type));
+
+  if (skipped.length > 0) {
+    const types = Array.from(new Set(skipped.map(paint => paint.type.toLowerCase()))).join(' and ');
+    job.addIssue(node, 'error', 'paint-skipped', `Left out ${types} paint; PowerPoint has no equivalent`);
+  }
+}
+
+function extractFills(fills: readonly Paint[] | typeof figma.mixed): PaintData[] {
+  if (fills === figma.mixed || !fills) {
+    return [];
+  }
+
+  const paints: PaintData[] = [];
+
+  for (const fill of fills) {
+    if (fill.visible === false) {
+      continue;
+    }
+
+    const opacity = fill.opacity !== undefined ? fill.opacity : 1;
+
+    if (fill.type === 'SOLID') {
+      paints.push({ type: 'solid', color: toRGB255(fill.color), opacity });
+    } else if (fill.type === 'IMAGE') {
+      paints.push({
+        type: 'image',
+        imageHash: fill.imageHash,
+        scaleMode: fill.scaleMode,
+        imageTransform: fill.imageTransform,
+        scalingFactor: fill.scalingFactor,
+        opacity
+      });
+    } else if (
+      fill.type === 'GRADIENT_LINEAR' ||
+      fill.type === 'GRADIENT_RADIAL' ||
+      fill.type === 'GRADIENT_ANGULAR' ||
+      fill.type === 'GRADIENT_DIAMOND'
+    ) {
+      paints.push({
+        type: 'gradient',
+        gradientType: fill.type,
+        gradientStops: fill.gradientStops.map(stop => ({
+          position: stop.position,
+          color: { ...toRGB255(stop.color), a: stop.color.a }
+        })),
+        gradientTransform: fill.gradientTransform,
+        opacity
+      });
+    }
+    // Video and pattern paints have no PowerPoint equivalent
+  }
+
+  return paints;
+}
+
+function extractStrokes(strokes: readonly Paint[] | typeof figma.mixed): PaintData[] {
   // Same logic as fills
   return extractFills(strokes);
 }
 
 // Initialize plugin
 console.log('FigJam to PowerPoint plugin loaded');
+
+/**
+ * Nodes being imported. Connectors are created once every node they may
+ * attach to exists, and images once however many nodes use them.
+ */
+interface ImportJob {
+  images: { [key: string]: Uint8Array };
+  imageHashes: Map<string, string | null>;
+  // Created nodes by the id they were exported or read with
+  created: Map<string, SceneNode>;
+  connectors: { data: ConnectorNodeData; parent: BaseNode & ChildrenMixin; offset: Vector }[];
+  unavailableFonts: Set<string>;
+  count: number;
+  skipped: number;
+}
+
+/**
+ * Recreate exported or imported nodes on the current page, centered in the
+ * viewport, and select them. Image fills refer to the given image bytes by
+ * key, or to images already in the file by hash.
+ */
+async function importNodes(nodes: ExtractedNodeData[], images: { [key: string]: Uint8Array }, bounds: Rect) {
+  const job: ImportJob = {
+    images,
+    imageHashes: new Map(),
+    created: new Map(),
+    connectors: [],
+    unavailableFonts: new Set(),
+    count: 0,
+    skipped: 0
+  };
+  const center = figma.viewport.center;
+  const offset = { x: center.x - (bounds.x + bounds.width / 2), y: center.y - (bounds.y + bounds.height / 2) };
+
+  try {
+    const topLevel: SceneNode[] = [];
+    for (const data of nodes) {
+      const node = await createNode(data, figma.currentPage, offset, job);
+      if (node) {
+        topLevel.push(node);
+      }
+    }
+
+    for (const { data, parent, offset: connectorOffset } of job.connectors) {
+      const connector = await createConnector(data, parent, connectorOffset, job);
+      if (parent === figma.currentPage) {
+        topLevel.push(connector);
+      }
+    }
+
+    figma.currentPage.selection = topLevel;
+    if (topLevel.length > 0) {
+      figma.viewport.scrollAndZoomIntoView(topLevel);
+    }
+    figma.ui.postMessage({ type: 'import-complete', count: job.count, skipped: job.skipped });
+  } catch (error) {
+    figma.ui.postMessage({ type: 'error', message: `Error importing: ${error}` });
+  }
+}
+
+/**
+ * Create a node and its children in the given parent, moved by the offset.
+ * Connectors are deferred; content FigJam cannot create is skipped.
+ */
+async function createNode(
+  data: ExtractedNodeData,
+  parent: BaseNode & ChildrenMixin,
+  offset: Vector,
+  job: ImportJob
+): Promise<SceneNode | null> {
+  let node: SceneNode;
+
+  switch (data.type) {
+    case 'FRAME': {
+      const frame = figma.createFrame();
+      parent.appendChild(frame);
+      frame.resize(Math.max(data.width, 0.01), Math.max(data.height, 0.01));
+      frame.fills = toPaints(data.fills || [], job);
+      applyStrokes(frame, data);
+      await createChildren(data.children, frame, { x: 0, y: 0 }, job);
+      node = frame;
+      break;
+    }
+
+    case 'SECTION':
+    case 'PAGE': {
+      // Pages of a multi-page export become sections; their children are in page coordinates
+      const section = figma.createSection();
+      parent.appendChild(section);
+      section.resizeWithoutConstraints(Math.max(data.width, 1), Math.max(data.height, 1));
+      if (data.type === 'SECTION') {
+        section.fills = toPaints(data.fills || [], job);
+      }
+      await createChildren(data.children, section, data.type === 'PAGE' ? { x: -data.x, y: -data.y } : { x: 0, y: 0 }, job);
+      node = section;
+      break;
+    }
+
+    case 'GROUP': {
+      // Group children share the group's coordinate space, so they are created in its parent
+      const children = await createChildren(data.children, parent, offset, job);
+      if (children.length === 0) {
+        return null;
+      }
+      const group = figma.group(children, parent);
+      group.name = data.name;
+      group.visible = data.visible;
+      group.locked = !!data.locked;
+      job.created.set(data.id, group);
+      job.count++;
+      return group;
+    }
+
+    case 'CONNECTOR':
+      job.connectors.push({ data, parent, offset });
+      return null;
+
+    case 'RECTANGLE':
+    case 'ELLIPSE':
+    case 'POLYGON':
+    case 'STAR':
+    case 'SHAPE_WITH_TEXT':
+      if (data.type === 'RECTANGLE' && data.fills.some(paint => paint.type === 'image')) {
+        // Pictures; FigJam shapes only take solid fills
+        const rectangle = figma.createRectangle();
+        parent.appendChild(rectangle);
+        rectangle.resize(Math.max(data.width, 0.01), Math.max(data.height, 0.01));
+        rectangle.fills = toPaints(data.fills, job);
+        applyStrokes(rectangle, data);
+        node = rectangle;
+      } else {
+        node = await createShape(data, parent, job);
+      }
+      break;
+
+    case 'STICKY': {
+      const sticky = figma.createSticky();
+      parent.appendChild(sticky);
+      sticky.isWideWidth = data.isWideWidth;
+      sticky.authorVisible = data.authorVisible;
+      if (data.fills.length > 0) {
+        sticky.fills = toPaints(data.fills, job);
+      }
+      await setText(sticky.text, data.text, data.textParagraphs, job);
+      node = sticky;
+      break;
+    }
+
+    case 'TEXT': {
+      const text = figma.createText();
+      parent.appendChild(text);
+      text.fills = toPaints(data.fills, job);
+      await setText(text, data.text, data.textParagraphs, job);
+      text.resize(Math.max(data.width, 1), Math.max(data.height, 1));
+      text.textAutoResize = data.textAutoResize || 'HEIGHT';
+      if (data.textAlignHorizontal) {
+        text.textAlignHorizontal = data.textAlignHorizontal;
+      }
+      if (data.textAlignVertical) {
+        text.textAlignVertical = data.textAlignVertical;
+      }
+      node = text;
+      break;
+    }
+
+    case 'LINE': {
+      const line = figma.createLine();
+      parent.appendChild(line);
+      line.resize(Math.max(data.width, 0.01), 0);
+      applyStrokes(line, data);
+      node = line;
+      break;
+    }
+
+    case 'VECTOR':
+    case 'HIGHLIGHT': {
+      const vector = figma.createVector();
+      parent.appendChild(vector);
+      vector.vectorPaths = data.vectorPaths;
+      vector.fills = toPaints(data.fills, job);
+      applyStrokes(vector, data);
+      node = vector;
+      break;
+    }
+
+    case 'TABLE':
+      node = await createTable(data, parent, job);
+      break;
+
+    case 'CODE_BLOCK': {
+      const codeBlock = figma.createCodeBlock();
+      parent.appendChild(codeBlock);
+      codeBlock.code = data.code;
+      try {
+        codeBlock.codeLanguage = data.codeLanguage as CodeBlockNode['codeLanguage'];
+      } catch (error) {
+        // Languages this version of FigJam does not know stay plain text
+      }
+      node = codeBlock;
+      break;
+    }
+
+    default:
+      // Widgets, embeds, media and rendered pictures cannot be recreated
+      job.skipped++;
+      return null;
+  }
+
+  node.name = data.name;
+  node.visible = data.visible;
+  node.locked = !!data.locked;
+  if (data.opacity !== undefined && 'opacity' in node) {
+    node.opacity = data.opacity;
+  }
+  placeNode(node, data, offset);
+  job.created.set(data.id, node);
+  job.count++;
+  return node;
+}
+
+async function createChildren(
+  children: ExtractedNodeData[],
+  parent: BaseNode & ChildrenMixin,
+  offset: Vector,
+  job: ImportJob
+): Promise<SceneNode[]> {
+  const created: SceneNode[] = [];
+  // Appending bottom-most first stacks the children as they were exported
+  const stacked = children
+    .map((child, index) => ({ child, z: child.zIndex !== undefined ? child.zIndex : index, index }))
+    .sort((a, b) => a.z - b.z || a.index - b.index);
+  for (const { child } of stacked) {
+    const node = await createNode(child, parent, offset, job);
+    if (node) {
+      created.push(node);
+    }
+  }
+  return created;
+}
+
+async function createShape(
+  data: ShapeNodeData | StarNodeData | ShapeWithTextNodeData,
+  parent: BaseNode & ChildrenMixin,
+  job: ImportJob
+): Promise<ShapeWithTextNode> {
+  const shape = figma.createShapeWithText();
+  parent.appendChild(shape);
+
+  const shapeType = data.type === 'SHAPE_WITH_TEXT'
+    ? data.shapeType
+    : IMPORTED_SHAPE_TYPES[data.type === 'POLYGON' ? data.shapeType || '' : data.type];
+  try {
+    shape.shapeType = (shapeType || 'SQUARE') as ShapeWithTextNode['shapeType'];
+  } catch (error) {
+    // Shape types this version of FigJam does not know stay squares
+  }
+
+  shape.resize(Math.max(data.width, 1), Math.max(data.height, 1));
+  shape.fills = toPaints(data.fills, job);
+  applyStrokes(shape, data);
+  if (data.type === 'SHAPE_WITH_TEXT') {
+    await setText(shape.text, data.text, data.textParagraphs, job);
+  }
+  return shape;
+}
+
+async function createTable(data: TableNodeData, parent: BaseNode & ChildrenMixin, job: ImportJob): Promise<TableNode> {
+  const rows = Math.max(1, data.cells.length);
+  const columns = Math.max(1, data.columnWidths.length, ...data.cells.map(row => row.length));
+  const table = figma.createTable(rows, columns);
+  parent.appendChild(table);
+
+  data.columnWidths.forEach((width, column) => table.resizeColumn(column, Math.max(width, 1)));
+  data.rowHeights.forEach((height, row) => table.resizeRow(row, Math.max(height, 1)));
+
+  for (let row = 0; row < data.cells.length; row++) {
+    for (let column = 0; column < data.cells[row].length; column++) {
+      const cellData = data.cells[row][column];
+      const cell = table.cellAt(row, column);
+      if (cellData.fills.length > 0) {
+        cell.fills = toPaints(cellData.fills, job);
+      }
+      if (cellData.text) {
+        await setText(cell.text, cellData.text, cellData.textParagraphs, job);
+      }
+    }
+  }
+
+  return table;
+}
+
+async function createConnector(
+  data: ConnectorNodeData,
+  parent: BaseNode & ChildrenMixin,
+  offset: Vector,
+  job: ImportJob
+): Promise<ConnectorNode> {
+  const connector = figma.createConnector();
+  parent.appendChild(connector);
+  connector.name = data.name;
+  connector.connectorLineType = data.connectorLineType;
+  connector.connectorStart = toConnectorEndpoint(data.connectorStart, offset, job);
+  connector.connectorEnd = toConnectorEndpoint(data.connectorEnd, offset, job);
+  connector.connectorStartStrokeCap = data.connectorStart.strokeCap;
+  connector.connectorEndStrokeCap = data.connectorEnd.strokeCap;
+  applyStrokes(connector, data);
+  if (data.text) {
+    await setText(connector.text, data.text, data.textParagraphs || [], job);
+  }
+
+  job.created.set(data.id, connector);
+  job.count++;
+  return connector;
+}
+
+/**
+ * Attach an endpoint to the node created for the node it was attached to,
+ * or leave it at its position
+ */
+function toConnectorEndpoint(endpoint: ConnectorEndpointData, offset: Vector, job: ImportJob): ConnectorEndpoint {
+  const target = endpoint.endpointNodeId ? job.created.get(endpoint.endpointNodeId) : undefined;
+  if (target) {
+    return { endpointNodeId: target.id, magnet: endpoint.magnet || 'AUTO' };
+  }
+  return { position: { x: endpoint.x + offset.x, y: endpoint.y + offset.y } };
+}
+
+/**
+ * Place a node by its exported transform; stickies, tables, code blocks and
+ * sections cannot be rotated and are only moved
+ */
+function placeNode(node: SceneNode, data: ExtractedNodeData, offset: Vector) {
+  const transform = data.transform || [
+    [Math.cos((data.rotation * Math.PI) / 180), Math.sin((data.rotation * Math.PI) / 180), data.x],
+    [-Math.sin((data.rotation * Math.PI) / 180), Math.cos((data.rotation * Math.PI) / 180), data.y]
+  ];
+  const x = transform[0][2] + offset.x;
+  const y = transform[1][2] + offset.y;
+
+  if (node.type === 'STICKY' || node.type === 'TABLE' || node.type === 'CODE_BLOCK' || node.type === 'SECTION') {
+    node.x = x;
+    node.y = y;
+    return;
+  }
+  if ('relativeTransform' in node) {
+    node.relativeTransform = [
+      [transform[0][0], transform[0][1], x],
+      [transform[1][0], transform[1][1], y]
+    ];
+  }
+}
+
+function applyStrokes(
+  node: MinimalStrokesMixin,
+  data: { strokes?: PaintData[]; strokeWeight?: number; dashPattern?: number[] }
+) {
+  node.strokes = toPaints(data.strokes || [], { images: {}, imageHashes: new Map() });
+  if (data.strokeWeight !== undefined) {
+    node.strokeWeight = data.strokeWeight;
+  }
+  if (data.dashPattern) {
+    node.dashPattern = data.dashPattern;
+  }
+}
+
+/**
+ * Set the text of a node and style it run by run. Fonts that are not
+ * available fall back to the node's font in the run's weight, or are left as is.
+ */
+async function setText(
+  target: TextNode | TextSublayerNode,
+  text: string,
+  paragraphs: TextParagraphData[],
+  job: Pick<ImportJob, 'unavailableFonts'>
+) {
+  const nodeFont = target.fontName !== figma.mixed ? target.fontName : FALLBACK_FONT;
+  await figma.loadFontAsync(nodeFont);
+
+  const styled: TextParagraphData[] = paragraphs.length > 0
+    ? paragraphs
+    : text.split('\n').map(line => ({ runs: line ? [{ text: line }] : [], indentation: 0 }));
+  target.characters = styled.map(paragraph => paragraph.runs.map(run => run.text).join('')).join('\n');
+
+  let position = 0;
+  for (const paragraph of styled) {
+    const start = position;
+    for (const run of paragraph.runs) {
+      const end = position + run.text.length;
+      if (end > position) {
+        await styleTextRun(target, position, end, run, nodeFont, job);
+      }
+      position = end;
+    }
+    if (paragraph.listType && position > start) {
+      target.setRangeListOptions(start, position, { type: paragraph.listType });
+      target.setRangeIndentation(start, position, Math.max(1, paragraph.indentation));
+    }
+    // The newline closing the paragraph
+    position++;
+  }
+}
+
+async function styleTextRun(
+  target: TextNode | TextSublayerNode,
+  start: number,
+  end: number,
+  run: TextRunData,
+  nodeFont: FontName,
+  job: Pick<ImportJob, 'unavailableFonts'>
+) {
+  const style = run.fontStyle ||
+    (run.bold && run.italic ? 'Bold Italic' : run.bold ? 'Bold' : run.italic ? 'Italic' : nodeFont.style);
+  const candidates: FontName[] = [
+    { family: run.fontFamily || nodeFont.family, style },
+    { family: nodeFont.family, style }
+  ];
+  for (const font of candidates) {
+    if (await loadImportedFont(font, job)) {
+      target.setRangeFontName(start, end, font);
+      break;
+    }
+  }
+
+  if (run.fontSize) {
+    target.setRangeFontSize(start, end, run.fontSize);
+  }
+  if (run.color) {
+    const opacity = run.opacity !== undefined ? run.opacity : 1;
+    target.setRangeFills(start, end, toPaints([{ type: 'solid', color: run.color, opacity }], { images: {}, imageHashes: new Map() }));
+  }
+  if (run.underline || run.strikethrough) {
+    target.setRangeTextDecoration(start, end, run.underline ? 'UNDERLINE' : 'STRIKETHROUGH');
+  }
+  if (run.hyperlink) {
+    target.setRangeHyperlink(start, end, { type: 'URL', value: run.hyperlink });
+  }
+}
+
+async function loadImportedFont(font: FontName, job: Pick<ImportJob, 'unavailableFonts'>): Promise<boolean> {
+  const key = `${font.family}/${font.style}`;
+  if (job.unavailableFonts.has(key)) {
+    return false;
+  }
+  try {
+    await figma.loadFontAsync(font);
+    return true;
+  } catch (error) {
+    job.unavailableFonts.add(key);
+    return false;
+  }
+}
+
+/**
+ * Convert exported paints back to FigJam paints. Images are created from
+ * imported bytes once per key; otherwise the key is the hash of an image
+ * already in the file, and fills of images that are not are dropped.
+ */
+function toPaints(paints: PaintData[], job: Pick<ImportJob, 'images' | 'imageHashes'>): Paint[] {
+  const result: Paint[] = [];
+
+  for (const paint of paints) {
+    if (paint.type === 'solid') {
+      result.push({ type: 'SOLID', color: toRGB1(paint.color), opacity: paint.opacity });
+    } else if (paint.type === 'gradient') {
+      result.push({
+        type: paint.gradientType,
+        gradientTransform: (paint.gradientTransform || [[1, 0, 0], [0, 1, 0]]) as Transform,
+        gradientStops: paint.gradientStops.map(stop => ({ position: stop.position, color: { ...toRGB1(stop.color), a: stop.color.a } })),
+        opacity: paint.opacity
+      });
+    } else if (paint.imageHash) {
+      const imageHash = importedImageHash(paint.imageHash, job);
+      if (imageHash) {
+        result.push({
+          type: 'IMAGE',
+          imageHash,
+          scaleMode: paint.scaleMode,
+          imageTransform: paint.imageTransform as Transform | undefined,
+          scalingFactor: paint.scalingFactor,
+          opacity: paint.opacity
+        });
+      }
+    }
+  }
+
+  return result;
+}
+
+function importedImageHash(key: string, job: Pick<ImportJob, 'images' | 'imageHashes'>): string | null {
+  if (!job.imageHashes.has(key)) {
+    let hash: string | null = null;
+    try {
+      hash = job.images[key] ? figma.createImage(job.images[key]).hash : figma.getImageByHash(key) ? key : null;
+    } catch (error) {
+      // Images FigJam cannot decode are dropped
+      hash = null;
+    }
+    job.imageHashes.set(key, hash);
+  }
+  return job.imageHashes.get(key)!;
+}
+
+function toRGB1(color: ColorData): RGB {
+  return { r: color.r / 255, g: color.g / 255, b: color.b / 255 };
+}
@@ -0,0 +1,213 @@
+// Custom Geometry
+// DrawingML custom geometry for FigJam shapes that have no preset in PowerPoint
+
+// Path commands on a 1000 x 1000 grid stretched over the shape's box
+export type PathCommand =
+  | ['M' | 'L', number, number]
+  | ['C', number, number, number, number, number, number]
+  | ['Z'];
+
+export interface GeometryPath {
+  commands: PathCommand[];
+  // 'none' draws the outline only, the darken modes shade a fold or tab
+  fill?: 'none' | 'darken' | 'darkenLess';
+  // Size of the path's coordinate space, when it is not the 1000 x 1000 grid
+  width?: number;
+  height?: number;
+}
+
+const GRID = 1000;
+
+// Path units per pixel for vector paths, which keep their own proportions
+const VECTOR_PRECISION = 100;
+
+/**
+ * Outlines of the FigJam ShapeWithText types PowerPoint has no preset for
+ */
+export const CUSTOM_SHAPE_PATHS: { [shapeType: string]: GeometryPath[] } = {
+  TRIANGLE_DOWN: [
+    { commands: [['M', 0, 0], ['L', 1000, 0], ['L', 500, 1000], ['Z']] }
+  ],
+  PARALLELOGRAM_LEFT: [
+    { commands: [['M', 0, 0], ['L', 750, 0], ['L', 1000, 1000], ['L', 250, 1000], ['Z']] }
+  ],
+  ENG_FILE: [
+    { commands: [['M', 0, 0], ['L', 750, 0], ['L', 1000, 250], ['L', 1000, 1000], ['L', 0, 1000], ['Z']] },
+    { commands: [['M', 750, 0], ['L', 750, 250], ['L', 1000, 250], ['Z']], fill: 'darkenLess' }
+  ],
+  ENG_FOLDER: [
+    { commands: [['M', 0, 0], ['L', 350, 0], ['L', 420, 120], ['L', 1000, 120], ['L', 1000, 1000], ['L', 0, 1000], ['Z']] },
+    { commands: [['M', 0, 0], ['L', 350, 0], ['L', 420, 120], ['L', 0, 120], ['Z']], fill: 'darkenLess' }
+  ],
+  SHIELD: [
+    {
+      commands: [
+        ['M', 0, 0],
+        ['L', 1000, 0],
+        ['L', 1000, 450],
+        ['C', 1000, 750, 750, 900, 500, 1000],
+        ['C', 250, 900, 0, 750, 0, 450],
+        ['Z']
+      ]
+    }
+  ]
+};
+
+/**
+ * Outline of a regular polygon stretched to fill its box, first vertex at the top
+ */
+export function regularPolygonPath(sides: number): GeometryPath {
+  const points: Array<[number, number]> = [];
+  for (let i = 0; i < sides; i++) {
+    const angle = -Math.PI / 2 + (i * 2 * Math.PI) / sides;
+    points.push([Math.cos(angle), Math.sin(angle)]);
+  }
+  return stretchedOutline(points);
+}
+
+/**
+ * Outline of a star stretched to fill its box, first point at the top. The
+ * inner radius is a fraction of the outer radius.
+ */
+export function starPath(pointCount: number, innerRadius: number): GeometryPath {
+  const points: Array<[number, number]> = [];
+  for (let i = 0; i < pointCount * 2; i++) {
+    const angle = -Math.PI / 2 + (i * Math.PI) / pointCount;
+    const radius = i % 2 === 0 ? 1 : innerRadius;
+    points.push([Math.cos(angle) * radius, Math.sin(angle) * radius]);
+  }
+  return stretchedOutline(points);
+}
+
+/**
+ * Convert SVG path data, as found in FigJam vector paths, to a path in the
+ * node's own coordinates. Absolute M, L, H, V, C, Q and Z commands are
+ * supported; quadratic curves become cubic ones.
+ */
+export function svgPathToGeometry(data: string, width: number, height: number, open: boolean = false): GeometryPath {
+  const tokens = data.match(/[MLHVCQZ]|-?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) || [];
+  const unit = (value: number) => Math.round(value * VECTOR_PRECISION);
+  const commands: PathCommand[] = [];
+  let x = 0;
+  let y = 0;
+  let i = 0;
+  let command = '';
+
+  const next = () => parseFloat(tokens[i++]);
+
+  while (i < tokens.length) {
+    if (/^[A-Z]$/.test(tokens[i])) {
+      command = tokens[i++];
+    }
+
+    switch (command) {
+      case 'M':
+      case 'L':
+        x = next();
+        y = next();
+        commands.push([command, unit(x), unit(y)]);
+        // Coordinates following a move are implicit line segments
+        command = 'L';
+        break;
+      case 'H':
+        x = next();
+        commands.push(['L', unit(x), unit(y)]);
+        break;
+      case 'V':
+        y = next();
+        commands.push(['L', unit(x), unit(y)]);
+        break;
+      case 'C': {
+        const [x1, y1, x2, y2] = [next(), next(), next(), next()];
+        x = next();
+        y = next();
+        commands.push(['C', unit(x1), unit(y1), unit(x2), unit(y2), unit(x), unit(y)]);
+        break;
+      }
+      case 'Q': {
+        // The cubic control points lie two thirds of the way towards the quadratic one
+        const [qx, qy] = [next(), next()];
+        const [x0, y0] = [x, y];
+        x = next();
+        y = next();
+        commands.push(['C',
+          unit(x0 + (2 / 3) * (qx - x0)), unit(y0 + (2 / 3) * (qy - y0)),
+          unit(x + (2 / 3) * (qx - x)), unit(y + (2 / 3) * (qy - y)),
+          unit(x), unit(y)]);
+        break;
+      }
+      case 'Z':
+        commands.push(['Z']);
+        command = '';
+        break;
+      default:
+        // Skip numbers without a command
+        i++;
+    }
+  }
+
+  return {
+    commands,
+    fill: open ? 'none' : undefined,
+    width: Math.max(1, unit(width)),
+    height: Math.max(1, unit(height))
+  };
+}
+
+function stretchedOutline(points: Array<[number, number]>): GeometryPath {
+  const minX = Math.min(...points.map(point => point[0]));
+  const maxX = Math.max(...points.map(point => point[0]));
+  const minY = Math.min(...points.map(point => point[1]));
+  const maxY = Math.max(...points.map(point => point[1]));
+
+  const commands: PathCommand[] = points.map(([x, y], i): PathCommand => [
+    i === 0 ? 'M' : 'L',
+    Math.round(((x - minX) / (maxX - minX)) * GRID),
+    Math.round(((y - minY) / (maxY - minY)) * GRID)
+  ]);
+  commands.push(['Z']);
+
+  return { commands };
+}
+
+/**
+ * Write an a:custGeom element. Connection sites are listed top, left, bottom,
+ * right so connectors glue to them like they do to a rectangle.
+ */
+export function customGeometryXML(paths: GeometryPath[]): string {
+  const sites =
+    '<a:cxnLst>' +
+    '<a:cxn ang="3cd4"><a:pos x="hc" y="t"/></a:cxn>' +
+    '<a:cxn ang="cd2"><a:pos x="l" y="vc"/></a:cxn>' +
+    '<a:cxn ang="cd4"><a:pos x="hc" y="b"/></a:cxn>' +
+    '<a:cxn ang="0"><a:pos x="r" y="vc"/></a:cxn>' +
+    '</a:cxnLst>';
+
+  const pathsXML = paths.map(path => {
+    const fill = path.fill ? ` fill="${path.fill}"` : '';
+    return `<a:path w="${path.width || GRID}" h="${path.height || GRID}"${fill}>${path.commands.map(commandXML).join('')}</a:path>`;
+  }).join('');
+
+  return '<a:custGeom><a:avLst/><a:gdLst/><a:ahLst/>' +
+    sites +
+    '<a:rect l="l" t="t" r="r" b="b"/>' +
+    `<a:pathLst>${pathsXML}</a:pathLst>` +
+    '</a:custGeom>';
+}
+
+function commandXML(command: PathCommand): string {
+  const point = (x: number, y: number) => `<a:pt x="${x}" y="${y}"/>`;
+
+  switch (command[0]) {
+    case 'M':
+      return `<a:moveTo>${point(command[1], command[2])}</a:moveTo>`;
+    case 'L':
+      return `<a:lnTo>${point(command[1], command[2])}</a:lnTo>`;
+    case 'C':
+      return `<a:cubicBezTo>${point(command[1], command[2])}${point(command[3], command[4])}` +
+        `${point(command[5], command[6])}</a:cubicBezTo>`;
+    case 'Z':
+    default:
+      return '<a:close/>';
+  }
+}
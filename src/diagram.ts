@@ -0,0 +1,493 @@
+// Diagram Exporter
+// Writes the shapes and connectors of a board as a graph, in Mermaid,
+// Graphviz DOT and draw.io formats, so sketches can be kept as diagrams-as-code
+
+/// <reference path="./model.d.ts" />
+
+import { getNodeBounds, Rect } from './geometry.js';
+import { arrangeLayers } from './layers.js';
+import { DEFAULT_STICKY_COLOR, STICKY_COLORS } from './stickies.js';
+import { escapeXML } from './xml.js';
+
+export type DiagramFormat = 'mermaid' | 'dot' | 'drawio';
+
+// Outline of a graph node, named after its closest flowchart symbol
+type DiagramShape =
+  | 'rectangle'
+  | 'rounded'
+  | 'ellipse'
+  | 'diamond'
+  | 'hexagon'
+  | 'pentagon'
+  | 'octagon'
+  | 'parallelogram'
+  | 'trapezoid'
+  | 'triangle'
+  | 'star'
+  | 'cylinder'
+  | 'document'
+  | 'folder'
+  | 'subroutine'
+  | 'note';
+
+interface DiagramNode {
+  key: string;
+  label: string;
+  shape: DiagramShape;
+  // Position on the page
+  bounds: Rect;
+  // Fill color as RRGGBB hex
+  fill?: string;
+  cluster?: string;
+}
+
+interface DiagramEdge {
+  from: string;
+  to: string;
+  label: string;
+  // Arrowheads at the end, at both ends, or none
+  arrows: 'end' | 'both' | 'none';
+  dashed: boolean;
+  lineType: 'ELBOWED' | 'STRAIGHT' | 'CURVED';
+}
+
+/** A group, section or frame holding graph nodes */
+interface DiagramCluster {
+  key: string;
+  label: string;
+  bounds: Rect;
+  parent?: string;
+}
+
+interface DiagramGraph {
+  title: string;
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+  clusters: DiagramCluster[];
+  // Connectors left out as they are not attached to graph nodes at both ends
+  looseConnectors: number;
+  // Edges mostly run across rather than down
+  horizontal: boolean;
+}
+
+// Node types that are graph nodes even without connectors
+const DIAGRAM_NODE_TYPES = ['SHAPE_WITH_TEXT', 'STICKY'];
+
+const SHAPE_TYPES: { [shapeType: string]: DiagramShape } = {
+  SQUARE: 'rectangle',
+  ROUNDED_RECTANGLE: 'rounded',
+  ELLIPSE: 'ellipse',
+  DIAMOND: 'diamond',
+  TRIANGLE_UP: 'triangle',
+  TRIANGLE_DOWN: 'triangle',
+  PARALLELOGRAM_RIGHT: 'parallelogram',
+  PARALLELOGRAM_LEFT: 'parallelogram',
+  ENG_DATABASE: 'cylinder',
+  ENG_QUEUE: 'cylinder',
+  ENG_FILE: 'document',
+  ENG_FOLDER: 'folder',
+  TRAPEZOID: 'trapezoid',
+  PREDEFINED_PROCESS: 'subroutine',
+  DOCUMENT_SINGLE: 'document',
+  DOCUMENT_MULTIPLE: 'document',
+  HEXAGON: 'hexagon',
+  PENTAGON: 'pentagon',
+  OCTAGON: 'octagon',
+  STAR: 'star',
+  'polygon-3': 'triangle',
+  'polygon-4': 'diamond',
+  'polygon-5': 'pentagon',
+  'polygon-6': 'hexagon',
+  'polygon-8': 'octagon'
+};
+
+// Label delimiters of Mermaid flowchart node shapes; shapes Mermaid lacks are rectangles
+const MERMAID_SHAPES: { [shape in DiagramShape]?: [string, string] } = {
+  rounded: ['(', ')'],
+  ellipse: ['((', '))'],
+  diamond: ['{', '}'],
+  hexagon: ['{{', '}}'],
+  parallelogram: ['[/', '/]'],
+  trapezoid: ['[/', '\\]'],
+  cylinder: ['[(', ')]'],
+  subroutine: ['[[', ']]']
+};
+
+const DOT_SHAPES: { [shape in DiagramShape]: string } = {
+  rectangle: 'box',
+  rounded: 'box',
+  ellipse: 'ellipse',
+  diamond: 'diamond',
+  hexagon: 'hexagon',
+  pentagon: 'pentagon',
+  octagon: 'octagon',
+  parallelogram: 'parallelogram',
+  trapezoid: 'trapezium',
+  triangle: 'triangle',
+  star: 'star',
+  cylinder: 'cylinder',
+  document: 'note',
+  folder: 'folder',
+  subroutine: 'box',
+  note: 'box'
+};
+
+const DRAWIO_SHAPES: { [shape in DiagramShape]: string } = {
+  rectangle: 'rounded=0;',
+  rounded: 'rounded=1;',
+  ellipse: 'ellipse;',
+  diamond: 'rhombus;',
+  hexagon: 'shape=hexagon;perimeter=hexagonPerimeter2;',
+  pentagon: 'rounded=0;',
+  octagon: 'rounded=0;',
+  parallelogram: 'shape=parallelogram;perimeter=parallelogramPerimeter;',
+  trapezoid: 'shape=trapezoid;perimeter=trapezoidPerimeter;',
+  triangle: 'triangle;direction=north;',
+  star: 'rounded=0;',
+  cylinder: 'shape=cylinder3;boundedLbl=1;',
+  document: 'shape=document;boundedLbl=1;',
+  folder: 'shape=folder;',
+  subroutine: 'shape=process;',
+  note: 'rounded=0;shadow=1;'
+};
+
+const DRAWIO_EDGE_STYLES: { [lineType: string]: string } = {
+  ELBOWED: 'edgeStyle=orthogonalEdgeStyle;',
+  STRAIGHT: '',
+  CURVED: 'curved=1;'
+};
+
+export class DiagramExporter {
+  /**
+   * Mermaid flowchart, with groups, sections and frames as subgraphs
+   */
+  static toMermaid(nodes: ExtractedNodeData[], pageInfo: PageInfoData): string {
+    const graph = this.buildGraph(nodes, pageInfo);
+    const lines = ['---', `title: ${JSON.stringify(graph.title)}`, '---', `flowchart ${graph.horizontal ? 'LR' : 'TD'}`];
+
+    const writeCluster = (cluster: string | undefined, indent: string) => {
+      graph.clusters.filter(child => child.parent === cluster).forEach(child => {
+        lines.push(`${indent}subgraph ${child.key}["${this.mermaidText(child.label)}"]`);
+        writeCluster(child.key, `${indent}  `);
+        lines.push(`${indent}end`);
+      });
+      graph.nodes.filter(node => node.cluster === cluster).forEach(node => {
+        const [open, close] = MERMAID_SHAPES[node.shape] || ['[', ']'];
+        lines.push(`${indent}${node.key}${open}"${this.mermaidText(node.label)}"${close}`);
+      });
+    };
+    writeCluster(undefined, '  ');
+
+    graph.edges.forEach(edge => {
+      const arrow = edge.dashed
+        ? { end: '-.->', both: '<-.->', none: '-.-' }[edge.arrows]
+        : { end: '-->', both: '<-->', none: '---' }[edge.arrows];
+      const label = edge.label ? `|"${this.mermaidText(edge.label)}"|` : '';
+      lines.push(`  ${edge.from} ${arrow}${label} ${edge.to}`);
+    });
+
+    graph.nodes.filter(node => node.fill).forEach(node => {
+      lines.push(`  style ${node.key} fill:#${node.fill}`);
+    });
+    if (graph.looseConnectors > 0) {
+      lines.push(`  %% ${this.looseConnectorsNote(graph)}`);
+    }
+
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * Graphviz DOT digraph, with groups, sections and frames as clusters;
+   * undirected connectors are edges without arrowheads
+   */
+  static toDOT(nodes: ExtractedNodeData[], pageInfo: PageInfoData): string {
+    const graph = this.buildGraph(nodes, pageInfo);
+    const lines = [
+      `digraph ${this.dotString(graph.title)} {`,
+      `  graph [label=${this.dotString(graph.title)}, labelloc=t, rankdir=${graph.horizontal ? 'LR' : 'TB'}];`,
+      '  node [fontname="Helvetica"];',
+      '  edge [fontname="Helvetica"];'
+    ];
+
+    const writeCluster = (cluster: string | undefined, indent: string) => {
+      graph.clusters.filter(child => child.parent === cluster).forEach(child => {
+        lines.push(`${indent}subgraph ${child.key} {`);
+        lines.push(`${indent}  label=${this.dotString(child.label)};`);
+        writeCluster(child.key, `${indent}  `);
+        lines.push(`${indent}}`);
+      });
+      graph.nodes.filter(node => node.cluster === cluster).forEach(node => {
+        const attributes = [`label=${this.dotString(node.label)}`, `shape=${DOT_SHAPES[node.shape]}`];
+        const styles = [node.shape === 'rounded' ? 'rounded' : '', node.fill ? 'filled' : ''].filter(Boolean);
+        if (styles.length > 0) attributes.push(`style="${styles.join(',')}"`);
+        if (node.fill) attributes.push(`fillcolor="#${node.fill}"`);
+        if (node.shape === 'subroutine') attributes.push('peripheries=2');
+        lines.push(`${indent}${node.key} [${attributes.join(', ')}];`);
+      });
+    };
+    writeCluster(undefined, '  ');
+
+    graph.edges.forEach(edge => {
+      const attributes: string[] = [];
+      if (edge.label) attributes.push(`label=${this.dotString(edge.label)}`);
+      if (edge.arrows !== 'end') attributes.push(`dir=${edge.arrows === 'both' ? 'both' : 'none'}`);
+      if (edge.dashed) attributes.push('style=dashed');
+      lines.push(`  ${edge.from} -> ${edge.to}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+    });
+    if (graph.looseConnectors > 0) {
+      lines.push(`  // ${this.looseConnectorsNote(graph)}`);
+    }
+
+    lines.push('}');
+    return `${lines.join('\n')}\n`;
+  }
+
+  /**
+   * draw.io (mxGraph) file keeping the board's layout, with groups,
+   * sections and frames as containers
+   */
+  static toDrawio(nodes: ExtractedNodeData[], pageInfo: PageInfoData): string {
+    const graph = this.buildGraph(nodes, pageInfo);
+    const origin = this.graphOrigin(graph);
+    const clusterBounds = new Map(graph.clusters.map(cluster => [cluster.key, cluster.bounds]));
+
+    // Cells are placed relative to their container
+    const geometry = (bounds: Rect, parent: string | undefined) => {
+      const offset = parent ? clusterBounds.get(parent) as Rect : origin;
+      return `<mxGeometry x="${round(bounds.x - offset.x)}" y="${round(bounds.y - offset.y)}" ` +
+        `width="${round(bounds.width)}" height="${round(bounds.height)}" as="geometry"/>`;
+    };
+
+    const cells = ['<mxCell id="0"/>', '<mxCell id="1" parent="0"/>'];
+    graph.clusters.forEach(cluster => {
+      cells.push(`<mxCell id="${cluster.key}" value="${escapeXML(this.htmlText(cluster.label))}" ` +
+        'style="rounded=0;whiteSpace=wrap;html=1;container=1;collapsible=0;fillColor=none;dashed=1;verticalAlign=top;align=left;spacingLeft=8;" ' +
+        `vertex="1" parent="${cluster.parent || '1'}">${geometry(cluster.bounds, cluster.parent)}</mxCell>`);
+    });
+    graph.nodes.forEach(node => {
+      const style = `${DRAWIO_SHAPES[node.shape]}whiteSpace=wrap;html=1;${node.fill ? `fillColor=#${node.fill};` : ''}`;
+      cells.push(`<mxCell id="${node.key}" value="${escapeXML(this.htmlText(node.label))}" style="${style}" ` +
+        `vertex="1" parent="${node.cluster || '1'}">${geometry(node.bounds, node.cluster)}</mxCell>`);
+    });
+    graph.edges.forEach((edge, i) => {
+      const style = `${DRAWIO_EDGE_STYLES[edge.lineType] || ''}html=1;` +
+        `endArrow=${edge.arrows === 'none' ? 'none' : 'classic'};startArrow=${edge.arrows === 'both' ? 'classic' : 'none'};` +
+        (edge.dashed ? 'dashed=1;' : '');
+      cells.push(`<mxCell id="e${i + 1}" value="${escapeXML(this.htmlText(edge.label))}" style="${style}" ` +
+        `edge="1" parent="1" source="${edge.from}" target="${edge.to}"><mxGeometry relative="1" as="geometry"/></mxCell>`);
+    });
+
+    return '<?xml version="1.0" encoding="UTF-8"?>\n' +
+      '<mxfile host="figjam2pptx">' +
+      `<diagram id="${escapeXML(pageInfo.id || 'page')}" name="${escapeXML(graph.title)}">` +
+      `<mxGraphModel grid="1" gridSize="10" page="0"><root>${cells.join('')}</root></mxGraphModel>` +
+      '</diagram></mxfile>\n';
+  }
+
+  static toDiagram(format: DiagramFormat, nodes: ExtractedNodeData[], pageInfo: PageInfoData): string {
+    switch (format) {
+      case 'mermaid':
+        return this.toMermaid(nodes, pageInfo);
+      case 'dot':
+        return this.toDOT(nodes, pageInfo);
+      case 'drawio':
+        return this.toDrawio(nodes, pageInfo);
+    }
+  }
+
+  /**
+   * Collect the graph: shapes and stickies, and any other node a connector
+   * is attached to, are nodes; connectors attached to nodes at both ends
+   * are edges; groups, sections and frames around nodes are clusters.
+   * Hidden layers are left out.
+   */
+  private static buildGraph(nodes: ExtractedNodeData[], pageInfo: PageInfoData): DiagramGraph {
+    const layers = arrangeLayers(nodes, 'skip');
+    const connectors: ConnectorNodeData[] = [];
+    const connected = new Set<string>();
+    const collectConnectors = (node: ExtractedNodeData) => {
+      if (node.type === 'CONNECTOR') {
+        connectors.push(node);
+        [node.connectorStart, node.connectorEnd].forEach(endpoint => {
+          if (endpoint && endpoint.endpointNodeId) {
+            connected.add(endpoint.endpointNodeId);
+          }
+        });
+      }
+      if ('children' in node) {
+        node.children.forEach(collectConnectors);
+      }
+    };
+    layers.forEach(collectConnectors);
+
+    const graph: DiagramGraph = { title: pageInfo.name, nodes: [], edges: [], clusters: [], looseConnectors: 0, horizontal: false };
+    const keys = new Map<string, string>();
+
+    const visit = (node: ExtractedNodeData, offsetX: number, offsetY: number, cluster: string | undefined) => {
+      const local = getNodeBounds(node);
+      const bounds = { ...local, x: local.x + offsetX, y: local.y + offsetY };
+
+      if ((node.type === 'GROUP' || node.type === 'SECTION' || node.type === 'FRAME') && node.children) {
+        const key = `cluster${graph.clusters.length + 1}`;
+        graph.clusters.push({ key, label: node.name || '', bounds, parent: cluster });
+        // Frames and sections position their children locally, groups do not
+        const isContainer = node.type === 'FRAME' || node.type === 'SECTION';
+        node.children.forEach(child => visit(
+          child, isContainer ? offsetX + node.x : offsetX, isContainer ? offsetY + node.y : offsetY, key));
+        return;
+      }
+      if (node.type === 'CONNECTOR' || (!DIAGRAM_NODE_TYPES.includes(node.type) && !connected.has(node.id))) {
+        return;
+      }
+
+      const key = `n${graph.nodes.length + 1}`;
+      keys.set(node.id, key);
+      const nodeText = 'text' in node ? node.text : undefined;
+      const text = String(nodeText || '').trim();
+      graph.nodes.push({
+        key,
+        label: text || (nodeText === undefined ? node.name || '' : ''),
+        shape: this.diagramShape(node),
+        bounds,
+        fill: this.fillColor(node),
+        cluster
+      });
+    };
+    layers.forEach(node => visit(node, 0, 0, undefined));
+
+    const endpointKey = (endpoint: ConnectorEndpointData | undefined) =>
+      endpoint && endpoint.endpointNodeId ? keys.get(endpoint.endpointNodeId) : undefined;
+    const hasArrow = (endpoint: ConnectorEndpointData | undefined) =>
+      !!endpoint && !!endpoint.strokeCap && endpoint.strokeCap !== 'NONE';
+
+    connectors.forEach(connector => {
+      const from = endpointKey(connector.connectorStart);
+      const to = endpointKey(connector.connectorEnd);
+      if (!from || !to) {
+        graph.looseConnectors++;
+        return;
+      }
+      const startArrow = hasArrow(connector.connectorStart);
+      const endArrow = hasArrow(connector.connectorEnd);
+      // An arrowhead only at the start points the edge the other way
+      const reversed = startArrow && !endArrow;
+      graph.edges.push({
+        from: reversed ? to : from,
+        to: reversed ? from : to,
+        label: String(connector.text || '').trim(),
+        arrows: startArrow && endArrow ? 'both' : startArrow || endArrow ? 'end' : 'none',
+        dashed: !!connector.dashPattern && connector.dashPattern.length > 0,
+        lineType: connector.connectorLineType || 'ELBOWED'
+      });
+    });
+
+    graph.clusters = this.occupiedClusters(graph);
+    graph.horizontal = this.isHorizontal(graph);
+    return graph;
+  }
+
+  /**
+   * Drop clusters holding no graph nodes, directly or in nested clusters
+   */
+  private static occupiedClusters(graph: DiagramGraph): DiagramCluster[] {
+    const occupied = new Set<string>();
+    const parents = new Map(graph.clusters.map(cluster => [cluster.key, cluster.parent]));
+    graph.nodes.forEach(node => {
+      let cluster = node.cluster;
+      while (cluster && !occupied.has(cluster)) {
+        occupied.add(cluster);
+        cluster = parents.get(cluster);
+      }
+    });
+    return graph.clusters.filter(cluster => occupied.has(cluster.key));
+  }
+
+  private static isHorizontal(graph: DiagramGraph): boolean {
+    const centers = new Map(graph.nodes.map(node => [node.key, {
+      x: node.bounds.x + node.bounds.width / 2,
+      y: node.bounds.y + node.bounds.height / 2
+    }]));
+    let across = 0;
+    let down = 0;
+    graph.edges.forEach(edge => {
+      const from = centers.get(edge.from) as { x: number; y: number };
+      const to = centers.get(edge.to) as { x: number; y: number };
+      across += Math.abs(to.x - from.x);
+      down += Math.abs(to.y - from.y);
+    });
+    return across > down;
+  }
+
+  private static diagramShape(node: ExtractedNodeData): DiagramShape {
+    if (node.type === 'STICKY') {
+      return 'note';
+    }
+    if (node.type === 'ELLIPSE') {
+      return 'ellipse';
+    }
+    if (node.type === 'STAR') {
+      return 'star';
+    }
+    if (node.type === 'RECTANGLE' && node.cornerRadius) {
+      return 'rounded';
+    }
+    const shapeType = 'shapeType' in node ? node.shapeType : undefined;
+    return (shapeType && SHAPE_TYPES[shapeType]) || 'rectangle';
+  }
+
+  /**
+   * Top visible solid fill as hex; stickies without one are FigJam's default yellow
+   */
+  private static fillColor(node: ExtractedNodeData): string | undefined {
+    const paints = 'fills' in node && node.fills ? node.fills : [];
+    const fills = paints.filter((paint): paint is SolidPaintData => paint.type === 'solid' && paint.opacity > 0);
+    const fill = fills[fills.length - 1];
+    const color = fill ? fill.color : node.type === 'STICKY' ? STICKY_COLORS[DEFAULT_STICKY_COLOR] : undefined;
+    if (!color || node.type === 'TEXT') {
+      return undefined;
+    }
+    return [color.r, color.g, color.b]
+      .map(value => Math.round(value).toString(16).padStart(2, '0'))
+      .join('')
+      .toUpperCase();
+  }
+
+  /**
+   * Top-left corner of the graph, which draw.io places at its origin
+   */
+  private static graphOrigin(graph: DiagramGraph): { x: number; y: number } {
+    const boxes = [...graph.nodes.map(node => node.bounds), ...graph.clusters.map(cluster => cluster.bounds)];
+    if (boxes.length === 0) {
+      return { x: 0, y: 0 };
+    }
+    return { x: Math.min(...boxes.map(box => box.x)), y: Math.min(...boxes.map(box => box.y)) };
+  }
+
+  private static looseConnectorsNote(graph: DiagramGraph): string {
+    const count = graph.looseConnectors;
+    return `${count} connector${count === 1 ? ' is' : 's are'} left out, not being attached to shapes at both ends`;
+  }
+
+  /**
+   * Text inside a quoted Mermaid label, where quotes and angle brackets are
+   * entities and line breaks are HTML
+   */
+  private static mermaidText(text: string): string {
+    return text.replace(/"/g, '#quot;').replace(/</g, '#lt;').replace(/>/g, '#gt;').replace(/\r?\n/g, '<br>');
+  }
+
+  private static dotString(text: string): string {
+    return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\r?\n/g, '\\n')}"`;
+  }
+
+  /**
+   * Labels of html=1 cells are HTML
+   */
+  private static htmlText(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\r?\n/g, '<br>');
+  }
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
@@ -0,0 +1,75 @@
+// Fidelity Report
+// What an export leaves out or approximates, node by node, so a deck can be
+// checked before it is presented
+
+/// <reference path="./model.d.ts" />
+
+const SEVERITIES: FidelitySeverity[] = ['error', 'warning', 'info'];
+
+/**
+ * Record an issue of a node, once per node and kind of issue. Shapes the
+ * converter adds itself, like section titles, have no id and are not reported.
+ */
+export function addIssue(
+  issues: FidelityIssueData[],
+  node: { id?: string; name?: string },
+  severity: FidelitySeverity,
+  code: string,
+  message: string,
+  source: FidelityIssueData['source'] = 'conversion'
+) {
+  if (!node.id || issues.some(issue => issue.nodeId === node.id && issue.code === code)) {
+    return;
+  }
+  issues.push({ nodeId: node.id, nodeName: node.name || '', severity, code, message, source });
+}
+
+/**
+ * Order issues by severity, keeping the order of the nodes within each
+ */
+export function sortIssues(issues: FidelityIssueData[]): FidelityIssueData[] {
+  return SEVERITIES.flatMap(severity => issues.filter(issue => issue.severity === severity));
+}
+
+/**
+ * Keep the issues of the given nodes and their descendants
+ */
+export function issuesOfNodes(issues: FidelityIssueData[], nodes: ExtractedNodeData[]): FidelityIssueData[] {
+  const ids = new Set<string>();
+  const visit = (node: ExtractedNodeData) => {
+    ids.add(node.id);
+    if ('children' in node) {
+      node.children.forEach(visit);
+    }
+  };
+  nodes.forEach(visit);
+  return issues.filter(issue => ids.has(issue.nodeId));
+}
+
+export function countIssues(issues: FidelityIssueData[]): { [severity in FidelitySeverity]: number } {
+  const counts = { error: 0, warning: 0, info: 0 };
+  issues.forEach(issue => counts[issue.severity]++);
+  return counts;
+}
+
+/**
+ * Summary like "1 error, 2 warnings", or "no issues"
+ */
+export function describeIssues(issues: FidelityIssueData[]): string {
+  const counts = countIssues(issues);
+  const parts = SEVERITIES
+    .filter(severity => counts[severity] > 0)
+    .map(severity => `${counts[severity]} ${severity}${counts[severity] === 1 || severity === 'info' ? '' : 's'}`);
+  return parts.length > 0 ? parts.join(', ') : 'no issues';
+}
+
+/**
+ * Plain-text report, one line per issue, as saved next to the exported files
+ */
+export function formatReport(issues: FidelityIssueData[], title: string): string {
+  const lines = [`Fidelity report: ${title}`, `${describeIssues(issues)}`, ''];
+  sortIssues(issues).forEach(issue => {
+    lines.push(`[${issue.severity}] ${issue.nodeName || 'Unnamed'} (${issue.nodeId}): ${issue.message}`);
+  });
+  return lines.join('\n') + '\n';
+}
@@ -0,0 +1,189 @@
+// Fonts
+// Substitutes board fonts that are rarely installed where decks are opened,
+// picks fonts for East Asian text and estimates how text fits its box
+
+/// <reference path="./model.d.ts" />
+
+import { isRecord } from './schema.js';
+
+// Typeface written for each board font family
+export type FontSubstitutions = { [family: string]: string };
+
+// FigJam's own fonts, mapped to fonts that ship with Windows and Office
+export const DEFAULT_FONT_SUBSTITUTIONS: FontSubstitutions = {
+  'Inter': 'Segoe UI',
+  'Roboto': 'Arial',
+  'Roboto Mono': 'Consolas',
+  'Roboto Serif': 'Georgia',
+  'Roboto Slab': 'Rockwell',
+  'Source Code Pro': 'Consolas',
+  'Figma Hand': 'Segoe Print',
+  'Patrick Hand': 'Segoe Print',
+  'Noto Sans JP': 'Yu Gothic',
+  'Noto Sans KR': 'Malgun Gothic',
+  'Noto Sans SC': 'Microsoft YaHei',
+  'Noto Sans TC': 'Microsoft JhengHei'
+};
+
+export type EastAsianLanguage = 'ja-JP' | 'ko-KR' | 'zh-CN';
+
+// Typeface for East Asian characters whose board font has no substitute
+export const EAST_ASIAN_FONTS: { [language in EastAsianLanguage]: string } = {
+  'ja-JP': 'Yu Gothic',
+  'ko-KR': 'Malgun Gothic',
+  'zh-CN': 'Microsoft YaHei'
+};
+
+// Families that cover East Asian characters, used for them as they are
+const EAST_ASIAN_FAMILY = /\b(JP|KR|SC|TC|HK|CJK)\b|Yu Gothic|Yu Mincho|MS Gothic|MS Mincho|Meiryo|Malgun|YaHei|JhengHei|SimSun|SimHei|Hiragino|PingFang|Batang|Dotum|Gulim/i;
+
+const KANA = /[\u3040-\u30ff\u31f0-\u31ff\uff66-\uff9f]/;
+const HANGUL = /[\u1100-\u11ff\u3130-\u318f\uac00-\ud7af]/;
+// Han, kana, Hangul, CJK punctuation and full-width forms
+const EAST_ASIAN = /[\u1100-\u11ff\u2e80-\u9fff\ua960-\ua97f\uac00-\ud7ff\uf900-\ufaff\ufe30-\ufe4f\uff00-\uffef]/;
+
+// Average advance of a character, in ems, for estimating line lengths
+const NARROW_ADVANCE = 0.55;
+const MONOSPACE_ADVANCE = 0.6;
+const WIDE_ADVANCE = 1;
+const LINE_HEIGHT = 1.2;
+
+// PowerPoint's default text size, 18pt, in pixels
+export const DEFAULT_FONT_SIZE = 24;
+
+// Smallest scale PowerPoint's shrink-on-overflow applies, and the step it takes
+const MIN_FONT_SCALE = 0.25;
+const FONT_SCALE_STEP = 0.05;
+
+/**
+ * Typeface written for a board font, the family itself when it has no substitute
+ */
+export function substituteFont(family: string, substitutions: FontSubstitutions): string {
+  return substitutions[family] || family;
+}
+
+/**
+ * Typeface for the East Asian characters of a run: its own font when that
+ * covers them, else the usual font of the language
+ */
+export function eastAsianFont(family: string | undefined, substitutions: FontSubstitutions, language: EastAsianLanguage): string {
+  const typeface = family ? substituteFont(family, substitutions) : undefined;
+  return typeface && EAST_ASIAN_FAMILY.test(typeface) ? typeface : EAST_ASIAN_FONTS[language];
+}
+
+export function hasEastAsianText(text: string): boolean {
+  return EAST_ASIAN.test(text);
+}
+
+/**
+ * Language of the East Asian text of a board: Japanese when any kana is used,
+ * Korean when Hangul is, else Chinese, as Han characters alone do not tell
+ */
+export function detectEastAsianLanguage(texts: string[]): EastAsianLanguage | undefined {
+  if (texts.some(text => KANA.test(text))) {
+    return 'ja-JP';
+  }
+  if (texts.some(text => HANGUL.test(text))) {
+    return 'ko-KR';
+  }
+  return texts.some(hasEastAsianText) ? 'zh-CN' : undefined;
+}
+
+/**
+ * Read a substitution table from lines like "Inter = Segoe UI"
+ */
+export function parseFontSubstitutions(text: string): FontSubstitutions {
+  const substitutions: FontSubstitutions = {};
+  text.split(/\r?\n/).forEach(line => {
+    const separator = line.indexOf('=');
+    if (separator < 0) {
+      return;
+    }
+    const family = line.slice(0, separator).trim();
+    const typeface = line.slice(separator + 1).trim();
+    if (family && typeface) {
+      substitutions[family] = typeface;
+    }
+  });
+  return substitutions;
+}
+
+export function formatFontSubstitutions(substitutions: FontSubstitutions): string {
+  return Object.keys(substitutions).map(family => `${family} = ${substitutions[family]}`).join('\n');
+}
+
+/**
+ * Keep the entries of a saved table that map a family to a typeface
+ */
+export function normalizeFontSubstitutions(value: unknown): FontSubstitutions {
+  if (!isRecord(value)) {
+    return { ...DEFAULT_FONT_SUBSTITUTIONS };
+  }
+  const substitutions: FontSubstitutions = {};
+  Object.keys(value).forEach(family => {
+    const typeface = value[family];
+    if (family.trim() && typeof typeface === 'string' && typeface.trim()) {
+      substitutions[family.trim()] = typeface.trim();
+    }
+  });
+  return substitutions;
+}
+
+/**
+ * Largest font scale, in steps PowerPoint would take, at which the
+ * paragraphs are estimated to fit a box of the given size; 1 when they fit
+ * as they are
+ */
+export function estimateFontScale(paragraphs: TextParagraphData[], width: number, height: number): number {
+  if (width <= 0 || height <= 0) {
+    return 1;
+  }
+  let scale = 1;
+  while (scale > MIN_FONT_SCALE && estimateTextHeight(paragraphs, width, scale) > height) {
+    scale = Math.max(MIN_FONT_SCALE, scale - FONT_SCALE_STEP);
+  }
+  return Math.round(scale * 1000) / 1000;
+}
+
+/**
+ * Size of the paragraphs set without wrapping: the length of the longest
+ * one and the height of all of them
+ */
+export function estimateTextSize(paragraphs: TextParagraphData[]): { width: number; height: number } {
+  const metrics = paragraphs.map(paragraph => paragraphMetrics(paragraph, 1));
+  return {
+    width: Math.max(0, ...metrics.map(metric => metric.length)),
+    height: metrics.reduce((total, metric) => total + metric.lineHeight, 0)
+  };
+}
+
+/**
+ * Height of the paragraphs wrapped to the width, from average character
+ * advances; words are not kept together, so the estimate errs short
+ */
+function estimateTextHeight(paragraphs: TextParagraphData[], width: number, scale: number): number {
+  return paragraphs.reduce((total, paragraph) => {
+    const { length, lineHeight } = paragraphMetrics(paragraph, scale);
+    return total + Math.max(1, Math.ceil(length / width)) * lineHeight;
+  }, 0);
+}
+
+/**
+ * Length of a paragraph on one line, and the height of its lines
+ */
+function paragraphMetrics(paragraph: TextParagraphData, scale: number): { length: number; lineHeight: number } {
+  const sizes = paragraph.runs.map(run => (run.fontSize || DEFAULT_FONT_SIZE) * scale);
+  return {
+    length: paragraph.runs.reduce((sum, run, i) => sum + textAdvance(run.text, run.fontFamily) * sizes[i], 0),
+    lineHeight: (sizes.length > 0 ? Math.max(...sizes) : DEFAULT_FONT_SIZE * scale) * LINE_HEIGHT
+  };
+}
+
+function textAdvance(text: string, family: string | undefined): number {
+  const narrow = family && /mono|code|consolas|courier/i.test(family) ? MONOSPACE_ADVANCE : NARROW_ADVANCE;
+  let advance = 0;
+  for (const char of text) {
+    advance += EAST_ASIAN.test(char) ? WIDE_ADVANCE : narrow;
+  }
+  return advance;
+}
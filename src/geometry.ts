@@ -0,0 +1,155 @@
+// Geometry Utilities
+// Converts between FigJam affine transforms and PowerPoint shape placements
+
+/// <reference path="./model.d.ts" />
+
+// FigJam 2x3 affine transform: [[m00, m01, m02], [m10, m11, m12]]
+export type Transform = number[][];
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Position, size and transform of a node, all the geometry of a node needs */
+export type NodeGeometry = Pick<BaseNodeData, 'x' | 'y' | 'width' | 'height' | 'rotation' | 'transform'>;
+
+/**
+ * Placement of a shape the way DrawingML describes it: the unrotated box,
+ * flipped about its center, then rotated clockwise about its center
+ */
+export interface Placement extends Rect {
+  rotation: number;
+  flipH: boolean;
+  flipV: boolean;
+}
+
+/**
+ * Get the transform of a node, falling back to x/y/rotation for data
+ * exported before transforms were recorded
+ */
+export function getTransform(node: Pick<NodeGeometry, 'x' | 'y' | 'rotation' | 'transform'>): Transform {
+  if (node.transform) {
+    return node.transform;
+  }
+
+  // FigJam rotation is counter-clockwise in degrees around the top-left corner
+  const angle = ((node.rotation || 0) * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return [[cos, sin, node.x], [-sin, cos, node.y]];
+}
+
+/**
+ * Apply a transform to a point
+ */
+export function applyTransform(transform: Transform, x: number, y: number): { x: number; y: number } {
+  return {
+    x: transform[0][0] * x + transform[0][1] * y + transform[0][2],
+    y: transform[1][0] * x + transform[1][1] * y + transform[1][2]
+  };
+}
+
+/**
+ * Decompose a node's transform into a DrawingML placement
+ */
+export function getPlacement(node: NodeGeometry): Placement {
+  const transform = getTransform(node);
+  const width = node.width || 0;
+  const height = node.height || 0;
+  const determinant = transform[0][0] * transform[1][1] - transform[0][1] * transform[1][0];
+
+  // A mirrored transform is a vertical flip followed by a rotation
+  const degrees = (Math.atan2(transform[1][0], transform[0][0]) * 180) / Math.PI;
+  const rotation = ((degrees % 360) + 360) % 360;
+  const center = applyTransform(transform, width / 2, height / 2);
+
+  return {
+    x: center.x - width / 2,
+    y: center.y - height / 2,
+    width,
+    height,
+    rotation: Math.abs(rotation - 360) < 1e-6 ? 0 : rotation,
+    flipH: false,
+    flipV: determinant < 0
+  };
+}
+
+/**
+ * Compose a DrawingML placement back into a transform, the inverse of getPlacement
+ */
+export function placementToTransform(placement: Placement): Transform {
+  const angle = (placement.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  // Flips mirror the box about its center before it is rotated clockwise
+  const scaleX = placement.flipH ? -1 : 1;
+  const scaleY = placement.flipV ? -1 : 1;
+  const linear = [[cos * scaleX, -sin * scaleY], [sin * scaleX, cos * scaleY]];
+  const halfWidth = placement.width / 2;
+  const halfHeight = placement.height / 2;
+
+  return [
+    [linear[0][0], linear[0][1], placement.x + halfWidth - linear[0][0] * halfWidth - linear[0][1] * halfHeight],
+    [linear[1][0], linear[1][1], placement.y + halfHeight - linear[1][0] * halfWidth - linear[1][1] * halfHeight]
+  ];
+}
+
+/**
+ * Compose two transforms, applying b first
+ */
+export function multiplyTransforms(a: Transform, b: Transform): Transform {
+  return [
+    [
+      a[0][0] * b[0][0] + a[0][1] * b[1][0],
+      a[0][0] * b[0][1] + a[0][1] * b[1][1],
+      a[0][0] * b[0][2] + a[0][1] * b[1][2] + a[0][2]
+    ],
+    [
+      a[1][0] * b[0][0] + a[1][1] * b[1][0],
+      a[1][0] * b[0][1] + a[1][1] * b[1][1],
+      a[1][0] * b[0][2] + a[1][1] * b[1][2] + a[1][2]
+    ]
+  ];
+}
+
+/**
+ * Get the axis-aligned bounding box of a node in its parent's coordinate space
+ */
+export function getNodeBounds(node: NodeGeometry): Rect {
+  const transform = getTransform(node);
+  const width = node.width || 0;
+  const height = node.height || 0;
+  const corners = [
+    applyTransform(transform, 0, 0),
+    applyTransform(transform, width, 0),
+    applyTransform(transform, 0, height),
+    applyTransform(transform, width, height)
+  ];
+
+  const minX = Math.min(...corners.map(corner => corner.x));
+  const minY = Math.min(...corners.map(corner => corner.y));
+  const maxX = Math.max(...corners.map(corner => corner.x));
+  const maxY = Math.max(...corners.map(corner => corner.y));
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
+
+/**
+ * Compute the bounding box enclosing the given nodes
+ */
+export function getBounds(nodes: NodeGeometry[]): Rect {
+  if (nodes.length === 0) {
+    return { x: 0, y: 0, width: 0, height: 0 };
+  }
+
+  const boxes = nodes.map(getNodeBounds);
+  const minX = Math.min(...boxes.map(box => box.x));
+  const minY = Math.min(...boxes.map(box => box.y));
+  const maxX = Math.max(...boxes.map(box => box.x + box.width));
+  const maxY = Math.max(...boxes.map(box => box.y + box.height));
+
+  return { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+}
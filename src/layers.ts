@@ -0,0 +1,20 @@
+// Layers
+// Stacking order and visibility of the layers of the node tree
+
+/// <reference path="./model.d.ts" />
+
+// Leave hidden layers out of the deck, or write them as hidden shapes and slides
+export type HiddenLayersMode = 'skip' | 'hidden';
+
+/**
+ * Put the children of every level in stacking order, bottom-most first, and
+ * drop hidden layers in skip mode. Nodes without a z-index keep their place.
+ */
+export function arrangeLayers(nodes: ExtractedNodeData[], hiddenLayers: HiddenLayersMode): ExtractedNodeData[] {
+  return nodes
+    .map((node, index) => ({ node, z: node.zIndex !== undefined ? node.zIndex : index, index }))
+    .sort((a, b) => a.z - b.z || a.index - b.index)
+    .map(({ node }) => node)
+    .filter(node => hiddenLayers === 'hidden' || node.visible !== false)
+    .map(node => 'children' in node ? { ...node, children: arrangeLayers(node.children, hiddenLayers) } : node);
+}
@@ -0,0 +1,362 @@
+// Export Model
+// Node data extracted by the plugin sandbox and consumed by the converters.
+// Declared globally so the sandbox script, which cannot import modules, shares
+// the same types as the UI and the CLI. src/schema.ts publishes the matching
+// JSON Schema; bump SchemaVersion together with both, the minor version for
+// every change that adds fields, and list the fields with the version there.
+
+type SchemaVersion = '2.7.0';
+
+/** RGB color with 0-255 channels */
+interface ColorData {
+  r: number;
+  g: number;
+  b: number;
+}
+
+interface ColorStopData {
+  position: number;
+  color: ColorData & { a: number };
+}
+
+interface SolidPaintData {
+  type: 'solid';
+  color: ColorData;
+  opacity: number;
+}
+
+interface GradientPaintData {
+  type: 'gradient';
+  gradientType: 'GRADIENT_LINEAR' | 'GRADIENT_RADIAL' | 'GRADIENT_ANGULAR' | 'GRADIENT_DIAMOND';
+  gradientStops: ColorStopData[];
+  // Affine transform from the node's unit square to gradient space, where a
+  // linear gradient runs from (0, 0.5) to (1, 0.5) and radial ones center on (0.5, 0.5)
+  gradientTransform?: number[][];
+  opacity: number;
+}
+
+interface ImagePaintData {
+  type: 'image';
+  imageHash: string | null;
+  scaleMode: 'FILL' | 'FIT' | 'CROP' | 'TILE';
+  imageTransform?: number[][];
+  scalingFactor?: number;
+  opacity: number;
+}
+
+type PaintData = SolidPaintData | GradientPaintData | ImagePaintData;
+
+interface TextRunData {
+  text: string;
+  fontFamily?: string;
+  fontStyle?: string;
+  fontSize?: number;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  color?: ColorData;
+  opacity?: number;
+  hyperlink?: string;
+}
+
+interface TextParagraphData {
+  runs: TextRunData[];
+  listType?: 'ORDERED' | 'UNORDERED';
+  // Nesting level of list items, 0 for plain paragraphs
+  indentation: number;
+}
+
+type ConnectorSide = 'TOP' | 'LEFT' | 'BOTTOM' | 'RIGHT' | 'CENTER';
+
+type StrokeCapData =
+  | 'NONE'
+  | 'ARROW_EQUILATERAL'
+  | 'ARROW_LINES'
+  | 'TRIANGLE_FILLED'
+  | 'DIAMOND_FILLED'
+  | 'CIRCLE_FILLED'
+  | 'ERD_ZERO_OR_ONE'
+  | 'ERD_EXACTLY_ONE'
+  | 'ERD_ZERO_OR_MORE'
+  | 'ERD_ONE_OR_MORE'
+  | 'ERD_ONE'
+  | 'ERD_MANY';
+
+interface ConnectorEndpointData {
+  // Position in the same coordinate space as the connector's transform
+  x: number;
+  y: number;
+  endpointNodeId?: string;
+  // Side of the attached node the endpoint is glued to
+  magnet?: ConnectorSide;
+  strokeCap: StrokeCapData;
+}
+
+interface EffectData {
+  type: 'DROP_SHADOW' | 'INNER_SHADOW' | 'LAYER_BLUR' | 'BACKGROUND_BLUR';
+  // Blur radius in pixels
+  radius: number;
+  // Shadow color, offset and spread in pixels
+  color?: ColorData;
+  opacity?: number;
+  offset?: { x: number; y: number };
+  spread?: number;
+}
+
+/** Stroke styling beyond paint and weight; absent properties use the defaults */
+interface StrokeStyleData {
+  // Alternating dash and gap lengths in pixels; solid when absent
+  dashPattern?: number[];
+  strokeAlign?: 'CENTER' | 'INSIDE' | 'OUTSIDE';
+  strokeCap?: string;
+  strokeJoin?: 'MITER' | 'BEVEL' | 'ROUND';
+}
+
+/** Properties shared by every exported node */
+interface BaseNodeData {
+  id: string;
+  name: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number;
+  // Affine transform relative to the exported parent's coordinate space
+  transform?: number[][];
+  visible: boolean;
+  // Locked against moving and editing on the board
+  locked?: boolean;
+  // Stacking position among the exported siblings, bottom-most first
+  zIndex?: number;
+  // Asset key of a rendered image standing in for content that has no native equivalent
+  fallbackImage?: string;
+  // Layer opacity, blend mode and visible effects, when not the defaults
+  opacity?: number;
+  blendMode?: string;
+  effects?: EffectData[];
+}
+
+interface ShapeNodeData extends BaseNodeData, StrokeStyleData {
+  type: 'RECTANGLE' | 'ELLIPSE' | 'POLYGON';
+  fills: PaintData[];
+  strokes: PaintData[];
+  strokeWeight?: number;
+  cornerRadius?: number;
+  // "polygon-N" for polygons with N points
+  shapeType?: string;
+}
+
+interface ShapeWithTextNodeData extends BaseNodeData, StrokeStyleData {
+  type: 'SHAPE_WITH_TEXT';
+  shapeType: string;
+  fills: PaintData[];
+  strokes: PaintData[];
+  strokeWeight?: number;
+  cornerRadius?: number;
+  text: string;
+  textParagraphs: TextParagraphData[];
+}
+
+interface StickyNodeData extends BaseNodeData {
+  type: 'STICKY';
+  fills: PaintData[];
+  text: string;
+  textParagraphs: TextParagraphData[];
+  isWideWidth: boolean;
+  authorName: string;
+  authorVisible: boolean;
+}
+
+interface TextNodeData extends BaseNodeData {
+  type: 'TEXT';
+  fills: PaintData[];
+  text: string;
+  textParagraphs: TextParagraphData[];
+  textAlignHorizontal?: 'LEFT' | 'CENTER' | 'RIGHT' | 'JUSTIFIED';
+  textAlignVertical?: 'TOP' | 'CENTER' | 'BOTTOM';
+  // Font and size of the whole text, when every run shares them
+  fontName?: { family: string; style: string };
+  fontSize?: number;
+  // Whether the box grows with its text, in width and height or in height only
+  textAutoResize?: 'NONE' | 'WIDTH_AND_HEIGHT' | 'HEIGHT' | 'TRUNCATE';
+}
+
+interface ConnectorNodeData extends BaseNodeData, StrokeStyleData {
+  type: 'CONNECTOR';
+  strokes: PaintData[];
+  strokeWeight: number;
+  text?: string;
+  textParagraphs?: TextParagraphData[];
+  connectorLineType: 'ELBOWED' | 'STRAIGHT' | 'CURVED';
+  connectorStart: ConnectorEndpointData;
+  connectorEnd: ConnectorEndpointData;
+}
+
+interface ContainerNodeData extends BaseNodeData, StrokeStyleData {
+  type: 'GROUP' | 'FRAME' | 'SECTION';
+  // Frames and sections have a background, groups do not
+  fills?: PaintData[];
+  strokes?: PaintData[];
+  strokeWeight?: number;
+  children: ExtractedNodeData[];
+}
+
+interface LineNodeData extends BaseNodeData, StrokeStyleData {
+  type: 'LINE';
+  strokes: PaintData[];
+  strokeWeight: number;
+}
+
+/** A vector path in the node's own coordinates, as SVG path data */
+interface VectorPathData {
+  windingRule: 'NONZERO' | 'EVENODD' | 'NONE';
+  data: string;
+}
+
+/** Vector drawings and FigJam marker and highlighter strokes */
+interface VectorNodeData extends BaseNodeData, StrokeStyleData {
+  type: 'VECTOR' | 'HIGHLIGHT';
+  fills: PaintData[];
+  strokes: PaintData[];
+  strokeWeight: number;
+  vectorPaths: VectorPathData[];
+}
+
+interface StarNodeData extends BaseNodeData, StrokeStyleData {
+  type: 'STAR';
+  fills: PaintData[];
+  strokes: PaintData[];
+  strokeWeight: number;
+  pointCount: number;
+  // Inner radius as a fraction of the outer radius
+  innerRadius: number;
+}
+
+interface TableCellData {
+  text: string;
+  textParagraphs: TextParagraphData[];
+  fills: PaintData[];
+  // Cells covered by a merged cell have a span of 0
+  rowSpan?: number;
+  columnSpan?: number;
+}
+
+interface TableNodeData extends BaseNodeData {
+  type: 'TABLE';
+  fills: PaintData[];
+  columnWidths: number[];
+  rowHeights: number[];
+  // One array of cells per row
+  cells: TableCellData[][];
+}
+
+interface CodeBlockNodeData extends BaseNodeData {
+  type: 'CODE_BLOCK';
+  code: string;
+  codeLanguage: string;
+}
+
+/** Widgets, embeds, link previews and media, exported as linked pictures or placeholders */
+interface EmbedNodeData extends BaseNodeData {
+  type: 'WIDGET' | 'EMBED' | 'LINK_UNFURL' | 'MEDIA';
+  title: string;
+  url?: string;
+  description?: string;
+  provider?: string;
+}
+
+/** Nodes without a native mapping, exported as a rendered picture */
+interface OtherNodeData extends BaseNodeData {
+  type:
+    | 'BOOLEAN_OPERATION'
+    | 'WASHI_TAPE'
+    | 'STAMP'
+    | 'INSTANCE'
+    | 'COMPONENT'
+    | 'COMPONENT_SET'
+    | 'SLICE'
+    | 'TEXT_PATH'
+    | 'TRANSFORM_GROUP';
+}
+
+/** A whole page when several pages are exported; each becomes a section of slides */
+interface PageNodeData extends BaseNodeData {
+  type: 'PAGE';
+  children: ExtractedNodeData[];
+}
+
+type ExtractedNodeData =
+  | ShapeNodeData
+  | ShapeWithTextNodeData
+  | StickyNodeData
+  | TextNodeData
+  | ConnectorNodeData
+  | ContainerNodeData
+  | PageNodeData
+  | LineNodeData
+  | VectorNodeData
+  | StarNodeData
+  | TableNodeData
+  | CodeBlockNodeData
+  | EmbedNodeData
+  | OtherNodeData;
+
+/**
+ * What the plugin exports: the selection, the current page, every page of the
+ * file, or the frames and sections of the current page whose names match a pattern
+ */
+type ExportScope = 'selection' | 'page' | 'all-pages' | 'frames';
+
+interface PageInfoData {
+  id?: string;
+  name: string;
+}
+
+type FidelitySeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Something an export leaves out or approximates. Errors are content missing
+ * from the deck, warnings content that looks different, and info content that
+ * looks the same but is not native, like rendered pictures.
+ */
+interface FidelityIssueData {
+  nodeId: string;
+  nodeName: string;
+  severity: FidelitySeverity;
+  // Kind of issue, e.g. "image-fill-skipped"
+  code: string;
+  message: string;
+  // Whether the issue arose reading the board or writing PowerPoint
+  source: 'extraction' | 'conversion';
+}
+
+/** The {nodes, pageInfo} payload the sandbox posts to the UI */
+interface ExportPayload {
+  schemaVersion: SchemaVersion;
+  nodes: ExtractedNodeData[];
+  pageInfo: PageInfoData;
+  // What the sandbox could not extract
+  issues?: FidelityIssueData[];
+}
+
+/**
+ * A node posted to the UI as soon as it is extracted. Children are posted
+ * before their container, which is posted with no children of its own.
+ */
+interface StreamedNodeData {
+  node: ExtractedNodeData;
+  // Container or page the node is in, absent for top-level nodes
+  parentId?: string;
+}
+
+/** The JSON export document */
+interface ExportDocument {
+  format: 'figjam2pptx';
+  schemaVersion: SchemaVersion;
+  exportDate: string;
+  page: PageInfoData & { width: number; height: number };
+  nodes: ExtractedNodeData[];
+  // What a PowerPoint export of the nodes leaves out or approximates
+  report?: FidelityIssueData[];
+}
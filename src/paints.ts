@@ -0,0 +1,205 @@
+// Paints
+// Flattening of stacked FigJam paints and the DrawingML geometry of gradients
+
+/// <reference path="./model.d.ts" />
+
+type RGBAData = ColorData & { a: number };
+
+/** A gradient reduced to what DrawingML can draw */
+export interface GradientGeometry {
+  // Stops from 0 to 1 with the paint opacity folded into their alpha
+  stops: ColorStopData[];
+  // Linear gradients: direction in degrees, clockwise from the x axis
+  angle?: number;
+  // Radial, angular and diamond gradients: the path shape and its center as a fraction of the box
+  path?: 'circle' | 'rect';
+  center?: { x: number; y: number };
+}
+
+const IDENTITY_TRANSFORM = [[1, 0, 0], [0, 1, 0]];
+
+/**
+ * Reduce paints, listed bottom to top as in FigJam, to the layers that have to
+ * be drawn. Paints covered by an opaque paint are dropped, and a solid paint is
+ * composited with the paint beneath it; two gradients, or an image, stay
+ * separate layers. Composited gradients carry their opacity in their stops.
+ */
+export function flattenPaints(paints: PaintData[]): PaintData[] {
+  let bottom = 0;
+  paints.forEach((paint, i) => {
+    if (isOpaque(paint)) {
+      bottom = i;
+    }
+  });
+
+  const layers: PaintData[] = [];
+  paints.slice(bottom).filter(paint => paint.opacity !== 0).forEach(paint => {
+    const merged = layers.length > 0 ? composite(paint, layers[layers.length - 1]) : undefined;
+    if (merged) {
+      layers[layers.length - 1] = merged;
+    } else {
+      layers.push(paint);
+    }
+  });
+
+  return layers;
+}
+
+/**
+ * Work out the direction or path of a gradient in a box of the given size.
+ * DrawingML spans a linear gradient over the whole box and a path gradient from
+ * its center to the box corners, so stops are remapped to those extents.
+ */
+export function gradientGeometry(paint: GradientPaintData, width: number, height: number): GradientGeometry {
+  const [[a, b, c], [d, e, f]] = paint.gradientTransform || IDENTITY_TRANSFORM;
+  const opacity = paint.opacity !== undefined ? paint.opacity : 1;
+  const stops = paint.gradientStops
+    .map(stop => ({ position: stop.position, color: { ...stop.color, a: stop.color.a * opacity } }))
+    .sort((first, second) => first.position - second.position);
+
+  if (paint.gradientType === 'GRADIENT_LINEAR') {
+    // The gradient position is a linear function of the point in the unit box,
+    // so its extremes over the box lie on the corners
+    const corners = [c, a + c, b + c, a + b + c];
+    const start = Math.min(...corners);
+    const end = Math.max(...corners);
+    const angle = (Math.atan2(b / (height || 1), a / (width || 1)) * 180) / Math.PI;
+
+    return {
+      angle: end > start ? (angle + 360) % 360 : 0,
+      stops: resampleStops(stops, start, end)
+    };
+  }
+
+  // Map gradient space back onto the unit box to find the center and radius
+  const determinant = a * e - b * d;
+  const toBox = (x: number, y: number) => determinant === 0
+    ? { x, y }
+    : { x: (e * (x - c) - b * (y - f)) / determinant, y: (a * (y - f) - d * (x - c)) / determinant };
+  const center = toBox(0.5, 0.5);
+  const distance = (point: { x: number; y: number }) => Math.hypot(point.x - center.x, point.y - center.y);
+  const radius = (distance(toBox(1, 0.5)) + distance(toBox(0.5, 1))) / 2;
+
+  if (paint.gradientType === 'GRADIENT_ANGULAR') {
+    // DrawingML has no sweep gradient; a circle keeps the colors around the center
+    return { path: 'circle', center, stops: resampleStops(stops, 0, 1) };
+  }
+
+  const path = paint.gradientType === 'GRADIENT_DIAMOND' ? 'rect' : 'circle';
+  const extent = path === 'rect'
+    ? Math.max(center.x, 1 - center.x, center.y, 1 - center.y)
+    : Math.max(...[[0, 0], [1, 0], [0, 1], [1, 1]].map(([x, y]) => distance({ x, y })));
+
+  return {
+    path,
+    center,
+    stops: resampleStops(stops, 0, radius > 0 ? extent / radius : 1)
+  };
+}
+
+function isOpaque(paint: PaintData): boolean {
+  if (paint.opacity < 1) {
+    return false;
+  }
+  if (paint.type === 'gradient') {
+    return paint.gradientStops.every(stop => stop.color.a >= 1);
+  }
+  // Images may be transparent, so whatever lies beneath them is kept
+  return paint.type === 'solid';
+}
+
+/**
+ * Composite a paint over the one beneath it, when the result is a single paint
+ */
+function composite(top: PaintData, bottom: PaintData): PaintData | undefined {
+  if (top.type === 'solid' && bottom.type === 'solid') {
+    const color = over({ ...top.color, a: top.opacity }, { ...bottom.color, a: bottom.opacity });
+    return { type: 'solid', color: { r: color.r, g: color.g, b: color.b }, opacity: color.a };
+  }
+
+  if (top.type === 'gradient' && bottom.type === 'solid') {
+    const below = { ...bottom.color, a: bottom.opacity };
+    return {
+      ...top,
+      gradientStops: top.gradientStops.map(stop => ({
+        position: stop.position,
+        color: over({ ...stop.color, a: stop.color.a * top.opacity }, below)
+      })),
+      opacity: 1
+    };
+  }
+
+  if (top.type === 'solid' && bottom.type === 'gradient') {
+    const above = { ...top.color, a: top.opacity };
+    return {
+      ...bottom,
+      gradientStops: bottom.gradientStops.map(stop => ({
+        position: stop.position,
+        color: over(above, { ...stop.color, a: stop.color.a * bottom.opacity })
+      })),
+      opacity: 1
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Porter-Duff "over" of two colors with straight alpha
+ */
+function over(top: RGBAData, bottom: RGBAData): RGBAData {
+  const a = top.a + bottom.a * (1 - top.a);
+  if (a === 0) {
+    return { ...top, a: 0 };
+  }
+  const channel = (above: number, below: number) =>
+    Math.round((above * top.a + below * bottom.a * (1 - top.a)) / a);
+  return { r: channel(top.r, bottom.r), g: channel(top.g, bottom.g), b: channel(top.b, bottom.b), a };
+}
+
+/**
+ * Stretch the part of a gradient between two positions over 0 to 1, sampling
+ * the colors at both ends; FigJam extends the end colors beyond the last stops
+ */
+function resampleStops(stops: ColorStopData[], start: number, end: number): ColorStopData[] {
+  if (end <= start) {
+    const color = sampleStops(stops, start);
+    return [{ position: 0, color }, { position: 1, color }];
+  }
+
+  const inner = stops
+    .filter(stop => stop.position > start && stop.position < end)
+    .map(stop => ({ position: (stop.position - start) / (end - start), color: stop.color }));
+
+  return [
+    { position: 0, color: sampleStops(stops, start) },
+    ...inner,
+    { position: 1, color: sampleStops(stops, end) }
+  ];
+}
+
+function sampleStops(stops: ColorStopData[], position: number): RGBAData {
+  if (stops.length === 0) {
+    return { r: 0, g: 0, b: 0, a: 0 };
+  }
+  if (position <= stops[0].position) {
+    return stops[0].color;
+  }
+
+  for (let i = 1; i < stops.length; i++) {
+    const next = stops[i];
+    if (position <= next.position) {
+      const previous = stops[i - 1];
+      const t = (position - previous.position) / (next.position - previous.position || 1);
+      const mix = (from: number, to: number) => from + (to - from) * t;
+      return {
+        r: Math.round(mix(previous.color.r, next.color.r)),
+        g: Math.round(mix(previous.color.g, next.color.g)),
+        b: Math.round(mix(previous.color.b, next.color.b)),
+        a: mix(previous.color.a, next.color.a)
+      };
+    }
+  }
+
+  return stops[stops.length - 1].color;
+}
@@ -1,22 +1,103 @@
 // PowerPoint Converter Module
 // Converts FigJam node data to PowerPoint-compatible formats
 
+/// <reference path="./model.d.ts" />
+
+import { PackageMedia, PackageRelationship, PackageSlide, PackageTemplate, PPTXPackage, REL_TYPES } from './pptx-package.js';
+import { getBounds, getPlacement, getTransform, Placement } from './geometry.js';
+import {
+  CUSTOM_SHAPE_PATHS,
+  customGeometryXML,
+  GeometryPath,
+  regularPolygonPath,
+  starPath,
+  svgPathToGeometry
+} from './custom-geometry.js';
+import { DiagramExporter } from './diagram.js';
+import { addIssue, countIssues, formatReport, sortIssues } from './fidelity.js';
+import {
+  detectEastAsianLanguage,
+  EastAsianLanguage,
+  eastAsianFont,
+  estimateFontScale,
+  estimateTextSize,
+  FontSubstitutions,
+  hasEastAsianText,
+  substituteFont
+} from './fonts.js';
+import { arrangeLayers, HiddenLayersMode } from './layers.js';
+import { flattenPaints, gradientGeometry } from './paints.js';
+import { SLIDE_SIZES, SlideBuilder, SlideData, SlideOrder, SlideSize } from './slide-builder.js';
+import { findPlaceholders, PlaceholderMode, PlaceholderType, SlidePlaceholders } from './slide-layout.js';
+import {
+  collectStickyNotes,
+  DEFAULT_STICKY_COLOR,
+  getStickyColorName,
+  removeStickies,
+  STICKY_COLORS,
+  STICKY_SIZE,
+  StickyNotesMode
+} from './stickies.js';
+import { assertValid, SCHEMA_VERSION, validateExport, validateNodes } from './schema.js';
+import { DEFAULT_THEME_COLORS, findSchemeColor, ThemeColorTable } from './theme.js';
+import { escapeXML } from './xml.js';
+import { createZip } from './zip.js';
+
+/**
+ * Shape of the 1.x JSON export, still accepted by fromJSON
+ */
 export interface PPTXShape {
   type: string;
+  id?: string;
+  name?: string;
   position: { x: number; y: number };
   size: { width: number; height: number };
   rotation: number;
+  // Affine transform relative to the parent, when known
+  transform?: number[][];
   fill?: PPTXFill;
   stroke?: PPTXStroke;
   text?: string;
-  properties?: any;
+  paragraphs?: PPTXParagraph[];
+  properties?: PPTXShapeProperties;
+  children?: PPTXShape[];
+}
+
+/** Type-specific properties of a 1.x shape */
+export interface PPTXShapeProperties {
+  cornerRadius?: number;
+  shapeType?: string;
+  isWideWidth?: boolean;
+  author?: string;
+  lineType?: ConnectorNodeData['connectorLineType'];
+  start?: ConnectorEndpointData;
+  end?: ConnectorEndpointData;
+}
+
+export interface PPTXParagraph {
+  runs: PPTXTextRun[];
+  listType?: 'ORDERED' | 'UNORDERED';
+  indentation: number;
+}
+
+export interface PPTXTextRun {
+  text: string;
+  fontFamily?: string;
+  fontSize?: number;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  strikethrough?: boolean;
+  color?: { r: number; g: number; b: number };
+  opacity?: number;
+  hyperlink?: string;
 }
 
 export interface PPTXFill {
   type: 'solid' | 'gradient' | 'image';
   color?: { r: number; g: number; b: number };
   opacity?: number;
-  gradientStops?: any[];
+  gradientStops?: ColorStopData[];
 }
 
 export interface PPTXStroke {
@@ -25,215 +106,2316 @@ export interface PPTXStroke {
   opacity?: number;
 }
 
+export interface ImageAsset {
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+export type ImageAssets = { [key: string]: ImageAsset };
+
+/** A PowerPoint file with the fidelity report of its conversion */
+export interface PPTXExport {
+  data: Uint8Array;
+  // Most severe first, with the issues found extracting the nodes
+  report: FidelityIssueData[];
+}
+
+export interface ConversionOptions {
+  slideOrder?: SlideOrder;
+  slideSize?: SlideSize;
+  // Slide size in inches when slideSize is 'custom'
+  customSlideSize?: { width: number; height: number };
+  // Place stickies on the slide, in the slide's speaker notes, or both
+  stickyNotes?: StickyNotesMode;
+  // Scale every frame to fill the slide, or keep its size at the DPI and only shrink frames that overflow
+  scaling?: ScalingMode;
+  // Pixels per inch of the board, for frame-sized slides and unscaled frames
+  dpi?: number;
+  // Board colors standing for the theme's color slots; colors close to one are written as that theme color
+  themeColors?: ThemeColorTable;
+  // Corporate template whose masters, layouts and theme the slides use
+  template?: PackageTemplate;
+  // Write text in the theme's fonts instead of the board's fonts, titles in its heading font
+  themeFonts?: boolean;
+  // Write slide titles, and in structured mode stacked text, into layout placeholders
+  placeholders?: PlaceholderMode;
+  // Typefaces written in place of board fonts, by font family
+  fontSubstitutions?: FontSubstitutions;
+  // Leave hidden layers out, or write them as hidden shapes, and hidden frames as hidden slides
+  hiddenLayers?: HiddenLayersMode;
+}
+
+export type ScalingMode = 'fit' | 'actual';
+
+export const DEFAULT_DPI = 96;
+
+interface SlideContext {
+  // Factor applied to every length so the slide content fits the slide size
+  scale: number;
+  nextShapeId: number;
+  // Shape ids assigned to FigJam nodes, used to bind connectors
+  shapeIds: Map<string, number>;
+  // Preset geometry of every connectable shape, used to pick connection sites
+  connectablePresets: Map<string, string>;
+  // Relationships of the slide part (hyperlinks, media), rId1 is the layout
+  relationships: PackageRelationship[];
+  // Relationship ids of the images already referenced from this slide
+  imageRelationships: Map<string, string>;
+  media: MediaContext;
+  // What the presentation leaves out or approximates, shared by all slides
+  issues: FidelityIssueData[];
+  theme: ThemeOptions;
+  fonts: FontOptions;
+}
+
+// How colors and fonts refer to the presentation theme
+interface ThemeOptions {
+  colors?: ThemeColorTable;
+  fonts: boolean;
+}
+
+// Typefaces of runs written in the board's fonts
+interface FontOptions {
+  substitutions: FontSubstitutions;
+  // Language of the board's East Asian text, if it has any
+  eastAsianLanguage?: EastAsianLanguage;
+}
+
+// Shared by all slides so every image is stored once per presentation
+interface MediaContext {
+  images: ImageAssets;
+  parts: Map<string, PackageMedia>;
+}
+
+// Properties every node is drawn with. Shapes the converter adds itself, like
+// section titles and captions, have no id; code blocks and embeds are drawn as
+// filled text boxes, and title and body text may go into layout placeholders
+interface DrawingProperties extends StrokeStyleData {
+  id?: string;
+  visible?: boolean;
+  fills?: PaintData[];
+  strokes?: PaintData[];
+  strokeWeight?: number;
+  cornerRadius?: number;
+  text?: string;
+  textParagraphs?: TextParagraphData[];
+  textAutoResize?: TextNodeData['textAutoResize'];
+  url?: string;
+  children?: SlideNode[];
+  placeholder?: { type: PlaceholderType; index?: number };
+  // Padding around the text, when not that of the node type
+  textInset?: number;
+}
+
+// A node of the given types as drawn on a slide
+type Drawn<T> = T extends ExtractedNodeData ? Omit<T, keyof DrawingProperties> & DrawingProperties : never;
+
+type SlideNode = Drawn<ExtractedNodeData>;
+
+const EMU_PER_INCH = 914400;
+
+// FigJam node types to the shape types of the XML and JSON exports
+const PPTX_TYPES: { [nodeType: string]: string } = {
+  RECTANGLE: 'rectangle',
+  ELLIPSE: 'ellipse',
+  POLYGON: 'polygon',
+  SHAPE_WITH_TEXT: 'shape',
+  STICKY: 'sticky',
+  TEXT: 'text',
+  CONNECTOR: 'connector',
+  GROUP: 'group',
+  FRAME: 'frame',
+  SECTION: 'section',
+  LINE: 'line',
+  VECTOR: 'freeform',
+  HIGHLIGHT: 'freeform',
+  STAR: 'star',
+  TABLE: 'table',
+  CODE_BLOCK: 'code',
+  WIDGET: 'embed',
+  EMBED: 'embed',
+  LINK_UNFURL: 'embed',
+  MEDIA: 'embed',
+  STAMP: 'picture'
+};
+
+// The inverse, where the first node type of a shape type wins; 1.x exports called stickies text boxes
+const NODE_TYPES: { [shapeType: string]: ExtractedNodeData['type'] } = {
+  textbox: 'STICKY',
+  ...Object.fromEntries(Object.entries(PPTX_TYPES).reverse().map(([nodeType, shapeType]) => [shapeType, nodeType]))
+};
+
+// FigJam ShapeWithText shape types to PowerPoint preset geometries; TRIANGLE_DOWN,
+// PARALLELOGRAM_LEFT, ENG_FILE, ENG_FOLDER and SHIELD use custom geometry
+export const SHAPE_PRESETS: { [shapeType: string]: string } = {
+  SQUARE: 'rect',
+  ELLIPSE: 'ellipse',
+  ROUNDED_RECTANGLE: 'roundRect',
+  DIAMOND: 'diamond',
+  TRIANGLE_UP: 'triangle',
+  PARALLELOGRAM_RIGHT: 'parallelogram',
+  ENG_DATABASE: 'flowChartMagneticDisk',
+  ENG_QUEUE: 'flowChartMagneticDrum',
+  TRAPEZOID: 'trapezoid',
+  PREDEFINED_PROCESS: 'flowChartPredefinedProcess',
+  DOCUMENT_SINGLE: 'flowChartDocument',
+  DOCUMENT_MULTIPLE: 'flowChartMultidocument',
+  MANUAL_INPUT: 'flowChartManualInput',
+  HEXAGON: 'hexagon',
+  CHEVRON: 'chevron',
+  PENTAGON: 'pentagon',
+  OCTAGON: 'octagon',
+  STAR: 'star5',
+  PLUS: 'plus',
+  ARROW_LEFT: 'leftArrow',
+  ARROW_RIGHT: 'rightArrow',
+  SUMMING_JUNCTION: 'flowChartSummingJunction',
+  OR: 'flowChartOr',
+  SPEECH_BUBBLE: 'wedgeRoundRectCallout',
+  INTERNAL_STORAGE: 'flowChartInternalStorage'
+};
+
+// Regular polygons ("polygon-N") to PowerPoint preset geometries
+export const POLYGON_PRESETS: { [shapeType: string]: string } = {
+  'polygon-3': 'triangle',
+  'polygon-4': 'diamond',
+  'polygon-5': 'pentagon',
+  'polygon-6': 'hexagon',
+  'polygon-7': 'heptagon',
+  'polygon-8': 'octagon',
+  'polygon-10': 'decagon',
+  'polygon-12': 'dodecagon'
+};
+
+// Connection site indices of the preset geometries, by side
+export const CONNECTION_SITES: { [preset: string]: { [side: string]: number } } = {
+  rect: { TOP: 0, LEFT: 1, BOTTOM: 2, RIGHT: 3 },
+  ellipse: { TOP: 0, LEFT: 2, BOTTOM: 4, RIGHT: 6 },
+  triangle: { TOP: 0, LEFT: 1, BOTTOM: 3, RIGHT: 5 },
+  flowChartSummingJunction: { TOP: 0, LEFT: 2, BOTTOM: 4, RIGHT: 6 },
+  flowChartOr: { TOP: 0, LEFT: 2, BOTTOM: 4, RIGHT: 6 }
+};
+
+export const TEXT_ALIGN: { [align: string]: string } = {
+  LEFT: 'l',
+  CENTER: 'ctr',
+  RIGHT: 'r',
+  JUSTIFIED: 'just'
+};
+
+export const TEXT_ANCHOR: { [align: string]: string } = {
+  TOP: 't',
+  CENTER: 'ctr',
+  BOTTOM: 'b'
+};
+
+// Padding between a node's edge and its text in pixels, matching FigJam's layout
+const TEXT_INSETS: { [nodeType: string]: number } = {
+  TEXT: 0,
+  STICKY: 24,
+  SHAPE_WITH_TEXT: 12,
+  CODE_BLOCK: 16
+};
+
+// Nodes whose text FigJam shrinks to fit instead of overflowing
+const SHRINKING_TEXT_TYPES = ['STICKY', 'SHAPE_WITH_TEXT'];
+
+// Space between a connector label's text and its box, in pixels
+const CONNECTOR_LABEL_INSET = 4;
+
+// Bullet styles per list nesting level
+const UNORDERED_BULLETS = ['•', '◦', '▪'];
+const ORDERED_BULLETS = ['arabicPeriod', 'alphaLcPeriod', 'romanLcPeriod'];
+const LIST_INDENT_EMU = 342900;
+
+// Sticky author caption metrics in pixels, for FigJam's 240px sticky
+const STICKY_CAPTION_FONT_SIZE = 12;
+const STICKY_CAPTION_HEIGHT = 16;
+
+// FigJam stroke caps and joins to DrawingML line caps and joins
+const LINE_CAPS: { [cap: string]: string } = {
+  NONE: 'flat',
+  ROUND: 'rnd',
+  SQUARE: 'sq'
+};
+
+const LINE_JOINS: { [join: string]: string } = {
+  MITER: '<a:miter lim="800000"/>',
+  BEVEL: '<a:bevel/>',
+  ROUND: '<a:round/>'
+};
+
+// Preset dashes as dash and gap lengths in multiples of the line width
+const DASH_PRESETS: { [preset: string]: number[] } = {
+  sysDot: [1, 1],
+  sysDash: [3, 1],
+  dot: [1, 3],
+  dash: [4, 3],
+  lgDash: [8, 3],
+  sysDashDot: [3, 1, 1, 1],
+  dashDot: [4, 3, 1, 3],
+  lgDashDot: [8, 3, 1, 3]
+};
+
+// Blend modes DrawingML can express as a fill overlay
+const BLEND_MODES: { [mode: string]: string } = {
+  MULTIPLY: 'mult',
+  SCREEN: 'screen',
+  DARKEN: 'darken',
+  LIGHTEN: 'lighten'
+};
+
+// Node types exported as linked pictures, or cards when they cannot be rendered
+const EMBED_TYPES = ['WIDGET', 'EMBED', 'LINK_UNFURL', 'MEDIA'];
+
+// Section title label metrics in pixels
+const SECTION_TITLE_FONT_SIZE = 16;
+const SECTION_TITLE_HEIGHT = 28;
+const SECTION_TITLE_INSET = 16;
+
+// Table cell borders and padding, matching FigJam's table style
+const TABLE_BORDER_COLOR = { r: 217, g: 217, b: 217 };
+const TABLE_CELL_PADDING = 8;
+
+// Code blocks use FigJam's dark theme
+const CODE_FONT = 'Courier New';
+const CODE_FONT_SIZE = 12;
+const CODE_BACKGROUND = { r: 30, g: 30, b: 30 };
+const CODE_TEXT_COLOR = { r: 212, g: 212, b: 212 };
+const CODE_LANGUAGE_COLOR = { r: 153, g: 153, b: 153 };
+const CODE_LANGUAGE_NAMES: { [language: string]: string } = {
+  TYPESCRIPT: 'TypeScript',
+  JAVASCRIPT: 'JavaScript',
+  CPP: 'C++',
+  CSS: 'CSS',
+  HTML: 'HTML',
+  JSON: 'JSON',
+  GRAPHQL: 'GraphQL',
+  SQL: 'SQL',
+  PLAINTEXT: 'Plain text'
+};
+
+// Placeholder card for embeds, widgets and media that could not be rendered
+const EMBED_BACKGROUND = { r: 245, g: 245, b: 245 };
+const EMBED_LINK_COLOR = { r: 13, g: 153, b: 255 };
+
+// Shadows without a color of their own are black, as in FigJam
+const SHADOW_COLOR = { r: 0, g: 0, b: 0 };
+
+const STICKY_SHADOW = '<a:effectLst><a:outerShdw blurRad="38100" dist="12700" dir="5400000" algn="t" rotWithShape="0">' +
+  '<a:srgbClr val="000000"><a:alpha val="15000"/></a:srgbClr></a:outerShdw></a:effectLst>';
+
+// FigJam connector caps to DrawingML line end types
+export const LINE_END_TYPES: { [cap: string]: string } = {
+  ARROW_LINES: 'arrow',
+  ARROW_EQUILATERAL: 'triangle',
+  TRIANGLE_FILLED: 'triangle',
+  DIAMOND_FILLED: 'diamond',
+  CIRCLE_FILLED: 'oval'
+};
+
+// Locks written for locked layers, by locking element; PowerPoint keeps them
+// from being moved, resized, rotated or edited
+const LOCK_ATTRIBUTES: { [element: string]: string } = {
+  'a:spLocks': ' noRot="1" noMove="1" noResize="1" noEditPoints="1" noAdjustHandles="1" noChangeArrowheads="1" noChangeShapeType="1" noTextEdit="1"',
+  'a:cxnSpLocks': ' noRot="1" noMove="1" noResize="1" noEditPoints="1" noAdjustHandles="1" noChangeArrowheads="1" noChangeShapeType="1"',
+  'a:picLocks': ' noRot="1" noMove="1" noResize="1" noCrop="1"',
+  'a:grpSpLocks': ' noUngrp="1" noRot="1" noMove="1" noResize="1"',
+  'a:graphicFrameLocks': ' noMove="1" noResize="1"'
+};
+
 export class PPTXConverter {
   /**
    * Convert FigJam nodes to PowerPoint XML format
    */
-  static toXML(nodes: any[], pageInfo: any): string {
+  static toXML(nodes: ExtractedNodeData[], pageInfo: PageInfoData, options: ConversionOptions = {}): string {
+    const slides = SlideBuilder.build(arrangeLayers(nodes, options.hiddenLayers || 'skip'), pageInfo, options.slideOrder);
+
     let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
     xml += '<!-- FigJam to PowerPoint Export -->\n';
     xml += '<presentation xmlns="http://schemas.figjam2pptx.com/presentation">\n';
     xml += `  <metadata>\n`;
     xml += `    <exportDate>${new Date().toISOString()}</exportDate>\n`;
-    xml += `    <sourcePage>${this.escapeXML(pageInfo.name)}</sourcePage>\n`;
+    xml += `    <schemaVersion>${SCHEMA_VERSION}</schemaVersion>\n`;
+    xml += `    <sourcePage>${escapeXML(pageInfo.name)}</sourcePage>\n`;
     xml += `    <objectCount>${nodes.length}</objectCount>\n`;
     xml += `  </metadata>\n`;
-    xml += `  <slide width="${pageInfo.width}" height="${pageInfo.height}">\n`;
 
-    nodes.forEach(node => {
-      xml += this.nodeToXML(node, 2);
+    slides.forEach(slide => {
+      const section = slide.section !== undefined ? ` section="${escapeXML(slide.section)}"` : '';
+      const hidden = slide.hidden ? ' hidden="true"' : '';
+      xml += `  <slide name="${escapeXML(slide.name)}"${section}${hidden} width="${slide.width}" height="${slide.height}">\n`;
+      slide.nodes.forEach(node => {
+        xml += this.nodeToXML(node, 2);
+      });
+      xml += '  </slide>\n';
     });
 
-    xml += '  </slide>\n';
     xml += '</presentation>';
 
     return xml;
   }
 
   /**
-   * Convert FigJam nodes to simplified JSON format
+   * Convert FigJam nodes to the JSON export, validated against the export schema
    */
-  static toJSON(nodes: any[], pageInfo: any): string {
-    const output = {
+  static toJSON(nodes: ExtractedNodeData[], pageInfo: PageInfoData, report?: FidelityIssueData[]): string {
+    const bounds = getBounds(nodes);
+    const output: ExportDocument = {
       format: 'figjam2pptx',
-      version: '1.0.0',
+      schemaVersion: SCHEMA_VERSION,
       exportDate: new Date().toISOString(),
       page: {
+        id: pageInfo.id,
         name: pageInfo.name,
-        width: pageInfo.width,
-        height: pageInfo.height
+        width: bounds.width,
+        height: bounds.height
       },
-      shapes: nodes.map(node => this.nodeToShape(node))
+      nodes,
+      report
     };
 
+    assertValid(validateExport(output), 'export');
     return JSON.stringify(output, null, 2);
   }
 
   /**
-   * Convert single node to PowerPoint shape format
+   * Read a JSON export, or a raw {nodes, pageInfo} payload, back into the
+   * node data the other converters take. Pages without a name get defaultName.
+   */
+  static fromJSON(json: string, defaultName: string = 'Page'): ExportPayload {
+    const document = JSON.parse(json);
+
+    if (document && document.format === 'figjam2pptx' && Array.isArray(document.shapes)) {
+      // 1.x exports listed simplified shapes instead of nodes
+      return {
+        schemaVersion: SCHEMA_VERSION,
+        nodes: document.shapes.map((shape: PPTXShape, index: number) => this.shapeToNode(shape, index)),
+        pageInfo: { name: document.page && document.page.name ? document.page.name : defaultName }
+      };
+    }
+
+    if (document && document.format === 'figjam2pptx') {
+      assertValid(validateExport(document), 'export');
+      // Conversion issues are found again when converting; those of the extraction are not
+      const report: FidelityIssueData[] = document.report || [];
+      return {
+        schemaVersion: document.schemaVersion,
+        nodes: document.nodes,
+        pageInfo: { id: document.page.id, name: document.page.name || defaultName },
+        issues: report.filter(issue => issue.source === 'extraction')
+      };
+    }
+
+    if (document && Array.isArray(document.nodes)) {
+      assertValid(validateNodes(document.nodes), 'payload');
+      return {
+        schemaVersion: SCHEMA_VERSION,
+        nodes: document.nodes,
+        pageInfo: document.pageInfo && document.pageInfo.name ? document.pageInfo : { name: defaultName },
+        issues: Array.isArray(document.issues) ? document.issues : []
+      };
+    }
+
+    throw new Error('Not a figjam2pptx JSON export or {nodes, pageInfo} payload');
+  }
+
+  /**
+   * Convert FigJam nodes to a PowerPoint (.pptx) file. The fidelity report,
+   * with the issues found extracting the nodes, is stored in the document's
+   * custom properties.
+   */
+  static toPPTX(
+    nodes: ExtractedNodeData[],
+    pageInfo: PageInfoData,
+    options: ConversionOptions = {},
+    images: ImageAssets = {},
+    extractionIssues: FidelityIssueData[] = []
+  ): Uint8Array {
+    return this.convert(nodes, pageInfo, options, images, extractionIssues).data;
+  }
+
+  /**
+   * Convert FigJam nodes to a PowerPoint file like toPPTX, returning the file
+   * with its fidelity report so that callers needing both convert once
+   */
+  static convert(
+    nodes: ExtractedNodeData[],
+    pageInfo: PageInfoData,
+    options: ConversionOptions = {},
+    images: ImageAssets = {},
+    extractionIssues: FidelityIssueData[] = []
+  ): PPTXExport {
+    const { slideSize, slides, media, issues } = this.convertSlides(nodes, pageInfo, options, images);
+    const report = sortIssues([...extractionIssues, ...issues]);
+    const counts = countIssues(report);
+
+    const data = PPTXPackage.build({
+      title: pageInfo.name,
+      slideWidth: slideSize.width,
+      slideHeight: slideSize.height,
+      slides,
+      media,
+      template: options.template,
+      properties: {
+        FidelityErrors: counts.error,
+        FidelityWarnings: counts.warning,
+        FidelityInfo: counts.info,
+        ...Object.fromEntries(report.map((issue, index) => [`Fidelity ${index + 1}`,
+          `${issue.severity} | ${issue.code} | ${issue.nodeId} | ${issue.nodeName} | ${issue.message}`]))
+      }
+    });
+    return { data, report };
+  }
+
+  /**
+   * Bundle a PowerPoint export of the nodes made by convert, the JSON export,
+   * the diagram formats and the export's fidelity report in one ZIP archive,
+   * each named baseName with its extension
+   */
+  static toBundle(
+    nodes: ExtractedNodeData[],
+    pageInfo: PageInfoData,
+    baseName: string,
+    pptx: PPTXExport
+  ): Uint8Array {
+    return createZip([
+      { path: `${baseName}.pptx`, data: pptx.data },
+      { path: `${baseName}.json`, data: this.toJSON(nodes, pageInfo, pptx.report) },
+      { path: `${baseName}.mmd`, data: DiagramExporter.toMermaid(nodes, pageInfo) },
+      { path: `${baseName}.dot`, data: DiagramExporter.toDOT(nodes, pageInfo) },
+      { path: `${baseName}.drawio`, data: DiagramExporter.toDrawio(nodes, pageInfo) },
+      { path: `${baseName} fidelity report.txt`, data: formatReport(pptx.report, pageInfo.name) }
+    ]);
+  }
+
+  /**
+   * List what a PowerPoint export of the nodes leaves out or approximates,
+   * with the issues found extracting them, most severe first
+   */
+  static fidelityReport(
+    nodes: ExtractedNodeData[],
+    pageInfo: PageInfoData,
+    options: ConversionOptions = {},
+    images: ImageAssets = {},
+    extractionIssues: FidelityIssueData[] = []
+  ): FidelityIssueData[] {
+    const { issues } = this.convertSlides(nodes, pageInfo, options, images);
+    return sortIssues([...extractionIssues, ...issues]);
+  }
+
+  /**
+   * Convert the nodes to the slide parts of a presentation, collecting the
+   * media they use and the issues of the conversion
    */
-  private static nodeToShape(node: any): PPTXShape {
-    const shape: PPTXShape = {
-      type: this.mapNodeTypeToPPTX(node.type),
-      position: { x: node.x, y: node.y },
-      size: { width: node.width, height: node.height },
-      rotation: node.rotation
+  private static convertSlides(
+    nodes: ExtractedNodeData[],
+    pageInfo: PageInfoData,
+    options: ConversionOptions,
+    images: ImageAssets
+  ): { slideSize: { width: number; height: number }; slides: PackageSlide[]; media: PackageMedia[]; issues: FidelityIssueData[] } {
+    const slides = SlideBuilder.build(arrangeLayers(nodes, options.hiddenLayers || 'skip'), pageInfo, options.slideOrder);
+    const media: MediaContext = { images, parts: new Map() };
+    const issues: FidelityIssueData[] = [];
+    const slideSize = this.getSlideSize(slides, options);
+    const stickyNotes = options.stickyNotes || 'slide';
+    const dpi = options.dpi || DEFAULT_DPI;
+    const theme: ThemeOptions = { colors: options.themeColors, fonts: !!options.themeFonts };
+    const fonts: FontOptions = {
+      substitutions: options.fontSubstitutions || {},
+      eastAsianLanguage: detectEastAsianLanguage(this.collectTexts(nodes))
     };
 
-    // Add fill
-    if (node.fills && node.fills.length > 0) {
-      const fill = node.fills[0]; // Use first fill
-      if (fill.type === 'solid') {
-        shape.fill = {
-          type: 'solid',
-          color: fill.color,
-          opacity: fill.opacity
-        };
-      } else if (fill.type === 'gradient') {
-        shape.fill = {
-          type: 'gradient',
-          gradientStops: fill.gradientStops,
-          opacity: fill.opacity
-        };
+    const packageSlides = slides.map(slide => {
+      // Scale each frame to fit the slide and center it; lengths are
+      // converted at 96 DPI, so other resolutions are part of the scale
+      const fit = Math.min(
+        slideSize.width / (this.toEMU(slide.width, dpi) || 1),
+        slideSize.height / (this.toEMU(slide.height, dpi) || 1)
+      );
+      const scale = (options.scaling === 'actual' ? Math.min(1, fit) : fit) * (DEFAULT_DPI / dpi);
+      const pixelSize = this.toEMU(1) * scale;
+      const dx = (slideSize.width / pixelSize - slide.width) / 2 - slide.originX;
+      const dy = (slideSize.height / pixelSize - slide.height) / 2 - slide.originY;
+      const shownNodes = stickyNotes === 'notes' ? removeStickies(slide.nodes) : slide.nodes;
+      const visibleNodes = this.resolveOpacity(shownNodes);
+      const mode = options.placeholders || 'none';
+      const placeholders = mode !== 'none' ? findPlaceholders(slide, shownNodes, mode) : undefined;
+      const slideNodes = placeholders ? this.applyPlaceholders(visibleNodes, placeholders) : visibleNodes;
+      const context = this.createSlideContext(slideNodes, media, issues, theme, fonts, scale);
+      const shapesXML = this.slideTitleXML(slide, placeholders, context, dx, dy) + slideNodes
+        .map(node => this.nodeToDrawingML(node, context, dx, dy))
+        .join('');
+      this.reportBackgroundIssues(slide, context);
+      return {
+        xml: PPTXPackage.slideXML(shapesXML, this.backgroundToDrawingML(slide.background, slide.width, slide.height, context, !!options.template), slide.hidden),
+        relationships: context.relationships,
+        notes: stickyNotes === 'slide' ? undefined : collectStickyNotes(slide.nodes),
+        section: slide.section,
+        layout: this.slideLayoutType(slide, placeholders)
+      };
+    });
+
+    return { slideSize, slides: packageSlides, media: Array.from(media.parts.values()), issues };
+  }
+
+  /**
+   * Text and names of the nodes and their descendants, for telling the
+   * language of the board
+   */
+  private static collectTexts(nodes: ExtractedNodeData[]): string[] {
+    const texts: string[] = [];
+    const visit = (node: ExtractedNodeData) => {
+      texts.push(String(node.name || ''), String('text' in node && node.text || ''));
+      if ('children' in node) {
+        node.children.forEach(visit);
       }
-    }
+    };
+    nodes.forEach(visit);
+    return texts;
+  }
 
-    // Add stroke
-    if (node.strokes && node.strokes.length > 0 && node.strokeWeight) {
-      const stroke = node.strokes[0];
-      if (stroke.type === 'solid') {
-        shape.stroke = {
-          color: stroke.color,
-          width: node.strokeWeight,
-          opacity: stroke.opacity
-        };
+  /**
+   * Mark the heading as the title placeholder and put a body placeholder in
+   * place of each column of stacked text, where its top item was
+   */
+  private static applyPlaceholders(nodes: SlideNode[], placeholders: SlidePlaceholders): SlideNode[] {
+    const absorbed = new Set(placeholders.bodies.flatMap(body => body.nodeIds));
+
+    return nodes.flatMap((node): SlideNode[] => {
+      if (node.id === placeholders.titleNodeId) {
+        return [{ ...node, placeholder: { type: 'title' } }];
       }
+      const index = placeholders.bodies.findIndex(body => body.nodeIds[0] === node.id);
+      if (index >= 0) {
+        const body = placeholders.bodies[index];
+        return [{
+          type: 'TEXT',
+          name: `Body ${index + 1}`,
+          ...body.bounds,
+          rotation: 0,
+          text: body.paragraphs.map(paragraph => paragraph.runs.map(run => run.text).join('')).join('\n'),
+          textParagraphs: body.paragraphs,
+          placeholder: { type: 'body', index: index + 1 }
+        }];
+      }
+      return node.id !== undefined && absorbed.has(node.id) ? [] : [node];
+    });
+  }
+
+  /**
+   * Section slides show their label, which is the title placeholder when
+   * placeholders are written. Other slides without a heading stay untitled.
+   */
+  private static slideTitleXML(
+    slide: SlideData,
+    placeholders: SlidePlaceholders | undefined,
+    context: SlideContext,
+    dx: number,
+    dy: number
+  ): string {
+    if (slide.title !== undefined) {
+      const title = this.sectionTitle(slide.title, slide.width);
+      return this.shapeToDrawingML(placeholders ? { ...title, placeholder: { type: 'title' } } : title, context, dx, dy);
     }
+    return '';
+  }
 
-    // Add text
-    if (node.text) {
-      shape.text = node.text;
+  /**
+   * Layout for the placeholders a slide has: Title and Content with bodies,
+   * Title Only with just a title, else the default
+   */
+  private static slideLayoutType(slide: SlideData, placeholders: SlidePlaceholders | undefined): string | undefined {
+    if (!placeholders) {
+      return undefined;
+    }
+    if (placeholders.bodies.length > 0) {
+      return 'obj';
+    }
+    return slide.title !== undefined || placeholders.titleNodeId !== undefined ? 'titleOnly' : undefined;
+  }
+
+  /**
+   * Resolve the presentation slide size in EMU. A template's own size wins,
+   * as its layouts are drawn for it.
+   */
+  static getSlideSize(slides: SlideData[], options: ConversionOptions): { width: number; height: number } {
+    if (options.template) {
+      return {
+        width: PPTXPackage.clampSlideSize(options.template.slideWidth),
+        height: PPTXPackage.clampSlideSize(options.template.slideHeight)
+      };
     }
 
-    // Add type-specific properties
-    if (node.cornerRadius !== undefined) {
-      shape.properties = { ...shape.properties, cornerRadius: node.cornerRadius };
+    const size = options.slideSize || '16:9';
+
+    const custom = options.customSlideSize;
+    if (size === 'custom' && custom && isFinite(custom.width) && isFinite(custom.height)) {
+      return {
+        width: PPTXPackage.clampSlideSize(custom.width * EMU_PER_INCH),
+        height: PPTXPackage.clampSlideSize(custom.height * EMU_PER_INCH)
+      };
     }
 
-    if (node.shapeType) {
-      shape.properties = { ...shape.properties, shapeType: node.shapeType };
+    if (SLIDE_SIZES[size]) {
+      return SLIDE_SIZES[size];
     }
 
-    return shape;
+    // Size to the largest frame; frames beyond PowerPoint's limit are scaled down
+    const dpi = options.dpi || DEFAULT_DPI;
+    return {
+      width: PPTXPackage.clampSlideSize(this.toEMU(Math.max(...slides.map(slide => slide.width)), dpi)),
+      height: PPTXPackage.clampSlideSize(this.toEMU(Math.max(...slides.map(slide => slide.height)), dpi))
+    };
   }
 
   /**
-   * Convert node to XML representation
+   * Convert node to a DrawingML element of the slide shape tree
    */
-  private static nodeToXML(node: any, indent: number): string {
-    const spaces = '  '.repeat(indent);
-    const pptxType = this.mapNodeTypeToPPTX(node.type);
+  private static nodeToDrawingML(node: SlideNode, context: SlideContext, dx: number, dy: number): string {
+    this.reportIssues(node, context);
 
-    let xml = `${spaces}<shape>\n`;
-    xml += `${spaces}  <type>${this.escapeXML(pptxType)}</type>\n`;
-    xml += `${spaces}  <id>${this.escapeXML(node.id)}</id>\n`;
-    xml += `${spaces}  <name>${this.escapeXML(node.name)}</name>\n`;
+    switch (node.type) {
+      case 'GROUP':
+      case 'FRAME':
+      case 'SECTION':
+        return this.groupToDrawingML(node, context, dx, dy);
 
-    // Geometry
-    xml += `${spaces}  <geometry>\n`;
-    xml += `${spaces}    <position x="${node.x}" y="${node.y}"/>\n`;
-    xml += `${spaces}    <size width="${node.width}" height="${node.height}"/>\n`;
-    xml += `${spaces}    <rotation degrees="${node.rotation}"/>\n`;
-    xml += `${spaces}  </geometry>\n`;
+      case 'CONNECTOR':
+        return this.connectorToDrawingML(node, context, dx, dy);
 
-    // Fill
-    if (node.fills && node.fills.length > 0) {
-      xml += `${spaces}  <fill>\n`;
-      const fill = node.fills[0];
-      if (fill.type === 'solid') {
-        xml += `${spaces}    <solid r="${fill.color.r}" g="${fill.color.g}" b="${fill.color.b}" opacity="${fill.opacity || 1}"/>\n`;
-      } else if (fill.type === 'gradient') {
-        xml += `${spaces}    <gradient type="${fill.gradientType}">\n`;
-        fill.gradientStops?.forEach((stop: any) => {
-          xml += `${spaces}      <stop position="${stop.position}" r="${stop.color.r}" g="${stop.color.g}" b="${stop.color.b}" a="${stop.color.a}"/>\n`;
-        });
-        xml += `${spaces}    </gradient>\n`;
+      case 'STICKY':
+        return this.stickyToDrawingML(node, context, dx, dy);
+
+      case 'LINE':
+        return this.lineToDrawingML(node, context, dx, dy);
+
+      case 'TABLE':
+        return this.tableToDrawingML(node, context, dx, dy);
+
+      case 'CODE_BLOCK':
+        return this.codeBlockToDrawingML(node, context, dx, dy);
+
+      case 'WIDGET':
+      case 'EMBED':
+      case 'LINK_UNFURL':
+      case 'MEDIA':
+        return this.embedToDrawingML(node, context, dx, dy);
+
+      default:
+        if (node.fallbackImage && context.media.images[node.fallbackImage]) {
+          return this.pictureToDrawingML(node, node.fallbackImage, undefined, context, dx, dy);
+        }
+        return this.shapeToDrawingML(node, context, dx, dy);
+    }
+  }
+
+  /**
+   * Record what the drawing of a node leaves out or approximates
+   */
+  private static reportIssues(node: SlideNode, context: SlideContext) {
+    const report = (severity: FidelitySeverity, code: string, message: string) =>
+      addIssue(context.issues, node, severity, code, message);
+
+    if (node.fallbackImage) {
+      const rendered = !!context.media.images[node.fallbackImage];
+      if (EMBED_TYPES.includes(node.type)) {
+        if (!rendered) {
+          report('warning', 'picture-missing', 'Could not be rendered; drawn as a card linking to its source');
+        }
+      } else if (rendered) {
+        report('info', 'rendered-as-picture', `${this.typeLabel(node.type)} has no PowerPoint equivalent; exported as a picture that cannot be edited`);
+        return;
+      } else {
+        report('error', 'picture-missing', `${this.typeLabel(node.type)} could not be rendered and is missing from the slide`);
+        return;
       }
-      xml += `${spaces}  </fill>\n`;
     }
 
-    // Stroke
-    if (node.strokes && node.strokes.length > 0) {
-      xml += `${spaces}  <stroke weight="${node.strokeWeight || 1}">\n`;
-      const stroke = node.strokes[0];
-      if (stroke.type === 'solid') {
-        xml += `${spaces}    <color r="${stroke.color.r}" g="${stroke.color.g}" b="${stroke.color.b}" opacity="${stroke.opacity || 1}"/>\n`;
+    const fills = node.fills || [];
+    if (node.type === 'TEXT') {
+      if (fills.some(paint => paint.type !== 'solid')) {
+        report('warning', 'text-fill-dropped', 'Gradient and image text fills are drawn in a solid color');
+      }
+    } else if (node.type === 'TABLE') {
+      const cellFills = (node.cells || []).flat().map(cell => cell.fills && cell.fills.length > 0 ? cell.fills : fills);
+      if (cellFills.some(paints => paints.some(paint => paint.type === 'image') || flattenPaints(paints).length > 1)) {
+        report('warning', 'paints-dropped', 'Table cells are filled with their top solid or gradient fill only');
+      }
+    } else if (fills.length > 0) {
+      if (fills.some(paint => paint.type === 'image' && !this.hasImage(paint, context))) {
+        report('error', 'image-fill-skipped', 'Image fill left out; the image was not exported with the nodes');
+      }
+      const layers = flattenPaints(this.drawablePaints(fills, context));
+      if (layers.length > 1) {
+        report('info', 'paints-layered', `${layers.length} stacked fills are drawn as overlapping copies of the shape`);
+      }
+      if (layers.some(paint => paint.type === 'gradient' && paint.gradientType === 'GRADIENT_ANGULAR')) {
+        report('warning', 'gradient-approximated', 'Angular gradient approximated by a radial gradient');
       }
-      xml += `${spaces}  </stroke>\n`;
     }
 
-    // Text
-    if (node.text) {
-      xml += `${spaces}  <text><![CDATA[${node.text}]]></text>\n`;
+    const strokes = node.strokes || [];
+    if (strokes.length > 0 && (node.strokeWeight || node.type === 'CONNECTOR' || node.type === 'LINE')) {
+      const layers = flattenPaints(strokes.filter(paint => paint.type !== 'image'));
+      if (layers.length > 1 || strokes.some(paint => paint.type === 'image')) {
+        report('warning', 'paints-dropped', 'Only the top solid or gradient stroke is drawn');
+      }
+      const stroke = layers[layers.length - 1];
+      if (stroke && stroke.type === 'gradient' && stroke.gradientType === 'GRADIENT_ANGULAR') {
+        report('warning', 'gradient-approximated', 'Angular gradient approximated by a radial gradient');
+      }
+      if (node.strokeAlign === 'OUTSIDE') {
+        report('info', 'stroke-centered', 'Outside stroke drawn centered on the outline');
+      }
     }
 
-    // Properties
-    if (node.cornerRadius !== undefined || node.shapeType) {
-      xml += `${spaces}  <properties>\n`;
-      if (node.cornerRadius !== undefined) {
-        xml += `${spaces}    <cornerRadius>${node.cornerRadius}</cornerRadius>\n`;
+    const effects = node.effects || [];
+    const dropped = effects.filter((effect, i) =>
+      effect.type === 'BACKGROUND_BLUR' || effects.findIndex(other => other.type === effect.type) < i);
+    if (dropped.length > 0) {
+      report('warning', 'effect-dropped', 'Background blurs, and all but the first effect of each kind, are left out');
+    }
+
+    if (node.blendMode) {
+      const overlaid = BLEND_MODES[node.blendMode] && node.type !== 'TEXT' && this.topPaint(fills);
+      if (!overlaid) {
+        report('warning', 'blend-mode-unsupported', `${this.typeLabel(node.blendMode)} blend mode is drawn as normal`);
       }
-      if (node.shapeType) {
-        xml += `${spaces}    <shapeType>${this.escapeXML(node.shapeType)}</shapeType>\n`;
+    }
+
+    if (node.type === 'SHAPE_WITH_TEXT' && node.shapeType &&
+      !this.mapShapeTypeToPreset(node.shapeType) && !CUSTOM_SHAPE_PATHS[node.shapeType]) {
+      report('warning', 'shape-approximated', `${this.typeLabel(node.shapeType)} shape has no PowerPoint equivalent; drawn as a rectangle`);
+    }
+
+    if (node.type === 'CONNECTOR') {
+      // Ends attached to shapes elsewhere, or to shapes without connection sites, are left loose
+      const loose = ([['start', node.connectorStart], ['end', node.connectorEnd]] as [string, ConnectorEndpointData][])
+        .filter(([, endpoint]) => endpoint && endpoint.endpointNodeId && !context.connectablePresets.has(endpoint.endpointNodeId))
+        .map(([end]) => end);
+      if (loose.length > 0) {
+        report('warning', 'connector-unattached',
+          `Connector ${loose.join(' and ')} not attached; the connected shape is not on this slide or takes no connections`);
       }
-      xml += `${spaces}  </properties>\n`;
     }
 
-    // Children
-    if (node.children && node.children.length > 0) {
-      xml += `${spaces}  <group>\n`;
-      node.children.forEach((child: any) => {
-        xml += this.nodeToXML(child, indent + 2);
-      });
-      xml += `${spaces}  </group>\n`;
+    if (!context.theme.fonts) {
+      const runFamilies = (node.textParagraphs || [])
+        .flatMap(paragraph => (paragraph.runs || []).map(run => run.fontFamily));
+      const fontFamily = node.type === 'TEXT' && node.fontName ? node.fontName.family : undefined;
+      const families = new Set([...runFamilies, fontFamily]
+        .filter((family): family is string => !!family && !!context.fonts.substitutions[family]));
+      if (families.size > 0) {
+        report('info', 'font-substituted', Array.from(families)
+          .map(family => `${family} is written as ${context.fonts.substitutions[family]}`)
+          .join(', '));
+      }
+    }
+  }
+
+  /**
+   * Slide backgrounds take a single solid or gradient fill
+   */
+  private static reportBackgroundIssues(slide: SlideData, context: SlideContext) {
+    const fills = slide.background || [];
+    const node = { id: slide.id, name: slide.name };
+
+    if (fills.some(paint => paint.type === 'image')) {
+      addIssue(context.issues, node, 'error', 'image-fill-skipped', 'Background image left out; slide backgrounds are solid or gradient');
+    }
+    if (flattenPaints(fills.filter(paint => paint.type !== 'image')).length > 1) {
+      addIssue(context.issues, node, 'warning', 'paints-dropped', 'Only the top background fill is drawn');
     }
+  }
 
-    xml += `${spaces}</shape>\n`;
+  /**
+   * "SHAPE_WITH_TEXT" as "Shape with text", for messages
+   */
+  private static typeLabel(type: string): string {
+    const words = String(type).toLowerCase().replace(/[_-]+/g, ' ');
+    return words.charAt(0).toUpperCase() + words.slice(1);
+  }
+
+  /**
+   * Stickies are filled squares with FigJam's drop shadow. A visible author
+   * name becomes a caption grouped with the sticky.
+   */
+  private static stickyToDrawingML(node: Drawn<StickyNodeData>, context: SlideContext, dx: number, dy: number): string {
+    const fills: PaintData[] = node.fills && node.fills.length > 0
+      ? node.fills
+      : [{ type: 'solid', color: STICKY_COLORS[DEFAULT_STICKY_COLOR], opacity: node.opacity !== undefined ? node.opacity : 1 }];
+    const sticky = { ...node, fills };
+
+    if (!node.authorVisible || !node.authorName) {
+      return this.shapeToDrawingML(sticky, context, dx, dy);
+    }
+
+    // The caption is drawn by the group, so the sticky itself is emitted without it
+    return this.groupToDrawingML({
+      type: 'GROUP',
+      name: `${node.name} with author`,
+      x: node.x,
+      y: node.y,
+      width: node.width,
+      height: node.height,
+      rotation: node.rotation,
+      visible: node.visible,
+      locked: node.locked,
+      children: [{ ...sticky, authorVisible: false }, this.stickyCaption(node)]
+    }, context, dx, dy);
+  }
+
+  /**
+   * Build the author caption along the bottom edge of a sticky
+   */
+  private static stickyCaption(node: Drawn<StickyNodeData>): Drawn<TextNodeData> {
+    const unit = node.height / STICKY_SIZE;
+    const inset = TEXT_INSETS.STICKY * unit;
+    const height = STICKY_CAPTION_HEIGHT * unit;
+    const localY = node.height - inset / 2 - height;
+
+    // Position the caption in the sticky's own (possibly rotated) frame
+    const t = getTransform(node);
+    const transform = [
+      [t[0][0], t[0][1], t[0][0] * inset + t[0][1] * localY + t[0][2]],
+      [t[1][0], t[1][1], t[1][0] * inset + t[1][1] * localY + t[1][2]]
+    ];
+
+    return {
+      type: 'TEXT',
+      name: `${node.name} author`,
+      x: transform[0][2],
+      y: transform[1][2],
+      width: node.width - inset * 2,
+      height,
+      rotation: node.rotation,
+      transform,
+      visible: node.visible,
+      locked: node.locked,
+      text: node.authorName,
+      textParagraphs: [{
+        indentation: 0,
+        runs: [{
+          text: node.authorName,
+          fontSize: STICKY_CAPTION_FONT_SIZE * unit,
+          color: { r: 0, g: 0, b: 0 },
+          opacity: 0.5
+        }]
+      }]
+    };
+  }
+
+  private static groupToDrawingML(node: Drawn<ContainerNodeData>, context: SlideContext, dx: number, dy: number): string {
+    const id = this.shapeId(node, context);
+    const children = node.children || [];
+    const isContainer = node.type === 'FRAME' || node.type === 'SECTION';
+    // Frames and sections paint their own background beneath their children;
+    // their effects are cast by the background, so the group does not repeat them
+    const hasBackground = isContainer && !!node.fills && node.fills.length > 0;
+    const effects = hasBackground ? '' : this.effectsToDrawingML(node, context);
+
+    let xml = '<p:grpSp>';
+    xml += `<p:nvGrpSpPr>${this.nonVisualPropertiesXML(id, node, context)}`;
+    xml += `<p:cNvGrpSpPr>${this.locksXML('a:grpSpLocks', node)}</p:cNvGrpSpPr><p:nvPr/></p:nvGrpSpPr>`;
+
+    if (isContainer) {
+      // Frame and section children are positioned relative to the container itself
+      const placement = getPlacement(node);
+      xml += `<p:grpSpPr>${this.placementToDrawingML(placement, dx, dy, context, '<a:chOff x="0" y="0"/>' +
+        `<a:chExt cx="${this.emu(node.width, context)}" cy="${this.emu(node.height, context)}"/>`)}` +
+        `${effects}</p:grpSpPr>`;
+    } else {
+      // Group children share the coordinate space of the group's parent,
+      // so the group maps its children's bounds onto themselves
+      const bounds = getBounds(children);
+      const offset = `<a:off x="${this.emu(bounds.x + dx, context)}" y="${this.emu(bounds.y + dy, context)}"/>`;
+      const extent = `cx="${this.emu(bounds.width, context)}" cy="${this.emu(bounds.height, context)}"`;
+      xml += `<p:grpSpPr><a:xfrm>${offset}<a:ext ${extent}/>${offset.replace('a:off', 'a:chOff')}<a:chExt ${extent}/></a:xfrm>` +
+        `${effects}</p:grpSpPr>`;
+    }
+
+    if (hasBackground) {
+      const background: Drawn<ShapeNodeData> = {
+        ...node, id: undefined, x: 0, y: 0, rotation: 0, transform: undefined, type: 'RECTANGLE', children: undefined
+      };
+      xml += this.shapeToDrawingML(background, context, 0, 0);
+    }
+
+    if (node.type === 'SECTION') {
+      xml += this.shapeToDrawingML(this.sectionTitle(node.name, node.width), context, 0, 0);
+    }
+
+    const childDX = isContainer ? 0 : dx;
+    const childDY = isContainer ? 0 : dy;
+    children.forEach(child => {
+      xml += this.nodeToDrawingML(child, context, childDX, childDY);
+    });
+
+    xml += '</p:grpSp>';
     return xml;
   }
 
   /**
-   * Map FigJam node types to PowerPoint equivalents
+   * Build the name label FigJam shows in the top-left corner of a section,
+   * in the section's own coordinates
    */
-  private static mapNodeTypeToPPTX(nodeType: string): string {
-    const mapping: { [key: string]: string } = {
-      'RECTANGLE': 'rectangle',
-      'ELLIPSE': 'ellipse',
-      'POLYGON': 'polygon',
-      'SHAPE_WITH_TEXT': 'shape',
-      'STICKY': 'textbox',
-      'TEXT': 'text',
-      'CONNECTOR': 'line',
-      'GROUP': 'group',
-      'FRAME': 'frame',
-      'LINE': 'line'
+  private static sectionTitle(name: string, width: number): Drawn<TextNodeData> {
+    return {
+      type: 'TEXT',
+      name: `${name} title`,
+      x: SECTION_TITLE_INSET,
+      y: SECTION_TITLE_INSET / 2,
+      width: Math.max(0, width - SECTION_TITLE_INSET * 2),
+      height: SECTION_TITLE_HEIGHT,
+      rotation: 0,
+      text: name,
+      textParagraphs: [{
+        indentation: 0,
+        runs: [{ text: name, fontSize: SECTION_TITLE_FONT_SIZE, bold: true, color: { r: 0, g: 0, b: 0 } }]
+      }]
     };
+  }
+
+  /**
+   * Lines are connector shapes without connections, with arrowheads for arrow caps
+   */
+  private static lineToDrawingML(node: Drawn<LineNodeData>, context: SlideContext, dx: number, dy: number): string {
+    const id = this.shapeId(node, context);
+    const lineEnds = this.lineEndToDrawingML('headEnd', node.strokeCap) + this.lineEndToDrawingML('tailEnd', node.strokeCap);
+
+    let xml = '<p:cxnSp>';
+    xml += `<p:nvCxnSpPr>${this.nonVisualPropertiesXML(id, node, context)}`;
+    xml += `<p:cNvCxnSpPr>${this.locksXML('a:cxnSpLocks', node)}</p:cNvCxnSpPr><p:nvPr/></p:nvCxnSpPr>`;
+    xml += '<p:spPr>';
+    xml += this.placementToDrawingML(getPlacement(node), dx, dy, context);
+    xml += '<a:prstGeom prst="line"><a:avLst/></a:prstGeom>';
+    xml += this.strokeToDrawingML(node.strokes, node.strokeWeight || 1, context, lineEnds, node);
+    xml += this.effectsToDrawingML(node, context);
+    xml += '</p:spPr>';
+    xml += '</p:cxnSp>';
+    return xml;
+  }
+
+  /**
+   * Tables become native DrawingML tables. Merged cells span the grid from
+   * their top-left cell; the cells they cover are marked as merged.
+   */
+  private static tableToDrawingML(node: Drawn<TableNodeData>, context: SlideContext, dx: number, dy: number): string {
+    const id = this.shapeId(node, context);
+    const placement = getPlacement(node);
+    const rows = node.cells || [];
+    const columnWidths: number[] = node.columnWidths || [];
+    const rowHeights: number[] = node.rowHeights || [];
+
+    // Cells covered by a merged cell, keyed "row:column"
+    const merged = new Map<string, { hMerge: boolean; vMerge: boolean }>();
+    rows.forEach((cells, row) => cells.forEach((cell, column) => {
+      const rowSpan = cell.rowSpan || 1;
+      const columnSpan = cell.columnSpan || 1;
+      for (let i = 0; i < rowSpan; i++) {
+        for (let j = 0; j < columnSpan; j++) {
+          if (i > 0 || j > 0) {
+            merged.set(`${row + i}:${column + j}`, { hMerge: j > 0, vMerge: i > 0 });
+          }
+        }
+      }
+    }));
+
+    const gridXML = columnWidths.map(width => `<a:gridCol w="${this.emu(width, context)}"/>`).join('');
+    const rowsXML = rows.map((cells, row) => {
+      const cellsXML = cells.map((cell, column) =>
+        this.tableCellToDrawingML(cell, merged.get(`${row}:${column}`), node.fills, context,
+          columnWidths[column] || 0, rowHeights[row] || 0)).join('');
+      return `<a:tr h="${this.emu(rowHeights[row] || 0, context)}">${cellsXML}</a:tr>`;
+    }).join('');
+
+    const width = columnWidths.reduce((sum, value) => sum + value, 0);
+    const height = rowHeights.reduce((sum, value) => sum + value, 0);
+
+    let xml = '<p:graphicFrame>';
+    xml += `<p:nvGraphicFramePr>${this.nonVisualPropertiesXML(id, node, context)}`;
+    xml += `<p:cNvGraphicFramePr>${this.locksXML('a:graphicFrameLocks', node, ' noGrp="1"')}</p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr>`;
+    // Tables cannot be rotated, so the frame keeps the unrotated box
+    xml += `<p:xfrm><a:off x="${this.emu(placement.x + dx, context)}" y="${this.emu(placement.y + dy, context)}"/>`;
+    xml += `<a:ext cx="${this.emu(width, context)}" cy="${this.emu(height, context)}"/></p:xfrm>`;
+    xml += '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table">';
+    xml += `<a:tbl><a:tblPr/><a:tblGrid>${gridXML}</a:tblGrid>${rowsXML}</a:tbl>`;
+    xml += '</a:graphicData></a:graphic>';
+    xml += '</p:graphicFrame>';
+    return xml;
+  }
+
+  private static tableCellToDrawingML(
+    cell: TableCellData,
+    merge: { hMerge: boolean; vMerge: boolean } | undefined,
+    tableFills: PaintData[] | undefined,
+    context: SlideContext,
+    width: number,
+    height: number
+  ): string {
+    let attributes = '';
+    if (cell.columnSpan && cell.columnSpan > 1) attributes += ` gridSpan="${cell.columnSpan}"`;
+    if (cell.rowSpan && cell.rowSpan > 1) attributes += ` rowSpan="${cell.rowSpan}"`;
+    if (merge && merge.hMerge) attributes += ' hMerge="1"';
+    if (merge && merge.vMerge) attributes += ' vMerge="1"';
+
+    const paragraphs = cell.textParagraphs && cell.textParagraphs.length > 0
+      ? cell.textParagraphs
+      : this.plainTextToParagraphs(cell.text || '');
+    const paragraphsXML = paragraphs.map(paragraph => this.paragraphToDrawingML(paragraph, 'l', context)).join('');
 
-    return mapping[nodeType] || 'shape';
+    const padding = this.emu(TABLE_CELL_PADDING, context);
+    const border = (element: string) => `<a:${element} w="${this.emu(1, context)}">` +
+      `<a:solidFill>${this.colorToDrawingML(TABLE_BORDER_COLOR, context)}</a:solidFill></a:${element}>`;
+    const fills = cell.fills && cell.fills.length > 0 ? cell.fills : tableFills;
+
+    return `<a:tc${attributes}>` +
+      `<a:txBody><a:bodyPr/><a:lstStyle/>${paragraphsXML}</a:txBody>` +
+      `<a:tcPr marL="${padding}" marR="${padding}" marT="${padding}" marB="${padding}">` +
+      border('lnL') + border('lnR') + border('lnT') + border('lnB') +
+      this.fillToDrawingML(fills, width, height, context) +
+      '</a:tcPr></a:tc>';
+  }
+
+  /**
+   * Code blocks become dark, monospaced text boxes headed by their language
+   */
+  private static codeBlockToDrawingML(node: Drawn<CodeBlockNodeData>, context: SlideContext, dx: number, dy: number): string {
+    const language = CODE_LANGUAGE_NAMES[node.codeLanguage] ||
+      String(node.codeLanguage || '').charAt(0) + String(node.codeLanguage || '').slice(1).toLowerCase();
+    const code = String(node.code || '').replace(/\t/g, '    ');
+
+    const paragraphs: TextParagraphData[] = [
+      ...(language ? [{ indentation: 0, runs: [{ text: language, fontSize: CODE_FONT_SIZE, color: CODE_LANGUAGE_COLOR }] }] : []),
+      ...code.split('\n').map(line => ({
+        indentation: 0,
+        runs: line.length > 0
+          ? [{ text: line, fontFamily: CODE_FONT, fontSize: CODE_FONT_SIZE, color: CODE_TEXT_COLOR }]
+          : []
+      }))
+    ];
+
+    return this.shapeToDrawingML({
+      ...node,
+      cornerRadius: 8,
+      fills: [{ type: 'solid', color: CODE_BACKGROUND, opacity: 1 }],
+      text: code,
+      textParagraphs: paragraphs
+    }, context, dx, dy);
   }
 
   /**
-   * Escape XML special characters
+   * Widgets, embeds, link previews and media are pictures linked to their URL,
+   * or a titled placeholder card when no picture could be rendered
    */
-  private static escapeXML(str: string): string {
-    if (typeof str !== 'string') return String(str);
+  private static embedToDrawingML(node: Drawn<EmbedNodeData>, context: SlideContext, dx: number, dy: number): string {
+    if (node.fallbackImage && context.media.images[node.fallbackImage]) {
+      return this.pictureToDrawingML(node, node.fallbackImage, undefined, context, dx, dy);
+    }
 
-    return str
-      .replace(/&/g, '&amp;')
-      .replace(/</g, '&lt;')
-      .replace(/>/g, '&gt;')
-      .replace(/"/g, '&quot;')
-      .replace(/'/g, '&apos;');
+    const paragraphs: TextParagraphData[] = [{ indentation: 0, runs: [{ text: node.title || node.name, bold: true, fontSize: 14 }] }];
+    if (node.description) {
+      paragraphs.push({ indentation: 0, runs: [{ text: node.description, fontSize: 12, opacity: 0.6, color: { r: 0, g: 0, b: 0 } }] });
+    }
+    if (node.url) {
+      paragraphs.push({
+        indentation: 0,
+        runs: [{ text: node.provider || node.url, fontSize: 12, color: EMBED_LINK_COLOR, underline: true, hyperlink: node.url }]
+      });
+    }
+
+    return this.shapeToDrawingML({
+      ...node,
+      fallbackImage: undefined,
+      cornerRadius: 8,
+      fills: [{ type: 'solid', color: EMBED_BACKGROUND, opacity: 1 }],
+      strokes: [{ type: 'solid', color: TABLE_BORDER_COLOR, opacity: 1 }],
+      strokeWeight: 1,
+      text: node.title || node.name,
+      textParagraphs: paragraphs,
+      textInset: 12
+    }, context, dx, dy);
+  }
+
+  private static shapeToDrawingML(node: SlideNode, context: SlideContext, dx: number, dy: number): string {
+    // Text nodes are filled with their text color
+    const layers = node.type === 'TEXT' ? [] : flattenPaints(this.drawablePaints(node.fills, context));
+    if (layers.length > 1) {
+      return this.layeredShapeToDrawingML(node, layers, context, dx, dy);
+    }
+    const top = layers.length === 1 ? layers[0] : undefined;
+    const imageFill = top && top.type === 'image' && this.hasImage(top, context) ? top : undefined;
+
+    // Image-filled shapes without text are exported as pictures
+    if (imageFill && node.text === undefined) {
+      return this.pictureToDrawingML(node, imageFill.imageHash, imageFill, context, dx, dy);
+    }
+
+    const id = this.shapeId(node, context);
+    const isText = node.type === 'TEXT';
+
+    let xml = '<p:sp>';
+    xml += `<p:nvSpPr>${this.nonVisualPropertiesXML(id, node, context)}`;
+    xml += node.placeholder
+      ? `<p:cNvSpPr>${this.locksXML('a:spLocks', node, ' noGrp="1"')}</p:cNvSpPr><p:nvPr>${this.placeholderXML(node.placeholder)}</p:nvPr></p:nvSpPr>`
+      : `<p:cNvSpPr${isText ? ' txBox="1"' : ''}>${this.locksXML('a:spLocks', node)}</p:cNvSpPr><p:nvPr/></p:nvSpPr>`;
+    xml += '<p:spPr>';
+    xml += this.placementToDrawingML(getPlacement(node), dx, dy, context);
+    xml += this.geometryToDrawingML(node);
+    if (isText) {
+      xml += '<a:noFill/>';
+    } else if (imageFill) {
+      xml += this.blipFillToDrawingML('a:blipFill', imageFill.imageHash, imageFill, node, context);
+    } else {
+      xml += this.fillToDrawingML(layers, node.width, node.height, context);
+    }
+    xml += this.strokeToDrawingML(node.strokes, node.strokeWeight, context, '', node);
+    xml += this.effectsToDrawingML(node, context) || (node.type === 'STICKY' ? STICKY_SHADOW : '');
+    xml += '</p:spPr>';
+
+    if (node.text !== undefined) {
+      xml += this.textBodyToDrawingML(node, context);
+    }
+
+    xml += '</p:sp>';
+    return xml;
+  }
+
+  private static placeholderXML(placeholder: { type: PlaceholderType; index?: number }): string {
+    return placeholder.type === 'title' ? '<p:ph type="title"/>' : `<p:ph type="body" idx="${placeholder.index}"/>`;
+  }
+
+  /**
+   * Paints that cannot be flattened into one fill are drawn as a group of
+   * copies of the shape, one per layer. The top copy keeps the node's id,
+   * stroke, text and effects.
+   */
+  private static layeredShapeToDrawingML(node: SlideNode, layers: PaintData[], context: SlideContext, dx: number, dy: number): string {
+    const copies = layers.map((layer, i): SlideNode => i === layers.length - 1
+      ? { ...node, fills: [layer] }
+      : {
+        ...node,
+        id: undefined,
+        name: `${node.name} fill ${i + 1}`,
+        fills: [layer],
+        strokes: undefined,
+        text: undefined,
+        effects: undefined,
+        blendMode: undefined,
+        url: undefined
+      });
+    return this.groupToDrawingML({
+      type: 'GROUP',
+      name: node.name,
+      x: node.x,
+      y: node.y,
+      width: node.width,
+      height: node.height,
+      rotation: node.rotation,
+      children: copies
+    }, context, dx, dy);
+  }
+
+  private static pictureToDrawingML(
+    node: SlideNode,
+    imageKey: string,
+    fill: ImagePaintData | undefined,
+    context: SlideContext,
+    dx: number,
+    dy: number
+  ): string {
+    const id = this.shapeId(node, context);
+
+    let xml = '<p:pic>';
+    xml += `<p:nvPicPr>${this.nonVisualPropertiesXML(id, node, context)}`;
+    xml += `<p:cNvPicPr>${this.locksXML('a:picLocks', node, ' noChangeAspect="1"')}</p:cNvPicPr><p:nvPr/></p:nvPicPr>`;
+    xml += this.blipFillToDrawingML('p:blipFill', imageKey, fill, node, context);
+    xml += '<p:spPr>';
+    xml += this.placementToDrawingML(getPlacement(node), dx, dy, context);
+    xml += this.geometryToDrawingML(node);
+    xml += this.strokeToDrawingML(node.strokes, node.strokeWeight, context, '', node);
+    xml += this.effectsToDrawingML(node, context);
+    xml += '</p:spPr>';
+    xml += '</p:pic>';
+    return xml;
+  }
+
+  /**
+   * Id and layer name of a shape, shown in the selection pane; hidden layers
+   * are hidden shapes. Nodes with a URL, like embeds, link to it when clicked.
+   */
+  private static nonVisualPropertiesXML(id: number, node: SlideNode, context: SlideContext): string {
+    const attributes = `id="${id}" name="${escapeXML(node.name || '')}"${node.visible === false ? ' hidden="1"' : ''}`;
+    if (!node.url) {
+      return `<p:cNvPr ${attributes}/>`;
+    }
+    const relationshipId = this.addRelationship(context, REL_TYPES.hyperlink, node.url, true);
+    return `<p:cNvPr ${attributes}><a:hlinkClick r:id="${relationshipId}"/></p:cNvPr>`;
+  }
+
+  /**
+   * Locking element of a shape, with the locks of locked layers added to the
+   * given attributes; empty for unlocked shapes without any
+   */
+  private static locksXML(element: string, node: SlideNode, attributes: string = ''): string {
+    const locks = attributes + (node.locked ? LOCK_ATTRIBUTES[element] : '');
+    return locks ? `<${element}${locks}/>` : '';
+  }
+
+  /**
+   * Build a blip fill honoring the FigJam image scale mode
+   */
+  private static blipFillToDrawingML(
+    element: string,
+    imageKey: string,
+    fill: ImagePaintData | undefined,
+    node: SlideNode,
+    context: SlideContext
+  ): string {
+    const image = context.media.images[imageKey];
+    const relationshipId = this.imageRelationship(imageKey, context);
+    // Rendered pictures have no fill of their own and take the node's opacity
+    const opacity = fill ? fill.opacity : node.opacity;
+    const alpha = opacity !== undefined && opacity < 1
+      ? `<a:alphaModFix amt="${Math.round(opacity * 100000)}"/>`
+      : '';
+
+    let xml = `<${element} rotWithShape="1"><a:blip r:embed="${relationshipId}">${alpha}</a:blip>`;
+
+    switch (fill ? fill.scaleMode : 'FILL') {
+      case 'FIT': {
+        // Letterbox the image inside the shape, preserving its aspect ratio
+        const scale = Math.min(node.width / image.width, node.height / image.height);
+        const insetX = (1 - (image.width * scale) / node.width) / 2;
+        const insetY = (1 - (image.height * scale) / node.height) / 2;
+        xml += `<a:stretch>${this.relativeRectToDrawingML('a:fillRect', insetX, insetY, insetX, insetY)}</a:stretch>`;
+        break;
+      }
+
+      case 'CROP': {
+        // The image transform maps the shape onto the visible part of the image
+        const transform = fill && fill.imageTransform || [[1, 0, 0], [0, 1, 0]];
+        const left = transform[0][2];
+        const top = transform[1][2];
+        const right = 1 - (left + transform[0][0]);
+        const bottom = 1 - (top + transform[1][1]);
+        xml += this.relativeRectToDrawingML('a:srcRect', left, top, right, bottom);
+        xml += '<a:stretch><a:fillRect/></a:stretch>';
+        break;
+      }
+
+      case 'TILE': {
+        const scale = Math.round((fill && fill.scalingFactor || 1) * 100000);
+        xml += `<a:tile tx="0" ty="0" sx="${scale}" sy="${scale}" flip="none" algn="tl"/>`;
+        break;
+      }
+
+      case 'FILL':
+      default: {
+        // Cover the shape, cropping the overflowing sides of the image equally
+        const scale = Math.max(node.width / image.width, node.height / image.height);
+        const cropX = (1 - node.width / (image.width * scale)) / 2;
+        const cropY = (1 - node.height / (image.height * scale)) / 2;
+        xml += this.relativeRectToDrawingML('a:srcRect', cropX, cropY, cropX, cropY);
+        xml += '<a:stretch><a:fillRect/></a:stretch>';
+        break;
+      }
+    }
+
+    xml += `</${element}>`;
+    return xml;
+  }
+
+  private static relativeRectToDrawingML(element: string, left: number, top: number, right: number, bottom: number): string {
+    const attributes = ([['l', left], ['t', top], ['r', right], ['b', bottom]] as [string, number][])
+      .map(([name, value]) => [name, Math.round(value * 100000)] as [string, number])
+      .filter(([, value]) => value !== 0)
+      .map(([name, value]) => ` ${name}="${value}"`)
+      .join('');
+    return `<${element}${attributes}/>`;
+  }
+
+  /**
+   * Paints that can be drawn: image paints need their image among the exported assets
+   */
+  private static drawablePaints(paints: PaintData[] | undefined, context: SlideContext): PaintData[] {
+    return (paints || []).filter(paint => paint.type !== 'image' || this.hasImage(paint, context));
+  }
+
+  /**
+   * Whether the image of an image paint was exported with the nodes
+   */
+  private static hasImage(paint: ImagePaintData, context: SlideContext): paint is ImagePaintData & { imageHash: string } {
+    return paint.imageHash !== null && !!context.media.images[paint.imageHash];
+  }
+
+  /**
+   * Store the image as a media part (once per presentation) and relate it to the slide
+   */
+  private static imageRelationship(imageKey: string, context: SlideContext): string {
+    const existing = context.imageRelationships.get(imageKey);
+    if (existing) {
+      return existing;
+    }
+
+    let part = context.media.parts.get(imageKey);
+    if (!part) {
+      const data = context.media.images[imageKey].bytes;
+      part = { name: `image${context.media.parts.size + 1}.${this.detectImageExtension(data)}`, data };
+      context.media.parts.set(imageKey, part);
+    }
+
+    const id = this.addRelationship(context, REL_TYPES.image, `../media/${part.name}`);
+    context.imageRelationships.set(imageKey, id);
+    return id;
+  }
+
+  private static detectImageExtension(data: Uint8Array): string {
+    if (data[0] === 0xff && data[1] === 0xd8) return 'jpeg';
+    if (data[0] === 0x47 && data[1] === 0x49 && data[2] === 0x46) return 'gif';
+    if (data[0] === 0x3c) return 'svg';
+    return 'png';
+  }
+
+  private static connectorToDrawingML(node: Drawn<ConnectorNodeData>, context: SlideContext, dx: number, dy: number): string {
+    const id = this.shapeId(node, context);
+    const start = node.connectorStart || { x: node.x, y: node.y };
+    const end = node.connectorEnd || { x: node.x + node.width, y: node.y + node.height };
+    const lineType = node.connectorLineType || 'STRAIGHT';
+    const preset = this.connectorPreset(lineType, start.magnet, end.magnet);
+
+    // Bent and curved connectors leave their start horizontally; routes that
+    // leave from the top or bottom of a shape are drawn rotated by 90 degrees
+    const vertical = lineType !== 'STRAIGHT' && this.isVerticalSide(start.magnet);
+    const deltaX = end.x - start.x;
+    const deltaY = end.y - start.y;
+    const localX = vertical ? deltaY : deltaX;
+    const localY = vertical ? -deltaX : deltaY;
+    const width = Math.abs(localX);
+    const height = Math.abs(localY);
+    const centerX = (start.x + end.x) / 2 + dx;
+    const centerY = (start.y + end.y) / 2 + dy;
+
+    let xml = '<p:cxnSp>';
+    xml += `<p:nvCxnSpPr>${this.nonVisualPropertiesXML(id, node, context)}<p:cNvCxnSpPr>`;
+    xml += this.locksXML('a:cxnSpLocks', node);
+    xml += this.connectionToDrawingML('stCxn', start, context);
+    xml += this.connectionToDrawingML('endCxn', end, context);
+    xml += '</p:cNvCxnSpPr><p:nvPr/></p:nvCxnSpPr>';
+    xml += '<p:spPr>';
+    xml += `<a:xfrm${vertical ? ' rot="5400000"' : ''}${localX < 0 ? ' flipH="1"' : ''}${localY < 0 ? ' flipV="1"' : ''}>`;
+    xml += `<a:off x="${this.emu(centerX - width / 2, context)}" y="${this.emu(centerY - height / 2, context)}"/>`;
+    xml += `<a:ext cx="${this.emu(width, context)}" cy="${this.emu(height, context)}"/>`;
+    xml += '</a:xfrm>';
+    xml += `<a:prstGeom prst="${preset}"><a:avLst/></a:prstGeom>`;
+    xml += this.strokeToDrawingML(node.strokes, node.strokeWeight || 1, context,
+      this.lineEndToDrawingML('headEnd', start.strokeCap) + this.lineEndToDrawingML('tailEnd', end.strokeCap), node);
+    xml += this.effectsToDrawingML(node, context);
+    xml += '</p:spPr>';
+    xml += '</p:cxnSp>';
+
+    // Connector shapes cannot hold text, so the label is a text box at the midpoint
+    if (node.text) {
+      xml += this.connectorLabelToDrawingML(node, context, centerX, centerY);
+    }
+
+    return xml;
+  }
+
+  private static connectionToDrawingML(element: string, endpoint: ConnectorEndpointData, context: SlideContext): string {
+    const targetId = endpoint.endpointNodeId ? context.shapeIds.get(endpoint.endpointNodeId) : undefined;
+    const preset = endpoint.endpointNodeId ? context.connectablePresets.get(endpoint.endpointNodeId) : undefined;
+
+    if (targetId === undefined || preset === undefined || !endpoint.magnet || endpoint.magnet === 'CENTER') {
+      return '';
+    }
+
+    const sites = CONNECTION_SITES[preset] || CONNECTION_SITES.rect;
+    return `<a:${element} id="${targetId}" idx="${sites[endpoint.magnet]}"/>`;
+  }
+
+  private static lineEndToDrawingML(element: string, strokeCap: string | undefined): string {
+    const type = strokeCap ? LINE_END_TYPES[strokeCap] : undefined;
+    return type ? `<a:${element} type="${type}" w="med" len="med"/>` : '';
+  }
+
+  private static connectorLabelToDrawingML(
+    node: Drawn<ConnectorNodeData>,
+    context: SlideContext,
+    centerX: number,
+    centerY: number
+  ): string {
+    // Sized to the text, and grown to fit it rather than shrinking it
+    const paragraphs = node.textParagraphs && node.textParagraphs.length > 0
+      ? node.textParagraphs
+      : this.plainTextToParagraphs(node.text || '');
+    const text = estimateTextSize(paragraphs);
+    const width = Math.max(40, text.width + CONNECTOR_LABEL_INSET * 2);
+    const height = text.height + CONNECTOR_LABEL_INSET * 2;
+    const label: Drawn<ShapeWithTextNodeData> = {
+      type: 'SHAPE_WITH_TEXT',
+      shapeType: 'SQUARE',
+      name: `${node.name} label`,
+      x: centerX - width / 2,
+      y: centerY - height / 2,
+      width,
+      height,
+      rotation: 0,
+      visible: node.visible,
+      locked: node.locked,
+      text: node.text,
+      textParagraphs: node.textParagraphs,
+      textInset: CONNECTOR_LABEL_INSET,
+      textAutoResize: 'WIDTH_AND_HEIGHT',
+      fills: [{ type: 'solid', color: { r: 255, g: 255, b: 255 }, opacity: 1 }]
+    };
+    return this.shapeToDrawingML(label, context, 0, 0);
+  }
+
+  private static connectorPreset(lineType: string, startSide?: string, endSide?: string): string {
+    // A route between a horizontal and a vertical side has a single bend
+    const singleBend = !!startSide && !!endSide && startSide !== 'CENTER' && endSide !== 'CENTER' &&
+      this.isVerticalSide(startSide) !== this.isVerticalSide(endSide);
+
+    switch (lineType) {
+      case 'ELBOWED':
+        return singleBend ? 'bentConnector2' : 'bentConnector3';
+      case 'CURVED':
+        return singleBend ? 'curvedConnector2' : 'curvedConnector3';
+      default:
+        return 'straightConnector1';
+    }
+  }
+
+  private static isVerticalSide(side: string | undefined): boolean {
+    return side === 'TOP' || side === 'BOTTOM';
+  }
+
+  /**
+   * Assign shape ids to every node of a slide up front, so connectors can
+   * reference shapes that appear later in the shape tree
+   */
+  private static createSlideContext(
+    nodes: SlideNode[],
+    media: MediaContext,
+    issues: FidelityIssueData[],
+    theme: ThemeOptions,
+    fonts: FontOptions,
+    scale: number = 1
+  ): SlideContext {
+    const context: SlideContext = {
+      scale,
+      nextShapeId: 2,
+      shapeIds: new Map(),
+      connectablePresets: new Map(),
+      relationships: [],
+      imageRelationships: new Map(),
+      media,
+      issues,
+      theme,
+      fonts
+    };
+
+    const visit = (node: SlideNode) => {
+      const id = context.nextShapeId++;
+      if (node.id !== undefined) {
+        context.shapeIds.set(node.id, id);
+        if (!node.children && node.type !== 'CONNECTOR') {
+          context.connectablePresets.set(node.id, this.presetGeometry(node).preset);
+        }
+      }
+      if (node.children) {
+        node.children.forEach(visit);
+      }
+    };
+    nodes.forEach(visit);
+
+    return context;
+  }
+
+  private static shapeId(node: SlideNode, context: SlideContext): number {
+    const assigned = node.id !== undefined ? context.shapeIds.get(node.id) : undefined;
+    return assigned !== undefined ? assigned : context.nextShapeId++;
+  }
+
+  private static placementToDrawingML(
+    placement: Placement,
+    dx: number,
+    dy: number,
+    context: SlideContext,
+    childTransform: string = ''
+  ): string {
+    const rot = Math.round(placement.rotation * 60000) % 21600000;
+    let xml = `<a:xfrm${rot ? ` rot="${rot}"` : ''}${placement.flipH ? ' flipH="1"' : ''}${placement.flipV ? ' flipV="1"' : ''}>`;
+    xml += `<a:off x="${this.emu(placement.x + dx, context)}" y="${this.emu(placement.y + dy, context)}"/>`;
+    xml += `<a:ext cx="${this.emu(placement.width, context)}" cy="${this.emu(placement.height, context)}"/>`;
+    xml += childTransform;
+    xml += '</a:xfrm>';
+    return xml;
+  }
+
+  /**
+   * Convert a length in pixels to EMU at the slide's scale
+   */
+  private static emu(pixels: number, context: SlideContext): number {
+    return this.toEMU(pixels * context.scale);
+  }
+
+  private static geometryToDrawingML(node: SlideNode): string {
+    const { preset, adjust, paths } = this.presetGeometry(node);
+    if (paths) {
+      return customGeometryXML(paths);
+    }
+    return `<a:prstGeom prst="${preset}"><a:avLst>${adjust}</a:avLst></a:prstGeom>`;
+  }
+
+  /**
+   * Resolve the geometry of a shape: a preset with its adjust values, or
+   * custom paths when PowerPoint has no matching preset
+   */
+  private static presetGeometry(node: SlideNode): { preset: string; adjust: string; paths?: GeometryPath[] } {
+    if (node.type === 'ELLIPSE') {
+      return { preset: 'ellipse', adjust: '' };
+    }
+    if (node.type === 'STAR' && node.pointCount >= 3) {
+      return { preset: 'custGeom', adjust: '', paths: [starPath(node.pointCount, node.innerRadius !== undefined ? node.innerRadius : 0.382)] };
+    }
+    if ((node.type === 'VECTOR' || node.type === 'HIGHLIGHT') && node.vectorPaths && node.vectorPaths.length > 0) {
+      const paths = node.vectorPaths.map(path =>
+        svgPathToGeometry(path.data, node.width, node.height, path.windingRule === 'NONE'));
+      return { preset: 'custGeom', adjust: '', paths };
+    }
+    if (node.type === 'POLYGON' && node.shapeType) {
+      const preset = this.mapPolygonToPreset(node.shapeType);
+      const sides = parseInt(node.shapeType.replace('polygon-', ''), 10);
+      if (!preset && sides >= 3) {
+        return { preset: 'custGeom', adjust: '', paths: [regularPolygonPath(sides)] };
+      }
+      return { preset: preset || 'ellipse', adjust: '' };
+    }
+    if (node.type === 'SHAPE_WITH_TEXT' && node.shapeType) {
+      const preset = this.mapShapeTypeToPreset(node.shapeType);
+      if (preset === 'roundRect' && node.cornerRadius) {
+        return { preset, adjust: this.cornerRadiusAdjust(node.cornerRadius, node) };
+      }
+      if (!preset && CUSTOM_SHAPE_PATHS[node.shapeType]) {
+        return { preset: 'custGeom', adjust: '', paths: CUSTOM_SHAPE_PATHS[node.shapeType] };
+      }
+      return { preset: preset || 'rect', adjust: '' };
+    }
+    if (node.cornerRadius) {
+      return { preset: 'roundRect', adjust: this.cornerRadiusAdjust(node.cornerRadius, node) };
+    }
+    return { preset: 'rect', adjust: '' };
+  }
+
+  /**
+   * roundRect's adjust value is the radius as a fraction of the shorter side (max 50000)
+   */
+  private static cornerRadiusAdjust(cornerRadius: number, size: { width: number; height: number }): string {
+    const shorterSide = Math.min(size.width, size.height) || 1;
+    const adj = Math.min(50000, Math.round((cornerRadius / shorterSide) * 100000));
+    return `<a:gd name="adj" fmla="val ${adj}"/>`;
+  }
+
+  /**
+   * Fill of a box of the given size. Stacked paints are flattened, and the top
+   * layer is used where they cannot be; image paints are left to blip fills.
+   */
+  private static fillToDrawingML(fills: PaintData[] | undefined, width: number, height: number, context: SlideContext): string {
+    const fill = this.topPaint(fills);
+
+    if (fill && fill.type === 'solid') {
+      return `<a:solidFill>${this.colorToDrawingML(fill.color, context, fill.opacity)}</a:solidFill>`;
+    }
+
+    if (fill && fill.type === 'gradient' && fill.gradientStops) {
+      return this.gradientToDrawingML(fill, width, height, context);
+    }
+
+    return '<a:noFill/>';
+  }
+
+  private static topPaint(paints: PaintData[] | undefined): SolidPaintData | GradientPaintData | undefined {
+    const layers = flattenPaints((paints || []).filter(paint => paint.type !== 'image'));
+    return layers[layers.length - 1] as SolidPaintData | GradientPaintData | undefined;
+  }
+
+  /**
+   * Linear gradients keep their angle; radial and diamond gradients become
+   * circle and rectangle path gradients around their center, and angular
+   * gradients are approximated by a circle
+   */
+  private static gradientToDrawingML(fill: GradientPaintData, width: number, height: number, context: SlideContext): string {
+    const gradient = gradientGeometry(fill, width, height);
+    const stops = gradient.stops
+      .map(stop => `<a:gs pos="${Math.round(stop.position * 100000)}">` +
+        `${this.colorToDrawingML(stop.color, context, stop.color.a)}</a:gs>`)
+      .join('');
+    const center = gradient.center || { x: 0.5, y: 0.5 };
+    const shade = gradient.path
+      ? `<a:path path="${gradient.path}">` +
+        `${this.relativeRectToDrawingML('a:fillToRect', center.x, center.y, 1 - center.x, 1 - center.y)}</a:path>`
+      : `<a:lin ang="${Math.round((gradient.angle || 0) * 60000) % 21600000}" scaled="0"/>`;
+
+    return `<a:gradFill rotWithShape="1"><a:gsLst>${stops}</a:gsLst>${shade}</a:gradFill>`;
+  }
+
+  /**
+   * Slide background of a frame. On a template, backgrounds in the theme's
+   * background color are left to the template, which may have a picture or
+   * pattern there.
+   */
+  private static backgroundToDrawingML(
+    fills: PaintData[] | undefined,
+    width: number,
+    height: number,
+    context: SlideContext,
+    template: boolean
+  ): string | undefined {
+    if (!fills || fills.length === 0) {
+      return undefined;
+    }
+    const fill = this.topPaint(fills);
+    if (template && fill && fill.type === 'solid' && (fill.opacity === undefined || fill.opacity >= 1) &&
+      findSchemeColor(fill.color, context.theme.colors || DEFAULT_THEME_COLORS) === 'bg1') {
+      return undefined;
+    }
+    return `<p:bg><p:bgPr>${this.fillToDrawingML(fills, width, height, context)}<a:effectLst/></p:bgPr></p:bg>`;
+  }
+
+  private static strokeToDrawingML(
+    strokes: PaintData[] | undefined,
+    strokeWeight: number | undefined,
+    context: SlideContext,
+    lineEnds: string = '',
+    style: StrokeStyleData & { width?: number; height?: number } = {}
+  ): string {
+    const stroke = this.topPaint(strokes);
+
+    if (!stroke || !strokeWeight) {
+      return '<a:ln><a:noFill/></a:ln>';
+    }
+
+    // DrawingML can inset a stroke but not draw it outside, so OUTSIDE stays centered
+    const cap = style.strokeCap ? LINE_CAPS[style.strokeCap] : undefined;
+    const attributes = `w="${this.emu(strokeWeight, context)}"` +
+      (cap ? ` cap="${cap}"` : '') +
+      (style.strokeAlign === 'INSIDE' ? ' algn="in"' : '');
+    const join = style.strokeJoin ? LINE_JOINS[style.strokeJoin] : '';
+
+    const paint = stroke.type === 'solid'
+      ? `<a:solidFill>${this.colorToDrawingML(stroke.color, context, stroke.opacity)}</a:solidFill>`
+      : this.gradientToDrawingML(stroke, style.width || 0, style.height || 0, context);
+
+    return `<a:ln ${attributes}>` +
+      paint +
+      this.dashToDrawingML(style.dashPattern, strokeWeight) +
+      join +
+      `${lineEnds}</a:ln>`;
+  }
+
+  /**
+   * Map a dash pattern in pixels to a preset dash when its proportions match
+   * one, or a custom dash in percent of the line width otherwise
+   */
+  private static dashToDrawingML(dashPattern: number[] | undefined, strokeWeight: number): string {
+    if (!dashPattern || dashPattern.length === 0) {
+      return '';
+    }
+
+    // Odd-length patterns repeat to pair every dash with a gap, as in SVG
+    const lengths = dashPattern.length % 2 === 1 ? [...dashPattern, ...dashPattern] : dashPattern;
+    const relative = lengths.map(length => length / strokeWeight);
+
+    const preset = Object.keys(DASH_PRESETS).find(name => {
+      const pattern = DASH_PRESETS[name];
+      return pattern.length === relative.length && pattern.every((value, i) => Math.abs(value - relative[i]) < 0.25);
+    });
+    if (preset) {
+      return `<a:prstDash val="${preset}"/>`;
+    }
+
+    let stops = '';
+    for (let i = 0; i < relative.length; i += 2) {
+      stops += `<a:ds d="${Math.round(relative[i] * 100000)}" sp="${Math.round(relative[i + 1] * 100000)}"/>`;
+    }
+    return `<a:custDash>${stops}</a:custDash>`;
+  }
+
+  /**
+   * Build the effect list of a node: layer blur, blend mode overlay, inner and
+   * drop shadow, in the order DrawingML requires. Only the first effect of each
+   * kind is kept, and background blur has no equivalent.
+   */
+  private static effectsToDrawingML(node: SlideNode, context: SlideContext): string {
+    const effects = node.effects || [];
+    const find = (type: string) => effects.find(effect => effect.type === type);
+    let xml = '';
+
+    const blur = find('LAYER_BLUR');
+    if (blur) {
+      xml += `<a:blur rad="${this.emu(blur.radius, context)}"/>`;
+    }
+
+    const blend = node.blendMode ? BLEND_MODES[node.blendMode] : undefined;
+    const fill = node.type === 'TEXT' ? undefined : this.topPaint(node.fills);
+    if (blend && fill) {
+      xml += `<a:fillOverlay blend="${blend}">${this.fillToDrawingML([fill], node.width, node.height, context)}</a:fillOverlay>`;
+    }
+
+    const innerShadow = find('INNER_SHADOW');
+    if (innerShadow) {
+      xml += `<a:innerShdw ${this.shadowAttributes(innerShadow, context)}>` +
+        `${this.colorToDrawingML(innerShadow.color || SHADOW_COLOR, context, innerShadow.opacity)}</a:innerShdw>`;
+    }
+
+    const dropShadow = find('DROP_SHADOW');
+    if (dropShadow) {
+      // Spread grows the shadow on every side, which DrawingML expresses as a scale
+      const spread = dropShadow.spread || 0;
+      const scaleX = node.width ? Math.round(((node.width + spread * 2) / node.width) * 100000) : 100000;
+      const scaleY = node.height ? Math.round(((node.height + spread * 2) / node.height) * 100000) : 100000;
+      const scale = spread ? ` sx="${scaleX}" sy="${scaleY}"` : '';
+      xml += `<a:outerShdw ${this.shadowAttributes(dropShadow, context)}${scale} algn="ctr" rotWithShape="0">` +
+        `${this.colorToDrawingML(dropShadow.color || SHADOW_COLOR, context, dropShadow.opacity)}</a:outerShdw>`;
+    }
+
+    return xml ? `<a:effectLst>${xml}</a:effectLst>` : '';
+  }
+
+  private static shadowAttributes(shadow: EffectData, context: SlideContext): string {
+    const offset = shadow.offset || { x: 0, y: 0 };
+    const distance = Math.sqrt(offset.x * offset.x + offset.y * offset.y);
+    // Directions are clockwise from the x axis, matching FigJam's downward y axis
+    const direction = ((Math.atan2(offset.y, offset.x) * 180) / Math.PI + 360) % 360;
+    return `blurRad="${this.emu(shadow.radius, context)}" dist="${this.emu(distance, context)}" ` +
+      `dir="${Math.round(direction * 60000) % 21600000}"`;
+  }
+
+  /**
+   * DrawingML has no layer opacity, so fold the opacity of every node and its
+   * ancestors into the alpha of its paints and text runs. The combined value
+   * stays on leaf nodes for rendered pictures, which have no paints.
+   */
+  private static resolveOpacity(nodes: SlideNode[], inherited: number = 1): SlideNode[] {
+    return nodes.map(node => {
+      const opacity = inherited * (node.opacity !== undefined ? node.opacity : 1);
+      if (opacity >= 1) {
+        return node.children ? { ...node, children: this.resolveOpacity(node.children) } : node;
+      }
+
+      const paints = (list: PaintData[] | undefined) => list && list.map(paint => ({
+        ...paint,
+        opacity: (paint.opacity !== undefined ? paint.opacity : 1) * opacity
+      }));
+      const paragraphs = (list: TextParagraphData[] | undefined) => list && list.map(paragraph => ({
+        ...paragraph,
+        runs: (paragraph.runs || []).map(run => ({
+          ...run,
+          opacity: (run.opacity !== undefined ? run.opacity : 1) * opacity
+        }))
+      }));
+
+      const resolved: SlideNode = {
+        ...node,
+        opacity,
+        fills: paints(node.fills),
+        strokes: paints(node.strokes),
+        textParagraphs: paragraphs(node.textParagraphs)
+      };
+
+      if (node.children) {
+        // Containers pass their opacity on instead of applying it twice
+        resolved.opacity = undefined;
+        resolved.children = this.resolveOpacity(node.children, opacity);
+      }
+      if (resolved.type === 'TABLE' && resolved.cells) {
+        resolved.cells = resolved.cells.map(row => row.map(cell => ({
+          ...cell,
+          fills: paints(cell.fills) || [],
+          textParagraphs: paragraphs(cell.textParagraphs) || []
+        })));
+      }
+
+      return resolved;
+    });
+  }
+
+  /**
+   * Colors close to a color of the theme table are written as that theme
+   * color, everything else as RGB
+   */
+  private static colorToDrawingML(color: { r: number; g: number; b: number }, context: SlideContext, opacity?: number): string {
+    const alpha = opacity !== undefined && opacity < 1
+      ? `<a:alpha val="${Math.round(opacity * 100000)}"/>`
+      : '';
+    const schemeColor = context.theme.colors ? findSchemeColor(color, context.theme.colors) : undefined;
+    if (schemeColor) {
+      return `<a:schemeClr val="${schemeColor}">${alpha}</a:schemeClr>`;
+    }
+    const hex = this.rgbToHex(color.r, color.g, color.b).slice(1).toUpperCase();
+    return `<a:srgbClr val="${hex}">${alpha}</a:srgbClr>`;
+  }
+
+  private static textBodyToDrawingML(node: SlideNode, context: SlideContext): string {
+    const centered = node.type === 'SHAPE_WITH_TEXT';
+    const horizontal = node.type === 'TEXT' ? node.textAlignHorizontal : undefined;
+    const vertical = node.type === 'TEXT' ? node.textAlignVertical : undefined;
+    const align = horizontal ? TEXT_ALIGN[horizontal] : centered ? 'ctr' : 'l';
+    const anchor = vertical ? TEXT_ANCHOR[vertical] : centered ? 'ctr' : 't';
+
+    const paragraphs = node.textParagraphs && node.textParagraphs.length > 0
+      ? node.textParagraphs
+      : this.plainTextToParagraphs(node.text || '', node.type === 'TEXT' ? node : undefined);
+
+    // Titles take the theme's heading font
+    const themeFont = node.placeholder && node.placeholder.type === 'title' ? 'mj' : 'mn';
+    const paragraphsXML = paragraphs
+      .map(paragraph => this.paragraphToDrawingML(paragraph, align, context, themeFont))
+      .join('');
+
+    const inset = node.textInset !== undefined ? node.textInset : TEXT_INSETS[node.type];
+    const insets = inset !== undefined
+      ? ['lIns', 'tIns', 'rIns', 'bIns'].map(name => ` ${name}="${this.emu(inset, context)}"`).join('')
+      : '';
+
+    const autofit = this.autofitToDrawingML(node, paragraphs, inset || 0, context);
+    const wrap = node.textAutoResize === 'WIDTH_AND_HEIGHT' ? 'none' : 'square';
+
+    return '<p:txBody>' +
+      `<a:bodyPr wrap="${wrap}"${insets} rtlCol="0" anchor="${anchor}"${autofit ? `>${autofit}</a:bodyPr>` : '/>'}` +
+      `<a:lstStyle/>${paragraphsXML}</p:txBody>`;
+  }
+
+  /**
+   * Text boxes that grow with their text on the board resize to it. Stickies,
+   * shapes, placeholders and fixed-size boxes shrink text that overflows,
+   * starting out at the scale the text is estimated to fit at, as fonts
+   * substituted where the deck is opened may run wider.
+   */
+  private static autofitToDrawingML(node: SlideNode, paragraphs: TextParagraphData[], inset: number, context: SlideContext): string {
+    if (node.textAutoResize === 'HEIGHT' || node.textAutoResize === 'WIDTH_AND_HEIGHT') {
+      return '<a:spAutoFit/>';
+    }
+    if (!SHRINKING_TEXT_TYPES.includes(node.type) && !node.textAutoResize && !node.placeholder) {
+      return '';
+    }
+
+    const scale = estimateFontScale(paragraphs, node.width - inset * 2, node.height - inset * 2);
+    if (scale >= 1) {
+      return '<a:normAutofit/>';
+    }
+    addIssue(context.issues, node, 'info', 'text-shrunk', `Text shrunk to about ${Math.round(scale * 100)}% of its size to fit`);
+    return `<a:normAutofit fontScale="${Math.round(scale * 100000)}"/>`;
+  }
+
+  /**
+   * Build unstyled paragraphs for text exported without styled text runs,
+   * in the font and color of the text node it belongs to, if any
+   */
+  private static plainTextToParagraphs(text: string, node?: Drawn<TextNodeData>): TextParagraphData[] {
+    const paint = node ? this.topPaint(node.fills) : undefined;
+    const fill = paint && paint.type === 'solid' ? paint : undefined;
+
+    return String(text)
+      .split('\n')
+      .map(line => ({
+        indentation: 0,
+        runs: line.length > 0
+          ? [{
+            text: line,
+            fontFamily: node && node.fontName ? node.fontName.family : undefined,
+            fontSize: node ? node.fontSize : undefined,
+            color: fill ? fill.color : undefined,
+            opacity: fill ? fill.opacity : undefined
+          }]
+          : []
+      }));
+  }
+
+  private static paragraphToDrawingML(
+    paragraph: TextParagraphData,
+    align: string,
+    context: SlideContext,
+    themeFont: 'mj' | 'mn' = 'mn'
+  ): string {
+    const level = paragraph.listType ? Math.max(0, (paragraph.indentation || 1) - 1) : 0;
+    let properties = `<a:pPr algn="${align}"`;
+
+    if (paragraph.listType) {
+      // Hanging indent so wrapped lines align with the text after the bullet
+      properties += ` marL="${LIST_INDENT_EMU * (level + 1)}" indent="-${LIST_INDENT_EMU}"${level ? ` lvl="${level}"` : ''}>`;
+      properties += paragraph.listType === 'ORDERED'
+        ? `<a:buAutoNum type="${ORDERED_BULLETS[level % ORDERED_BULLETS.length]}"/>`
+        : `<a:buFont typeface="Arial"/><a:buChar char="${UNORDERED_BULLETS[level % UNORDERED_BULLETS.length]}"/>`;
+      properties += '</a:pPr>';
+    } else {
+      properties += '/>';
+    }
+
+    const runs = paragraph.runs || [];
+    const runsXML = runs
+      .map(run => `<a:r>${this.runPropertiesToDrawingML(run, context, themeFont)}<a:t>${escapeXML(run.text)}</a:t></a:r>`)
+      .join('');
+
+    return `<a:p>${properties}${runsXML}</a:p>`;
+  }
+
+  private static runPropertiesToDrawingML(run: TextRunData, context: SlideContext, themeFont: 'mj' | 'mn'): string {
+    const eastAsianLanguage = hasEastAsianText(run.text) ? context.fonts.eastAsianLanguage : undefined;
+    let attributes = eastAsianLanguage ? ` lang="${eastAsianLanguage}" altLang="en-US"` : ' lang="en-US"';
+    if (run.fontSize) attributes += ` sz="${this.toFontSize(run.fontSize * context.scale)}"`;
+    if (run.bold) attributes += ' b="1"';
+    if (run.italic) attributes += ' i="1"';
+    if (run.underline) attributes += ' u="sng"';
+    if (run.strikethrough) attributes += ' strike="sngStrike"';
+    attributes += ' dirty="0"';
+
+    let children = '';
+    if (run.color) {
+      children += `<a:solidFill>${this.colorToDrawingML(run.color, context, run.opacity)}</a:solidFill>`;
+    } else if (run.opacity !== undefined && run.opacity < 1) {
+      // Runs without a color of their own fade the theme's text color
+      children += `<a:solidFill><a:schemeClr val="tx1"><a:alpha val="${Math.round(run.opacity * 100000)}"/></a:schemeClr></a:solidFill>`;
+    }
+    if (context.theme.fonts) {
+      children += `<a:latin typeface="+${themeFont}-lt"/><a:ea typeface="+${themeFont}-ea"/><a:cs typeface="+${themeFont}-cs"/>`;
+    } else {
+      if (run.fontFamily) {
+        children += `<a:latin typeface="${escapeXML(substituteFont(run.fontFamily, context.fonts.substitutions))}"/>`;
+      }
+      if (eastAsianLanguage) {
+        children += `<a:ea typeface="${escapeXML(eastAsianFont(run.fontFamily, context.fonts.substitutions, eastAsianLanguage))}"/>`;
+      }
+    }
+    if (run.hyperlink) {
+      children += `<a:hlinkClick r:id="${this.addRelationship(context, REL_TYPES.hyperlink, run.hyperlink, true)}"/>`;
+    }
+
+    return children ? `<a:rPr${attributes}>${children}</a:rPr>` : `<a:rPr${attributes}/>`;
+  }
+
+  /**
+   * Convert a FigJam font size in pixels to hundredths of a point
+   */
+  private static toFontSize(pixels: number): number {
+    return Math.min(400000, Math.max(100, Math.round(pixels * 75)));
+  }
+
+  /**
+   * Register a slide relationship and return its id
+   */
+  private static addRelationship(context: SlideContext, type: string, target: string, external: boolean = false): string {
+    const id = `rId${context.relationships.length + 2}`;
+    context.relationships.push({ id, type, target, targetMode: external ? 'External' : undefined });
+    return id;
+  }
+
+  /**
+   * Convert a shape of a 1.x JSON export back into node data. Types 1.x
+   * exports never wrote come back as shapes with text.
+   */
+  private static shapeToNode(shape: PPTXShape, index: number): ExtractedNodeData {
+    const properties = shape.properties || {};
+    const base = {
+      id: shape.id || String(index + 1),
+      name: shape.name || shape.type,
+      x: shape.position.x,
+      y: shape.position.y,
+      width: shape.size.width,
+      height: shape.size.height,
+      rotation: shape.rotation || 0,
+      transform: shape.transform,
+      visible: true
+    };
+    const fills = shape.fill ? [this.shapeFillToPaint(shape.fill)] : [];
+    const strokes: PaintData[] = shape.stroke
+      ? [{ type: 'solid', color: shape.stroke.color, opacity: shape.stroke.opacity !== undefined ? shape.stroke.opacity : 1 }]
+      : [];
+    const strokeWeight = shape.stroke ? shape.stroke.width : 0;
+    const text = shape.text || '';
+    // Paragraphs are made from the plain text when converting
+    const textParagraphs = shape.paragraphs || [];
+    const type = this.mapPPTXTypeToNode(shape.type);
+
+    switch (type) {
+      case 'TEXT':
+        return { ...base, type, fills, text, textParagraphs };
+
+      case 'STICKY':
+        return {
+          ...base,
+          type,
+          fills,
+          text,
+          textParagraphs,
+          isWideWidth: !!properties.isWideWidth,
+          authorName: properties.author || '',
+          authorVisible: !!properties.author
+        };
+
+      case 'CONNECTOR':
+        return {
+          ...base,
+          type,
+          strokes,
+          strokeWeight,
+          text: shape.text,
+          textParagraphs: shape.paragraphs,
+          connectorLineType: properties.lineType || 'ELBOWED',
+          connectorStart: properties.start || { x: base.x, y: base.y, strokeCap: 'NONE' },
+          connectorEnd: properties.end || { x: base.x + base.width, y: base.y + base.height, strokeCap: 'NONE' }
+        };
+
+      case 'LINE':
+        return { ...base, type, strokes, strokeWeight };
+
+      case 'GROUP':
+      case 'FRAME':
+      case 'SECTION':
+        return {
+          ...base,
+          type,
+          fills,
+          strokes,
+          strokeWeight,
+          children: (shape.children || []).map((child, childIndex) => this.shapeToNode(child, childIndex))
+        };
+
+      case 'RECTANGLE':
+      case 'ELLIPSE':
+      case 'POLYGON':
+        return {
+          ...base,
+          type,
+          fills,
+          strokes,
+          strokeWeight,
+          cornerRadius: properties.cornerRadius,
+          shapeType: properties.shapeType
+        };
+
+      default:
+        return {
+          ...base,
+          type: 'SHAPE_WITH_TEXT',
+          shapeType: properties.shapeType || 'SQUARE',
+          fills,
+          strokes,
+          strokeWeight,
+          cornerRadius: properties.cornerRadius,
+          text,
+          textParagraphs
+        };
+    }
+  }
+
+  /**
+   * Complete the fill of a 1.x shape into a paint
+   */
+  private static shapeFillToPaint(fill: PPTXFill): PaintData {
+    const opacity = fill.opacity !== undefined ? fill.opacity : 1;
+    switch (fill.type) {
+      case 'gradient':
+        return { type: 'gradient', gradientType: 'GRADIENT_LINEAR', gradientStops: fill.gradientStops || [], opacity };
+      case 'image':
+        return { type: 'image', imageHash: null, scaleMode: 'FILL', opacity };
+      default:
+        return { type: 'solid', color: fill.color || { r: 0, g: 0, b: 0 }, opacity };
+    }
+  }
+
+  /**
+   * Convert node to XML representation
+   */
+  private static nodeToXML(node: ExtractedNodeData, indent: number): string {
+    const spaces = '  '.repeat(indent);
+    const pptxType = this.mapNodeTypeToPPTX(node.type);
+
+    let xml = `${spaces}<shape>\n`;
+    xml += `${spaces}  <type>${escapeXML(pptxType)}</type>\n`;
+    xml += `${spaces}  <id>${escapeXML(node.id)}</id>\n`;
+    xml += `${spaces}  <name>${escapeXML(node.name)}</name>\n`;
+
+    // Stacking position, visibility and locking
+    const layer = ([
+      ['z', node.zIndex !== undefined ? String(node.zIndex) : undefined],
+      ['hidden', node.visible === false ? 'true' : undefined],
+      ['locked', node.locked ? 'true' : undefined]
+    ] as [string, string | undefined][])
+      .filter(([, value]) => value !== undefined)
+      .map(([name, value]) => ` ${name}="${value}"`)
+      .join('');
+    if (layer) {
+      xml += `${spaces}  <layer${layer}/>\n`;
+    }
+
+    // Geometry
+    xml += `${spaces}  <geometry>\n`;
+    xml += `${spaces}    <position x="${node.x}" y="${node.y}"/>\n`;
+    xml += `${spaces}    <size width="${node.width}" height="${node.height}"/>\n`;
+    xml += `${spaces}    <rotation degrees="${node.rotation}"/>\n`;
+    xml += `${spaces}  </geometry>\n`;
+
+    // Fill
+    if ('fills' in node && node.fills && node.fills.length > 0) {
+      xml += `${spaces}  <fill>\n`;
+      xml += this.paintsToXML(node.fills, 'solid', `${spaces}    `);
+      xml += `${spaces}  </fill>\n`;
+    }
+
+    // Stroke
+    if ('strokes' in node && node.strokes && node.strokes.length > 0) {
+      const style = ([
+        ['dash', node.dashPattern ? node.dashPattern.join(' ') : undefined],
+        ['align', node.strokeAlign],
+        ['cap', node.strokeCap],
+        ['join', node.strokeJoin]
+      ] as [string, string | undefined][])
+        .filter(([, value]) => value !== undefined)
+        .map(([name, value]) => ` ${name}="${escapeXML(value as string)}"`)
+        .join('');
+      xml += `${spaces}  <stroke weight="${node.strokeWeight || 1}"${style}>\n`;
+      xml += this.paintsToXML(node.strokes, 'color', `${spaces}    `);
+      xml += `${spaces}  </stroke>\n`;
+    }
+
+    // Opacity, blend mode and effects
+    if (node.opacity !== undefined || node.blendMode || (node.effects && node.effects.length > 0)) {
+      const opacity = node.opacity !== undefined ? ` opacity="${node.opacity}"` : '';
+      const blendMode = node.blendMode ? ` blendMode="${escapeXML(node.blendMode)}"` : '';
+      const effects = node.effects || [];
+      if (effects.length === 0) {
+        xml += `${spaces}  <appearance${opacity}${blendMode}/>\n`;
+      } else {
+        xml += `${spaces}  <appearance${opacity}${blendMode}>\n`;
+        effects.forEach(effect => {
+          const offset = effect.offset ? ` x="${effect.offset.x}" y="${effect.offset.y}"` : '';
+          const color = effect.color
+            ? ` r="${effect.color.r}" g="${effect.color.g}" b="${effect.color.b}" opacity="${effect.opacity}"`
+            : '';
+          xml += `${spaces}    <effect type="${effect.type}" radius="${effect.radius}"${offset}${color}/>\n`;
+        });
+        xml += `${spaces}  </appearance>\n`;
+      }
+    }
+
+    // Text
+    if ('text' in node && node.text) {
+      xml += `${spaces}  <text>${escapeXML(node.text)}</text>\n`;
+    }
+
+    if (node.type === 'CODE_BLOCK') {
+      xml += `${spaces}  <code language="${escapeXML(node.codeLanguage)}">${escapeXML(node.code)}</code>\n`;
+    }
+
+    if (node.type === 'TABLE' && node.cells) {
+      xml += `${spaces}  <table rows="${node.cells.length}" columns="${(node.columnWidths || []).length}">\n`;
+      node.cells.forEach(cells => {
+        xml += `${spaces}    <row>\n`;
+        cells.forEach(cell => {
+          xml += `${spaces}      <cell>${escapeXML(cell.text || '')}</cell>\n`;
+        });
+        xml += `${spaces}    </row>\n`;
+      });
+      xml += `${spaces}  </table>\n`;
+    }
+
+    // Properties
+    const cornerRadius = 'cornerRadius' in node ? node.cornerRadius : undefined;
+    const shapeType = 'shapeType' in node ? node.shapeType : undefined;
+    const url = 'url' in node ? node.url : undefined;
+    const pointCount = node.type === 'STAR' ? node.pointCount : undefined;
+    const author = node.type === 'STICKY' && node.authorVisible ? node.authorName : undefined;
+    const stickyPaint = node.type === 'STICKY' && node.fills ? node.fills[0] : undefined;
+    const stickyColor = stickyPaint ? getStickyColorName(stickyPaint.type === 'solid' ? stickyPaint.color : undefined) : undefined;
+    if (cornerRadius !== undefined || shapeType || author || stickyColor || url || pointCount) {
+      xml += `${spaces}  <properties>\n`;
+      if (cornerRadius !== undefined) {
+        xml += `${spaces}    <cornerRadius>${cornerRadius}</cornerRadius>\n`;
+      }
+      if (shapeType) {
+        xml += `${spaces}    <shapeType>${escapeXML(shapeType)}</shapeType>\n`;
+        xml += `${spaces}    <preset>${escapeXML(this.presetGeometry(node).preset)}</preset>\n`;
+      }
+      if (author) {
+        xml += `${spaces}    <author>${escapeXML(author)}</author>\n`;
+      }
+      if (stickyColor) {
+        xml += `${spaces}    <stickyColor>${stickyColor}</stickyColor>\n`;
+      }
+      if (url) {
+        xml += `${spaces}    <url>${escapeXML(url)}</url>\n`;
+      }
+      if (pointCount) {
+        xml += `${spaces}    <pointCount>${pointCount}</pointCount>\n`;
+      }
+      xml += `${spaces}  </properties>\n`;
+    }
+
+    // Children
+    if ('children' in node && node.children.length > 0) {
+      xml += `${spaces}  <group>\n`;
+      node.children.forEach(child => {
+        xml += this.nodeToXML(child, indent + 2);
+      });
+      xml += `${spaces}  </group>\n`;
+    }
+
+    xml += `${spaces}</shape>\n`;
+    return xml;
+  }
+
+  /**
+   * Write paints bottom to top, solid paints as the given element
+   */
+  private static paintsToXML(paints: PaintData[], solidElement: string, spaces: string): string {
+    let xml = '';
+    paints.forEach(paint => {
+      const opacity = paint.opacity !== undefined ? paint.opacity : 1;
+      if (paint.type === 'solid') {
+        xml += `${spaces}<${solidElement} r="${paint.color.r}" g="${paint.color.g}" b="${paint.color.b}" opacity="${opacity}"/>\n`;
+      } else if (paint.type === 'gradient') {
+        const transform = paint.gradientTransform
+          ? ` transform="${paint.gradientTransform.map(row => row.join(' ')).join(' ')}"`
+          : '';
+        xml += `${spaces}<gradient type="${paint.gradientType}"${transform} opacity="${opacity}">\n`;
+        (paint.gradientStops || []).forEach(stop => {
+          xml += `${spaces}  <stop position="${stop.position}" r="${stop.color.r}" g="${stop.color.g}" b="${stop.color.b}" a="${stop.color.a}"/>\n`;
+        });
+        xml += `${spaces}</gradient>\n`;
+      }
+    });
+    return xml;
+  }
+
+  private static mapNodeTypeToPPTX(nodeType: string): string {
+    return PPTX_TYPES[nodeType] || 'shape';
+  }
+
+  /**
+   * Map a shape type of the XML and 1.x JSON exports, or of an imported
+   * PowerPoint shape, back to the FigJam node type
+   */
+  static mapPPTXTypeToNode(shapeType: string): ExtractedNodeData['type'] {
+    return NODE_TYPES[shapeType] || 'SHAPE_WITH_TEXT';
+  }
+
+  /**
+   * Map a regular polygon ("polygon-N") to a PowerPoint preset geometry
+   */
+  private static mapPolygonToPreset(shapeType: string): string | undefined {
+    return POLYGON_PRESETS[shapeType];
+  }
+
+  /**
+   * Map FigJam ShapeWithText shape types to PowerPoint preset geometries
+   */
+  private static mapShapeTypeToPreset(shapeType: string): string | undefined {
+    return SHAPE_PRESETS[shapeType];
   }
 
   /**
@@ -252,7 +2434,7 @@ export class PPTXConverter {
    * Convert FigJam coordinates to PowerPoint EMU (English Metric Units)
    * PowerPoint uses EMUs where 914400 EMUs = 1 inch
    */
-  static toEMU(pixels: number, dpi: number = 96): number {
+  static toEMU(pixels: number, dpi: number = DEFAULT_DPI): number {
     return Math.round((pixels / dpi) * 914400);
   }
 }
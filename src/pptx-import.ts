@@ -0,0 +1,1289 @@
+// PowerPoint Import
+// Reads a .pptx back into the node data the plugin recreates on the board:
+// every slide becomes a frame holding its shapes, stickies, text, connectors,
+// lines, pictures and tables
+
+/// <reference path="./model.d.ts" />
+
+import { applyTransform, multiplyTransforms, Placement, placementToTransform, Transform } from './geometry.js';
+import { NS, PackageTemplate, REL_TYPES } from './pptx-package.js';
+import {
+  CONNECTION_SITES,
+  LINE_END_TYPES,
+  POLYGON_PRESETS,
+  PPTXConverter,
+  SHAPE_PRESETS,
+  TEXT_ALIGN,
+  TEXT_ANCHOR
+} from './pptx-converter.js';
+import { SCHEMA_VERSION } from './schema.js';
+import { getStickyColorName } from './stickies.js';
+import { readZip, ZipEntry } from './zip.js';
+
+/** Image bytes by the asset key the image fills of imported nodes refer to */
+export type ImportedImages = { [key: string]: Uint8Array };
+
+export interface PPTXImport {
+  payload: ExportPayload;
+  images: ImportedImages;
+  // Content FigJam has no equivalent for, e.g. "2 charts"
+  skipped: string[];
+}
+
+/** What the text of a shape looks like where its runs do not say */
+interface TextDefaults {
+  fontSize?: number;
+  fontFamily?: string;
+  color?: ColorData;
+}
+
+interface Theme {
+  colors: { [name: string]: ColorData };
+  majorFont?: string;
+  minorFont?: string;
+}
+
+/** A slide being read, with the parts it inherits from */
+interface SlideReader {
+  number: number;
+  relationships: Map<string, string>;
+  theme: Theme;
+  // Slide color names (bg1, tx1, ...) to theme color names
+  colorMap: { [name: string]: string };
+  // Placeholder shapes of the layout, then of the master
+  layoutPlaceholders: Element[];
+  masterPlaceholders: Element[];
+  // Text styles of the master and of the presentation
+  masterStyles?: Element;
+  defaultTextStyle?: Element;
+  parts: Map<string, Uint8Array>;
+  images: ImportedImages;
+  skipped: Map<string, number>;
+  // Node ids and preset geometries by shape id, for binding connectors
+  nodeIds: Map<string, string>;
+  presets: Map<string, string>;
+  connections: { endpoint: ConnectorEndpointData; shapeId: string; site: number }[];
+  // Text of the slide's title placeholder
+  title?: string;
+}
+
+const EMU_PER_PIXEL = 9525;
+
+// Space left between slides laid out in a row, in pixels
+const SLIDE_GAP = 100;
+
+const MC_NAMESPACE = 'http://schemas.openxmlformats.org/markup-compatibility/2006';
+const RELATIONSHIPS_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DUBLIN_CORE_NAMESPACE = 'http://purl.org/dc/elements/1.1/';
+const TABLE_URI = 'http://schemas.openxmlformats.org/drawingml/2006/table';
+const CONTENT_TYPES_NAMESPACE = 'http://schemas.openxmlformats.org/package/2006/content-types';
+
+// Parts of a template copied under their own names; anything else they use is
+// renamed so it cannot clash with the parts of the export
+const TEMPLATE_PART_FOLDERS = ['ppt/slideMasters/', 'ppt/slideLayouts/', 'ppt/theme/'];
+
+// Layouts slides are put on, most wanted first; otherwise the first layout is used
+const TEMPLATE_LAYOUT_TYPES = ['blank', 'titleOnly'];
+
+const PREFIXES: { [prefix: string]: string } = { ...NS, mc: MC_NAMESPACE };
+
+// FigJam creates images from PNG, JPEG and GIF only
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif'];
+
+// Kinds of content that are left out, as listed to the user
+const SKIPPED_LABELS: { [kind: string]: string } = {
+  chart: 'chart',
+  diagram: 'SmartArt graphic',
+  object: 'embedded object',
+  ink: 'ink drawing',
+  picture: 'picture in an unsupported format',
+  link: 'linked picture'
+};
+
+// Colors of the few preset color names decks use
+const PRESET_COLORS: { [name: string]: ColorData } = {
+  black: { r: 0, g: 0, b: 0 },
+  white: { r: 255, g: 255, b: 255 },
+  red: { r: 255, g: 0, b: 0 },
+  green: { r: 0, g: 128, b: 0 },
+  blue: { r: 0, g: 0, b: 255 },
+  yellow: { r: 255, g: 255, b: 0 },
+  gray: { r: 128, g: 128, b: 128 }
+};
+
+// The inverses of the export tables; where two FigJam values share a
+// PowerPoint value, the first one wins
+const SHAPE_TYPES = invert(SHAPE_PRESETS);
+const POLYGON_TYPES = invert(POLYGON_PRESETS);
+const STROKE_CAPS: { [type: string]: StrokeCapData } = { ...invert<StrokeCapData>(LINE_END_TYPES), stealth: 'ARROW_EQUILATERAL' };
+const TEXT_ALIGNMENTS = invert(TEXT_ALIGN);
+const TEXT_ANCHORS = invert(TEXT_ANCHOR);
+
+// Non-visual shape properties and the locking element they hold, by kind of shape
+const LOCKS: [string, string][] = [
+  ['p:cNvSpPr', 'a:spLocks'],
+  ['p:cNvCxnSpPr', 'a:cxnSpLocks'],
+  ['p:cNvPicPr', 'a:picLocks'],
+  ['p:cNvGrpSpPr', 'a:grpSpLocks'],
+  ['p:cNvGraphicFramePr', 'a:graphicFrameLocks']
+];
+
+export class PPTXImporter {
+  /**
+   * Read a presentation into node data, one frame per slide laid out in a
+   * row. Pictures are image fills keyed by their part name in the package.
+   */
+  static fromPPTX(data: Uint8Array, defaultName: string = 'Presentation'): PPTXImport {
+    const parts = new Map(readZip(data).map(entry => [entry.path, entry.data as Uint8Array]));
+    const presentationPath = this.relationshipTargets(parts, '', REL_TYPES.officeDocument)[0] || 'ppt/presentation.xml';
+    const presentation = this.readPart(parts, presentationPath);
+    if (!presentation) {
+      throw new Error('Not a PowerPoint presentation');
+    }
+
+    const slideSize = child(presentation.documentElement, 'p:sldSz');
+    const width = number(slideSize, 'cx', 9144000) / EMU_PER_PIXEL;
+    const height = number(slideSize, 'cy', 6858000) / EMU_PER_PIXEL;
+    const relationships = this.relationships(parts, presentationPath);
+    const slidePaths = children(child(presentation.documentElement, 'p:sldIdLst'), 'p:sldId')
+      .map(slideId => relationships.get(slideId.getAttributeNS(NS.r, 'id') || ''))
+      .filter((path): path is string => !!path && parts.has(path));
+
+    const images: ImportedImages = {};
+    const skipped = new Map<string, number>();
+    const defaultTextStyle = child(presentation.documentElement, 'p:defaultTextStyle');
+
+    const nodes = slidePaths.map((path, index) => this.readSlide(path, index, {
+      parts, images, skipped, defaultTextStyle, x: index * (width + SLIDE_GAP), width, height
+    })).filter((node): node is ContainerNodeData => !!node);
+
+    const core = this.readPart(parts, 'docProps/core.xml');
+    const title = core ? core.getElementsByTagNameNS(DUBLIN_CORE_NAMESPACE, 'title')[0] : undefined;
+
+    return {
+      payload: {
+        schemaVersion: SCHEMA_VERSION,
+        nodes,
+        pageInfo: { name: (title && title.textContent) || defaultName }
+      },
+      images,
+      skipped: Array.from(skipped.entries()).map(([kind, count]) =>
+        `${count} ${SKIPPED_LABELS[kind]}${count === 1 ? '' : 's'}`)
+    };
+  }
+
+  /**
+   * Read the slide masters, layouts and themes of a presentation or template
+   * (.pptx or .potx), with the media and other parts they use, for exports
+   * to be based on. Slides are based on the first master's blank layout, and
+   * slides with placeholders on its layout of their type.
+   */
+  static templateFromPPTX(data: Uint8Array, name: string): PackageTemplate {
+    const parts = new Map(readZip(data).map(entry => [entry.path, entry.data as Uint8Array]));
+    const presentationPath = this.relationshipTargets(parts, '', REL_TYPES.officeDocument)[0] || 'ppt/presentation.xml';
+    const presentation = this.readPart(parts, presentationPath);
+    if (!presentation) {
+      throw new Error('Not a PowerPoint presentation or template');
+    }
+
+    const relationships = this.relationships(parts, presentationPath);
+    const masters = children(child(presentation.documentElement, 'p:sldMasterIdLst'), 'p:sldMasterId')
+      .map(masterId => ({
+        path: relationships.get(masterId.getAttributeNS(NS.r, 'id') || '') || '',
+        id: number(masterId, 'id', 2147483648)
+      }))
+      .filter(master => parts.has(master.path));
+    if (masters.length === 0) {
+      throw new Error('The template has no slide master');
+    }
+
+    // Everything the masters refer to, directly or through their layouts
+    const copied = new Set<string>();
+    const pending = masters.map(master => master.path);
+    while (pending.length > 0) {
+      const path = pending.pop()!;
+      if (copied.has(path) || !parts.has(path)) {
+        continue;
+      }
+      copied.add(path);
+      this.relationshipElements(parts, path)
+        .filter(relationship => relationship.getAttribute('TargetMode') !== 'External')
+        .forEach(relationship => pending.push(resolvePath(path, relationship.getAttribute('Target') || '')));
+    }
+
+    const rename = (path: string) => TEMPLATE_PART_FOLDERS.some(folder => path.startsWith(folder))
+      ? path
+      : path.replace(/[^/]*$/, file => `template-${file}`);
+    const contentTypes = this.readContentTypes(parts);
+    const templateParts: ZipEntry[] = [];
+    const partTypes: { [path: string]: string } = {};
+
+    copied.forEach(path => {
+      const type = contentTypes.overrides[`/${path}`.toLowerCase()] || contentTypes.defaults[(path.split('.').pop() || '').toLowerCase()];
+      templateParts.push({ path: rename(path), data: parts.get(path)! });
+      if (type) {
+        partTypes[rename(path)] = type;
+      }
+
+      const slash = path.lastIndexOf('/');
+      const relationshipsPath = `${path.slice(0, slash + 1)}_rels/${path.slice(slash + 1)}.rels`;
+      const relationshipsPart = this.readPart(parts, relationshipsPath);
+      if (relationshipsPart) {
+        Array.from(relationshipsPart.getElementsByTagNameNS(RELATIONSHIPS_NAMESPACE, 'Relationship')).forEach(relationship => {
+          const target = relationship.getAttribute('Target') || '';
+          if (relationship.getAttribute('TargetMode') !== 'External' && rename(resolvePath(path, target)) !== resolvePath(path, target)) {
+            relationship.setAttribute('Target', target.replace(/[^/]*$/, file => `template-${file}`));
+          }
+        });
+        const renamedPath = rename(path);
+        const renamedSlash = renamedPath.lastIndexOf('/');
+        templateParts.push({
+          path: `${renamedPath.slice(0, renamedSlash + 1)}_rels/${renamedPath.slice(renamedSlash + 1)}.rels`,
+          data: new XMLSerializer().serializeToString(relationshipsPart)
+        });
+      }
+    });
+
+    const firstMaster = masters[0].path;
+    const layouts = this.relationshipTargets(parts, firstMaster, REL_TYPES.slideLayout);
+    const layoutTypes = layouts.map(path => {
+      const layout = this.readPart(parts, path);
+      return layout ? layout.documentElement.getAttribute('type') : null;
+    });
+    const preferred = TEMPLATE_LAYOUT_TYPES
+      .map(type => layouts[layoutTypes.indexOf(type)])
+      .find(path => !!path);
+    const layoutsByType: { [type: string]: string } = {};
+    layouts.forEach((path, i) => {
+      const type = layoutTypes[i];
+      if (type && !layoutsByType[type]) {
+        layoutsByType[type] = path;
+      }
+    });
+
+    const slideSize = child(presentation.documentElement, 'p:sldSz');
+    const defaultTextStyle = child(presentation.documentElement, 'p:defaultTextStyle');
+
+    return {
+      name,
+      masters,
+      layout: preferred || layouts[0],
+      layouts: layoutsByType,
+      theme: this.relationshipTargets(parts, firstMaster, REL_TYPES.theme)[0],
+      parts: templateParts,
+      contentTypes: partTypes,
+      slideWidth: number(slideSize, 'cx', 12192000),
+      slideHeight: number(slideSize, 'cy', 6858000),
+      defaultTextStyle: defaultTextStyle ? new XMLSerializer().serializeToString(defaultTextStyle) : undefined
+    };
+  }
+
+  private static readSlide(
+    path: string,
+    index: number,
+    presentation: {
+      parts: Map<string, Uint8Array>;
+      images: ImportedImages;
+      skipped: Map<string, number>;
+      defaultTextStyle?: Element;
+      x: number;
+      width: number;
+      height: number;
+    }
+  ): ContainerNodeData | null {
+    const { parts } = presentation;
+    const slide = this.readPart(parts, path);
+    if (!slide) {
+      return null;
+    }
+
+    const layoutPath = this.relationshipTargets(parts, path, REL_TYPES.slideLayout)[0];
+    const masterPath = layoutPath ? this.relationshipTargets(parts, layoutPath, REL_TYPES.slideMaster)[0] : undefined;
+    const themePath = masterPath ? this.relationshipTargets(parts, masterPath, REL_TYPES.theme)[0] : undefined;
+    const layout = layoutPath ? this.readPart(parts, layoutPath) : undefined;
+    const master = masterPath ? this.readPart(parts, masterPath) : undefined;
+    const colorMap = master ? child(master.documentElement, 'p:clrMap') : undefined;
+
+    const reader: SlideReader = {
+      number: index + 1,
+      relationships: this.relationships(parts, path),
+      theme: this.readTheme(themePath ? this.readPart(parts, themePath) : undefined),
+      colorMap: colorMap
+        ? Object.fromEntries(Array.from(colorMap.attributes).map(attribute => [attribute.name, attribute.value]))
+        : { bg1: 'lt1', tx1: 'dk1', bg2: 'lt2', tx2: 'dk2' },
+      layoutPlaceholders: layout ? this.placeholders(layout) : [],
+      masterPlaceholders: master ? this.placeholders(master) : [],
+      masterStyles: master ? child(master.documentElement, 'p:txStyles') : undefined,
+      defaultTextStyle: presentation.defaultTextStyle,
+      parts,
+      images: presentation.images,
+      skipped: presentation.skipped,
+      nodeIds: new Map(),
+      presets: new Map(),
+      connections: []
+    };
+
+    // Shape coordinates are EMU; the slide frame's coordinates are pixels
+    const space: Transform = [[1, 0, 0], [0, 1, 0]];
+    const tree = child(child(slide.documentElement, 'p:cSld'), 'p:spTree');
+    const nodes = tree ? this.readElements(tree, space, reader) : [];
+
+    // Connectors are bound once every shape of the slide has an id
+    reader.connections.forEach(({ endpoint, shapeId, site }) => {
+      const nodeId = reader.nodeIds.get(shapeId);
+      if (!nodeId) {
+        return;
+      }
+      const sites = CONNECTION_SITES[reader.presets.get(shapeId) || 'rect'] || CONNECTION_SITES.rect;
+      endpoint.endpointNodeId = nodeId;
+      endpoint.magnet = Object.keys(sites).find(side => sites[side] === site) as ConnectorSide | undefined;
+    });
+
+    const background = [slide, layout, master]
+      .map(part => part ? this.readBackground(part, reader) : undefined)
+      .find(fills => fills !== undefined);
+
+    return {
+      id: `slide-${reader.number}`,
+      name: reader.title || `Slide ${reader.number}`,
+      type: 'FRAME',
+      x: presentation.x,
+      y: 0,
+      width: presentation.width,
+      height: presentation.height,
+      rotation: 0,
+      transform: [[1, 0, presentation.x], [0, 1, 0]],
+      visible: slide.documentElement.getAttribute('show') !== '0',
+      fills: background || [{ type: 'solid', color: { r: 255, g: 255, b: 255 }, opacity: 1 }],
+      strokes: [],
+      children: nodes
+    };
+  }
+
+  /**
+   * Read the shapes of a shape tree or group, positioned by the given
+   * transform from their coordinates to the slide's, in EMU
+   */
+  private static readElements(parent: Element, space: Transform, reader: SlideReader): ExtractedNodeData[] {
+    const nodes: ExtractedNodeData[] = [];
+
+    Array.from(parent.children).forEach(element => {
+      let node: ExtractedNodeData | null = null;
+      if (is(element, 'p:sp')) {
+        node = this.readShape(element, space, reader);
+      } else if (is(element, 'p:grpSp')) {
+        node = this.readGroup(element, space, reader);
+      } else if (is(element, 'p:cxnSp')) {
+        node = this.readConnector(element, space, reader);
+      } else if (is(element, 'p:pic')) {
+        node = this.readPicture(element, space, reader);
+      } else if (is(element, 'p:graphicFrame')) {
+        node = this.readGraphicFrame(element, space, reader);
+      } else if (is(element, 'mc:AlternateContent')) {
+        // The fallback is what applications that do not know the extension show
+        const content = child(element, 'mc:Fallback') || child(element, 'mc:Choice');
+        nodes.push(...(content ? this.readElements(content, space, reader) : []));
+      } else if (is(element, 'p:contentPart')) {
+        skip(reader, 'ink');
+      }
+
+      if (node) {
+        nodes.push(node);
+      }
+    });
+
+    // Shapes are listed bottom-most first
+    nodes.forEach((node, index) => {
+      node.zIndex = index;
+    });
+    return nodes;
+  }
+
+  private static readShape(element: Element, space: Transform, reader: SlideReader): ExtractedNodeData | null {
+    const nonVisual = child(element, 'p:nvSpPr');
+    const placeholder = child(child(nonVisual, 'p:nvPr'), 'p:ph');
+    const properties = child(element, 'p:spPr');
+    const placement = this.readPlacement(child(properties, 'a:xfrm')) || this.placeholderPlacement(placeholder, reader);
+    const body = child(element, 'p:txBody');
+    if (!placement) {
+      return null;
+    }
+
+    const defaults = this.textDefaults(element, placeholder, reader);
+    const textParagraphs = body ? this.readParagraphs(body, defaults, reader) : [];
+    const text = textParagraphs.map(paragraph => paragraph.runs.map(run => run.text).join('')).join('\n');
+    // Empty placeholders only show their prompt while the deck is edited
+    if (placeholder && !text.trim()) {
+      return null;
+    }
+
+    if (placeholder && placeholderType(placeholder) === 'title') {
+      if (reader.title === undefined) {
+        reader.title = text.split('\n')[0].replace(/\u2028/g, ' ').trim();
+      }
+    }
+
+    const base = this.baseNode(nonVisual, this.geometry(space, placement), reader);
+    const style = child(element, 'p:style');
+    const fills = this.readFill(properties, reader) || this.styleColor(style, 'a:fillRef', reader) || [];
+    const stroke = this.readStroke(properties, style, reader);
+    const preset = attribute(child(properties, 'a:prstGeom'), 'prst');
+    const customGeometry = child(properties, 'a:custGeom');
+    reader.presets.set(attribute(child(nonVisual, 'p:cNvPr'), 'id') || '', preset || 'rect');
+
+    if (preset === 'line' || (preset && /Connector/.test(preset))) {
+      return this.lineNode(base, space, placement, stroke);
+    }
+
+    const textBox = attribute(child(nonVisual, 'p:cNvSpPr'), 'txBox') === '1';
+    const outlined = stroke.strokes.length > 0;
+    if (textBox || (text && fills.length === 0 && !outlined && !customGeometry)) {
+      const firstParagraph = body ? child(body, 'a:p') : undefined;
+      const align = attribute(child(firstParagraph, 'a:pPr'), 'algn');
+      const bodyProperties = child(body, 'a:bodyPr');
+      const anchor = attribute(bodyProperties, 'anchor');
+      const colored = textParagraphs.flatMap(paragraph => paragraph.runs).find(run => run.color);
+      // Boxes that fit their text grow with it; shrunk or overflowing text keeps the box
+      const autoResize = child(bodyProperties, 'a:spAutoFit')
+        ? attribute(bodyProperties, 'wrap') === 'none' ? 'WIDTH_AND_HEIGHT' : 'HEIGHT'
+        : 'NONE';
+      return {
+        ...base,
+        type: PPTXConverter.mapPPTXTypeToNode('text') as TextNodeData['type'],
+        fills: [{ type: 'solid', color: colored && colored.color ? colored.color : { r: 0, g: 0, b: 0 }, opacity: 1 }],
+        text,
+        textParagraphs,
+        textAlignHorizontal: align ? TEXT_ALIGNMENTS[align] as TextNodeData['textAlignHorizontal'] : undefined,
+        textAlignVertical: anchor ? TEXT_ANCHORS[anchor] as TextNodeData['textAlignVertical'] : undefined,
+        textAutoResize: autoResize
+      };
+    }
+
+    if (customGeometry) {
+      return {
+        ...base,
+        type: PPTXConverter.mapPPTXTypeToNode('freeform') as VectorNodeData['type'],
+        fills,
+        ...stroke,
+        vectorPaths: this.readPaths(customGeometry, placement, base.width, base.height)
+      };
+    }
+
+    if (this.isSticky(preset, fills, base)) {
+      return {
+        ...base,
+        type: PPTXConverter.mapPPTXTypeToNode('sticky') as StickyNodeData['type'],
+        fills,
+        text,
+        textParagraphs,
+        isWideWidth: base.width > base.height * 1.5,
+        authorName: '',
+        authorVisible: false
+      };
+    }
+
+    if (preset && POLYGON_TYPES[preset] && !SHAPE_TYPES[preset]) {
+      return {
+        ...base,
+        type: PPTXConverter.mapPPTXTypeToNode('polygon') as ShapeNodeData['type'],
+        fills,
+        ...stroke,
+        shapeType: POLYGON_TYPES[preset]
+      };
+    }
+
+    // Presets FigJam has no shape for become rectangles
+    return {
+      ...base,
+      type: PPTXConverter.mapPPTXTypeToNode('shape') as ShapeWithTextNodeData['type'],
+      shapeType: (preset && SHAPE_TYPES[preset]) || 'SQUARE',
+      fills,
+      ...stroke,
+      text,
+      textParagraphs
+    };
+  }
+
+  private static readGroup(element: Element, space: Transform, reader: SlideReader): ExtractedNodeData | null {
+    const transform = child(child(element, 'p:grpSpPr'), 'a:xfrm');
+    const placement = this.readPlacement(transform);
+
+    // Children are laid out in the group's child extents, which are mapped onto the group's own box
+    let childSpace = space;
+    if (placement) {
+      const childOffset = child(transform, 'a:chOff');
+      const childExtent = child(transform, 'a:chExt');
+      const scaleX = placement.width / (number(childExtent, 'cx', placement.width) || 1);
+      const scaleY = placement.height / (number(childExtent, 'cy', placement.height) || 1);
+      childSpace = multiplyTransforms(multiplyTransforms(space, placementToTransform(placement)), [
+        [scaleX, 0, -number(childOffset, 'x', 0) * scaleX],
+        [0, scaleY, -number(childOffset, 'y', 0) * scaleY]
+      ]);
+    }
+
+    const nodes = this.readElements(element, childSpace, reader);
+    if (nodes.length === 0) {
+      return null;
+    }
+
+    const base = this.baseNode(child(element, 'p:nvGrpSpPr'), placement ? this.geometry(space, placement) : undefined, reader);
+
+    // Stickies exported with their author are grouped with a caption FigJam draws itself
+    if (base.name.endsWith(' with author') && nodes.length === 2 && nodes[0].type === 'STICKY' && nodes[1].type === 'TEXT') {
+      return { ...nodes[0], authorName: nodes[1].text, authorVisible: true };
+    }
+
+    return {
+      ...base,
+      type: PPTXConverter.mapPPTXTypeToNode('group') as ContainerNodeData['type'],
+      children: nodes
+    };
+  }
+
+  private static readConnector(element: Element, space: Transform, reader: SlideReader): ExtractedNodeData | null {
+    const nonVisual = child(element, 'p:nvCxnSpPr');
+    const properties = child(element, 'p:spPr');
+    const placement = this.readPlacement(child(properties, 'a:xfrm'));
+    if (!placement) {
+      return null;
+    }
+
+    const base = this.baseNode(nonVisual, this.geometry(space, placement), reader);
+    const stroke = this.readStroke(properties, child(element, 'p:style'), reader);
+    const preset = attribute(child(properties, 'a:prstGeom'), 'prst') || 'straightConnector1';
+    const connections = child(nonVisual, 'p:cNvCxnSpPr');
+    const startConnection = child(connections, 'a:stCxn');
+    const endConnection = child(connections, 'a:endCxn');
+
+    // Lines are connectors without connections
+    if (preset === 'line' && !startConnection && !endConnection) {
+      return this.lineNode(base, space, placement, stroke);
+    }
+
+    const line = child(properties, 'a:ln');
+    const [start, end] = this.endpoints(space, placement);
+    const endpoint = (point: { x: number; y: number }, end: Element | undefined, connection: Element | undefined) => {
+      const data: ConnectorEndpointData = { ...point, strokeCap: STROKE_CAPS[attribute(end, 'type') || ''] || 'NONE' };
+      if (connection) {
+        reader.connections.push({ endpoint: data, shapeId: attribute(connection, 'id') || '', site: number(connection, 'idx', 0) });
+      }
+      return data;
+    };
+
+    return {
+      ...base,
+      type: PPTXConverter.mapPPTXTypeToNode('connector') as ConnectorNodeData['type'],
+      strokes: stroke.strokes,
+      strokeWeight: stroke.strokeWeight,
+      connectorLineType: preset.startsWith('bentConnector') ? 'ELBOWED' : preset.startsWith('curvedConnector') ? 'CURVED' : 'STRAIGHT',
+      connectorStart: endpoint(start, child(line, 'a:headEnd'), startConnection),
+      connectorEnd: endpoint(end, child(line, 'a:tailEnd'), endConnection)
+    };
+  }
+
+  private static readPicture(element: Element, space: Transform, reader: SlideReader): ExtractedNodeData | null {
+    const properties = child(element, 'p:spPr');
+    const placement = this.readPlacement(child(properties, 'a:xfrm'));
+    const blip = child(child(element, 'p:blipFill'), 'a:blip');
+    if (!placement || !blip) {
+      return null;
+    }
+
+    const imageKey = this.imageKey(blip, reader);
+    if (!imageKey) {
+      return null;
+    }
+
+    return {
+      ...this.baseNode(child(element, 'p:nvPicPr'), this.geometry(space, placement), reader),
+      type: PPTXConverter.mapPPTXTypeToNode('rectangle') as ShapeNodeData['type'],
+      fills: [{ type: 'image', imageHash: imageKey, scaleMode: 'FILL', opacity: 1 }],
+      ...this.readStroke(properties, child(element, 'p:style'), reader)
+    };
+  }
+
+  /**
+   * Tables become FigJam tables; charts, SmartArt and embedded objects are skipped
+   */
+  private static readGraphicFrame(element: Element, space: Transform, reader: SlideReader): ExtractedNodeData | null {
+    const graphicData = child(child(element, 'a:graphic'), 'a:graphicData');
+    const uri = attribute(graphicData, 'uri') || '';
+    const table = child(graphicData, 'a:tbl');
+    const placement = this.readPlacement(child(element, 'p:xfrm'));
+
+    if (uri !== TABLE_URI || !table || !placement) {
+      skip(reader, /chart/.test(uri) ? 'chart' : /diagram/.test(uri) ? 'diagram' : 'object');
+      return null;
+    }
+
+    const base = this.baseNode(child(element, 'p:nvGraphicFramePr'), this.geometry(space, placement), reader);
+    const columnWidths = children(child(table, 'a:tblGrid'), 'a:gridCol').map(column => number(column, 'w', 0) / EMU_PER_PIXEL);
+    const rows = children(table, 'a:tr');
+    const rowHeights = rows.map(row => number(row, 'h', 0) / EMU_PER_PIXEL);
+    const defaults = this.textDefaults(element, undefined, reader);
+
+    // Grid sizes are in the frame's units; stretch them over the frame as placed
+    const fit = (sizes: number[], total: number) => {
+      const sum = sizes.reduce((a, b) => a + b, 0);
+      return sum > 0 ? sizes.map(size => (size * total) / sum) : sizes;
+    };
+
+    return {
+      ...base,
+      type: PPTXConverter.mapPPTXTypeToNode('table') as TableNodeData['type'],
+      fills: [],
+      columnWidths: fit(columnWidths, base.width),
+      rowHeights: fit(rowHeights, base.height),
+      cells: rows.map(row => children(row, 'a:tc').map(cell => {
+        const body = child(cell, 'a:txBody');
+        const textParagraphs = body ? this.readParagraphs(body, defaults, reader) : [];
+        const covered = attribute(cell, 'hMerge') === '1' || attribute(cell, 'vMerge') === '1';
+        return {
+          text: textParagraphs.map(paragraph => paragraph.runs.map(run => run.text).join('')).join('\n'),
+          textParagraphs,
+          fills: this.readFill(child(cell, 'a:tcPr'), reader) || [],
+          rowSpan: covered ? 0 : number(cell, 'rowSpan', 1),
+          columnSpan: covered ? 0 : number(cell, 'gridSpan', 1)
+        };
+      }))
+    };
+  }
+
+  private static baseNode(nonVisual: Element | undefined, geometry: Pick<BaseNodeData, 'x' | 'y' | 'width' | 'height' | 'rotation' | 'transform'> | undefined, reader: SlideReader): BaseNodeData {
+    const properties = child(nonVisual, 'p:cNvPr');
+    const shapeId = attribute(properties, 'id') || '';
+    const id = `${reader.number}:${shapeId}`;
+    reader.nodeIds.set(shapeId, id);
+
+    return {
+      id,
+      name: attribute(properties, 'name') || '',
+      x: 0,
+      y: 0,
+      width: 0,
+      height: 0,
+      rotation: 0,
+      ...geometry,
+      visible: attribute(properties, 'hidden') !== '1',
+      // Shapes that cannot be moved are locked on the board
+      ...(LOCKS.some(([shape, locks]) => attribute(child(child(nonVisual, shape), locks), 'noMove') === '1') ? { locked: true } : {})
+    };
+  }
+
+  /**
+   * Straight lines run from one corner of their box to the opposite one
+   */
+  private static lineNode(
+    base: BaseNodeData,
+    space: Transform,
+    placement: Placement,
+    stroke: { strokes: PaintData[]; strokeWeight: number }
+  ): LineNodeData {
+    const [start, end] = this.endpoints(space, placement);
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    const cos = length > 0 ? (end.x - start.x) / length : 1;
+    const sin = length > 0 ? (end.y - start.y) / length : 0;
+
+    return {
+      ...base,
+      type: PPTXConverter.mapPPTXTypeToNode('line') as LineNodeData['type'],
+      x: start.x,
+      y: start.y,
+      width: length,
+      height: 0,
+      rotation: (Math.atan2(-sin, cos) * 180) / Math.PI,
+      transform: [[cos, -sin, start.x], [sin, cos, start.y]],
+      strokes: stroke.strokes,
+      strokeWeight: stroke.strokeWeight
+    };
+  }
+
+  private static endpoints(space: Transform, placement: Placement): { x: number; y: number }[] {
+    const transform = multiplyTransforms(space, placementToTransform(placement));
+    return [applyTransform(transform, 0, 0), applyTransform(transform, placement.width, placement.height)]
+      .map(point => ({ x: point.x / EMU_PER_PIXEL, y: point.y / EMU_PER_PIXEL }));
+  }
+
+  /**
+   * Size and transform in slide pixels of a box placed in the given space;
+   * groups may stretch their children, which changes their size
+   */
+  private static geometry(space: Transform, placement: Placement): Pick<BaseNodeData, 'x' | 'y' | 'width' | 'height' | 'rotation' | 'transform'> {
+    const t = multiplyTransforms(space, placementToTransform(placement));
+    const scaleX = Math.hypot(t[0][0], t[1][0]) || 1;
+    const scaleY = Math.hypot(t[0][1], t[1][1]) || 1;
+    const transform = [
+      [t[0][0] / scaleX, t[0][1] / scaleY, t[0][2] / EMU_PER_PIXEL],
+      [t[1][0] / scaleX, t[1][1] / scaleY, t[1][2] / EMU_PER_PIXEL]
+    ];
+
+    return {
+      x: transform[0][2],
+      y: transform[1][2],
+      width: (placement.width * scaleX) / EMU_PER_PIXEL,
+      height: (placement.height * scaleY) / EMU_PER_PIXEL,
+      rotation: (Math.atan2(-transform[1][0], transform[0][0]) * 180) / Math.PI,
+      transform
+    };
+  }
+
+  private static readPlacement(transform: Element | undefined): Placement | undefined {
+    const offset = child(transform, 'a:off');
+    const extent = child(transform, 'a:ext');
+    if (!transform || !offset || !extent) {
+      return undefined;
+    }
+
+    return {
+      x: number(offset, 'x', 0),
+      y: number(offset, 'y', 0),
+      width: number(extent, 'cx', 0),
+      height: number(extent, 'cy', 0),
+      rotation: number(transform, 'rot', 0) / 60000,
+      flipH: attribute(transform, 'flipH') === '1',
+      flipV: attribute(transform, 'flipV') === '1'
+    };
+  }
+
+  /**
+   * Placeholders without a position of their own take that of the matching
+   * placeholder of the layout, or else of the master
+   */
+  private static placeholderPlacement(placeholder: Element | undefined, reader: SlideReader): Placement | undefined {
+    const inherited = placeholder ? this.inheritedPlaceholders(placeholder, reader) : [];
+    return inherited
+      .map(shape => this.readPlacement(child(child(shape, 'p:spPr'), 'a:xfrm')))
+      .find(placement => !!placement);
+  }
+
+  private static inheritedPlaceholders(placeholder: Element, reader: SlideReader): Element[] {
+    const type = placeholderType(placeholder);
+    const index = attribute(placeholder, 'idx');
+    const byIndex = index !== undefined
+      ? reader.layoutPlaceholders.filter(shape => attribute(shapePlaceholder(shape), 'idx') === index)
+      : [];
+    const byType = (shapes: Element[]) => shapes.filter(shape => placeholderType(shapePlaceholder(shape)!) === type);
+
+    return [...byIndex, ...byType(reader.layoutPlaceholders), ...byType(reader.masterPlaceholders)];
+  }
+
+  private static placeholders(part: Document): Element[] {
+    const tree = child(child(part.documentElement, 'p:cSld'), 'p:spTree');
+    return children(tree, 'p:sp').filter(shape => !!shapePlaceholder(shape));
+  }
+
+  /**
+   * Text size, font and color of a shape's text where its runs do not set
+   * them: the master's title or body style for placeholders, the
+   * presentation's default style for other shapes, and the shape style's font color
+   */
+  private static textDefaults(shape: Element, placeholder: Element | undefined, reader: SlideReader): TextDefaults {
+    let style = reader.defaultTextStyle;
+    if (placeholder && reader.masterStyles) {
+      const inherited = this.inheritedPlaceholders(placeholder, reader)
+        .map(element => placeholderType(shapePlaceholder(element)!));
+      const type = placeholder.getAttribute('type') ? placeholderType(placeholder) : inherited[0] || 'body';
+      style = child(reader.masterStyles, type === 'title' ? 'p:titleStyle' : type === 'body' ? 'p:bodyStyle' : 'p:otherStyle');
+    }
+
+    const properties = child(child(style, 'a:lvl1pPr'), 'a:defRPr');
+    const defaults: TextDefaults = {
+      fontSize: properties && properties.getAttribute('sz') ? number(properties, 'sz', 1800) / 75 : undefined,
+      fontFamily: this.fontFamily(child(properties, 'a:latin'), reader),
+      color: undefined
+    };
+    const color = this.readColor(child(properties, 'a:solidFill'), reader);
+    if (color) {
+      defaults.color = color.color;
+    }
+
+    const fontColor = this.readColor(child(child(shape, 'p:style'), 'a:fontRef'), reader);
+    if (fontColor) {
+      defaults.color = fontColor.color;
+    }
+    return defaults;
+  }
+
+  private static readParagraphs(body: Element, defaults: TextDefaults, reader: SlideReader): TextParagraphData[] {
+    return children(body, 'a:p').map(paragraph => {
+      const properties = child(paragraph, 'a:pPr');
+      const listType = child(properties, 'a:buAutoNum') ? 'ORDERED' : child(properties, 'a:buChar') ? 'UNORDERED' : undefined;
+      const runs: TextRunData[] = [];
+
+      Array.from(paragraph.children).forEach(element => {
+        if (is(element, 'a:r') || is(element, 'a:fld')) {
+          const text = child(element, 'a:t');
+          if (text && text.textContent) {
+            runs.push(this.readRun(text.textContent, child(element, 'a:rPr'), defaults, reader));
+          }
+        } else if (is(element, 'a:br')) {
+          // Line breaks within a paragraph are FigJam's soft line breaks
+          const last = runs[runs.length - 1];
+          if (last) {
+            last.text += '\u2028';
+          } else {
+            runs.push({ text: '\u2028' });
+          }
+        }
+      });
+
+      return {
+        runs,
+        listType,
+        indentation: listType ? number(properties, 'lvl', 0) + 1 : 0
+      };
+    });
+  }
+
+  private static readRun(text: string, properties: Element | undefined, defaults: TextDefaults, reader: SlideReader): TextRunData {
+    const color = this.readColor(child(properties, 'a:solidFill'), reader);
+    const link = child(properties, 'a:hlinkClick');
+    const hyperlink = link ? reader.relationships.get(link.getAttributeNS(NS.r, 'id') || '') : undefined;
+    const size = attribute(properties, 'sz');
+    const underline = attribute(properties, 'u');
+    const strike = attribute(properties, 'strike');
+
+    return definedFields<TextRunData>({
+      text,
+      fontFamily: this.fontFamily(child(properties, 'a:latin'), reader) || defaults.fontFamily,
+      fontSize: size ? Number(size) / 75 : defaults.fontSize,
+      bold: attribute(properties, 'b') === '1' || undefined,
+      italic: attribute(properties, 'i') === '1' || undefined,
+      underline: (!!underline && underline !== 'none') || undefined,
+      strikethrough: (!!strike && strike !== 'noStrike') || undefined,
+      color: color ? color.color : defaults.color,
+      opacity: color && color.opacity < 1 ? color.opacity : undefined,
+      hyperlink: hyperlink && /^(https?|mailto):/i.test(hyperlink) ? hyperlink : undefined
+    });
+  }
+
+  private static fontFamily(latin: Element | undefined, reader: SlideReader): string | undefined {
+    const typeface = attribute(latin, 'typeface');
+    if (typeface === '+mj-lt') {
+      return reader.theme.majorFont;
+    }
+    if (typeface === '+mn-lt') {
+      return reader.theme.minorFont;
+    }
+    return typeface || undefined;
+  }
+
+  /**
+   * Read the fill of shape properties: undefined when they set none, so the
+   * shape style applies, and no paints for an explicit noFill
+   */
+  private static readFill(properties: Element | undefined, reader: SlideReader): PaintData[] | undefined {
+    if (!properties) {
+      return undefined;
+    }
+    if (child(properties, 'a:noFill')) {
+      return [];
+    }
+
+    const solid = child(properties, 'a:solidFill') || child(properties, 'a:pattFill');
+    if (solid) {
+      // Patterns are approximated by their foreground color
+      const color = this.readColor(is(solid, 'a:pattFill') ? child(solid, 'a:fgClr') : solid, reader);
+      return color ? [{ type: 'solid', ...color }] : [];
+    }
+
+    const gradient = child(properties, 'a:gradFill');
+    if (gradient) {
+      return [this.readGradient(gradient, reader)];
+    }
+
+    const blip = child(child(properties, 'a:blipFill'), 'a:blip');
+    const imageKey = blip ? this.imageKey(blip, reader) : undefined;
+    if (imageKey) {
+      return [{ type: 'image', imageHash: imageKey, scaleMode: 'FILL', opacity: 1 }];
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Linear gradients keep their angle, spanning the unit box like the export
+   * does; path gradients become radial gradients around the center
+   */
+  private static readGradient(gradient: Element, reader: SlideReader): GradientPaintData {
+    const gradientStops = children(child(gradient, 'a:gsLst'), 'a:gs')
+      .map(stop => {
+        const color = this.readColor(stop, reader) || { color: { r: 0, g: 0, b: 0 }, opacity: 1 };
+        return { position: number(stop, 'pos', 0) / 100000, color: { ...color.color, a: color.opacity } };
+      })
+      .sort((a, b) => a.position - b.position);
+
+    const linear = child(gradient, 'a:lin');
+    if (!linear) {
+      return { type: 'gradient', gradientType: 'GRADIENT_RADIAL', gradientStops, opacity: 1 };
+    }
+
+    const angle = ((number(linear, 'ang', 0) / 60000) * Math.PI) / 180;
+    const a = Math.cos(angle);
+    const b = Math.sin(angle);
+    const span = Math.abs(a) + Math.abs(b) || 1;
+    const [x, y] = [a / span, b / span];
+    return {
+      type: 'gradient',
+      gradientType: 'GRADIENT_LINEAR',
+      gradientStops,
+      gradientTransform: [
+        [x, y, -Math.min(0, x) - Math.min(0, y)],
+        [-y, x, 0.5 - (x - y) / 2]
+      ],
+      opacity: 1
+    };
+  }
+
+  private static readStroke(
+    properties: Element | undefined,
+    style: Element | undefined,
+    reader: SlideReader
+  ): { strokes: PaintData[]; strokeWeight: number } {
+    const line = child(properties, 'a:ln');
+    const strokeWeight = number(line, 'w', EMU_PER_PIXEL) / EMU_PER_PIXEL;
+    const strokes = this.readFill(line, reader) || this.styleColor(style, 'a:lnRef', reader) || [];
+    return { strokes: strokes.filter(paint => paint.type === 'solid'), strokeWeight };
+  }
+
+  /**
+   * Color of a shape style reference; index 0 refers to no fill or line
+   */
+  private static styleColor(style: Element | undefined, name: string, reader: SlideReader): PaintData[] | undefined {
+    const reference = child(style, name);
+    const color = reference && number(reference, 'idx', 0) > 0 ? this.readColor(reference, reader) : undefined;
+    return color ? [{ type: 'solid', ...color }] : undefined;
+  }
+
+  /**
+   * Read the color element inside a fill or style reference, with its
+   * luminance, tint, shade and alpha adjustments
+   */
+  private static readColor(parent: Element | undefined, reader: SlideReader): { color: ColorData; opacity: number } | undefined {
+    const element = parent ? Array.from(parent.children).find(node => node.namespaceURI === NS.a && /Clr$/.test(node.localName)) : undefined;
+    if (!element) {
+      return undefined;
+    }
+
+    let color: ColorData | undefined;
+    const value = attribute(element, 'val') || '';
+    switch (element.localName) {
+      case 'srgbClr':
+        color = parseHex(value);
+        break;
+      case 'sysClr':
+        color = parseHex(attribute(element, 'lastClr') || '000000');
+        break;
+      case 'schemeClr':
+        color = reader.theme.colors[reader.colorMap[value] || value];
+        break;
+      case 'prstClr':
+        color = PRESET_COLORS[value];
+        break;
+      case 'scrgbClr':
+        color = {
+          r: Math.round((number(element, 'r', 0) / 100000) * 255),
+          g: Math.round((number(element, 'g', 0) / 100000) * 255),
+          b: Math.round((number(element, 'b', 0) / 100000) * 255)
+        };
+        break;
+    }
+    if (!color) {
+      return undefined;
+    }
+
+    let opacity = 1;
+    Array.from(element.children).forEach(modifier => {
+      const amount = number(modifier, 'val', 100000) / 100000;
+      switch (modifier.localName) {
+        case 'alpha':
+          opacity = amount;
+          break;
+        case 'lumMod':
+        case 'lumOff':
+          color = adjustLuminance(color!, modifier.localName === 'lumMod' ? amount : 1, modifier.localName === 'lumOff' ? amount : 0);
+          break;
+        case 'tint':
+          color = mapChannels(color!, channel => channel + (255 - channel) * (1 - amount));
+          break;
+        case 'shade':
+          color = mapChannels(color!, channel => channel * amount);
+          break;
+      }
+    });
+
+    return { color, opacity };
+  }
+
+  private static readBackground(part: Document, reader: SlideReader): PaintData[] | undefined {
+    const background = child(child(part.documentElement, 'p:cSld'), 'p:bg');
+    const properties = child(background, 'p:bgPr');
+    if (properties) {
+      return this.readFill(properties, reader);
+    }
+    const reference = child(background, 'p:bgRef');
+    const color = reference ? this.readColor(reference, reader) : undefined;
+    return color ? [{ type: 'solid', ...color }] : undefined;
+  }
+
+  /**
+   * Convert custom geometry paths to SVG path data in the shape's pixels
+   */
+  private static readPaths(geometry: Element, placement: Placement, width: number, height: number): VectorPathData[] {
+    return children(child(geometry, 'a:pathLst'), 'a:path').map(path => {
+      const scaleX = width / (number(path, 'w', placement.width) || 1);
+      const scaleY = height / (number(path, 'h', placement.height) || 1);
+      const point = (element: Element | undefined) => ({
+        x: number(element, 'x', 0) * scaleX,
+        y: number(element, 'y', 0) * scaleY
+      });
+      let current = { x: 0, y: 0 };
+      const commands: string[] = [];
+
+      Array.from(path.children).forEach(command => {
+        const points = children(command, 'a:pt').map(point);
+        switch (command.localName) {
+          case 'moveTo':
+          case 'lnTo':
+            current = points[0] || current;
+            commands.push(`${command.localName === 'moveTo' ? 'M' : 'L'} ${current.x} ${current.y}`);
+            break;
+          case 'cubicBezTo':
+          case 'quadBezTo':
+            if (points.length > 0) {
+              commands.push(`${command.localName === 'cubicBezTo' ? 'C' : 'Q'} ${points.map(p => `${p.x} ${p.y}`).join(' ')}`);
+              current = points[points.length - 1];
+            }
+            break;
+          case 'arcTo': {
+            // Arcs start where the path is and sweep around an ellipse from the start angle
+            const radiusX = number(command, 'wR', 0) * scaleX;
+            const radiusY = number(command, 'hR', 0) * scaleY;
+            const start = ((number(command, 'stAng', 0) / 60000) * Math.PI) / 180;
+            const sweep = ((number(command, 'swAng', 0) / 60000) * Math.PI) / 180;
+            const centerX = current.x - radiusX * Math.cos(start);
+            const centerY = current.y - radiusY * Math.sin(start);
+            current = { x: centerX + radiusX * Math.cos(start + sweep), y: centerY + radiusY * Math.sin(start + sweep) };
+            commands.push(`A ${radiusX} ${radiusY} 0 ${Math.abs(sweep) > Math.PI ? 1 : 0} ${sweep > 0 ? 1 : 0} ${current.x} ${current.y}`);
+            break;
+          }
+          case 'close':
+            commands.push('Z');
+            break;
+        }
+      });
+
+      return { windingRule: attribute(path, 'fill') === 'none' ? 'NONE' : 'NONZERO', data: commands.join(' ') };
+    });
+  }
+
+  /**
+   * Register the picture a blip embeds and return its key, or skip pictures
+   * that are linked or in formats FigJam cannot show
+   */
+  private static imageKey(blip: Element, reader: SlideReader): string | undefined {
+    const path = reader.relationships.get(blip.getAttributeNS(NS.r, 'embed') || '');
+    if (!path) {
+      skip(reader, blip.getAttributeNS(NS.r, 'link') ? 'link' : 'picture');
+      return undefined;
+    }
+
+    const data = reader.parts.get(path);
+    const extension = path.split('.').pop()!.toLowerCase();
+    if (!data || !IMAGE_EXTENSIONS.includes(extension)) {
+      skip(reader, 'picture');
+      return undefined;
+    }
+
+    reader.images[path] = data;
+    return path;
+  }
+
+  private static isSticky(preset: string | undefined, fills: PaintData[], size: { width: number; height: number }): boolean {
+    const fill = fills[0];
+    const ratio = size.width / (size.height || 1);
+    return preset === 'rect' && fills.length === 1 && fill.type === 'solid' && fill.opacity === 1 &&
+      !!getStickyColorName(fill.color) && (Math.abs(ratio - 1) < 0.05 || Math.abs(ratio - 2) < 0.1);
+  }
+
+  private static readTheme(theme: Document | undefined): Theme {
+    const elements = theme ? child(theme.documentElement, 'a:themeElements') : undefined;
+    const scheme = child(elements, 'a:clrScheme');
+    const fonts = child(elements, 'a:fontScheme');
+    const colors: { [name: string]: ColorData } = {};
+
+    Array.from(scheme ? scheme.children : []).forEach(entry => {
+      const value = entry.firstElementChild;
+      if (value) {
+        colors[entry.localName] = parseHex(attribute(value, value.localName === 'sysClr' ? 'lastClr' : 'val') || '000000');
+      }
+    });
+
+    return {
+      colors,
+      majorFont: attribute(child(child(fonts, 'a:majorFont'), 'a:latin'), 'typeface'),
+      minorFont: attribute(child(child(fonts, 'a:minorFont'), 'a:latin'), 'typeface')
+    };
+  }
+
+  /**
+   * Content types of the package by part name, and by extension for parts not listed
+   */
+  private static readContentTypes(parts: Map<string, Uint8Array>): {
+    overrides: { [partName: string]: string };
+    defaults: { [extension: string]: string };
+  } {
+    const document = this.readPart(parts, '[Content_Types].xml');
+    const entries = (localName: string, key: string) => document
+      ? Object.fromEntries(Array.from(document.getElementsByTagNameNS(CONTENT_TYPES_NAMESPACE, localName))
+        .map(entry => [(entry.getAttribute(key) || '').toLowerCase(), entry.getAttribute('ContentType') || '']))
+      : {};
+    return { overrides: entries('Override', 'PartName'), defaults: entries('Default', 'Extension') };
+  }
+
+  private static readPart(parts: Map<string, Uint8Array>, path: string): Document | undefined {
+    const data = parts.get(path);
+    if (!data) {
+      return undefined;
+    }
+    const document = new DOMParser().parseFromString(new TextDecoder().decode(data), 'application/xml');
+    return document.getElementsByTagName('parsererror').length > 0 ? undefined : document;
+  }
+
+  /**
+   * Relationships of a part by id, with package paths for internal targets
+   */
+  private static relationships(parts: Map<string, Uint8Array>, path: string): Map<string, string> {
+    const relationships = new Map<string, string>();
+    this.relationshipElements(parts, path).forEach(relationship => {
+      const target = relationship.getAttribute('Target') || '';
+      relationships.set(relationship.getAttribute('Id') || '',
+        relationship.getAttribute('TargetMode') === 'External' ? target : resolvePath(path, target));
+    });
+    return relationships;
+  }
+
+  private static relationshipTargets(parts: Map<string, Uint8Array>, path: string, type: string): string[] {
+    return this.relationshipElements(parts, path)
+      .filter(relationship => relationship.getAttribute('Type') === type)
+      .map(relationship => resolvePath(path, relationship.getAttribute('Target') || ''));
+  }
+
+  private static relationshipElements(parts: Map<string, Uint8Array>, path: string): Element[] {
+    const slash = path.lastIndexOf('/');
+    const relationshipsPath = `${path.slice(0, slash + 1)}_rels/${path.slice(slash + 1)}.rels`;
+    const document = this.readPart(parts, relationshipsPath);
+    return document ? Array.from(document.getElementsByTagNameNS(RELATIONSHIPS_NAMESPACE, 'Relationship')) : [];
+  }
+}
+
+/**
+ * Swap the keys and values of a table, whose keys are all of type T
+ */
+function invert<T extends string = string>(table: { [key: string]: string }): { [value: string]: T } {
+  return Object.fromEntries(Object.entries(table).reverse().map(([key, value]) => [value, key as T]));
+}
+
+/**
+ * Copy an object without its undefined fields
+ */
+function definedFields<T extends object>(value: T): T {
+  const result = { ...value };
+  (Object.keys(result) as (keyof T)[]).forEach(key => result[key] === undefined && delete result[key]);
+  return result;
+}
+
+function is(element: Element, name: string): boolean {
+  const [prefix, localName] = name.split(':');
+  return element.localName === localName && element.namespaceURI === PREFIXES[prefix];
+}
+
+function child(element: Element | undefined, name: string): Element | undefined {
+  return element ? Array.from(element.children).find(node => is(node, name)) : undefined;
+}
+
+function children(element: Element | undefined, name: string): Element[] {
+  return element ? Array.from(element.children).filter(node => is(node, name)) : [];
+}
+
+function attribute(element: Element | undefined, name: string): string | undefined {
+  const value = element ? element.getAttribute(name) : null;
+  return value === null ? undefined : value;
+}
+
+function number(element: Element | undefined, name: string, fallback: number): number {
+  const value = Number(attribute(element, name));
+  return attribute(element, name) !== undefined && isFinite(value) ? value : fallback;
+}
+
+function shapePlaceholder(shape: Element): Element | undefined {
+  return child(child(child(shape, 'p:nvSpPr'), 'p:nvPr'), 'p:ph');
+}
+
+/**
+ * Kind of a placeholder, with centered titles counted as titles and
+ * subtitles and content as body text
+ */
+function placeholderType(placeholder: Element): string {
+  const type = placeholder.getAttribute('type') || 'obj';
+  return type === 'ctrTitle' ? 'title' : type === 'subTitle' || type === 'obj' ? 'body' : type;
+}
+
+function skip(reader: SlideReader, kind: string) {
+  reader.skipped.set(kind, (reader.skipped.get(kind) || 0) + 1);
+}
+
+/**
+ * Resolve a relationship target against the part it belongs to
+ */
+function resolvePath(base: string, target: string): string {
+  if (target.startsWith('/')) {
+    return target.slice(1);
+  }
+  const segments = base.split('/').slice(0, -1);
+  target.split('/').forEach(segment => {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.') {
+      segments.push(segment);
+    }
+  });
+  return segments.join('/');
+}
+
+function parseHex(value: string): ColorData {
+  const hex = parseInt(value, 16) || 0;
+  return { r: (hex >> 16) & 0xff, g: (hex >> 8) & 0xff, b: hex & 0xff };
+}
+
+function mapChannels(color: ColorData, map: (channel: number) => number): ColorData {
+  const clamp = (channel: number) => Math.max(0, Math.min(255, Math.round(map(channel))));
+  return { r: clamp(color.r), g: clamp(color.g), b: clamp(color.b) };
+}
+
+/**
+ * Scale and offset the lightness of a color in HSL, as theme color variants do
+ */
+function adjustLuminance(color: ColorData, scale: number, offset: number): ColorData {
+  const [r, g, b] = [color.r / 255, color.g / 255, color.b / 255];
+  const max = Math.max(r, g, b);
+  const min = Math.min(r, g, b);
+  const lightness = (max + min) / 2;
+  const delta = max - min;
+  const saturation = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
+  let hue = 0;
+  if (delta > 0) {
+    hue = max === r ? ((g - b) / delta) % 6 : max === g ? (b - r) / delta + 2 : (r - g) / delta + 4;
+  }
+
+  const adjusted = Math.max(0, Math.min(1, lightness * scale + offset));
+  const chroma = (1 - Math.abs(2 * adjusted - 1)) * saturation;
+  const x = chroma * (1 - Math.abs((((hue % 6) + 6) % 6) % 2 - 1));
+  const m = adjusted - chroma / 2;
+  const sector = Math.floor((((hue % 6) + 6) % 6));
+  const [red, green, blue] = [
+    [chroma, x, 0], [x, chroma, 0], [0, chroma, x], [0, x, chroma], [x, 0, chroma], [chroma, 0, x]
+  ][sector];
+
+  return { r: Math.round((red + m) * 255), g: Math.round((green + m) * 255), b: Math.round((blue + m) * 255) };
+}
@@ -0,0 +1,592 @@
+// PowerPoint Package Writer
+// Assembles the OOXML parts (content types, relationships, presentation,
+// master, layout, theme and slides) that make up a .pptx file
+
+import { createZip, ZipEntry } from './zip.js';
+import { escapeXML, XML_DECLARATION } from './xml.js';
+
+export const NS = {
+  a: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  p: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+  p14: 'http://schemas.microsoft.com/office/powerpoint/2010/main'
+};
+
+export const REL_TYPES = {
+  officeDocument: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument',
+  coreProperties: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+  extendedProperties: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/extended-properties',
+  customProperties: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/custom-properties',
+  slideMaster: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/slideMaster',
+  slideLayout: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/slideLayout',
+  slide: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide',
+  theme: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/theme',
+  presProps: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/presProps',
+  viewProps: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/viewProps',
+  tableStyles: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/tableStyles',
+  notesMaster: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesMaster',
+  notesSlide: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesSlide',
+  hyperlink: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink',
+  image: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/image'
+};
+
+const IMAGE_CONTENT_TYPES: { [extension: string]: string } = {
+  png: 'image/png',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  svg: 'image/svg+xml'
+};
+
+const CONTENT_TYPES = {
+  presentation: 'application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml',
+  slide: 'application/vnd.openxmlformats-officedocument.presentationml.slide+xml',
+  slideMaster: 'application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml',
+  slideLayout: 'application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml',
+  notesMaster: 'application/vnd.openxmlformats-officedocument.presentationml.notesMaster+xml',
+  notesSlide: 'application/vnd.openxmlformats-officedocument.presentationml.notesSlide+xml',
+  theme: 'application/vnd.openxmlformats-officedocument.theme+xml',
+  presProps: 'application/vnd.openxmlformats-officedocument.presentationml.presProps+xml',
+  viewProps: 'application/vnd.openxmlformats-officedocument.presentationml.viewProps+xml',
+  tableStyles: 'application/vnd.openxmlformats-officedocument.presentationml.tableStyles+xml',
+  coreProperties: 'application/vnd.openxmlformats-package.core-properties+xml',
+  extendedProperties: 'application/vnd.openxmlformats-officedocument.extended-properties+xml',
+  customProperties: 'application/vnd.openxmlformats-officedocument.custom-properties+xml'
+};
+
+// Format id every custom document property is declared with
+const CUSTOM_PROPERTY_FORMAT_ID = '{D5CDD505-2E9C-101B-9397-08002B2CF9AE}';
+
+// Office rejects text properties longer than this
+const MAX_PROPERTY_LENGTH = 255;
+
+// PowerPoint rejects slide sizes outside of 1 to 56 inches
+const MIN_SLIDE_EMU = 914400;
+const MAX_SLIDE_EMU = 51206400;
+
+export interface PackageRelationship {
+  id: string;
+  type: string;
+  target: string;
+  targetMode?: 'External';
+}
+
+export interface PackageSlide {
+  xml: string;
+  // Extra slide relationships; rId1 is always reserved for the slide layout
+  relationships: PackageRelationship[];
+  // Speaker notes, one plain-text paragraph per entry
+  notes?: string[];
+  // Section the slide is listed under; consecutive slides of a section are grouped
+  section?: string;
+  // Type of template layout whose placeholders the slide fills, e.g. "titleOnly"
+  layout?: string;
+}
+
+export interface PackageMedia {
+  // File name inside ppt/media, e.g. "image1.png"
+  name: string;
+  data: Uint8Array;
+}
+
+/**
+ * Slide masters, layouts and themes of a corporate template, used in place of
+ * the built-in ones. Parts are copied as they are, with what they refer to.
+ */
+export interface PackageTemplate {
+  name: string;
+  // Slide masters with the ids the template's presentation lists them with
+  masters: { path: string; id: number }[];
+  // Layout slides are based on when the template has none of their type
+  layout: string;
+  // Layouts of the first slide master, by layout type
+  layouts: { [type: string]: string };
+  // Theme of the first slide master, which is the presentation's theme
+  theme: string;
+  parts: ZipEntry[];
+  // Content type of every part, by path
+  contentTypes: { [path: string]: string };
+  // Slide size of the template in EMU, which its layouts are drawn for
+  slideWidth: number;
+  slideHeight: number;
+  // Default text styles of the template's presentation, as XML
+  defaultTextStyle?: string;
+}
+
+export interface PackageOptions {
+  title: string;
+  slideWidth: number;
+  slideHeight: number;
+  slides: PackageSlide[];
+  media?: PackageMedia[];
+  // Custom document properties, listed under File > Properties in PowerPoint
+  properties?: { [name: string]: string | number };
+  template?: PackageTemplate;
+}
+
+const DEFAULT_MASTER = 'ppt/slideMasters/slideMaster1.xml';
+const DEFAULT_THEME = 'ppt/theme/theme1.xml';
+
+// Layouts of the built-in master, the first being the default: slides with
+// placeholders use the layout holding them
+const DEFAULT_LAYOUTS: { type: string; name: string }[] = [
+  { type: 'blank', name: 'Blank' },
+  { type: 'titleOnly', name: 'Title Only' },
+  { type: 'obj', name: 'Title and Content' }
+];
+
+// Title and content areas of the built-in layouts, as shares of the slide size
+const TITLE_AREA = { x: 0.069, y: 0.053, width: 0.862, height: 0.193 };
+const CONTENT_AREA = { x: 0.069, y: 0.266, width: 0.862, height: 0.635 };
+
+export class PPTXPackage {
+  /**
+   * Build the complete .pptx file as a ZIP archive
+   */
+  static build(options: PackageOptions): Uint8Array {
+    return createZip(this.parts(options));
+  }
+
+  /**
+   * Build the list of package parts making up the presentation
+   */
+  static parts(options: PackageOptions): ZipEntry[] {
+    const hasNotes = this.hasNotes(options);
+    const template = options.template;
+    const notesTheme = this.notesThemePath(options);
+    const hasProperties = !!options.properties && Object.keys(options.properties).length > 0;
+    const packageRelationships: PackageRelationship[] = [
+      { id: 'rId1', type: REL_TYPES.officeDocument, target: 'ppt/presentation.xml' },
+      { id: 'rId2', type: REL_TYPES.coreProperties, target: 'docProps/core.xml' },
+      { id: 'rId3', type: REL_TYPES.extendedProperties, target: 'docProps/app.xml' }
+    ];
+    if (hasProperties) {
+      packageRelationships.push({ id: 'rId4', type: REL_TYPES.customProperties, target: 'docProps/custom.xml' });
+    }
+
+    const entries: ZipEntry[] = [
+      { path: '[Content_Types].xml', data: this.contentTypesXML(options, hasProperties) },
+      { path: '_rels/.rels', data: this.relationshipsXML(packageRelationships) },
+      { path: 'docProps/core.xml', data: this.corePropertiesXML(options.title) },
+      { path: 'docProps/app.xml', data: this.appPropertiesXML(options.slides.length) },
+      { path: 'ppt/presentation.xml', data: this.presentationXML(options) },
+      { path: 'ppt/_rels/presentation.xml.rels', data: this.presentationRelationshipsXML(options) },
+      { path: 'ppt/presProps.xml', data: `${XML_DECLARATION}<p:presentationPr xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}"/>` },
+      { path: 'ppt/viewProps.xml', data: `${XML_DECLARATION}<p:viewPr xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}"/>` },
+      { path: 'ppt/tableStyles.xml', data: `${XML_DECLARATION}<a:tblStyleLst xmlns:a="${NS.a}" def="{5C22544A-7EE6-4342-B048-85BDC9FD1C3A}"/>` }
+    ];
+
+    if (template) {
+      entries.push(...template.parts);
+    } else {
+      entries.push(
+        { path: DEFAULT_THEME, data: this.themeXML() },
+        { path: DEFAULT_MASTER, data: this.slideMasterXML() },
+        {
+          path: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+          data: this.relationshipsXML([
+            ...DEFAULT_LAYOUTS.map((_, index) => ({
+              id: `rId${index + 1}`, type: REL_TYPES.slideLayout, target: `../slideLayouts/slideLayout${index + 1}.xml`
+            })),
+            { id: `rId${DEFAULT_LAYOUTS.length + 1}`, type: REL_TYPES.theme, target: '../theme/theme1.xml' }
+          ])
+        }
+      );
+      DEFAULT_LAYOUTS.forEach((layout, index) => {
+        entries.push(
+          { path: this.defaultLayoutPath(index), data: this.slideLayoutXML(layout.type, layout.name, options) },
+          {
+            path: `ppt/slideLayouts/_rels/slideLayout${index + 1}.xml.rels`,
+            data: this.relationshipsXML([
+              { id: 'rId1', type: REL_TYPES.slideMaster, target: '../slideMasters/slideMaster1.xml' }
+            ])
+          }
+        );
+      });
+    }
+
+    if (hasNotes) {
+      // Notes slides need a notes master, which has a theme of its own
+      entries.push(
+        { path: notesTheme, data: this.themeXML() },
+        { path: 'ppt/notesMasters/notesMaster1.xml', data: this.notesMasterXML() },
+        {
+          path: 'ppt/notesMasters/_rels/notesMaster1.xml.rels',
+          data: this.relationshipsXML([
+            { id: 'rId1', type: REL_TYPES.theme, target: `../${notesTheme.slice('ppt/'.length)}` }
+          ])
+        }
+      );
+    }
+
+    options.slides.forEach((slide, index) => {
+      const relationships = [
+        { id: 'rId1', type: REL_TYPES.slideLayout, target: `../${this.slideLayout(slide, template).slice('ppt/'.length)}` },
+        ...slide.relationships
+      ];
+
+      if (slide.notes && slide.notes.length > 0) {
+        relationships.push({
+          id: `rId${relationships.length + 1}`,
+          type: REL_TYPES.notesSlide,
+          target: `../notesSlides/notesSlide${index + 1}.xml`
+        });
+        entries.push({ path: `ppt/notesSlides/notesSlide${index + 1}.xml`, data: this.notesSlideXML(slide.notes) });
+        entries.push({
+          path: `ppt/notesSlides/_rels/notesSlide${index + 1}.xml.rels`,
+          data: this.relationshipsXML([
+            { id: 'rId1', type: REL_TYPES.notesMaster, target: '../notesMasters/notesMaster1.xml' },
+            { id: 'rId2', type: REL_TYPES.slide, target: `../slides/slide${index + 1}.xml` }
+          ])
+        });
+      }
+
+      entries.push({ path: `ppt/slides/slide${index + 1}.xml`, data: slide.xml });
+      entries.push({ path: `ppt/slides/_rels/slide${index + 1}.xml.rels`, data: this.relationshipsXML(relationships) });
+    });
+
+    for (const media of options.media || []) {
+      entries.push({ path: `ppt/media/${media.name}`, data: media.data });
+    }
+
+    if (hasProperties) {
+      entries.push({ path: 'docProps/custom.xml', data: this.customPropertiesXML(options.properties!) });
+    }
+
+    return entries;
+  }
+
+  /**
+   * Clamp a slide dimension to the range PowerPoint accepts
+   */
+  static clampSlideSize(emu: number): number {
+    return Math.min(MAX_SLIDE_EMU, Math.max(MIN_SLIDE_EMU, Math.round(emu)));
+  }
+
+  /**
+   * Wrap shape XML in a complete slide part, left out of the slide show when hidden
+   */
+  static slideXML(shapesXML: string, backgroundXML: string = '', hidden: boolean = false): string {
+    return `${XML_DECLARATION}<p:sld xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}"${hidden ? ' show="0"' : ''}>` +
+      `<p:cSld>${backgroundXML}<p:spTree>${this.groupRootXML()}${shapesXML}</p:spTree></p:cSld>` +
+      '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>';
+  }
+
+  private static hasNotes(options: PackageOptions): boolean {
+    return options.slides.some(slide => slide.notes && slide.notes.length > 0);
+  }
+
+  private static groupRootXML(): string {
+    return '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+      '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>';
+  }
+
+  private static relationshipsXML(relationships: PackageRelationship[]): string {
+    const items = relationships
+      .map(rel => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${escapeXML(rel.target)}"` +
+        `${rel.targetMode ? ` TargetMode="${rel.targetMode}"` : ''}/>`)
+      .join('');
+    return `${XML_DECLARATION}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${items}</Relationships>`;
+  }
+
+  private static contentTypesXML(options: PackageOptions, hasProperties: boolean): string {
+    const { slides, template } = options;
+    const media = options.media || [];
+    const overrides: [string, string][] = [
+      ['/ppt/presentation.xml', CONTENT_TYPES.presentation],
+      ['/ppt/presProps.xml', CONTENT_TYPES.presProps],
+      ['/ppt/viewProps.xml', CONTENT_TYPES.viewProps],
+      ['/ppt/tableStyles.xml', CONTENT_TYPES.tableStyles],
+      ['/docProps/core.xml', CONTENT_TYPES.coreProperties],
+      ['/docProps/app.xml', CONTENT_TYPES.extendedProperties]
+    ];
+    if (template) {
+      // Template parts are listed one by one, media included, as their extensions may not be known here
+      template.parts.forEach(part => {
+        if (template.contentTypes[part.path]) {
+          overrides.push([`/${part.path}`, template.contentTypes[part.path]]);
+        }
+      });
+    } else {
+      overrides.push(
+        [`/${DEFAULT_THEME}`, CONTENT_TYPES.theme],
+        [`/${DEFAULT_MASTER}`, CONTENT_TYPES.slideMaster],
+        ...DEFAULT_LAYOUTS.map((_, index): [string, string] => [`/${this.defaultLayoutPath(index)}`, CONTENT_TYPES.slideLayout])
+      );
+    }
+    if (hasProperties) {
+      overrides.push(['/docProps/custom.xml', CONTENT_TYPES.customProperties]);
+    }
+    slides.forEach((slide, index) => {
+      overrides.push([`/ppt/slides/slide${index + 1}.xml`, CONTENT_TYPES.slide]);
+      if (slide.notes && slide.notes.length > 0) {
+        overrides.push([`/ppt/notesSlides/notesSlide${index + 1}.xml`, CONTENT_TYPES.notesSlide]);
+      }
+    });
+    if (slides.some(slide => slide.notes && slide.notes.length > 0)) {
+      overrides.push(
+        [`/${this.notesThemePath(options)}`, CONTENT_TYPES.theme],
+        ['/ppt/notesMasters/notesMaster1.xml', CONTENT_TYPES.notesMaster]
+      );
+    }
+
+    const extensions = Array.from(new Set(media.map(item => item.name.split('.').pop() || '')))
+      .filter(extension => IMAGE_CONTENT_TYPES[extension]);
+
+    return `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+      '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+      '<Default Extension="xml" ContentType="application/xml"/>' +
+      extensions.map(extension => `<Default Extension="${extension}" ContentType="${IMAGE_CONTENT_TYPES[extension]}"/>`).join('') +
+      overrides.map(([part, type]) => `<Override PartName="${part}" ContentType="${type}"/>`).join('') +
+      '</Types>';
+  }
+
+  private static corePropertiesXML(title: string): string {
+    const now = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    return `${XML_DECLARATION}<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" ` +
+      'xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" ' +
+      'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">' +
+      `<dc:title>${escapeXML(title)}</dc:title>` +
+      '<dc:creator>FigJam to PowerPoint</dc:creator>' +
+      `<dcterms:created xsi:type="dcterms:W3CDTF">${now}</dcterms:created>` +
+      `<dcterms:modified xsi:type="dcterms:W3CDTF">${now}</dcterms:modified>` +
+      '</cp:coreProperties>';
+  }
+
+  private static appPropertiesXML(slideCount: number): string {
+    return `${XML_DECLARATION}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">` +
+      `<Application>figjam2pptx</Application><Slides>${slideCount}</Slides></Properties>`;
+  }
+
+  /**
+   * Whole numbers are stored as integers, everything else as text
+   */
+  private static customPropertiesXML(properties: { [name: string]: string | number }): string {
+    const items = Object.entries(properties).map(([name, value], index) => {
+      const typed = typeof value === 'number' && Number.isInteger(value)
+        ? `<vt:i4>${value}</vt:i4>`
+        : `<vt:lpwstr>${escapeXML(String(value).slice(0, MAX_PROPERTY_LENGTH))}</vt:lpwstr>`;
+      // Property ids 0 and 1 are reserved
+      return `<property fmtid="${CUSTOM_PROPERTY_FORMAT_ID}" pid="${index + 2}" name="${escapeXML(name)}">${typed}</property>`;
+    }).join('');
+    return `${XML_DECLARATION}<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/custom-properties" ` +
+      `xmlns:vt="http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes">${items}</Properties>`;
+  }
+
+  private static presentationXML(options: PackageOptions): string {
+    const masters = this.masters(options);
+    const masterIds = masters
+      .map((master, index) => `<p:sldMasterId id="${master.id}" r:id="rId${index + 1}"/>`)
+      .join('');
+    const slideIds = options.slides
+      .map((_, index) => `<p:sldId id="${256 + index}" r:id="rId${masters.length + index + 1}"/>`)
+      .join('');
+    // The notes master follows the slides, presProps, viewProps, tableStyles and theme
+    const notesMasterIds = this.hasNotes(options)
+      ? `<p:notesMasterIdLst><p:notesMasterId r:id="rId${masters.length + options.slides.length + 5}"/></p:notesMasterIdLst>`
+      : '';
+
+    return `${XML_DECLARATION}<p:presentation xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}" saveSubsetFonts="1">` +
+      `<p:sldMasterIdLst>${masterIds}</p:sldMasterIdLst>` +
+      notesMasterIds +
+      `<p:sldIdLst>${slideIds}</p:sldIdLst>` +
+      `<p:sldSz cx="${this.clampSlideSize(options.slideWidth)}" cy="${this.clampSlideSize(options.slideHeight)}"/>` +
+      '<p:notesSz cx="6858000" cy="9144000"/>' +
+      (options.template && options.template.defaultTextStyle || '') +
+      this.sectionListXML(options.slides) +
+      '</p:presentation>';
+  }
+
+  private static masters(options: PackageOptions): { path: string; id: number }[] {
+    return options.template ? options.template.masters : [{ path: DEFAULT_MASTER, id: 2147483648 }];
+  }
+
+  /**
+   * Layout of the slide's type in the template or the built-in master, else
+   * the default layout
+   */
+  private static slideLayout(slide: PackageSlide, template: PackageTemplate | undefined): string {
+    if (!template) {
+      return this.defaultLayoutPath(Math.max(0, DEFAULT_LAYOUTS.findIndex(layout => layout.type === slide.layout)));
+    }
+    return (slide.layout && template.layouts[slide.layout]) || template.layout;
+  }
+
+  private static defaultLayoutPath(index: number): string {
+    return `ppt/slideLayouts/slideLayout${index + 1}.xml`;
+  }
+
+  /**
+   * Theme of the notes master, numbered after the themes of the template
+   */
+  private static notesThemePath(options: PackageOptions): string {
+    const paths = new Set(options.template ? options.template.parts.map(part => part.path) : [DEFAULT_THEME]);
+    let number = 2;
+    while (paths.has(`ppt/theme/theme${number}.xml`)) {
+      number++;
+    }
+    return `ppt/theme/theme${number}.xml`;
+  }
+
+  /**
+   * PowerPoint 2010 section list, written only when slides are assigned to sections
+   */
+  private static sectionListXML(slides: PackageSlide[]): string {
+    if (!slides.some(slide => slide.section !== undefined)) {
+      return '';
+    }
+
+    const sections: { name: string; slideIds: number[] }[] = [];
+    slides.forEach((slide, index) => {
+      const name = slide.section || 'Default Section';
+      const last = sections[sections.length - 1];
+      if (last && last.name === name) {
+        last.slideIds.push(256 + index);
+      } else {
+        sections.push({ name, slideIds: [256 + index] });
+      }
+    });
+
+    const sectionsXML = sections.map((section, index) => {
+      // Section ids are GUIDs; numbering them is enough to keep them unique
+      const id = `{${(index + 1).toString(16).padStart(8, '0')}-0000-0000-0000-000000000000}`;
+      const slideIds = section.slideIds.map(slideId => `<p14:sldId id="${slideId}"/>`).join('');
+      return `<p14:section name="${escapeXML(section.name)}" id="${id}"><p14:sldIdLst>${slideIds}</p14:sldIdLst></p14:section>`;
+    }).join('');
+
+    return `<p:extLst><p:ext uri="{521415D9-36F7-43E2-AB2F-B90AF26B5E84}">` +
+      `<p14:sectionLst xmlns:p14="${NS.p14}">${sectionsXML}</p14:sectionLst>` +
+      '</p:ext></p:extLst>';
+  }
+
+  private static presentationRelationshipsXML(options: PackageOptions): string {
+    const relationships: PackageRelationship[] = this.masters(options).map((master, index) => ({
+      id: `rId${index + 1}`, type: REL_TYPES.slideMaster, target: master.path.slice('ppt/'.length)
+    }));
+    options.slides.forEach((_, index) => {
+      relationships.push({ id: `rId${relationships.length + 1}`, type: REL_TYPES.slide, target: `slides/slide${index + 1}.xml` });
+    });
+    const next = relationships.length + 1;
+    const theme = options.template ? options.template.theme : DEFAULT_THEME;
+    relationships.push(
+      { id: `rId${next}`, type: REL_TYPES.presProps, target: 'presProps.xml' },
+      { id: `rId${next + 1}`, type: REL_TYPES.viewProps, target: 'viewProps.xml' },
+      { id: `rId${next + 2}`, type: REL_TYPES.tableStyles, target: 'tableStyles.xml' },
+      { id: `rId${next + 3}`, type: REL_TYPES.theme, target: theme.slice('ppt/'.length) }
+    );
+    if (this.hasNotes(options)) {
+      relationships.push({ id: `rId${next + 4}`, type: REL_TYPES.notesMaster, target: 'notesMasters/notesMaster1.xml' });
+    }
+    return this.relationshipsXML(relationships);
+  }
+
+  private static slideMasterXML(): string {
+    return `${XML_DECLARATION}<p:sldMaster xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}">` +
+      '<p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg>' +
+      `<p:spTree>${this.groupRootXML()}</p:spTree></p:cSld>` +
+      '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" ' +
+      'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>' +
+      '<p:sldLayoutIdLst>' +
+      DEFAULT_LAYOUTS.map((_, index) => `<p:sldLayoutId id="${2147483649 + index}" r:id="rId${index + 1}"/>`).join('') +
+      '</p:sldLayoutIdLst>' +
+      '</p:sldMaster>';
+  }
+
+  private static notesMasterXML(): string {
+    const placeholder = this.placeholderShapeXML;
+
+    return `${XML_DECLARATION}<p:notesMaster xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}">` +
+      '<p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>' +
+      this.groupRootXML() +
+      placeholder(2, 'Slide Image Placeholder 1', '<p:ph type="sldImg" idx="2"/>', 685800, 1143000, 5486400, 3086100) +
+      placeholder(3, 'Notes Placeholder 2', '<p:ph type="body" sz="quarter" idx="3"/>', 685800, 4400550, 5486400, 3600450) +
+      '</p:spTree></p:cSld>' +
+      '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" ' +
+      'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>' +
+      '</p:notesMaster>';
+  }
+
+  private static notesSlideXML(notes: string[]): string {
+    const paragraphs = notes
+      .map(note => `<a:p><a:r><a:rPr lang="en-US" dirty="0"/><a:t>${escapeXML(note)}</a:t></a:r></a:p>`)
+      .join('');
+
+    return `${XML_DECLARATION}<p:notes xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}">` +
+      `<p:cSld><p:spTree>${this.groupRootXML()}` +
+      '<p:sp><p:nvSpPr><p:cNvPr id="2" name="Slide Image Placeholder 1"/>' +
+      '<p:cNvSpPr><a:spLocks noGrp="1" noRot="1" noChangeAspect="1"/></p:cNvSpPr>' +
+      '<p:nvPr><p:ph type="sldImg" idx="2"/></p:nvPr></p:nvSpPr><p:spPr/></p:sp>' +
+      '<p:sp><p:nvSpPr><p:cNvPr id="3" name="Notes Placeholder 2"/>' +
+      '<p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr>' +
+      '<p:nvPr><p:ph type="body" idx="3"/></p:nvPr></p:nvSpPr><p:spPr/>' +
+      `<p:txBody><a:bodyPr/><a:lstStyle/>${paragraphs}</p:txBody></p:sp>` +
+      '</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:notes>';
+  }
+
+  /**
+   * Built-in layout of the given type, with a title placeholder unless it is
+   * blank and a content placeholder for "obj", laid out on the slide size
+   */
+  private static slideLayoutXML(type: string, name: string, options: PackageOptions): string {
+    const area = (id: number, shapeName: string, ph: string, share: typeof TITLE_AREA) => this.placeholderShapeXML(
+      id, shapeName, ph,
+      Math.round(options.slideWidth * share.x), Math.round(options.slideHeight * share.y),
+      Math.round(options.slideWidth * share.width), Math.round(options.slideHeight * share.height));
+    const title = type !== 'blank' ? area(2, 'Title 1', '<p:ph type="title"/>', TITLE_AREA) : '';
+    const content = type === 'obj' ? area(3, 'Content Placeholder 2', '<p:ph idx="1"/>', CONTENT_AREA) : '';
+
+    return `${XML_DECLARATION}<p:sldLayout xmlns:a="${NS.a}" xmlns:r="${NS.r}" xmlns:p="${NS.p}" type="${type}" preserve="1">` +
+      `<p:cSld name="${name}"><p:spTree>${this.groupRootXML()}${title}${content}</p:spTree></p:cSld>` +
+      '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>';
+  }
+
+  private static placeholderShapeXML(id: number, name: string, ph: string, x: number, y: number, cx: number, cy: number): string {
+    return `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"/><p:cNvSpPr><a:spLocks noGrp="1"/></p:cNvSpPr>` +
+      `<p:nvPr>${ph}</p:nvPr></p:nvSpPr>` +
+      `<p:spPr><a:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm>` +
+      '<a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>' +
+      '<p:txBody><a:bodyPr/><a:lstStyle/><a:p><a:endParaRPr lang="en-US"/></a:p></p:txBody></p:sp>';
+  }
+
+  private static themeXML(): string {
+    const fontScheme = (typeface: string) =>
+      `<a:latin typeface="${typeface}"/><a:ea typeface=""/><a:cs typeface=""/>`;
+
+    return `${XML_DECLARATION}<a:theme xmlns:a="${NS.a}" name="FigJam">` +
+      '<a:themeElements>' +
+      '<a:clrScheme name="FigJam">' +
+      '<a:dk1><a:sysClr val="windowText" lastClr="000000"/></a:dk1>' +
+      '<a:lt1><a:sysClr val="window" lastClr="FFFFFF"/></a:lt1>' +
+      '<a:dk2><a:srgbClr val="1E1E1E"/></a:dk2>' +
+      '<a:lt2><a:srgbClr val="F5F5F5"/></a:lt2>' +
+      '<a:accent1><a:srgbClr val="0D99FF"/></a:accent1>' +
+      '<a:accent2><a:srgbClr val="14AE5C"/></a:accent2>' +
+      '<a:accent3><a:srgbClr val="FFCD29"/></a:accent3>' +
+      '<a:accent4><a:srgbClr val="F24822"/></a:accent4>' +
+      '<a:accent5><a:srgbClr val="9747FF"/></a:accent5>' +
+      '<a:accent6><a:srgbClr val="FFA629"/></a:accent6>' +
+      '<a:hlink><a:srgbClr val="0563C1"/></a:hlink>' +
+      '<a:folHlink><a:srgbClr val="954F72"/></a:folHlink>' +
+      '</a:clrScheme>' +
+      '<a:fontScheme name="FigJam">' +
+      `<a:majorFont>${fontScheme('Calibri Light')}</a:majorFont>` +
+      `<a:minorFont>${fontScheme('Calibri')}</a:minorFont>` +
+      '</a:fontScheme>' +
+      '<a:fmtScheme name="FigJam">' +
+      '<a:fillStyleLst><a:solidFill><a:schemeClr val="phClr"/></a:solidFill>' +
+      '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>' +
+      '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:fillStyleLst>' +
+      '<a:lnStyleLst><a:ln w="6350"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>' +
+      '<a:ln w="12700"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>' +
+      '<a:ln w="19050"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln></a:lnStyleLst>' +
+      '<a:effectStyleLst><a:effectStyle><a:effectLst/></a:effectStyle>' +
+      '<a:effectStyle><a:effectLst/></a:effectStyle>' +
+      '<a:effectStyle><a:effectLst/></a:effectStyle></a:effectStyleLst>' +
+      '<a:bgFillStyleLst><a:solidFill><a:schemeClr val="phClr"/></a:solidFill>' +
+      '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>' +
+      '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:bgFillStyleLst>' +
+      '</a:fmtScheme>' +
+      '</a:themeElements>' +
+      '<a:objectDefaults/><a:extraClrSchemeLst/>' +
+      '</a:theme>';
+  }
+}
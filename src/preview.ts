@@ -0,0 +1,414 @@
+// Export Preview
+// SVG previews of the slides an export will produce, and the layer tree used
+// to leave nodes out of it. Previews approximate the converter's output: shapes
+// without a simple SVG outline are drawn as rectangles and effects are ignored.
+
+/// <reference path="./model.d.ts" />
+
+import { CUSTOM_SHAPE_PATHS, GeometryPath, regularPolygonPath, starPath } from './custom-geometry.js';
+import { getTransform, Transform } from './geometry.js';
+import { flattenPaints } from './paints.js';
+import { SlideData } from './slide-builder.js';
+import { DEFAULT_STICKY_COLOR, STICKY_COLORS } from './stickies.js';
+import { escapeXML } from './xml.js';
+
+/** Image asset keys mapped to URLs the preview can display */
+export type PreviewImages = { [key: string]: string };
+
+// Grid of the outlines in custom-geometry.ts
+const GRID = 1000;
+
+// Outlines of FigJam shape types drawn as regular polygons, by number of sides
+const POLYGON_SHAPES: { [shapeType: string]: number } = {
+  DIAMOND: 4,
+  TRIANGLE_UP: 3,
+  PENTAGON: 5,
+  HEXAGON: 6,
+  OCTAGON: 8
+};
+
+const ELLIPSE_SHAPES = ['ELLIPSE', 'SUMMING_JUNCTION', 'OR'];
+
+const SECTION_TITLE_HEIGHT = 32;
+const CODE_BACKGROUND = '#1e1e1e';
+const PLACEHOLDER_COLOR = '#f0f0f0';
+
+// Gradient ids stay unique across all previews shown in the same document
+let nextGradientId = 0;
+
+/**
+ * Render a slide as an SVG document sized to the presentation's slide aspect
+ * ratio. The slide size is in EMU; the content is scaled to fit and centered
+ * like the converter does. Every node is drawn in a group carrying its id.
+ */
+export function renderSlidePreview(slide: SlideData, slideSize: { width: number; height: number }, images: PreviewImages): string {
+  const scale = Math.min(slideSize.width / (slide.width || 1), slideSize.height / (slide.height || 1));
+  const viewWidth = slideSize.width / scale;
+  const viewHeight = slideSize.height / scale;
+  const viewX = slide.originX - (viewWidth - slide.width) / 2;
+  const viewY = slide.originY - (viewHeight - slide.height) / 2;
+  const context: RenderContext = { images, defs: '' };
+
+  let content = '';
+  if (slide.background && slide.background.length > 0) {
+    content += `<rect x="${viewX}" y="${viewY}" width="${viewWidth}" height="${viewHeight}"${paintAttributes(slide.background, 'fill', context)}/>`;
+  }
+  if (slide.title !== undefined) {
+    content += sectionTitleSVG(slide.title, slide.originX, slide.originY);
+  }
+  content += slide.nodes.map(node => nodeToSVG(node, context)).join('');
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewX} ${viewY} ${viewWidth} ${viewHeight}">` +
+    `<defs>${context.defs}</defs>${content}</svg>`;
+}
+
+/**
+ * Remove the nodes that are not included, dropping groups left empty
+ */
+export function filterNodes(
+  nodes: ExtractedNodeData[],
+  isIncluded: (node: ExtractedNodeData) => boolean
+): ExtractedNodeData[] {
+  return nodes
+    .filter(isIncluded)
+    .map(node => 'children' in node ? { ...node, children: filterNodes(node.children, isIncluded) } : node)
+    .filter(node => !(node.type === 'GROUP' && node.children.length === 0));
+}
+
+/**
+ * Count the nodes of every type, containers' children included
+ */
+export function countNodeTypes(nodes: ExtractedNodeData[]): { [type: string]: number } {
+  const counts: { [type: string]: number } = {};
+  const visit = (node: ExtractedNodeData) => {
+    if (node.type !== 'PAGE') {
+      counts[node.type] = (counts[node.type] || 0) + 1;
+    }
+    if ('children' in node) {
+      node.children.forEach(visit);
+    }
+  };
+  nodes.forEach(visit);
+  return counts;
+}
+
+/**
+ * Build the layer tree as nested lists with a checkbox per node. Checkboxes
+ * and rows carry the node id in a data-node-id attribute.
+ */
+export function renderLayerTree(nodes: ExtractedNodeData[], isExcluded: (node: ExtractedNodeData) => boolean): string {
+  const items = nodes.map(node => {
+    const checked = isExcluded(node) ? '' : ' checked';
+    const label = node.type === 'PAGE' ? 'Page' : node.type.replace(/_/g, ' ').toLowerCase();
+    const children = 'children' in node && node.children.length > 0 ? renderLayerTree(node.children, isExcluded) : '';
+    return `<li><label class="layer" data-node-id="${escapeXML(node.id)}">` +
+      `<input type="checkbox" data-node-id="${escapeXML(node.id)}"${checked}>` +
+      `<span class="layer-type">${escapeXML(label)}</span> ${escapeXML(node.name || '')}</label>${children}</li>`;
+  }).join('');
+  return `<ul class="layer-tree">${items}</ul>`;
+}
+
+/**
+ * List the issues of the fidelity report; clicking an issue selects its node
+ */
+export function renderIssueList(issues: FidelityIssueData[]): string {
+  if (issues.length === 0) {
+    return '<p class="issue-none">Nothing is left out or approximated.</p>';
+  }
+  const items = issues.map(issue =>
+    `<li class="issue issue-${issue.severity}" data-node-id="${escapeXML(issue.nodeId)}" title="${escapeXML(issue.code)}">` +
+    `<span class="issue-severity">${issue.severity}</span> <strong>${escapeXML(issue.nodeName || issue.nodeId)}</strong>: ` +
+    `${escapeXML(issue.message)}</li>`).join('');
+  return `<ul class="issue-list">${items}</ul>`;
+}
+
+interface RenderContext {
+  images: PreviewImages;
+  // Gradient definitions collected while rendering
+  defs: string;
+}
+
+function nodeToSVG(node: ExtractedNodeData, context: RenderContext): string {
+  // Hidden layers exported as hidden shapes are not shown either
+  if (node.visible === false) {
+    return '';
+  }
+  const opacity = node.opacity !== undefined && node.opacity < 1 ? ` opacity="${node.opacity}"` : '';
+  const open = `<g data-node-id="${escapeXML(node.id || '')}"${opacity}`;
+
+  switch (node.type) {
+    case 'GROUP':
+      // Group children share the coordinate space of the group's parent
+      return `${open}>${(node.children || []).map(child => nodeToSVG(child, context)).join('')}</g>`;
+
+    case 'CONNECTOR':
+      return `${open}>${connectorToSVG(node, context)}</g>`;
+
+    default:
+      return `${open} transform="${matrix(getTransform(node))}">${shapeToSVG(node, context)}</g>`;
+  }
+}
+
+/**
+ * Draw a node in its own coordinates, its box spanning (0, 0) to (width, height)
+ */
+function shapeToSVG(node: ExtractedNodeData, context: RenderContext): string {
+  const width = node.width || 0;
+  const height = node.height || 0;
+  const image = node.fallbackImage && context.images[node.fallbackImage];
+
+  switch (node.type) {
+    case 'FRAME':
+    case 'SECTION': {
+      let svg = `<rect width="${width}" height="${height}"${paintAttributes(node.fills, 'fill', context)}` +
+        `${strokeAttributes(node, context)}/>`;
+      if (node.type === 'SECTION') {
+        svg += sectionTitleSVG(node.name, 0, 0);
+      }
+      return svg + (node.children || []).map(child => nodeToSVG(child, context)).join('');
+    }
+
+    case 'STICKY': {
+      const fills: PaintData[] = node.fills && node.fills.length > 0
+        ? node.fills
+        : [{ type: 'solid', color: STICKY_COLORS[DEFAULT_STICKY_COLOR], opacity: 1 }];
+      return `<rect width="${width}" height="${height}"${paintAttributes(fills, 'fill', context)}/>` +
+        textToSVG(node, 0, 0, width, height, 'center', 16);
+    }
+
+    case 'TEXT':
+      return textToSVG(node, 0, 0, width, height, (node.textAlignHorizontal || 'LEFT').toLowerCase(), 0);
+
+    case 'LINE':
+      return `<line x1="0" y1="0" x2="${width}" y2="0"${strokeAttributes(node, context)}/>`;
+
+    case 'VECTOR':
+    case 'HIGHLIGHT':
+      return (node.vectorPaths || []).map(path =>
+        `<path d="${escapeXML(path.data)}"${path.windingRule === 'EVENODD' ? ' fill-rule="evenodd"' : ''}` +
+        `${paintAttributes(node.fills, 'fill', context)}${strokeAttributes(node, context)}/>`).join('');
+
+    case 'TABLE':
+      return tableToSVG(node, context);
+
+    case 'CODE_BLOCK':
+      return `<rect width="${width}" height="${height}" rx="8" fill="${CODE_BACKGROUND}"/>` +
+        foreignText(0, 0, width, height,
+          `<pre style="margin:0;padding:16px;color:#d4d4d4;font:12px 'Courier New',monospace;white-space:pre-wrap">` +
+          `${escapeXML(node.code || '')}</pre>`);
+
+    case 'WIDGET':
+    case 'EMBED':
+    case 'LINK_UNFURL':
+    case 'MEDIA':
+      return image
+        ? imageSVG(image, width, height)
+        : `<rect width="${width}" height="${height}" rx="8" fill="${PLACEHOLDER_COLOR}" stroke="#ccc"/>` +
+          textToSVG({ text: node.title || node.name }, 0, 0, width, height, 'center', 12);
+
+    default: {
+      if (image) {
+        return imageSVG(image, width, height);
+      }
+      const fills = 'fills' in node ? node.fills : undefined;
+      const imageURL = (fills || [])
+        .map(fill => fill.type === 'image' && fill.imageHash !== null ? context.images[fill.imageHash] : undefined)
+        .find(url => !!url);
+      const outline = outlineSVG(node, width, height,
+        imageURL ? ' fill="none"' : paintAttributes(fills, 'fill', context), strokeAttributes(node, context));
+      const picture = imageURL ? imageSVG(imageURL, width, height) : '';
+      const text = 'text' in node && node.text !== undefined ? textToSVG(node, 0, 0, width, height, 'center', 8) : '';
+      return picture + outline + text;
+    }
+  }
+}
+
+/**
+ * Outline of a shape: rectangles, ellipses, regular polygons, stars, or the
+ * custom outlines of FigJam shapes without a PowerPoint preset
+ */
+function outlineSVG(node: ExtractedNodeData, width: number, height: number, fill: string, stroke: string): string {
+  const shapeType = 'shapeType' in node && node.shapeType || '';
+  let path: GeometryPath[] | undefined;
+
+  if (node.type === 'STAR') {
+    path = [starPath(node.pointCount || 5, node.innerRadius || 0.38)];
+  } else if (node.type === 'POLYGON' || POLYGON_SHAPES[shapeType]) {
+    const sides = POLYGON_SHAPES[shapeType] || parseInt(shapeType.replace('polygon-', ''), 10) || 3;
+    path = [regularPolygonPath(sides)];
+  } else if (CUSTOM_SHAPE_PATHS[shapeType]) {
+    path = CUSTOM_SHAPE_PATHS[shapeType];
+  }
+
+  if (path) {
+    return path.map(outline => `<path d="${geometryPathToSVG(outline, width, height)}"` +
+      `${outline.fill === 'none' ? ' fill="none"' : fill}${stroke}/>`).join('');
+  }
+
+  if (node.type === 'ELLIPSE' || ELLIPSE_SHAPES.includes(shapeType)) {
+    return `<ellipse cx="${width / 2}" cy="${height / 2}" rx="${width / 2}" ry="${height / 2}"${fill}${stroke}/>`;
+  }
+
+  const cornerRadius = 'cornerRadius' in node ? node.cornerRadius : undefined;
+  const radius = cornerRadius || (shapeType === 'ROUNDED_RECTANGLE' ? Math.min(width, height) / 8 : 0);
+  return `<rect width="${width}" height="${height}"${radius ? ` rx="${radius}"` : ''}${fill}${stroke}/>`;
+}
+
+function geometryPathToSVG(path: GeometryPath, width: number, height: number): string {
+  const scaleX = width / (path.width || GRID);
+  const scaleY = height / (path.height || GRID);
+  return path.commands.map(command => {
+    if (command[0] === 'Z') {
+      return 'Z';
+    }
+    const points: number[] = command.slice(1) as number[];
+    return command[0] + points.map((value, i) => (i % 2 === 0 ? value * scaleX : value * scaleY)).join(' ');
+  }).join(' ');
+}
+
+/**
+ * Connectors are drawn between their endpoints, which are given in the
+ * connector's parent space; elbowed connectors bend halfway
+ */
+function connectorToSVG(node: ConnectorNodeData, context: RenderContext): string {
+  const start = node.connectorStart || { x: 0, y: 0 };
+  const end = node.connectorEnd || { x: 0, y: 0 };
+  const middleX = (start.x + end.x) / 2;
+  const d = node.connectorLineType === 'ELBOWED'
+    ? `M${start.x} ${start.y} H${middleX} V${end.y} H${end.x}`
+    : `M${start.x} ${start.y} L${end.x} ${end.y}`;
+  return `<path d="${d}" fill="none"${strokeAttributes(node, context)}/>`;
+}
+
+function tableToSVG(node: TableNodeData, context: RenderContext): string {
+  const columnWidths: number[] = node.columnWidths || [];
+  const rowHeights: number[] = node.rowHeights || [];
+  let svg = '';
+  let y = 0;
+
+  (node.cells || []).forEach((cells, row) => {
+    let x = 0;
+    cells.forEach((cell, column) => {
+      const width = columnWidths.slice(column, column + (cell.columnSpan || 1)).reduce((sum, value) => sum + value, 0);
+      const height = rowHeights.slice(row, row + (cell.rowSpan || 1)).reduce((sum, value) => sum + value, 0);
+      // Cells covered by a merged cell are drawn by the merged cell
+      if (cell.rowSpan !== 0 && cell.columnSpan !== 0) {
+        const fills = cell.fills && cell.fills.length > 0 ? cell.fills : node.fills;
+        svg += `<rect x="${x}" y="${y}" width="${width}" height="${height}"` +
+          `${paintAttributes(fills, 'fill', context)} stroke="#d9d9d9"/>`;
+        svg += textToSVG(cell, x, y, width, height, 'left', 8);
+      }
+      x += columnWidths[column] || 0;
+    });
+    y += rowHeights[row] || 0;
+  });
+
+  return svg;
+}
+
+function sectionTitleSVG(name: string, x: number, y: number): string {
+  return foreignText(x, y, 400, SECTION_TITLE_HEIGHT,
+    `<div style="display:inline-block;margin:4px;padding:2px 8px;border-radius:4px;background:#fff;font:600 14px sans-serif">` +
+    `${escapeXML(name)}</div>`);
+}
+
+/**
+ * Text of a node as wrapped HTML; runs keep their size, weight, style and color
+ */
+function textToSVG(
+  node: { text?: string; textParagraphs?: TextParagraphData[] },
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  align: string,
+  padding: number
+): string {
+  const paragraphs: TextParagraphData[] = node.textParagraphs && node.textParagraphs.length > 0
+    ? node.textParagraphs
+    : String(node.text || '').split('\n').map(line => ({ indentation: 0, runs: [{ text: line }] }));
+
+  const html = paragraphs.map(paragraph => {
+    const runs = (paragraph.runs || []).map(run => {
+      const style = [
+        `font-size:${run.fontSize || 14}px`,
+        run.bold ? 'font-weight:bold' : '',
+        run.italic ? 'font-style:italic' : '',
+        run.underline ? 'text-decoration:underline' : run.strikethrough ? 'text-decoration:line-through' : '',
+        run.color ? `color:${cssColor(run.color, run.opacity !== undefined ? run.opacity : 1)}` : ''
+      ].filter(Boolean).join(';');
+      return `<span style="${style}">${escapeXML(run.text)}</span>`;
+    }).join('');
+    const bullet = paragraph.listType === 'UNORDERED' ? '• ' : '';
+    return `<div style="margin-left:${(paragraph.indentation || 0) * 16}px">${bullet}${runs || '&#8203;'}</div>`;
+  }).join('');
+
+  const justify = align === 'center' ? 'center' : align === 'right' ? 'flex-end' : 'flex-start';
+  return foreignText(x, y, width, height,
+    `<div style="display:flex;flex-direction:column;justify-content:${padding ? 'center' : 'flex-start'};` +
+    `align-items:${justify};text-align:${align === 'justified' ? 'justify' : align};height:100%;box-sizing:border-box;` +
+    `padding:${padding}px;font:14px sans-serif;line-height:1.2;overflow:hidden">${html}</div>`);
+}
+
+function foreignText(x: number, y: number, width: number, height: number, html: string): string {
+  return `<foreignObject x="${x}" y="${y}" width="${width}" height="${height}">` +
+    `<div xmlns="http://www.w3.org/1999/xhtml" style="width:100%;height:100%">${html}</div></foreignObject>`;
+}
+
+function imageSVG(url: string, width: number, height: number): string {
+  return `<image href="${escapeXML(url)}" width="${width}" height="${height}" preserveAspectRatio="xMidYMid slice"/>`;
+}
+
+/**
+ * Fill or stroke attributes for stacked paints, flattened like the converter
+ * does; gradients become SVG gradients in the paint's own bounding box
+ */
+function paintAttributes(paints: PaintData[] | undefined, attribute: 'fill' | 'stroke', context: RenderContext): string {
+  const layers = flattenPaints((paints || []).filter(paint => paint.type !== 'image'));
+  const paint = layers[layers.length - 1];
+
+  if (!paint || paint.type === 'image') {
+    return ` ${attribute}="none"`;
+  }
+  if (paint.type === 'solid') {
+    return ` ${attribute}="${cssColor(paint.color, 1)}"` +
+      (paint.opacity < 1 ? ` ${attribute}-opacity="${paint.opacity}"` : '');
+  }
+  const id = `preview-gradient-${nextGradientId++}`;
+  const opacity = paint.opacity !== undefined ? paint.opacity : 1;
+  const stops = paint.gradientStops.map(stop =>
+    `<stop offset="${stop.position}" stop-color="${cssColor(stop.color, 1)}" stop-opacity="${stop.color.a * opacity}"/>`).join('');
+  // The gradient transform maps the unit box to gradient space, so its inverse places the gradient
+  const transform = paint.gradientTransform ? ` gradientTransform="${matrix(invert(paint.gradientTransform))}"` : '';
+
+  context.defs += paint.gradientType === 'GRADIENT_LINEAR'
+    ? `<linearGradient id="${id}" x1="0" y1="0.5" x2="1" y2="0.5"${transform}>${stops}</linearGradient>`
+    : `<radialGradient id="${id}" cx="0.5" cy="0.5" r="0.5"${transform}>${stops}</radialGradient>`;
+  return ` ${attribute}="url(#${id})"`;
+}
+
+function strokeAttributes(node: ExtractedNodeData, context: RenderContext): string {
+  if (!('strokes' in node) || !node.strokes || node.strokes.length === 0 || !node.strokeWeight) {
+    return '';
+  }
+  const dash = node.dashPattern && node.dashPattern.length > 0 ? ` stroke-dasharray="${node.dashPattern.join(' ')}"` : '';
+  return `${paintAttributes(node.strokes, 'stroke', context)} stroke-width="${node.strokeWeight}"${dash}`;
+}
+
+function cssColor(color: ColorData, opacity: number): string {
+  return opacity < 1 ? `rgba(${color.r}, ${color.g}, ${color.b}, ${opacity})` : `rgb(${color.r}, ${color.g}, ${color.b})`;
+}
+
+function matrix(transform: Transform): string {
+  const [[a, c, e], [b, d, f]] = transform;
+  return `matrix(${a} ${b} ${c} ${d} ${e} ${f})`;
+}
+
+function invert(transform: Transform): Transform {
+  const [[a, b, c], [d, e, f]] = transform;
+  const determinant = a * e - b * d || 1;
+  return [
+    [e / determinant, -b / determinant, (b * f - c * e) / determinant],
+    [-d / determinant, a / determinant, (c * d - a * f) / determinant]
+  ];
+}
@@ -0,0 +1,479 @@
+// Export Schema
+// JSON Schema of the export model declared in model.d.ts, and a validator for
+// the subset of JSON Schema it uses. The plugin always writes every field of
+// the model; the schema only requires those the converters cannot do without,
+// so hand-written and older payloads still convert.
+
+/// <reference path="./model.d.ts" />
+
+// Minor versions, each adding the fields of one change:
+// 2.1.0 PAGE nodes of all-pages exports
+// 2.2.0 LINE, VECTOR, HIGHLIGHT, STAR, TABLE, CODE_BLOCK and embed nodes
+// 2.3.0 dash patterns, stroke align, caps and joins, opacity, blend modes and effects
+// 2.4.0 gradientTransform of gradient paints
+// 2.5.0 issues of the payload and the report of the JSON export
+// 2.6.0 fontName, fontSize and textAutoResize of text nodes
+// 2.7.0 locked and zIndex of every node
+export const SCHEMA_VERSION: SchemaVersion = '2.7.0';
+
+// Minor versions only add optional fields, so exports of any earlier 2.x version
+// are valid; newer ones may rely on fields this version does not know
+const SCHEMA_VERSION_PATTERN = `^2\\.(${minorVersionsUpTo(SCHEMA_VERSION)})\\.\\d+$`;
+
+export interface ValidationError {
+  // JSON pointer to the offending value, e.g. "/nodes/0/fills/1/type"
+  path: string;
+  message: string;
+}
+
+type Schema = { [keyword: string]: any };
+
+const NUMBER = { type: 'number' };
+const STRING = { type: 'string' };
+const BOOLEAN = { type: 'boolean' };
+const OPTIONAL_NUMBER = { type: ['number', 'null'] };
+const OPTIONAL_STRING = { type: ['string', 'null'] };
+const PAINTS = { type: 'array', items: { $ref: '#/$defs/paint' } };
+const PARAGRAPHS = { type: 'array', items: { $ref: '#/$defs/textParagraph' } };
+
+// Position, size and transform of every node
+const BASE_PROPERTIES = {
+  id: STRING,
+  name: STRING,
+  x: NUMBER,
+  y: NUMBER,
+  width: NUMBER,
+  height: NUMBER,
+  rotation: NUMBER,
+  transform: { $ref: '#/$defs/transform' },
+  visible: BOOLEAN,
+  locked: BOOLEAN,
+  zIndex: { type: 'number', minimum: 0 },
+  fallbackImage: STRING,
+  opacity: { type: 'number', minimum: 0, maximum: 1 },
+  blendMode: STRING,
+  effects: { type: 'array', items: { $ref: '#/$defs/effect' } }
+};
+
+// Stroke styling of every node with strokes
+const STROKE_STYLE_PROPERTIES = {
+  dashPattern: { type: 'array', items: { type: 'number', minimum: 0 } },
+  strokeAlign: { enum: ['CENTER', 'INSIDE', 'OUTSIDE'] },
+  strokeCap: STRING,
+  strokeJoin: { enum: ['MITER', 'BEVEL', 'ROUND'] }
+};
+const BASE_REQUIRED = ['id', 'name', 'type', 'x', 'y', 'width', 'height', 'rotation', 'visible'];
+
+function nodeSchema(types: string[], properties: Schema, required: string[] = []): Schema {
+  return {
+    type: 'object',
+    required: [...BASE_REQUIRED, ...required],
+    properties: { ...BASE_PROPERTIES, type: { enum: types }, ...properties }
+  };
+}
+
+/**
+ * JSON Schema (draft 2020-12) of the JSON export document
+ */
+export const EXPORT_SCHEMA: Schema = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  $id: `urn:figjam2pptx:export:${SCHEMA_VERSION}`,
+  title: 'figjam2pptx export',
+  type: 'object',
+  required: ['format', 'schemaVersion', 'page', 'nodes'],
+  properties: {
+    format: { const: 'figjam2pptx' },
+    schemaVersion: { type: 'string', pattern: SCHEMA_VERSION_PATTERN },
+    exportDate: STRING,
+    page: {
+      type: 'object',
+      required: ['name'],
+      properties: { id: STRING, name: STRING, width: NUMBER, height: NUMBER }
+    },
+    nodes: { type: 'array', items: { $ref: '#/$defs/node' } },
+    report: { type: 'array', items: { $ref: '#/$defs/fidelityIssue' } }
+  },
+  $defs: {
+    color: {
+      type: 'object',
+      required: ['r', 'g', 'b'],
+      properties: {
+        r: { type: 'number', minimum: 0, maximum: 255 },
+        g: { type: 'number', minimum: 0, maximum: 255 },
+        b: { type: 'number', minimum: 0, maximum: 255 }
+      }
+    },
+    transform: {
+      type: 'array',
+      items: { type: 'array', items: NUMBER, minItems: 3, maxItems: 3 },
+      minItems: 2,
+      maxItems: 2
+    },
+    paint: {
+      oneOf: [
+        {
+          type: 'object',
+          required: ['type', 'color', 'opacity'],
+          properties: { type: { const: 'solid' }, color: { $ref: '#/$defs/color' }, opacity: NUMBER }
+        },
+        {
+          type: 'object',
+          required: ['type', 'gradientType', 'gradientStops', 'opacity'],
+          properties: {
+            type: { const: 'gradient' },
+            gradientType: { enum: ['GRADIENT_LINEAR', 'GRADIENT_RADIAL', 'GRADIENT_ANGULAR', 'GRADIENT_DIAMOND'] },
+            gradientStops: {
+              type: 'array',
+              items: {
+                type: 'object',
+                required: ['position', 'color'],
+                properties: { position: NUMBER, color: { $ref: '#/$defs/color' } }
+              }
+            },
+            gradientTransform: { $ref: '#/$defs/transform' },
+            opacity: NUMBER
+          }
+        },
+        {
+          type: 'object',
+          required: ['type', 'imageHash', 'scaleMode', 'opacity'],
+          properties: {
+            type: { const: 'image' },
+            imageHash: { type: ['string', 'null'] },
+            scaleMode: { enum: ['FILL', 'FIT', 'CROP', 'TILE'] },
+            imageTransform: { $ref: '#/$defs/transform' },
+            scalingFactor: NUMBER,
+            opacity: NUMBER
+          }
+        }
+      ]
+    },
+    textRun: {
+      type: 'object',
+      required: ['text'],
+      properties: {
+        text: STRING,
+        fontFamily: STRING,
+        fontStyle: STRING,
+        fontSize: NUMBER,
+        bold: BOOLEAN,
+        italic: BOOLEAN,
+        underline: BOOLEAN,
+        strikethrough: BOOLEAN,
+        color: { $ref: '#/$defs/color' },
+        opacity: NUMBER,
+        hyperlink: STRING
+      }
+    },
+    textParagraph: {
+      type: 'object',
+      required: ['runs', 'indentation'],
+      properties: {
+        runs: { type: 'array', items: { $ref: '#/$defs/textRun' } },
+        listType: { enum: ['ORDERED', 'UNORDERED'] },
+        indentation: NUMBER
+      }
+    },
+    effect: {
+      type: 'object',
+      required: ['type', 'radius'],
+      properties: {
+        type: { enum: ['DROP_SHADOW', 'INNER_SHADOW', 'LAYER_BLUR', 'BACKGROUND_BLUR'] },
+        radius: { type: 'number', minimum: 0 },
+        color: { $ref: '#/$defs/color' },
+        opacity: { type: 'number', minimum: 0, maximum: 1 },
+        offset: { type: 'object', required: ['x', 'y'], properties: { x: NUMBER, y: NUMBER } },
+        spread: NUMBER
+      }
+    },
+    connectorEndpoint: {
+      type: 'object',
+      required: ['x', 'y'],
+      properties: {
+        x: NUMBER,
+        y: NUMBER,
+        endpointNodeId: STRING,
+        magnet: { enum: ['TOP', 'LEFT', 'BOTTOM', 'RIGHT', 'CENTER'] },
+        strokeCap: STRING
+      }
+    },
+    fidelityIssue: {
+      type: 'object',
+      required: ['nodeId', 'severity', 'code', 'message'],
+      properties: {
+        nodeId: STRING,
+        nodeName: STRING,
+        severity: { enum: ['error', 'warning', 'info'] },
+        code: STRING,
+        message: STRING,
+        source: { enum: ['extraction', 'conversion'] }
+      }
+    },
+    tableCell: {
+      type: 'object',
+      required: ['text'],
+      properties: {
+        text: STRING,
+        textParagraphs: PARAGRAPHS,
+        fills: PAINTS,
+        rowSpan: { type: 'number', minimum: 0 },
+        columnSpan: { type: 'number', minimum: 0 }
+      }
+    },
+    node: {
+      oneOf: [
+        nodeSchema(['RECTANGLE', 'ELLIPSE', 'POLYGON'], {
+          fills: PAINTS,
+          strokes: PAINTS,
+          strokeWeight: NUMBER,
+          ...STROKE_STYLE_PROPERTIES,
+          cornerRadius: OPTIONAL_NUMBER,
+          shapeType: STRING
+        }),
+        nodeSchema(['SHAPE_WITH_TEXT'], {
+          shapeType: STRING,
+          fills: PAINTS,
+          strokes: PAINTS,
+          strokeWeight: NUMBER,
+          ...STROKE_STYLE_PROPERTIES,
+          cornerRadius: OPTIONAL_NUMBER,
+          text: STRING,
+          textParagraphs: PARAGRAPHS
+        }, ['shapeType']),
+        nodeSchema(['STICKY'], {
+          fills: PAINTS,
+          text: STRING,
+          textParagraphs: PARAGRAPHS,
+          isWideWidth: BOOLEAN,
+          authorName: OPTIONAL_STRING,
+          authorVisible: BOOLEAN
+        }),
+        nodeSchema(['TEXT'], {
+          fills: PAINTS,
+          text: STRING,
+          textParagraphs: PARAGRAPHS,
+          textAlignHorizontal: { enum: ['LEFT', 'CENTER', 'RIGHT', 'JUSTIFIED'] },
+          textAlignVertical: { enum: ['TOP', 'CENTER', 'BOTTOM'] },
+          fontName: {
+            type: 'object',
+            required: ['family', 'style'],
+            properties: { family: STRING, style: STRING }
+          },
+          fontSize: NUMBER,
+          textAutoResize: { enum: ['NONE', 'WIDTH_AND_HEIGHT', 'HEIGHT', 'TRUNCATE'] }
+        }, ['text']),
+        nodeSchema(['CONNECTOR'], {
+          strokes: PAINTS,
+          strokeWeight: NUMBER,
+          ...STROKE_STYLE_PROPERTIES,
+          text: STRING,
+          textParagraphs: PARAGRAPHS,
+          connectorLineType: { enum: ['ELBOWED', 'STRAIGHT', 'CURVED'] },
+          connectorStart: { $ref: '#/$defs/connectorEndpoint' },
+          connectorEnd: { $ref: '#/$defs/connectorEndpoint' }
+        }, ['connectorStart', 'connectorEnd']),
+        nodeSchema(['GROUP', 'FRAME', 'SECTION'], {
+          fills: PAINTS,
+          strokes: PAINTS,
+          strokeWeight: NUMBER,
+          ...STROKE_STYLE_PROPERTIES,
+          children: { type: 'array', items: { $ref: '#/$defs/node' } }
+        }, ['children']),
+        nodeSchema(['PAGE'], {
+          children: { type: 'array', items: { $ref: '#/$defs/node' } }
+        }, ['children']),
+        nodeSchema(['LINE'], {
+          strokes: PAINTS,
+          strokeWeight: NUMBER,
+          ...STROKE_STYLE_PROPERTIES
+        }),
+        nodeSchema(['VECTOR', 'HIGHLIGHT'], {
+          fills: PAINTS,
+          strokes: PAINTS,
+          strokeWeight: NUMBER,
+          ...STROKE_STYLE_PROPERTIES,
+          vectorPaths: {
+            type: 'array',
+            items: {
+              type: 'object',
+              required: ['data'],
+              properties: { windingRule: { enum: ['NONZERO', 'EVENODD', 'NONE'] }, data: STRING }
+            }
+          }
+        }, ['vectorPaths']),
+        nodeSchema(['STAR'], {
+          fills: PAINTS,
+          strokes: PAINTS,
+          strokeWeight: NUMBER,
+          ...STROKE_STYLE_PROPERTIES,
+          pointCount: { type: 'number', minimum: 3 },
+          innerRadius: { type: 'number', minimum: 0, maximum: 1 }
+        }, ['pointCount']),
+        nodeSchema(['TABLE'], {
+          fills: PAINTS,
+          columnWidths: { type: 'array', items: NUMBER },
+          rowHeights: { type: 'array', items: NUMBER },
+          cells: {
+            type: 'array',
+            items: { type: 'array', items: { $ref: '#/$defs/tableCell' } }
+          }
+        }, ['columnWidths', 'rowHeights', 'cells']),
+        nodeSchema(['CODE_BLOCK'], {
+          code: STRING,
+          codeLanguage: STRING
+        }, ['code']),
+        nodeSchema(['WIDGET', 'EMBED', 'LINK_UNFURL', 'MEDIA'], {
+          title: STRING,
+          url: STRING,
+          description: STRING,
+          provider: STRING
+        }),
+        nodeSchema([
+          'BOOLEAN_OPERATION', 'WASHI_TAPE', 'STAMP', 'INSTANCE', 'COMPONENT', 'COMPONENT_SET',
+          'SLICE', 'TEXT_PATH', 'TRANSFORM_GROUP'
+        ], {})
+      ]
+    }
+  }
+};
+
+/**
+ * Alternation of the minor versions from 0 up to that of the given version
+ */
+function minorVersionsUpTo(version: string): string {
+  const minor = Number(version.split('.')[1]);
+  return Array.from({ length: minor + 1 }, (_, index) => index).join('|');
+}
+
+/**
+ * Validate an export document against EXPORT_SCHEMA
+ */
+export function validateExport(document: unknown): ValidationError[] {
+  return validate(document, EXPORT_SCHEMA, '');
+}
+
+/**
+ * Validate a list of nodes, e.g. the raw {nodes, pageInfo} payload of the plugin
+ */
+export function validateNodes(nodes: unknown): ValidationError[] {
+  return validate(nodes, EXPORT_SCHEMA.properties.nodes, '/nodes');
+}
+
+/**
+ * Throw if the given errors are not empty, listing the first few of them
+ */
+export function assertValid(errors: ValidationError[], what: string) {
+  if (errors.length > 0) {
+    const details = errors.slice(0, 5).map(error => `${error.path || '/'}: ${error.message}`).join('; ');
+    throw new Error(`Invalid ${what} (schema ${SCHEMA_VERSION}): ${details}`);
+  }
+}
+
+/**
+ * Whether a value is a JSON object, as opposed to an array, null or a primitive
+ */
+export function isRecord(value: unknown): value is { [key: string]: unknown } {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function validate(value: any, schema: Schema, path: string): ValidationError[] {
+  if (schema.$ref) {
+    return validate(value, resolveRef(schema.$ref), path);
+  }
+
+  if (schema.oneOf) {
+    return validateOneOf(value, schema.oneOf, path);
+  }
+
+  if ('const' in schema && value !== schema.const) {
+    return [{ path, message: `must be ${JSON.stringify(schema.const)}` }];
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    return [{ path, message: `must be one of ${schema.enum.join(', ')}` }];
+  }
+
+  if (schema.type) {
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some(type => hasType(value, type))) {
+      return [{ path, message: `must be ${types.join(' or ')}` }];
+    }
+  }
+
+  const errors: ValidationError[] = [];
+
+  if (typeof value === 'string' && schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+    errors.push({ path, message: `must match ${schema.pattern}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be at least ${schema.minimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be at most ${schema.maximum}` });
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      errors.push({ path, message: `must have at least ${schema.minItems} items` });
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      errors.push({ path, message: `must have at most ${schema.maxItems} items` });
+    }
+    if (schema.items) {
+      value.forEach((item, index) => errors.push(...validate(item, schema.items, `${path}/${index}`)));
+    }
+  } else if (hasType(value, 'object')) {
+    for (const key of schema.required || []) {
+      if (value[key] === undefined) {
+        errors.push({ path: `${path}/${key}`, message: 'is required' });
+      }
+    }
+    for (const key of Object.keys(schema.properties || {})) {
+      if (value[key] !== undefined) {
+        errors.push(...validate(value[key], schema.properties[key], `${path}/${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Every oneOf in the schema is discriminated by a "type" property; report the
+ * errors of the branch matching the value's type rather than of every branch
+ */
+function validateOneOf(value: any, branches: Schema[], path: string): ValidationError[] {
+  const type = value && typeof value === 'object' ? value.type : undefined;
+  const branch = branches.find(candidate => {
+    const typeSchema = candidate.properties && candidate.properties.type;
+    return typeSchema && (typeSchema.const === type || (typeSchema.enum && typeSchema.enum.includes(type)));
+  });
+
+  if (!branch) {
+    return [{ path: `${path}/type`, message: `unknown type ${JSON.stringify(type)}` }];
+  }
+  return validate(value, branch, path);
+}
+
+function resolveRef(ref: string): Schema {
+  const name = ref.replace('#/$defs/', '');
+  return EXPORT_SCHEMA.$defs[name];
+}
+
+function hasType(value: any, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return isRecord(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'null':
+      return value === null;
+    case 'number':
+      return typeof value === 'number' && isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
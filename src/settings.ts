@@ -0,0 +1,214 @@
+// Export Settings
+// The options of an export, as saved per user, per board and in named presets,
+// and the presets file format shared by the plugin and the CLI
+
+/// <reference path="./model.d.ts" />
+
+import { DiagramFormat } from './diagram.js';
+import { DEFAULT_FONT_SUBSTITUTIONS, FontSubstitutions, normalizeFontSubstitutions } from './fonts.js';
+import { HiddenLayersMode } from './layers.js';
+import { ConversionOptions, DEFAULT_DPI, ScalingMode } from './pptx-converter.js';
+import { SlideOrder, SlideSize } from './slide-builder.js';
+import { isRecord } from './schema.js';
+import { PlaceholderMode } from './slide-layout.js';
+import { StickyNotesMode } from './stickies.js';
+import { DEFAULT_THEME_COLORS, normalizeThemeColors, ThemeColorTable } from './theme.js';
+
+// 'zip' bundles the .pptx, the JSON export, the diagrams and the fidelity report
+export type OutputFormat = 'pptx' | 'json' | 'xml' | 'zip' | DiagramFormat;
+
+// File extension of each format
+export const FORMAT_EXTENSIONS: { [format in OutputFormat]: string } = {
+  pptx: 'pptx',
+  json: 'json',
+  xml: 'xml',
+  zip: 'zip',
+  mermaid: 'mmd',
+  dot: 'dot',
+  drawio: 'drawio'
+};
+
+// Formats written as text, which can also be copied to the clipboard
+export const TEXT_FORMATS: OutputFormat[] = ['json', 'xml', 'mermaid', 'dot', 'drawio'];
+
+// Write colors as theme colors where they match the theme color table, or always as RGB
+export type ColorMode = 'theme' | 'rgb';
+
+export interface ExportSettings {
+  format: OutputFormat;
+  scope: ExportScope;
+  framePattern: string;
+  slideOrder: SlideOrder;
+  slideSize: SlideSize;
+  // Slide size in inches when slideSize is 'custom'
+  customSlideSize: { width: number; height: number };
+  scaling: ScalingMode;
+  dpi: number;
+  stickyNotes: StickyNotesMode;
+  placeholders: PlaceholderMode;
+  hiddenLayers: HiddenLayersMode;
+  colorMode: ColorMode;
+  themeColors: ThemeColorTable;
+  // Write text in the fonts of a loaded template
+  templateFonts: boolean;
+  fontSubstitutions: FontSubstitutions;
+}
+
+export interface ExportPreset {
+  name: string;
+  settings: ExportSettings;
+}
+
+export const DEFAULT_SETTINGS: ExportSettings = {
+  format: 'pptx',
+  scope: 'selection',
+  framePattern: '',
+  slideOrder: 'reading',
+  slideSize: '16:9',
+  customSlideSize: { width: 13.333, height: 7.5 },
+  scaling: 'fit',
+  dpi: DEFAULT_DPI,
+  stickyNotes: 'slide',
+  placeholders: 'title',
+  hiddenLayers: 'skip',
+  colorMode: 'theme',
+  themeColors: DEFAULT_THEME_COLORS,
+  templateFonts: true,
+  fontSubstitutions: DEFAULT_FONT_SUBSTITUTIONS
+};
+
+// Offered until the user saves presets of their own
+export const DEFAULT_PRESETS: ExportPreset[] = [
+  {
+    name: 'Exec deck 16:9',
+    settings: { ...DEFAULT_SETTINGS, scope: 'page', stickyNotes: 'notes' }
+  },
+  {
+    name: 'A4 handout',
+    settings: { ...DEFAULT_SETTINGS, scope: 'page', slideSize: 'A4', scaling: 'actual' }
+  }
+];
+
+const PRESETS_FILE_FORMAT = 'figjam2pptx-presets';
+
+// Settings chosen from a list of values
+type ChoiceKey = 'format' | 'scope' | 'slideOrder' | 'slideSize' | 'scaling' | 'stickyNotes' | 'placeholders' |
+  'hiddenLayers' | 'colorMode';
+
+const CHOICES: { [key in ChoiceKey]: ExportSettings[key][] } = {
+  format: ['pptx', 'json', 'xml', 'zip', 'mermaid', 'dot', 'drawio'],
+  scope: ['selection', 'page', 'all-pages', 'frames'],
+  slideOrder: ['reading', 'layer', 'name'],
+  slideSize: ['16:9', '4:3', 'A4', 'content', 'custom'],
+  scaling: ['fit', 'actual'],
+  stickyNotes: ['slide', 'notes', 'both'],
+  placeholders: ['none', 'title', 'structured'],
+  hiddenLayers: ['skip', 'hidden'],
+  colorMode: ['theme', 'rgb']
+};
+
+/**
+ * Complete saved or imported settings with the defaults, ignoring unknown
+ * keys and invalid values so settings saved by older versions still load
+ */
+export function normalizeSettings(value: unknown): ExportSettings {
+  const settings: ExportSettings = {
+    ...DEFAULT_SETTINGS,
+    customSlideSize: { ...DEFAULT_SETTINGS.customSlideSize },
+    themeColors: { ...DEFAULT_SETTINGS.themeColors },
+    fontSubstitutions: { ...DEFAULT_SETTINGS.fontSubstitutions }
+  };
+  if (!isRecord(value)) {
+    return settings;
+  }
+
+  (Object.keys(CHOICES) as ChoiceKey[]).forEach(key => setChoice(settings, key, value[key]));
+  if (typeof value.framePattern === 'string') {
+    settings.framePattern = value.framePattern;
+  }
+  if (typeof value.templateFonts === 'boolean') {
+    settings.templateFonts = value.templateFonts;
+  }
+  if (value.themeColors !== undefined) {
+    settings.themeColors = normalizeThemeColors(value.themeColors);
+  }
+  if (value.fontSubstitutions !== undefined) {
+    settings.fontSubstitutions = normalizeFontSubstitutions(value.fontSubstitutions);
+  }
+  if (isPositive(value.dpi)) {
+    settings.dpi = value.dpi;
+  }
+  const size = value.customSlideSize;
+  if (isRecord(size) && isPositive(size.width) && isPositive(size.height)) {
+    settings.customSlideSize = { width: size.width, height: size.height };
+  }
+
+  return settings;
+}
+
+/**
+ * Normalize a saved list of presets, dropping entries without a name
+ */
+export function normalizePresets(value: unknown): ExportPreset[] {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+  return value.filter(isRecord).flatMap(preset => {
+    const name = typeof preset.name === 'string' ? preset.name.trim() : '';
+    return name ? [{ name, settings: normalizeSettings(preset.settings) }] : [];
+  });
+}
+
+export function serializePresets(presets: ExportPreset[]): string {
+  return JSON.stringify({ format: PRESETS_FILE_FORMAT, version: 1, presets }, null, 2);
+}
+
+/**
+ * Read a presets file written by serializePresets
+ */
+export function parsePresets(json: string): ExportPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid presets file: ${(error as Error).message}`);
+  }
+
+  if (!isRecord(data) || data.format !== PRESETS_FILE_FORMAT || !Array.isArray(data.presets)) {
+    throw new Error(`Not a presets file: expected "format": "${PRESETS_FILE_FORMAT}" and a "presets" list`);
+  }
+  return normalizePresets(data.presets);
+}
+
+export function toConversionOptions(settings: ExportSettings): ConversionOptions {
+  return {
+    slideOrder: settings.slideOrder,
+    slideSize: settings.slideSize,
+    customSlideSize: settings.customSlideSize,
+    stickyNotes: settings.stickyNotes,
+    placeholders: settings.placeholders,
+    hiddenLayers: settings.hiddenLayers,
+    scaling: settings.scaling,
+    dpi: settings.dpi,
+    themeColors: settings.colorMode === 'theme' ? settings.themeColors : undefined,
+    fontSubstitutions: settings.fontSubstitutions
+  };
+}
+
+/**
+ * Set a choice setting when the value is one of its choices
+ */
+function setChoice<K extends ChoiceKey>(settings: ExportSettings, key: K, value: unknown) {
+  if (isChoice(key, value)) {
+    settings[key] = value;
+  }
+}
+
+function isChoice<K extends ChoiceKey>(key: K, value: unknown): value is ExportSettings[K] {
+  const choices: unknown[] = CHOICES[key];
+  return choices.includes(value);
+}
+
+function isPositive(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
@@ -0,0 +1,144 @@
+// Slide Builder
+// Splits extracted FigJam nodes into slides: every top-level FRAME or SECTION
+// becomes its own slide, remaining loose nodes are collected onto one slide.
+// Exported pages are split separately, each into its own section of slides.
+
+/// <reference path="./model.d.ts" />
+
+import { getBounds, getPlacement } from './geometry.js';
+
+export type SlideOrder = 'reading' | 'layer' | 'name';
+
+export type SlideSize = 'content' | '16:9' | '4:3' | 'A4' | 'custom';
+
+// Standard PowerPoint slide sizes in EMU
+export const SLIDE_SIZES: { [size: string]: { width: number; height: number } } = {
+  '16:9': { width: 12192000, height: 6858000 },
+  '4:3': { width: 9144000, height: 6858000 },
+  'A4': { width: 9906000, height: 6858000 }
+};
+
+export interface SlideData {
+  id: string;
+  name: string;
+  // Position of the source frame on the page, used for reading order
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Origin of the nodes' coordinate space, subtracted when placing shapes
+  originX: number;
+  originY: number;
+  nodes: ExtractedNodeData[];
+  background?: PaintData[];
+  // Label drawn in the top-left corner, for slides made from sections
+  title?: string;
+  // Name of the page the slide belongs to when several pages are exported
+  section?: string;
+  // Made from a hidden frame or section, exported as a hidden slide
+  hidden?: boolean;
+}
+
+export class SlideBuilder {
+  /**
+   * Build the ordered list of slides for the given nodes
+   */
+  static build(nodes: ExtractedNodeData[], pageInfo: PageInfoData, order: SlideOrder = 'reading'): SlideData[] {
+    const pages = nodes.filter((node): node is PageNodeData => node.type === 'PAGE');
+    if (pages.length > 0) {
+      // Slides are ordered within each page; pages keep their order in the file
+      return pages.flatMap(page =>
+        this.build(page.children, page, order).map(slide => ({ ...slide, section: page.name })));
+    }
+
+    const slides: SlideData[] = [];
+    const looseNodes: ExtractedNodeData[] = [];
+
+    for (const node of nodes) {
+      if (node.type === 'FRAME' || node.type === 'SECTION') {
+        slides.push(this.containerToSlide(node));
+      } else {
+        looseNodes.push(node);
+      }
+    }
+
+    const ordered = this.sortSlides(slides, order);
+
+    if (looseNodes.length > 0 || ordered.length === 0) {
+      ordered.push(this.looseNodesToSlide(looseNodes, pageInfo));
+    }
+
+    return ordered;
+  }
+
+  private static containerToSlide(container: ContainerNodeData): SlideData {
+    const placement = getPlacement(container);
+
+    // Frame and section children are positioned relative to their container
+    return {
+      id: container.id,
+      name: container.name,
+      x: placement.x,
+      y: placement.y,
+      width: container.width,
+      height: container.height,
+      originX: 0,
+      originY: 0,
+      nodes: container.children || [],
+      background: container.fills,
+      title: container.type === 'SECTION' ? container.name : undefined,
+      hidden: container.visible === false
+    };
+  }
+
+  private static looseNodesToSlide(nodes: ExtractedNodeData[], pageInfo: PageInfoData): SlideData {
+    const bounds = getBounds(nodes);
+    return {
+      id: pageInfo.id || 'page',
+      name: pageInfo.name,
+      x: bounds.x,
+      y: bounds.y,
+      width: bounds.width,
+      height: bounds.height,
+      originX: bounds.x,
+      originY: bounds.y,
+      nodes
+    };
+  }
+
+  private static sortSlides(slides: SlideData[], order: SlideOrder): SlideData[] {
+    switch (order) {
+      case 'layer':
+        // Nodes arrive from the sandbox already in layer order
+        return [...slides];
+
+      case 'name':
+        return [...slides].sort((a, b) =>
+          a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+
+      case 'reading':
+      default:
+        return this.sortByReadingOrder(slides);
+    }
+  }
+
+  /**
+   * Sort slides left-to-right, then top-to-bottom. Frames whose top edge lies
+   * within the upper half of the current row are treated as part of that row.
+   */
+  private static sortByReadingOrder(slides: SlideData[]): SlideData[] {
+    const byTop = [...slides].sort((a, b) => a.y - b.y);
+    const rows: SlideData[][] = [];
+
+    for (const slide of byTop) {
+      const row = rows[rows.length - 1];
+      if (row && slide.y < row[0].y + row[0].height / 2) {
+        row.push(slide);
+      } else {
+        rows.push([slide]);
+      }
+    }
+
+    return rows.flatMap(row => row.sort((a, b) => a.x - b.x));
+  }
+}
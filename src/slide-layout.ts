@@ -0,0 +1,195 @@
+// Slide Layout
+// Finds the title and body text of a slide, which are written into the
+// layout's placeholders so outlines, slide lists and screen readers see them
+
+/// <reference path="./model.d.ts" />
+
+import { getBounds, getNodeBounds, Rect } from './geometry.js';
+import { SlideData } from './slide-builder.js';
+
+// Free text boxes only, a title placeholder per slide, or titles and bullet placeholders
+export type PlaceholderMode = 'none' | 'title' | 'structured';
+
+export type PlaceholderType = 'title' | 'body';
+
+export interface SlidePlaceholders {
+  // Top-level text node used as the title, when the slide has a heading
+  titleNodeId?: string;
+  // Stacked text or sticky columns, each written as one body placeholder
+  bodies: PlaceholderBody[];
+}
+
+export interface PlaceholderBody {
+  // Nodes the placeholder replaces, top to bottom
+  nodeIds: string[];
+  bounds: Rect;
+  paragraphs: TextParagraphData[];
+}
+
+// Headings lie within the top part of the slide
+const HEADING_AREA = 1 / 3;
+
+// Largest gap between stacked items of a column, at least, and relative to the item above
+const COLUMN_GAP = 48;
+const COLUMN_GAP_RATIO = 0.5;
+
+// Share of the narrower item two stacked items must overlap horizontally
+const COLUMN_OVERLAP = 0.5;
+
+// Rotations below this many degrees count as unrotated
+const ROTATION_TOLERANCE = 0.5;
+
+// Nodes whose text can become bullets of a body placeholder
+type BodyNode = TextNodeData | StickyNodeData;
+
+/**
+ * Find the placeholders of a slide. Section slides are titled by their
+ * section label, other slides by their largest heading; the body is only
+ * looked for in structured mode.
+ */
+export function findPlaceholders(slide: SlideData, nodes: ExtractedNodeData[], mode: PlaceholderMode): SlidePlaceholders {
+  const heading = slide.title === undefined ? findHeading(slide, nodes) : undefined;
+  const titleNodeId = heading ? heading.id : undefined;
+
+  if (mode !== 'structured') {
+    return { titleNodeId, bodies: [] };
+  }
+
+  const connected = connectedNodeIds(nodes);
+  const items = nodes.filter((node): node is BodyNode =>
+    (node.type === 'TEXT' || node.type === 'STICKY') &&
+    node.id !== titleNodeId &&
+    node.visible !== false &&
+    !connected.has(node.id) &&
+    isUnrotated(node) &&
+    String(node.text || '').trim().length > 0);
+
+  return { titleNodeId, bodies: findColumns(items).map(toBody) };
+}
+
+/**
+ * The shown single-paragraph text node with the largest font in the top part
+ * of the slide, the top-most of equally large ones
+ */
+function findHeading(slide: SlideData, nodes: ExtractedNodeData[]): TextNodeData | undefined {
+  let heading: TextNodeData | undefined;
+  let headingSize = 0;
+  let headingTop = 0;
+
+  nodes.forEach(node => {
+    if (node.type !== 'TEXT') {
+      return;
+    }
+    const text = String(node.text || '').trim();
+    if (!text || text.includes('\n') || node.visible === false || !isUnrotated(node)) {
+      return;
+    }
+    const top = getNodeBounds(node).y - slide.originY;
+    if (top > slide.height * HEADING_AREA) {
+      return;
+    }
+    const size = largestFontSize(node);
+    if (!heading || size > headingSize || (size === headingSize && top < headingTop)) {
+      heading = node;
+      headingSize = size;
+      headingTop = top;
+    }
+  });
+
+  return heading;
+}
+
+function largestFontSize(node: TextNodeData): number {
+  const sizes = (node.textParagraphs || []).flatMap(paragraph => paragraph.runs.map(run => run.fontSize || 0));
+  return Math.max(node.fontSize || 0, ...sizes);
+}
+
+/**
+ * Group items into columns: items of the same type stacked top to bottom,
+ * each overlapping the one above horizontally with a small gap between.
+ * Only columns of two or more items are kept.
+ */
+function findColumns(items: BodyNode[]): BodyNode[][] {
+  const columns: BodyNode[][] = [];
+  const byTop = items
+    .map(node => ({ node, bounds: getNodeBounds(node) }))
+    .sort((a, b) => a.bounds.y - b.bounds.y || a.bounds.x - b.bounds.x);
+  const lastBounds = new Map<BodyNode[], Rect>();
+
+  byTop.forEach(({ node, bounds }) => {
+    const column = columns.find(candidate => {
+      const above = lastBounds.get(candidate) as Rect;
+      const gap = bounds.y - (above.y + above.height);
+      const overlap = Math.min(above.x + above.width, bounds.x + bounds.width) - Math.max(above.x, bounds.x);
+      return candidate[0].type === node.type &&
+        gap >= 0 &&
+        gap <= Math.max(COLUMN_GAP, above.height * COLUMN_GAP_RATIO) &&
+        overlap >= Math.min(above.width, bounds.width) * COLUMN_OVERLAP;
+    });
+
+    if (column) {
+      column.push(node);
+      lastBounds.set(column, bounds);
+    } else {
+      const created = [node];
+      columns.push(created);
+      lastBounds.set(created, bounds);
+    }
+  });
+
+  return columns.filter(column => column.length > 1);
+}
+
+/**
+ * One bullet per sticky, and per paragraph of a text node, keeping the
+ * nesting of text that already is a list
+ */
+function toBody(column: BodyNode[]): PlaceholderBody {
+  const paragraphs = column.flatMap((node): TextParagraphData[] => {
+    const source: TextParagraphData[] = node.textParagraphs && node.textParagraphs.length > 0
+      ? node.textParagraphs
+      : String(node.text).split('\n').map(line => ({ runs: [{ text: line }], indentation: 0 }));
+    const nonEmpty = source.filter(paragraph => paragraph.runs.some(run => run.text.trim().length > 0));
+
+    if (node.type === 'STICKY') {
+      const runs = nonEmpty.flatMap((paragraph, i) => i === 0
+        ? paragraph.runs
+        : [{ ...paragraph.runs[0], text: ' ' }, ...paragraph.runs]);
+      return [{ runs, listType: 'UNORDERED', indentation: 1 }];
+    }
+
+    return nonEmpty.map(paragraph => ({
+      runs: paragraph.runs,
+      listType: paragraph.listType || 'UNORDERED',
+      indentation: Math.max(1, paragraph.indentation)
+    }));
+  });
+
+  return { nodeIds: column.map(node => node.id), bounds: getBounds(column), paragraphs };
+}
+
+/**
+ * Ids of the nodes connectors are attached to, which stay free shapes so
+ * the connectors keep their ends
+ */
+function connectedNodeIds(nodes: ExtractedNodeData[]): Set<string> {
+  const ids = new Set<string>();
+  const visit = (node: ExtractedNodeData) => {
+    if (node.type === 'CONNECTOR') {
+      [node.connectorStart, node.connectorEnd].forEach(endpoint => {
+        if (endpoint && endpoint.endpointNodeId) {
+          ids.add(endpoint.endpointNodeId);
+        }
+      });
+    }
+    if ('children' in node) {
+      node.children.forEach(visit);
+    }
+  };
+  nodes.forEach(visit);
+  return ids;
+}
+
+function isUnrotated(node: ExtractedNodeData): boolean {
+  return Math.abs(node.rotation || 0) < ROTATION_TOLERANCE;
+}
@@ -0,0 +1,84 @@
+// Sticky Notes
+// FigJam sticky palette and collection of sticky text for speaker notes
+
+/// <reference path="./model.d.ts" />
+
+export type StickyNotesMode = 'slide' | 'notes' | 'both';
+
+// FigJam sticky colors (RGB 0-255), used to name sticky colors and as the default fill
+export const STICKY_COLORS: { [name: string]: { r: number; g: number; b: number } } = {
+  white: { r: 255, g: 255, b: 255 },
+  gray: { r: 230, g: 230, b: 230 },
+  red: { r: 255, g: 175, b: 163 },
+  orange: { r: 255, g: 196, b: 112 },
+  yellow: { r: 255, g: 217, b: 102 },
+  green: { r: 133, g: 224, b: 163 },
+  teal: { r: 117, g: 215, b: 240 },
+  blue: { r: 128, g: 202, b: 255 },
+  violet: { r: 217, g: 184, b: 255 },
+  pink: { r: 255, g: 189, b: 242 }
+};
+
+export const DEFAULT_STICKY_COLOR = 'yellow';
+
+// FigJam's square sticky is 240 x 240; wide stickies are twice as wide
+export const STICKY_SIZE = 240;
+
+/**
+ * Name the palette color of a sticky fill, if it is one of FigJam's colors
+ */
+export function getStickyColorName(color: { r: number; g: number; b: number } | undefined): string | undefined {
+  if (!color) {
+    return undefined;
+  }
+
+  return Object.keys(STICKY_COLORS).find(name => {
+    const swatch = STICKY_COLORS[name];
+    return Math.abs(swatch.r - color.r) <= 2 && Math.abs(swatch.g - color.g) <= 2 && Math.abs(swatch.b - color.b) <= 2;
+  });
+}
+
+/**
+ * Collect the text of every sticky in the given nodes, in reading order,
+ * one speaker-notes paragraph per sticky. Hidden stickies and the content of
+ * hidden layers are left out, as notes cannot be hidden.
+ */
+export function collectStickyNotes(nodes: ExtractedNodeData[]): string[] {
+  const stickies: { x: number; y: number; note: string }[] = [];
+
+  const visit = (node: ExtractedNodeData, offsetX: number, offsetY: number) => {
+    if (node.visible === false) {
+      return;
+    }
+    if (node.type === 'STICKY') {
+      const text = String(node.text || '').trim().replace(/\s*\n\s*/g, ' ');
+      if (text) {
+        const author = node.authorVisible && node.authorName ? ` — ${node.authorName}` : '';
+        stickies.push({ x: offsetX + node.x, y: offsetY + node.y, note: `• ${text}${author}` });
+      }
+      return;
+    }
+
+    if ('children' in node) {
+      // Frames and sections position their children locally, groups do not
+      const local = node.type === 'FRAME' || node.type === 'SECTION';
+      node.children.forEach(child =>
+        visit(child, local ? offsetX + node.x : offsetX, local ? offsetY + node.y : offsetY));
+    }
+  };
+  nodes.forEach(node => visit(node, 0, 0));
+
+  return stickies
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .map(sticky => sticky.note);
+}
+
+/**
+ * Remove stickies from the node tree, dropping groups left empty
+ */
+export function removeStickies(nodes: ExtractedNodeData[]): ExtractedNodeData[] {
+  return nodes
+    .filter(node => node.type !== 'STICKY')
+    .map(node => 'children' in node ? { ...node, children: removeStickies(node.children) } : node)
+    .filter(node => !(node.type === 'GROUP' && node.children.length === 0));
+}
@@ -0,0 +1,104 @@
+// Theme Colors
+// Maps board colors to the color slots of the presentation theme, so decks
+// restyle with the theme or template they are opened with
+
+import { isRecord } from './schema.js';
+
+export type ThemeColorSlot =
+  | 'dk1'
+  | 'lt1'
+  | 'dk2'
+  | 'lt2'
+  | 'accent1'
+  | 'accent2'
+  | 'accent3'
+  | 'accent4'
+  | 'accent5'
+  | 'accent6';
+
+// Board color standing for each slot, as RRGGBB hex
+export type ThemeColorTable = { [slot in ThemeColorSlot]?: string };
+
+export const THEME_COLOR_SLOTS: ThemeColorSlot[] = [
+  'dk1', 'lt1', 'dk2', 'lt2', 'accent1', 'accent2', 'accent3', 'accent4', 'accent5', 'accent6'
+];
+
+// The colors of the built-in FigJam theme, which are FigJam's own
+export const DEFAULT_THEME_COLORS: ThemeColorTable = {
+  dk1: '000000',
+  lt1: 'FFFFFF',
+  dk2: '1E1E1E',
+  lt2: 'F5F5F5',
+  accent1: '0D99FF',
+  accent2: '14AE5C',
+  accent3: 'FFCD29',
+  accent4: 'F24822',
+  accent5: '9747FF',
+  accent6: 'FFA629'
+};
+
+// Slides refer to the dark and light slots through the master's color map
+const SCHEME_COLOR_NAMES: { [slot in ThemeColorSlot]: string } = {
+  dk1: 'tx1',
+  lt1: 'bg1',
+  dk2: 'tx2',
+  lt2: 'bg2',
+  accent1: 'accent1',
+  accent2: 'accent2',
+  accent3: 'accent3',
+  accent4: 'accent4',
+  accent5: 'accent5',
+  accent6: 'accent6'
+};
+
+// Largest distance, in RGB units, at which a color still counts as its slot's color
+const MAX_COLOR_DISTANCE = 12;
+
+/**
+ * Scheme color name of the slot whose board color is nearest to the color,
+ * or undefined when no slot's color is close enough
+ */
+export function findSchemeColor(color: { r: number; g: number; b: number }, table: ThemeColorTable): string | undefined {
+  let nearest: ThemeColorSlot | undefined;
+  let nearestDistance = MAX_COLOR_DISTANCE;
+
+  THEME_COLOR_SLOTS.forEach(slot => {
+    const swatch = parseHexColor(table[slot]);
+    if (!swatch) {
+      return;
+    }
+    const distance = Math.hypot(swatch.r - color.r, swatch.g - color.g, swatch.b - color.b);
+    if (distance <= nearestDistance) {
+      nearest = slot;
+      nearestDistance = distance;
+    }
+  });
+
+  return nearest && SCHEME_COLOR_NAMES[nearest];
+}
+
+/**
+ * Keep the valid entries of a saved table, upper-cased without "#"
+ */
+export function normalizeThemeColors(value: unknown): ThemeColorTable {
+  const table: ThemeColorTable = {};
+  if (!isRecord(value)) {
+    return { ...DEFAULT_THEME_COLORS };
+  }
+  THEME_COLOR_SLOTS.forEach(slot => {
+    const hex = value[slot];
+    if (typeof hex === 'string' && parseHexColor(hex)) {
+      table[slot] = hex.replace(/^#/, '').toUpperCase();
+    }
+  });
+  return table;
+}
+
+function parseHexColor(hex: string | undefined): { r: number; g: number; b: number } | undefined {
+  const match = typeof hex === 'string' ? /^#?([0-9a-f]{6})$/i.exec(hex) : null;
+  if (!match) {
+    return undefined;
+  }
+  const value = parseInt(match[1], 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+}
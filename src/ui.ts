@@ -1,21 +1,146 @@
 // FigJam to PowerPoint Plugin - UI Code
 // This runs in the browser iframe with access to browser APIs
 
-interface PluginMessage {
+/// <reference path="./model.d.ts" />
+
+import { ConversionOptions, ImageAsset, ImageAssets, PPTXConverter } from './pptx-converter.js';
+import { DiagramExporter } from './diagram.js';
+import { describeIssues, issuesOfNodes } from './fidelity.js';
+import { formatFontSubstitutions, parseFontSubstitutions } from './fonts.js';
+import { getBounds } from './geometry.js';
+import { arrangeLayers } from './layers.js';
+import { PPTXImporter } from './pptx-import.js';
+import { PackageTemplate } from './pptx-package.js';
+import { countNodeTypes, filterNodes, PreviewImages, renderIssueList, renderLayerTree, renderSlidePreview } from './preview.js';
+import {
+  DEFAULT_PRESETS,
+  ExportPreset,
+  ExportSettings,
+  FORMAT_EXTENSIONS,
+  normalizePresets,
+  normalizeSettings,
+  parsePresets,
+  serializePresets,
+  TEXT_FORMATS,
+  toConversionOptions
+} from './settings.js';
+import { SCHEMA_VERSION } from './schema.js';
+import { SlideBuilder } from './slide-builder.js';
+import { removeStickies } from './stickies.js';
+import { DEFAULT_THEME_COLORS, THEME_COLOR_SLOTS } from './theme.js';
+import { escapeXML } from './xml.js';
+
+interface PluginMessage extends Partial<ExportPayload> {
   type: string;
-  data?: any;
   message?: string;
-  pageInfo?: any;
+  // Progress of a running export
+  phase?: 'nodes' | 'images';
+  processed?: number;
+  total?: number;
+  frame?: string;
+  // Nodes extracted since the last batch
+  batch?: StreamedNodeData[];
+  // A streamed image asset
+  key?: string;
+  image?: ImageAsset;
+  // Saved settings and presets, as stored
+  user?: unknown;
+  document?: unknown;
+  presets?: unknown;
+  // Result of an import
+  count?: number;
+  skipped?: number;
 }
 
-let lastExtractedData: any = null;
+// Exports are saved as files, or copied as text for JSON and XML
+type Delivery = 'download' | 'clipboard';
+
+let lastExtractedData: ExportPayload | null = null;
+
+// Nodes and images streamed by the plugin code until the export is complete
+let receivedNodes: ExtractedNodeData[] = [];
+let receivedImages: ImageAssets = {};
+// Nodes received ahead of their container or page, by its id
+let pendingChildren = new Map<string, ExtractedNodeData[]>();
+
+// Export shown in the preview until it is confirmed, and what is left out of it
+let pendingExport: { payload: ExportPayload; images: ImageAssets } | null = null;
+let previewImageURLs: PreviewImages = {};
+const excludedIds = new Set<string>();
+const excludedTypes = new Set<string>();
+
+// Template the exported slides are based on, for this session
+let template: PackageTemplate | null = null;
+
+// What the last import read but could not recreate
+let importSkipped: string[] = [];
+
+// Named settings the user can switch between
+let presets: ExportPreset[] = [];
+
+// Plugin window sizes for the options and the preview
+const OPTIONS_SIZE = { width: 400, height: 600 };
+const PREVIEW_SIZE = { width: 760, height: 640 };
+
+const TEXT_MIME_TYPES: { [format: string]: string } = {
+  json: 'application/json',
+  xml: 'application/xml',
+  mermaid: 'text/plain',
+  dot: 'text/vnd.graphviz',
+  drawio: 'application/vnd.jgraph.mxfile'
+};
 
 // DOM Elements
 const exportBtn = document.getElementById('exportBtn') as HTMLButtonElement;
+const cancelBtn = document.getElementById('cancelBtn') as HTMLButtonElement;
 const closeBtn = document.getElementById('closeBtn') as HTMLButtonElement;
 const statusDiv = document.getElementById('status') as HTMLDivElement;
 const infoBox = document.getElementById('infoBox') as HTMLDivElement;
 const infoContent = document.getElementById('infoContent') as HTMLDivElement;
+const slideOrderSelect = document.getElementById('slideOrder') as HTMLSelectElement;
+const slideSizeSelect = document.getElementById('slideSize') as HTMLSelectElement;
+const customSizeRow = document.getElementById('customSizeRow') as HTMLDivElement;
+const slideWidthInput = document.getElementById('slideWidth') as HTMLInputElement;
+const slideHeightInput = document.getElementById('slideHeight') as HTMLInputElement;
+const stickyNotesSelect = document.getElementById('stickyNotes') as HTMLSelectElement;
+const placeholdersSelect = document.getElementById('placeholders') as HTMLSelectElement;
+const hiddenLayersSelect = document.getElementById('hiddenLayers') as HTMLSelectElement;
+const scalingSelect = document.getElementById('scaling') as HTMLSelectElement;
+const dpiInput = document.getElementById('dpi') as HTMLInputElement;
+const presetSelect = document.getElementById('preset') as HTMLSelectElement;
+const presetNameInput = document.getElementById('presetName') as HTMLInputElement;
+const savePresetBtn = document.getElementById('savePresetBtn') as HTMLButtonElement;
+const deletePresetBtn = document.getElementById('deletePresetBtn') as HTMLButtonElement;
+const boardSettingsCheckbox = document.getElementById('boardSettings') as HTMLInputElement;
+const exportPresetsBtn = document.getElementById('exportPresetsBtn') as HTMLButtonElement;
+const importPresetsBtn = document.getElementById('importPresetsBtn') as HTMLButtonElement;
+const presetsFileInput = document.getElementById('presetsFile') as HTMLInputElement;
+const importBtn = document.getElementById('importBtn') as HTMLButtonElement;
+const importFileInput = document.getElementById('importFile') as HTMLInputElement;
+const templateName = document.getElementById('templateName') as HTMLSpanElement;
+const loadTemplateBtn = document.getElementById('loadTemplateBtn') as HTMLButtonElement;
+const removeTemplateBtn = document.getElementById('removeTemplateBtn') as HTMLButtonElement;
+const templateFileInput = document.getElementById('templateFile') as HTMLInputElement;
+const templateFontsRow = document.getElementById('templateFontsRow') as HTMLDivElement;
+const templateFontsCheckbox = document.getElementById('templateFonts') as HTMLInputElement;
+const colorModeSelect = document.getElementById('colorMode') as HTMLSelectElement;
+const themeColorsRow = document.getElementById('themeColorsRow') as HTMLDetailsElement;
+const themeColorsGrid = document.getElementById('themeColors') as HTMLDivElement;
+const fontSubstitutionsInput = document.getElementById('fontSubstitutions') as HTMLTextAreaElement;
+const exportScopeSelect = document.getElementById('exportScope') as HTMLSelectElement;
+const framePatternRow = document.getElementById('framePatternRow') as HTMLDivElement;
+const framePatternInput = document.getElementById('framePattern') as HTMLInputElement;
+const optionsView = document.getElementById('optionsView') as HTMLDivElement;
+const previewView = document.getElementById('previewView') as HTMLDivElement;
+const previewSummary = document.getElementById('previewSummary') as HTMLDivElement;
+const previewSlides = document.getElementById('previewSlides') as HTMLDivElement;
+const typeFilters = document.getElementById('typeFilters') as HTMLDivElement;
+const layerTree = document.getElementById('layerTree') as HTMLDivElement;
+const reportHeading = document.getElementById('reportHeading') as HTMLElement;
+const fidelityReport = document.getElementById('fidelityReport') as HTMLDivElement;
+const backBtn = document.getElementById('backBtn') as HTMLButtonElement;
+const confirmBtn = document.getElementById('confirmBtn') as HTMLButtonElement;
+const copyBtn = document.getElementById('copyBtn') as HTMLButtonElement;
 
 // Format selector
 const formatOptions = document.querySelectorAll('.format-option');
@@ -26,23 +151,238 @@ formatOptions.forEach(option => {
   });
 });
 
+// Custom slide dimensions are only relevant for the custom size
+slideSizeSelect.addEventListener('change', () => {
+  customSizeRow.hidden = slideSizeSelect.value !== 'custom';
+});
+
+// The name pattern only applies when exporting frames by name
+exportScopeSelect.addEventListener('change', () => {
+  framePatternRow.hidden = exportScopeSelect.value !== 'frames';
+});
+
+// The color table only applies to theme colors
+colorModeSelect.addEventListener('change', () => {
+  themeColorsRow.hidden = colorModeSelect.value !== 'theme';
+});
+
+// Every change of an option is remembered; preset controls and file inputs handle their own changes
+optionsView.addEventListener('change', event => {
+  const target = event.target;
+  if (target === presetSelect || target === presetNameInput || target === presetsFileInput ||
+    target === templateFileInput || target === importFileInput) return;
+
+  const preset = presets.find(p => p.name === presetSelect.value);
+  if (preset && !sameSettings(preset.settings, readSettings())) {
+    presetSelect.value = '';
+  }
+  saveSettings();
+});
+
+presetSelect.addEventListener('change', () => {
+  const preset = presets.find(p => p.name === presetSelect.value);
+  if (!preset) return;
+  applySettings(preset.settings);
+  presetNameInput.value = preset.name;
+  saveSettings();
+});
+
+savePresetBtn.addEventListener('click', () => {
+  const name = presetNameInput.value.trim();
+  if (!name) {
+    updateStatus('error', 'Enter a name for the preset');
+    return;
+  }
+  presets = mergePresets(presets, [{ name, settings: readSettings() }]);
+  savePresets();
+  presetSelect.value = name;
+  updateStatus('success', `Saved preset "${name}"`);
+});
+
+deletePresetBtn.addEventListener('click', () => {
+  const name = presetSelect.value;
+  if (!name) return;
+  presets = presets.filter(p => p.name !== name);
+  savePresets();
+  presetNameInput.value = '';
+  updateStatus('default', `Deleted preset "${name}"`);
+});
+
+exportPresetsBtn.addEventListener('click', () => {
+  downloadFile(new TextEncoder().encode(serializePresets(presets)), 'figjam2pptx-presets.json', 'application/json');
+});
+
+importPresetsBtn.addEventListener('click', () => {
+  presetsFileInput.click();
+});
+
+// Imported presets replace presets of the same name
+presetsFileInput.addEventListener('change', async () => {
+  const file = presetsFileInput.files && presetsFileInput.files[0];
+  presetsFileInput.value = '';
+  if (!file) return;
+
+  try {
+    const imported = parsePresets(await file.text());
+    presets = mergePresets(presets, imported);
+    savePresets();
+    updateStatus('success', `Imported ${imported.length} preset(s)`);
+  } catch (error) {
+    updateStatus('error', error instanceof Error ? error.message : String(error));
+  }
+});
+
 // Event Listeners
 exportBtn.addEventListener('click', () => {
-  exportBtn.disabled = true;
-  updateStatus('processing', 'Processing selection...');
+  const { scope, framePattern } = readSettings();
+  receivedNodes = [];
+  receivedImages = {};
+  pendingChildren = new Map();
+  setExporting(true);
+  updateStatus('processing', scope === 'all-pages' ? 'Loading pages...' : 'Processing...');
 
   // Request data from plugin code
   parent.postMessage({
-    pluginMessage: { type: 'process-selection' }
+    pluginMessage: { type: 'export', scope, framePattern }
   }, '*');
 });
 
+loadTemplateBtn.addEventListener('click', () => {
+  templateFileInput.click();
+});
+
+templateFileInput.addEventListener('change', async () => {
+  const file = templateFileInput.files && templateFileInput.files[0];
+  templateFileInput.value = '';
+  if (!file) return;
+
+  try {
+    setTemplate(PPTXImporter.templateFromPPTX(new Uint8Array(await file.arrayBuffer()), file.name.replace(/\.[^.]+$/, '')));
+    updateStatus('success', `Slides will use the template ${file.name}`);
+  } catch (error) {
+    updateStatus('error', `Error reading ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+});
+
+removeTemplateBtn.addEventListener('click', () => {
+  setTemplate(null);
+  updateStatus('default', 'Slides will use the built-in theme');
+});
+
+importBtn.addEventListener('click', () => {
+  importFileInput.click();
+});
+
+// Decks are unzipped and read here; the plugin code recreates their content on the page
+importFileInput.addEventListener('change', async () => {
+  const file = importFileInput.files && importFileInput.files[0];
+  importFileInput.value = '';
+  if (!file) return;
+
+  const name = file.name.replace(/\.[^.]+$/, '');
+  updateStatus('processing', `Reading ${file.name}...`);
+  try {
+    let payload: ExportPayload;
+    let images: { [key: string]: Uint8Array } = {};
+    importSkipped = [];
+    if (/\.json$/i.test(file.name)) {
+      payload = PPTXConverter.fromJSON(await file.text(), name);
+    } else {
+      const result = PPTXImporter.fromPPTX(new Uint8Array(await file.arrayBuffer()), name);
+      payload = result.payload;
+      images = result.images;
+      importSkipped = result.skipped;
+    }
+
+    if (payload.nodes.length === 0) {
+      updateStatus('error', `Nothing to import in ${file.name}`);
+      return;
+    }
+    setImporting(true);
+    updateStatus('processing', 'Creating objects...');
+    parent.postMessage({
+      pluginMessage: { type: 'import', nodes: payload.nodes, images, bounds: getBounds(payload.nodes) }
+    }, '*');
+  } catch (error) {
+    updateStatus('error', `Error reading ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+});
+
+cancelBtn.addEventListener('click', () => {
+  cancelBtn.disabled = true;
+  updateStatus('processing', 'Cancelling...');
+  parent.postMessage({ pluginMessage: { type: 'cancel' } }, '*');
+});
+
+backBtn.addEventListener('click', () => {
+  hidePreview();
+  updateStatus('default', 'Export not started');
+});
+
+confirmBtn.addEventListener('click', () => confirmExport('download'));
+copyBtn.addEventListener('click', () => confirmExport('clipboard'));
+
+async function confirmExport(delivery: Delivery) {
+  if (!pendingExport) return;
+  const { payload, images } = pendingExport;
+  const nodes = filterNodes(payload.nodes, isIncluded);
+  hidePreview();
+  await handleDataReady({ ...payload, nodes, issues: issuesOfNodes(payload.issues || [], nodes) }, images, delivery);
+}
+
+// Unticking a layer or a type leaves it out of the export
+layerTree.addEventListener('change', event => {
+  const checkbox = event.target as HTMLInputElement;
+  const id = checkbox.dataset.nodeId!;
+  if (checkbox.checked) {
+    excludedIds.delete(id);
+  } else {
+    excludedIds.add(id);
+  }
+  renderPreviewSlides();
+});
+
+typeFilters.addEventListener('change', event => {
+  const checkbox = event.target as HTMLInputElement;
+  const type = checkbox.dataset.type!;
+  if (checkbox.checked) {
+    excludedTypes.delete(type);
+  } else {
+    excludedTypes.add(type);
+  }
+  renderPreviewSlides();
+  renderLayers();
+});
+
+// Clicking a shape, or an issue of the report, selects its node on the board
+const selectPreviewNode = (event: Event) => {
+  const element = (event.target as Element).closest('[data-node-id]');
+  const id = element && element.getAttribute('data-node-id');
+  if (!id) return;
+
+  parent.postMessage({ pluginMessage: { type: 'select-node', id } }, '*');
+
+  layerTree.querySelectorAll('.layer.selected').forEach(layer => layer.classList.remove('selected'));
+  const layer = layerTree.querySelector(`.layer[data-node-id="${CSS.escape(id)}"]`);
+  if (layer) {
+    layer.classList.add('selected');
+    layer.scrollIntoView({ block: 'nearest' });
+  }
+};
+previewSlides.addEventListener('click', selectPreviewNode);
+fidelityReport.addEventListener('click', selectPreviewNode);
+
 closeBtn.addEventListener('click', () => {
   parent.postMessage({
     pluginMessage: { type: 'close' }
   }, '*');
 });
 
+renderThemeColors();
+
+// Restore the saved settings and presets
+parent.postMessage({ pluginMessage: { type: 'load-settings' } }, '*');
+
 // Handle messages from plugin code
 window.onmessage = async (event) => {
   const msg: PluginMessage = event.data.pluginMessage;
@@ -50,8 +390,54 @@ window.onmessage = async (event) => {
   if (!msg) return;
 
   switch (msg.type) {
+    case 'settings':
+      // Settings saved with the board take precedence over the user's own
+      boardSettingsCheckbox.checked = msg.document !== undefined;
+      applySettings(normalizeSettings(msg.document !== undefined ? msg.document : msg.user));
+      presets = msg.presets !== undefined ? normalizePresets(msg.presets) : DEFAULT_PRESETS;
+      renderPresets();
+      break;
+
+    case 'progress':
+      if (!cancelBtn.disabled) {
+        showProgress(msg.phase || 'nodes', msg.processed || 0, msg.total || 0, msg.frame || '');
+      }
+      break;
+
+    case 'nodes':
+      receiveNodes(msg.batch || []);
+      break;
+
+    case 'image':
+      receivedImages[msg.key!] = msg.image!;
+      break;
+
     case 'data-ready':
-      await handleDataReady(msg.data, msg.pageInfo);
+      setExporting(false);
+      showPreview({
+        schemaVersion: SCHEMA_VERSION,
+        nodes: receivedNodes,
+        pageInfo: msg.pageInfo!,
+        issues: msg.issues || []
+      }, receivedImages);
+      break;
+
+    case 'import-complete': {
+      setImporting(false);
+      const notes = [...importSkipped];
+      if (msg.skipped) {
+        notes.push(`${msg.skipped} object(s) FigJam cannot create`);
+      }
+      updateStatus('success', `Imported ${msg.count || 0} object(s)` + (notes.length > 0 ? ` (skipped ${notes.join(', ')})` : ''));
+      break;
+    }
+
+    case 'cancelled':
+      receivedNodes = [];
+      receivedImages = {};
+      pendingChildren = new Map();
+      updateStatus('default', 'Export cancelled');
+      setExporting(false);
       break;
 
     case 'error':
@@ -60,37 +446,345 @@ window.onmessage = async (event) => {
   }
 };
 
-async function handleDataReady(data: any[], pageInfo: any) {
-  lastExtractedData = { nodes: data, pageInfo };
-
-  try {
-    // Get selected format
-    const selectedFormat = (document.querySelector('input[name="format"]:checked') as HTMLInputElement).value;
+/**
+ * Rebuild the tree from streamed nodes: children arrive before their
+ * container or page, which takes them over when it arrives
+ */
+function receiveNodes(batch: StreamedNodeData[]) {
+  for (const { node, parentId } of batch) {
+    if ('children' in node) {
+      node.children = pendingChildren.get(node.id) || [];
+      pendingChildren.delete(node.id);
+    }
+    if (parentId === undefined) {
+      receivedNodes.push(node);
+    } else {
+      const siblings = pendingChildren.get(parentId) || [];
+      siblings.push(node);
+      pendingChildren.set(parentId, siblings);
+    }
+  }
+}
 
-    let clipboardContent: string;
+async function handleDataReady(payload: ExportPayload, images: ImageAssets, delivery: Delivery) {
+  lastExtractedData = payload;
+  const { nodes: data, pageInfo } = payload;
+  const objectCount = getTopLevelNodes(data).length;
+  updateStatus('processing', 'Building file...');
 
-    if (selectedFormat === 'xml') {
-      clipboardContent = convertToXML(data, pageInfo);
+  try {
+    // Let the status render before the synchronous conversion
+    await new Promise(resolve => setTimeout(resolve, 0));
+
+    const selectedFormat = readSettings().format;
+    const issues = payload.issues || [];
+    const options = getConversionOptions();
+    // Decks are converted once, for the file and its report
+    const pptx = selectedFormat === 'pptx' || selectedFormat === 'zip'
+      ? PPTXConverter.convert(data, pageInfo, options, images, issues)
+      : null;
+    const report = pptx ? pptx.report : PPTXConverter.fidelityReport(data, pageInfo, options, images, issues);
+    const fileName = exportFileName(payload);
+
+    if (selectedFormat === 'pptx') {
+      downloadFile(pptx!.data, `${fileName}.pptx`,
+        'application/vnd.openxmlformats-officedocument.presentationml.presentation');
+      updateStatus('success', `Successfully exported ${objectCount} object(s) to PowerPoint!`);
+    } else if (selectedFormat === 'zip') {
+      downloadFile(PPTXConverter.toBundle(data, pageInfo, fileName, pptx!), `${fileName}.zip`,
+        'application/zip');
+      updateStatus('success', `Successfully exported ${objectCount} object(s) to ${fileName}.zip!`);
     } else {
-      clipboardContent = JSON.stringify(lastExtractedData, null, 2);
+      const content = selectedFormat === 'xml'
+        ? PPTXConverter.toXML(data, pageInfo, options)
+        : selectedFormat === 'json'
+          ? PPTXConverter.toJSON(data, pageInfo, report)
+          : DiagramExporter.toDiagram(selectedFormat, data, pageInfo);
+
+      if (delivery === 'clipboard') {
+        await navigator.clipboard.writeText(content);
+        updateStatus('success', `Successfully exported ${objectCount} object(s) to clipboard!`);
+      } else {
+        const file = `${fileName}.${FORMAT_EXTENSIONS[selectedFormat]}`;
+        downloadFile(new TextEncoder().encode(content), file, TEXT_MIME_TYPES[selectedFormat]);
+        updateStatus('success', `Successfully exported ${objectCount} object(s) to ${file}!`);
+      }
     }
 
-    // Copy to clipboard
-    await navigator.clipboard.writeText(clipboardContent);
-
-    updateStatus('success', `Successfully exported ${data.length} object(s) to clipboard!`);
-    showInfo(data.length, pageInfo);
+    showInfo(objectCount, pageInfo, report, delivery === 'clipboard' && TEXT_FORMATS.includes(selectedFormat));
 
   } catch (error) {
-    handleError(`Failed to copy to clipboard: ${error}`);
+    handleError(`Export failed: ${error instanceof Error ? error.message : error}`);
   } finally {
-    exportBtn.disabled = false;
+    setExporting(false);
   }
 }
 
+/**
+ * File name of an export: the name of the exported frame or section, or of
+ * the page, followed by the time of the export
+ */
+function exportFileName(payload: ExportPayload): string {
+  const topLevel = getTopLevelNodes(payload.nodes);
+  const single = topLevel.length === 1 && (topLevel[0].type === 'FRAME' || topLevel[0].type === 'SECTION');
+  const name = (single ? topLevel[0].name : payload.pageInfo.name) || 'FigJam export';
+
+  const now = new Date();
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const timestamp = `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())} ` +
+    `${pad(now.getHours())}.${pad(now.getMinutes())}.${pad(now.getSeconds())}`;
+
+  // Characters file systems do not allow in names
+  return `${name.replace(/[\\/:*?"<>|\u0000-\u001f]+/g, '-').trim()} ${timestamp}`;
+}
+
+function showPreview(payload: ExportPayload, images: ImageAssets) {
+  pendingExport = { payload, images };
+  excludedIds.clear();
+  excludedTypes.clear();
+  previewImageURLs = {};
+  Object.entries(images).forEach(([key, image]) => {
+    previewImageURLs[key] = URL.createObjectURL(new Blob([image.bytes as BlobPart]));
+  });
+
+  resizeWindow(PREVIEW_SIZE);
+  optionsView.hidden = true;
+  previewView.hidden = false;
+  // Only text formats can go to the clipboard
+  const format = readSettings().format;
+  copyBtn.hidden = !TEXT_FORMATS.includes(format);
+  updateStatus('default', 'Untick anything to leave out, then download');
+  renderTypeFilters();
+  renderLayers();
+  renderPreviewSlides();
+}
+
+function hidePreview() {
+  pendingExport = null;
+  Object.values(previewImageURLs).forEach(url => URL.revokeObjectURL(url));
+  previewImageURLs = {};
+  previewSlides.innerHTML = '';
+  layerTree.innerHTML = '';
+  fidelityReport.innerHTML = '';
+
+  previewView.hidden = true;
+  optionsView.hidden = false;
+  resizeWindow(OPTIONS_SIZE);
+}
+
+function isIncluded(node: ExtractedNodeData): boolean {
+  return !excludedIds.has(node.id) && !excludedTypes.has(node.type);
+}
+
+function renderPreviewSlides() {
+  if (!pendingExport) return;
+  const { payload } = pendingExport;
+  const options = getConversionOptions();
+
+  const nodes = filterNodes(payload.nodes, isIncluded);
+  const slides = SlideBuilder.build(arrangeLayers(nodes, options.hiddenLayers || 'skip'), payload.pageInfo, options.slideOrder);
+  const slideSize = PPTXConverter.getSlideSize(slides, options);
+  const report = PPTXConverter.fidelityReport(nodes, payload.pageInfo, options, pendingExport.images,
+    issuesOfNodes(payload.issues || [], nodes));
+  reportHeading.textContent = `Fidelity report: ${describeIssues(report)}`;
+  fidelityReport.innerHTML = renderIssueList(report);
+
+  let html = '';
+  let section: string | undefined;
+  slides.forEach((slide, index) => {
+    if (slide.section !== undefined && slide.section !== section) {
+      section = slide.section;
+      html += `<h2>${escapeXML(section)}</h2>`;
+    }
+    const shown = options.stickyNotes === 'notes' ? { ...slide, nodes: removeStickies(slide.nodes) } : slide;
+    const hidden = slide.hidden ? ' (hidden)' : '';
+    html += `<figure class="slide-preview"><figcaption>${index + 1}. ${escapeXML(slide.name)}${hidden}</figcaption>` +
+      `${renderSlidePreview(shown, slideSize, previewImageURLs)}</figure>`;
+  });
+  previewSlides.innerHTML = html;
+
+  const total = Object.values(countNodeTypes(payload.nodes)).reduce((sum, count) => sum + count, 0);
+  const included = Object.values(countNodeTypes(nodes)).reduce((sum, count) => sum + count, 0);
+  previewSummary.textContent = `${slides.length} slide(s), ${included} of ${total} object(s) included`;
+}
+
+function renderTypeFilters() {
+  const counts = countNodeTypes(pendingExport ? pendingExport.payload.nodes : []);
+  typeFilters.innerHTML = Object.keys(counts).sort().map(type =>
+    `<label><input type="checkbox" data-type="${escapeXML(type)}"${excludedTypes.has(type) ? '' : ' checked'}> ` +
+    `${escapeXML(type.replace(/_/g, ' ').toLowerCase())} (${counts[type]})</label>`).join('');
+}
+
+function renderLayers() {
+  layerTree.innerHTML = renderLayerTree(pendingExport ? pendingExport.payload.nodes : [], node => !isIncluded(node));
+}
+
+function resizeWindow(size: { width: number; height: number }) {
+  parent.postMessage({ pluginMessage: { type: 'resize', ...size } }, '*');
+}
+
+function getConversionOptions(): ConversionOptions {
+  const settings = readSettings();
+  return {
+    ...toConversionOptions(settings),
+    template: template || undefined,
+    themeFonts: !!template && settings.templateFonts
+  };
+}
+
+function setTemplate(loaded: PackageTemplate | null) {
+  template = loaded;
+  templateName.textContent = loaded ? loaded.name : 'None';
+  templateName.title = loaded ? loaded.name : '';
+  removeTemplateBtn.hidden = !loaded;
+  templateFontsRow.hidden = !loaded;
+}
+
+function renderThemeColors() {
+  themeColorsGrid.innerHTML = THEME_COLOR_SLOTS.map(slot =>
+    `<label>${slot}<input type="color" data-slot="${slot}" value="#${(DEFAULT_THEME_COLORS[slot] || '000000').toLowerCase()}"></label>`)
+    .join('');
+}
+
+/**
+ * The settings shown in the options, with invalid entries replaced by the defaults
+ */
+function readSettings(): ExportSettings {
+  return normalizeSettings({
+    format: (document.querySelector('input[name="format"]:checked') as HTMLInputElement).value,
+    scope: exportScopeSelect.value,
+    framePattern: framePatternInput.value,
+    slideOrder: slideOrderSelect.value,
+    slideSize: slideSizeSelect.value,
+    customSlideSize: {
+      width: parseFloat(slideWidthInput.value),
+      height: parseFloat(slideHeightInput.value)
+    },
+    scaling: scalingSelect.value,
+    dpi: parseFloat(dpiInput.value),
+    stickyNotes: stickyNotesSelect.value,
+    placeholders: placeholdersSelect.value,
+    hiddenLayers: hiddenLayersSelect.value,
+    colorMode: colorModeSelect.value,
+    themeColors: Object.fromEntries(Array.from(themeColorsGrid.querySelectorAll('input'))
+      .map(input => [input.dataset.slot, input.value])),
+    templateFonts: templateFontsCheckbox.checked,
+    fontSubstitutions: parseFontSubstitutions(fontSubstitutionsInput.value)
+  });
+}
+
+function applySettings(settings: ExportSettings) {
+  formatOptions.forEach(option => {
+    const radio = option.querySelector('input[name="format"]') as HTMLInputElement;
+    radio.checked = radio.value === settings.format;
+    option.classList.toggle('selected', radio.checked);
+  });
+  exportScopeSelect.value = settings.scope;
+  framePatternInput.value = settings.framePattern;
+  framePatternRow.hidden = settings.scope !== 'frames';
+  slideOrderSelect.value = settings.slideOrder;
+  slideSizeSelect.value = settings.slideSize;
+  slideWidthInput.value = String(settings.customSlideSize.width);
+  slideHeightInput.value = String(settings.customSlideSize.height);
+  customSizeRow.hidden = settings.slideSize !== 'custom';
+  scalingSelect.value = settings.scaling;
+  dpiInput.value = String(settings.dpi);
+  stickyNotesSelect.value = settings.stickyNotes;
+  placeholdersSelect.value = settings.placeholders;
+  hiddenLayersSelect.value = settings.hiddenLayers;
+  colorModeSelect.value = settings.colorMode;
+  themeColorsRow.hidden = settings.colorMode !== 'theme';
+  themeColorsGrid.querySelectorAll('input').forEach(input => {
+    const hex = settings.themeColors[input.dataset.slot as keyof ExportSettings['themeColors']];
+    input.value = hex ? `#${hex.toLowerCase()}` : '#000000';
+  });
+  templateFontsCheckbox.checked = settings.templateFonts;
+  fontSubstitutionsInput.value = formatFontSubstitutions(settings.fontSubstitutions);
+}
+
+function sameSettings(first: ExportSettings, second: ExportSettings): boolean {
+  return JSON.stringify(normalizeSettings(first)) === JSON.stringify(normalizeSettings(second));
+}
+
+function saveSettings() {
+  parent.postMessage({
+    pluginMessage: { type: 'save-settings', settings: readSettings(), document: boardSettingsCheckbox.checked }
+  }, '*');
+}
+
+function savePresets() {
+  parent.postMessage({ pluginMessage: { type: 'save-presets', presets } }, '*');
+  renderPresets();
+}
+
+/**
+ * Add presets to a list, replacing those of the same name
+ */
+function mergePresets(existing: ExportPreset[], added: ExportPreset[]): ExportPreset[] {
+  const names = new Set(added.map(preset => preset.name));
+  return [...existing.filter(preset => !names.has(preset.name)), ...added];
+}
+
+/**
+ * List the presets, keeping the selected one when it matches the options shown
+ */
+function renderPresets() {
+  const settings = readSettings();
+  const selected = presets.find(p => p.name === presetSelect.value) ||
+    presets.find(p => sameSettings(p.settings, settings));
+
+  presetSelect.innerHTML = '<option value="">Custom settings</option>' + presets.map(preset =>
+    `<option value="${escapeXML(preset.name)}">${escapeXML(preset.name)}</option>`).join('');
+  presetSelect.value = selected && sameSettings(selected.settings, settings) ? selected.name : '';
+  deletePresetBtn.disabled = presets.length === 0;
+}
+
+function downloadFile(content: Uint8Array, fileName: string, mimeType: string) {
+  const url = URL.createObjectURL(new Blob([content as BlobPart], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
 function handleError(message: string) {
   updateStatus('error', message);
-  exportBtn.disabled = false;
+  setExporting(false);
+  setImporting(false);
+}
+
+/**
+ * Swap the export button for the cancel button while an export runs
+ */
+function setExporting(exporting: boolean) {
+  exportBtn.disabled = exporting;
+  cancelBtn.hidden = !exporting;
+  cancelBtn.disabled = false;
+}
+
+function setImporting(importing: boolean) {
+  importBtn.disabled = importing;
+  exportBtn.disabled = importing;
+}
+
+function showProgress(phase: 'nodes' | 'images', processed: number, total: number, frame: string) {
+  const percent = total > 0 ? Math.min(100, Math.round((processed / total) * 100)) : 0;
+  const label = phase === 'nodes'
+    ? `Extracting ${processed.toLocaleString()} of ${total.toLocaleString()} objects`
+    : `Collecting images (${processed} of ${total})`;
+
+  statusDiv.className = 'status processing';
+  statusDiv.innerHTML = '<div class="progress">' +
+    '<div class="progress-label"></div>' +
+    `<div class="progress-track"><div class="progress-bar" style="width: ${percent}%"></div></div>` +
+    '<div class="progress-frame"></div>' +
+    '</div>';
+  // Frame names are user content, so they are set as text
+  (statusDiv.querySelector('.progress-label') as HTMLDivElement).textContent = label;
+  (statusDiv.querySelector('.progress-frame') as HTMLDivElement).textContent = phase === 'nodes' ? frame : '';
 }
 
 function updateStatus(type: 'success' | 'error' | 'processing' | 'default', message: string) {
@@ -107,12 +801,19 @@ function updateStatus(type: 'success' | 'error' | 'processing' | 'default', mess
   }
 }
 
-function showInfo(nodeCount: number, pageInfo: any) {
+/**
+ * Top-level objects of the export, looking inside pages when several pages are exported
+ */
+function getTopLevelNodes(nodes: ExtractedNodeData[]): ExtractedNodeData[] {
+  return nodes.flatMap(node => node.type === 'PAGE' ? node.children : [node]);
+}
+
+function showInfo(nodeCount: number, pageInfo: PageInfoData, report: FidelityIssueData[], copied: boolean) {
   infoBox.classList.remove('hidden');
 
   const nodeTypes: { [key: string]: number } = {};
   if (lastExtractedData && lastExtractedData.nodes) {
-    lastExtractedData.nodes.forEach((node: any) => {
+    getTopLevelNodes(lastExtractedData.nodes).forEach(node => {
       nodeTypes[node.type] = (nodeTypes[node.type] || 0) + 1;
     });
   }
@@ -125,98 +826,13 @@ function showInfo(nodeCount: number, pageInfo: any) {
     <div>Total objects: ${nodeCount}</div>
     <div>Types: ${typesList}</div>
     <div>Page: ${pageInfo.name}</div>
+    <div>Fidelity: ${describeIssues(report)}</div>
     <div style="margin-top: 8px; color: #666; font-size: 10px;">
-      Data has been copied to your clipboard. You can now paste it into PowerPoint or save it to a file.
+      ${copied
+        ? 'Data has been copied to your clipboard. You can now paste it into PowerPoint or save it to a file.'
+        : 'The file has been saved to your downloads.'}
     </div>
   `;
 }
 
-function convertToXML(nodes: any[], pageInfo: any): string {
-  // Basic PowerPoint XML structure
-  // This is a simplified version - full PowerPoint XML is much more complex
-
-  let xml = '<?xml version="1.0" encoding="UTF-8"?>\n';
-  xml += '<presentation>\n';
-  xml += `  <page name="${escapeXML(pageInfo.name)}" width="${pageInfo.width}" height="${pageInfo.height}">\n`;
-
-  nodes.forEach(node => {
-    xml += convertNodeToXML(node, 2);
-  });
-
-  xml += '  </page>\n';
-  xml += '</presentation>';
-
-  return xml;
-}
-
-function convertNodeToXML(node: any, indent: number): string {
-  const spaces = '  '.repeat(indent);
-  let xml = `${spaces}<shape type="${escapeXML(node.type)}" id="${escapeXML(node.id)}">\n`;
-
-  // Position and size
-  xml += `${spaces}  <bounds x="${node.x}" y="${node.y}" width="${node.width}" height="${node.height}" rotation="${node.rotation}"/>\n`;
-
-  // Fills
-  if (node.fills && node.fills.length > 0) {
-    xml += `${spaces}  <fills>\n`;
-    node.fills.forEach((fill: any) => {
-      if (fill.type === 'solid') {
-        xml += `${spaces}    <fill type="solid" r="${fill.color.r}" g="${fill.color.g}" b="${fill.color.b}" opacity="${fill.opacity}"/>\n`;
-      } else if (fill.type === 'gradient') {
-        xml += `${spaces}    <fill type="gradient" gradientType="${fill.gradientType}"/>\n`;
-      }
-    });
-    xml += `${spaces}  </fills>\n`;
-  }
-
-  // Strokes
-  if (node.strokes && node.strokes.length > 0) {
-    xml += `${spaces}  <strokes weight="${node.strokeWeight || 1}">\n`;
-    node.strokes.forEach((stroke: any) => {
-      if (stroke.type === 'solid') {
-        xml += `${spaces}    <stroke type="solid" r="${stroke.color.r}" g="${stroke.color.g}" b="${stroke.color.b}" opacity="${stroke.opacity}"/>\n`;
-      }
-    });
-    xml += `${spaces}  </strokes>\n`;
-  }
-
-  // Text
-  if (node.text) {
-    xml += `${spaces}  <text>${escapeXML(node.text)}</text>\n`;
-  }
-
-  // Shape type
-  if (node.shapeType) {
-    xml += `${spaces}  <shapeType>${escapeXML(node.shapeType)}</shapeType>\n`;
-  }
-
-  // Corner radius
-  if (node.cornerRadius !== undefined) {
-    xml += `${spaces}  <cornerRadius>${node.cornerRadius}</cornerRadius>\n`;
-  }
-
-  // Children
-  if (node.children && node.children.length > 0) {
-    xml += `${spaces}  <children>\n`;
-    node.children.forEach((child: any) => {
-      xml += convertNodeToXML(child, indent + 2);
-    });
-    xml += `${spaces}  </children>\n`;
-  }
-
-  xml += `${spaces}</shape>\n`;
-  return xml;
-}
-
-function escapeXML(str: string): string {
-  if (typeof str !== 'string') return String(str);
-
-  return str
-    .replace(/&/g, '&amp;')
-    .replace(/</g, '&lt;')
-    .replace(/>/g, '&gt;')
-    .replace(/"/g, '&quot;')
-    .replace(/'/g, '&apos;');
-}
-
 console.log('UI loaded');
@@ -0,0 +1,18 @@
+// XML Utilities
+// Shared helpers for writing XML documents
+
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+/**
+ * Escape XML special characters
+ */
+export function escapeXML(str: string): string {
+  if (typeof str !== 'string') return String(str);
+
+  return str
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
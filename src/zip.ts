@@ -0,0 +1,337 @@
+// ZIP Archives
+// Minimal store-only ZIP writer used to package OOXML parts, and a reader for
+// the deflated archives PowerPoint writes, without any network access or
+// third-party dependencies
+
+export interface ZipEntry {
+  path: string;
+  data: Uint8Array | string;
+}
+
+const CRC_TABLE = buildCRCTable();
+
+function buildCRCTable(): Uint32Array {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+}
+
+/**
+ * Compute the CRC-32 checksum required by ZIP headers
+ */
+export function crc32(data: Uint8Array): number {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Convert a date to the MS-DOS time/date pair used by ZIP headers
+ */
+function toDOSDateTime(date: Date): { time: number; date: number } {
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  };
+}
+
+/**
+ * Build a ZIP archive from the given entries (stored, no compression)
+ */
+export function createZip(entries: ZipEntry[], modified: Date = new Date()): Uint8Array {
+  const encoder = new TextEncoder();
+  const { time, date } = toDOSDateTime(modified);
+  const localParts: Uint8Array[] = [];
+  const centralParts: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.path);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const checksum = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint16(8, 0, true); // stored
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, checksum, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, name.length, true);
+    local.setUint16(28, 0, true);
+
+    const central = new DataView(new ArrayBuffer(46));
+    central.setUint32(0, 0x02014b50, true);
+    central.setUint16(4, 20, true);
+    central.setUint16(6, 20, true);
+    central.setUint16(8, 0x0800, true);
+    central.setUint16(10, 0, true);
+    central.setUint16(12, time, true);
+    central.setUint16(14, date, true);
+    central.setUint32(16, checksum, true);
+    central.setUint32(20, data.length, true);
+    central.setUint32(24, data.length, true);
+    central.setUint16(28, name.length, true);
+    central.setUint32(42, offset, true);
+
+    localParts.push(new Uint8Array(local.buffer), name, data);
+    centralParts.push(new Uint8Array(central.buffer), name);
+    offset += 30 + name.length + data.length;
+  }
+
+  const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return concatBytes([...localParts, ...centralParts, new Uint8Array(end.buffer)]);
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array {
+  const total = parts.reduce((sum, part) => sum + part.length, 0);
+  const result = new Uint8Array(total);
+  let position = 0;
+  for (const part of parts) {
+    result.set(part, position);
+    position += part.length;
+  }
+  return result;
+}
+
+/**
+ * Read the entries of a ZIP archive, inflating deflated ones. Archives spanning
+ * several files, encrypted entries and ZIP64 are not supported.
+ */
+export function readZip(archive: Uint8Array): ZipEntry[] {
+  const view = new DataView(archive.buffer, archive.byteOffset, archive.byteLength);
+  const decoder = new TextDecoder();
+
+  // The end of central directory record is followed by a comment of up to 64 KB
+  let end = archive.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) {
+    end--;
+  }
+  if (end < 0) {
+    throw new Error('Not a ZIP archive');
+  }
+
+  const count = view.getUint16(end + 10, true);
+  let position = view.getUint32(end + 16, true);
+  const entries: ZipEntry[] = [];
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(position, true) !== 0x02014b50) {
+      throw new Error('Corrupt ZIP central directory');
+    }
+    const flags = view.getUint16(position + 8, true);
+    const method = view.getUint16(position + 10, true);
+    const compressedSize = view.getUint32(position + 20, true);
+    const nameLength = view.getUint16(position + 28, true);
+    const extraLength = view.getUint16(position + 30, true);
+    const commentLength = view.getUint16(position + 32, true);
+    const localOffset = view.getUint32(position + 42, true);
+    const path = decoder.decode(archive.subarray(position + 46, position + 46 + nameLength));
+    position += 46 + nameLength + extraLength + commentLength;
+
+    if (path.endsWith('/')) {
+      continue;
+    }
+    if (flags & 1) {
+      throw new Error(`Encrypted ZIP entry: ${path}`);
+    }
+
+    // The local header repeats the name and may carry a different extra field
+    const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = archive.subarray(start, start + compressedSize);
+    if (method === 0) {
+      entries.push({ path, data: data.slice() });
+    } else if (method === 8) {
+      entries.push({ path, data: inflate(data) });
+    } else {
+      throw new Error(`Unsupported ZIP compression method ${method}: ${path}`);
+    }
+  }
+
+  return entries;
+}
+
+interface HuffmanTable {
+  // Number of codes of each length, and the symbols ordered by code
+  counts: Uint16Array;
+  symbols: Uint16Array;
+}
+
+const LENGTH_BASE = [3, 4, 5, 6, 7, 8, 9, 10, 11, 13, 15, 17, 19, 23, 27, 31, 35, 43, 51, 59, 67, 83, 99, 115, 131, 163, 195, 227, 258];
+const LENGTH_EXTRA = [0, 0, 0, 0, 0, 0, 0, 0, 1, 1, 1, 1, 2, 2, 2, 2, 3, 3, 3, 3, 4, 4, 4, 4, 5, 5, 5, 5, 0];
+const DISTANCE_BASE = [
+  1, 2, 3, 4, 5, 7, 9, 13, 17, 25, 33, 49, 65, 97, 129, 193, 257, 385, 513, 769,
+  1025, 1537, 2049, 3073, 4097, 6145, 8193, 12289, 16385, 24577
+];
+const DISTANCE_EXTRA = [0, 0, 0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 5, 5, 6, 6, 7, 7, 8, 8, 9, 9, 10, 10, 11, 11, 12, 12, 13, 13];
+// Order in which the code lengths of the code length alphabet are stored
+const CODE_LENGTH_ORDER = [16, 17, 18, 0, 8, 7, 9, 6, 10, 5, 11, 4, 12, 3, 13, 2, 14, 1, 15];
+
+/**
+ * Decompress raw DEFLATE data (RFC 1951)
+ */
+export function inflate(data: Uint8Array): Uint8Array {
+  let output = new Uint8Array(Math.max(1024, data.length * 4));
+  let length = 0;
+  let position = 0;
+  let bitBuffer = 0;
+  let bitCount = 0;
+
+  const bits = (count: number): number => {
+    while (bitCount < count) {
+      if (position >= data.length) {
+        throw new Error('Truncated DEFLATE data');
+      }
+      bitBuffer |= data[position++] << bitCount;
+      bitCount += 8;
+    }
+    const value = bitBuffer & ((1 << count) - 1);
+    bitBuffer >>>= count;
+    bitCount -= count;
+    return value;
+  };
+
+  const decode = (table: HuffmanTable): number => {
+    // Canonical codes are read one bit at a time, most significant bit first
+    let code = 0;
+    let first = 0;
+    let index = 0;
+    for (let length = 1; length < 16; length++) {
+      code |= bits(1);
+      const count = table.counts[length];
+      if (code - first < count) {
+        return table.symbols[index + code - first];
+      }
+      index += count;
+      first = (first + count) << 1;
+      code <<= 1;
+    }
+    throw new Error('Invalid DEFLATE code');
+  };
+
+  const reserve = (extra: number) => {
+    if (length + extra > output.length) {
+      const grown = new Uint8Array(Math.max(output.length * 2, length + extra));
+      grown.set(output.subarray(0, length));
+      output = grown;
+    }
+  };
+
+  let last = 0;
+  while (!last) {
+    last = bits(1);
+    const type = bits(2);
+
+    if (type === 0) {
+      // Stored block, aligned to the next byte
+      bitBuffer = 0;
+      bitCount = 0;
+      const size = data[position] | (data[position + 1] << 8);
+      position += 4;
+      reserve(size);
+      output.set(data.subarray(position, position + size), length);
+      length += size;
+      position += size;
+      continue;
+    }
+
+    let literals: HuffmanTable;
+    let distances: HuffmanTable;
+    if (type === 1) {
+      literals = FIXED_LITERALS;
+      distances = FIXED_DISTANCES;
+    } else if (type === 2) {
+      const literalCount = bits(5) + 257;
+      const distanceCount = bits(5) + 1;
+      const codeLengthCount = bits(4) + 4;
+      const codeLengths = new Uint8Array(19);
+      for (let i = 0; i < codeLengthCount; i++) {
+        codeLengths[CODE_LENGTH_ORDER[i]] = bits(3);
+      }
+      const codeLengthTable = buildHuffmanTable(codeLengths);
+
+      const lengths = new Uint8Array(literalCount + distanceCount);
+      for (let i = 0; i < lengths.length;) {
+        const symbol = decode(codeLengthTable);
+        if (symbol < 16) {
+          lengths[i++] = symbol;
+        } else {
+          const repeat = symbol === 16 ? 3 + bits(2) : symbol === 17 ? 3 + bits(3) : 11 + bits(7);
+          const value = symbol === 16 ? lengths[i - 1] : 0;
+          lengths.fill(value, i, i + repeat);
+          i += repeat;
+        }
+      }
+      literals = buildHuffmanTable(lengths.subarray(0, literalCount));
+      distances = buildHuffmanTable(lengths.subarray(literalCount));
+    } else {
+      throw new Error('Invalid DEFLATE block type');
+    }
+
+    for (;;) {
+      const symbol = decode(literals);
+      if (symbol < 256) {
+        reserve(1);
+        output[length++] = symbol;
+      } else if (symbol === 256) {
+        break;
+      } else {
+        const copyLength = LENGTH_BASE[symbol - 257] + bits(LENGTH_EXTRA[symbol - 257]);
+        const distanceSymbol = decode(distances);
+        const distance = DISTANCE_BASE[distanceSymbol] + bits(DISTANCE_EXTRA[distanceSymbol]);
+        if (distance > length) {
+          throw new Error('Invalid DEFLATE distance');
+        }
+        reserve(copyLength);
+        // Copies may overlap the bytes they produce, so go byte by byte
+        for (let i = 0; i < copyLength; i++, length++) {
+          output[length] = output[length - distance];
+        }
+      }
+    }
+  }
+
+  return output.slice(0, length);
+}
+
+function buildHuffmanTable(lengths: Uint8Array): HuffmanTable {
+  const counts = new Uint16Array(16);
+  lengths.forEach(length => counts[length]++);
+  counts[0] = 0;
+
+  const offsets = new Uint16Array(16);
+  for (let length = 1; length < 15; length++) {
+    offsets[length + 1] = offsets[length] + counts[length];
+  }
+
+  const symbols = new Uint16Array(lengths.length);
+  lengths.forEach((length, symbol) => {
+    if (length) {
+      symbols[offsets[length]++] = symbol;
+    }
+  });
+  return { counts, symbols };
+}
+
+const FIXED_LITERALS = buildHuffmanTable(
+  Uint8Array.from({ length: 288 }, (_, symbol) => symbol < 144 ? 8 : symbol < 256 ? 9 : symbol < 280 ? 7 : 8)
+);
+const FIXED_DISTANCES = buildHuffmanTable(new Uint8Array(30).fill(5));
@@ -0,0 +1,63 @@
+import { strict as assert } from 'assert';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import * as path from 'path';
+import { after, test } from 'node:test';
+import { PAGE, sampleNodes } from './fixtures.js';
+
+// Compiled next to the tests by tsconfig.test.json
+const CLI = path.join(__dirname, '..', 'src', 'cli.js');
+const PAYLOAD = JSON.stringify({ nodes: sampleNodes(), pageInfo: PAGE });
+const workspaces: string[] = [];
+
+after(() => workspaces.forEach(directory => rmSync(directory, { recursive: true, force: true })));
+
+/** A fresh directory holding a payload in b.json */
+function workspace(): string {
+  const directory = mkdtempSync(path.join(tmpdir(), 'figjam2pptx-'));
+  writeFileSync(path.join(directory, 'b.json'), PAYLOAD);
+  workspaces.push(directory);
+  return directory;
+}
+
+function run(cwd: string, ...args: string[]) {
+  return spawnSync(process.execPath, [CLI, ...args], { cwd, encoding: 'utf8' });
+}
+
+test('a single input is converted next to itself', () => {
+  const directory = workspace();
+  const result = run(directory, 'convert', 'b.json');
+
+  assert.equal(result.status, 0, result.stderr);
+  assert.deepEqual(readdirSync(directory).sort(), ['b.json', 'b.pptx']);
+});
+
+test('an input is never overwritten, however its path is written', () => {
+  const directory = workspace();
+  for (const input of ['b.json', './b.json', `../${path.basename(directory)}/b.json`, path.join(directory, 'b.json')]) {
+    const result = run(directory, 'convert', input, '--format', 'json');
+    assert.equal(result.status, 1, input);
+    assert.match(result.stderr, /Refusing to overwrite the input file/);
+    assert.equal(readFileSync(path.join(directory, 'b.json'), 'utf8'), PAYLOAD, input);
+  }
+
+  const output = run(directory, 'convert', './b.json', '--format', 'json', '-o', 'c.json');
+  assert.equal(output.status, 0, output.stderr);
+  assert.equal(JSON.parse(readFileSync(path.join(directory, 'c.json'), 'utf8')).format, 'figjam2pptx');
+});
+
+test('converting a directory to json skips the inputs it would overwrite', () => {
+  const directory = workspace();
+  writeFileSync(path.join(directory, 'a.json'), PAYLOAD);
+  const result = run(directory, 'convert', '.', '--format', 'json');
+
+  assert.equal(result.status, 0, result.stderr);
+  assert.match(result.stderr, /Skipping a\.json/);
+  assert.match(result.stderr, /Skipping b\.json/);
+  assert.equal(readFileSync(path.join(directory, 'a.json'), 'utf8'), PAYLOAD);
+
+  const output = run(directory, 'convert', '.', '--format', 'json', '-o', 'out');
+  assert.equal(output.status, 0, output.stderr);
+  assert.deepEqual(readdirSync(path.join(directory, 'out')).sort(), ['a.json', 'b.json']);
+});
@@ -0,0 +1,73 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { boardWith, convertSlides, paragraphs } from './fixtures.js';
+import { XMLElement, findAll } from './xml-parser.js';
+
+/** The only connector of a slide */
+function connector(slide: XMLElement): XMLElement {
+  const connectors = findAll(slide, 'p:cxnSp');
+  assert.equal(connectors.length, 1);
+  return connectors[0];
+}
+
+/** Shape id of the layer with the given name */
+function shapeId(slide: XMLElement, name: string): string {
+  return findAll(slide, 'p:cNvPr').find(properties => properties.attributes.name === name)!.attributes.id;
+}
+
+test('connectors are bound to the connection sites of their shapes', () => {
+  const [slide] = convertSlides(boardWith({}));
+  const link = connector(slide);
+
+  assert.deepEqual(findAll(link, 'a:stCxn')[0].attributes, { id: shapeId(slide, 'Step'), idx: '3' });
+  assert.deepEqual(findAll(link, 'a:endCxn')[0].attributes, { id: shapeId(slide, 'Note'), idx: '1' });
+  assert.equal(findAll(link, 'a:prstGeom')[0].attributes.prst, 'bentConnector3');
+  assert.deepEqual(findAll(link, 'a:headEnd'), []);
+  assert.equal(findAll(link, 'a:tailEnd')[0].attributes.type, 'arrow');
+});
+
+test('connectors between a vertical and a horizontal side bend once, turned to leave vertically', () => {
+  const [slide] = convertSlides(boardWith({
+    '1:5': {
+      connectorLineType: 'CURVED',
+      connectorStart: { x: 180, y: 300, endpointNodeId: '1:3', magnet: 'BOTTOM', strokeCap: 'DIAMOND_FILLED' },
+      connectorEnd: { x: 600, y: 300, endpointNodeId: '1:4', magnet: 'LEFT', strokeCap: 'NONE' }
+    }
+  }));
+  const link = connector(slide);
+
+  assert.equal(findAll(link, 'a:prstGeom')[0].attributes.prst, 'curvedConnector2');
+  assert.equal(findAll(link, 'a:xfrm')[0].attributes.rot, '5400000');
+  assert.equal(findAll(link, 'a:stCxn')[0].attributes.idx, '2');
+  assert.equal(findAll(link, 'a:headEnd')[0].attributes.type, 'diamond');
+  assert.deepEqual(findAll(link, 'a:tailEnd'), []);
+});
+
+test('straight connectors to the center or to a missing node are left unbound', () => {
+  const [slide] = convertSlides(boardWith({
+    '1:5': {
+      connectorLineType: 'STRAIGHT',
+      connectorStart: { x: 180, y: 250, endpointNodeId: '1:3', magnet: 'CENTER' },
+      connectorEnd: { x: 600, y: 300, endpointNodeId: '9:9', magnet: 'LEFT' }
+    }
+  }));
+  const link = connector(slide);
+
+  assert.equal(findAll(link, 'a:prstGeom')[0].attributes.prst, 'straightConnector1');
+  assert.deepEqual(findAll(link, 'a:stCxn'), []);
+  assert.deepEqual(findAll(link, 'a:endCxn'), []);
+});
+
+test('connector labels are text boxes at the midpoint', () => {
+  const [slide] = convertSlides(boardWith({ '1:5': { text: 'depends on', textParagraphs: paragraphs('depends on') } }));
+  const label = findAll(slide, 'p:sp').find(shape => findAll(shape, 'p:cNvPr')[0].attributes.name === 'Link label')!;
+
+  assert.equal(findAll(label, 'a:t').map(run => run.text).join(''), 'depends on');
+  const offset = findAll(label, 'a:off')[0].attributes;
+  const size = findAll(label, 'a:ext')[0].attributes;
+  // The connector runs from (280, 250) to (600, 300), at 12700 EMU per pixel
+  assert.equal(Number(offset.x) + Number(size.cx) / 2, 440 * 12700);
+  assert.equal(Number(offset.y) + Number(size.cy) / 2, 275 * 12700);
+});
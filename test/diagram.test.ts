@@ -0,0 +1,68 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { DiagramExporter } from '../src/diagram.js';
+import { PAGE, boardWith, paragraphs, sampleNodes } from './fixtures.js';
+import { findAll, parseXML } from './xml-parser.js';
+
+/** The sample board with the connector labelled, dashed and pointing both ways */
+function labelledBoard(): ExtractedNodeData[] {
+  return boardWith({
+    '1:5': {
+      text: 'then "review"',
+      textParagraphs: paragraphs('then "review"'),
+      dashPattern: [4, 4],
+      connectorStart: { x: 280, y: 250, endpointNodeId: '1:3', magnet: 'RIGHT', strokeCap: 'ARROW_LINES' }
+    }
+  });
+}
+
+test('Mermaid flowcharts hold frames as subgraphs and connectors as edges', () => {
+  const lines = DiagramExporter.toMermaid(sampleNodes(), PAGE).split('\n');
+
+  assert.deepEqual(lines.slice(0, 5),
+    ['---', 'title: "Board & <Plans>"', '---', 'flowchart LR', '  subgraph cluster1["Frame & #lt;1#gt;"]']);
+  assert.ok(lines.includes('    n1("Plan")'));
+  assert.ok(lines.includes('    n2["Ship ]]#gt; safely<br>Then iterate"]'));
+  assert.ok(lines.includes('  n1 --> n2'));
+  assert.ok(lines.includes('  style n2 fill:#FFD966'));
+  // Text nodes without connectors are not part of the graph
+  assert.ok(!lines.some(line => line.includes('Roadmap')));
+
+  assert.ok(DiagramExporter.toMermaid(labelledBoard(), PAGE).includes('  n1 <-.->|"then #quot;review#quot;"| n2\n'));
+});
+
+test('DOT digraphs quote labels and keep arrowheads and dashes', () => {
+  const dot = DiagramExporter.toDOT(sampleNodes(), PAGE);
+
+  assert.ok(dot.startsWith('digraph "Board & <Plans>" {\n'));
+  assert.ok(dot.includes('  subgraph cluster1 {\n    label="Frame & <1>";\n'));
+  assert.ok(dot.includes('n2 [label="Ship ]]> safely\\nThen iterate", shape=box, style="filled", fillcolor="#FFD966"];'));
+  assert.ok(dot.includes('  n1 -> n2;\n'));
+
+  const edge = DiagramExporter.toDOT(labelledBoard(), PAGE).split('\n').find(line => line.includes('n1 -> n2'))!;
+  assert.ok(edge.includes('label="then \\"review\\""'), edge);
+  assert.ok(edge.includes('dir=both') && edge.includes('style=dashed'), edge);
+});
+
+test('draw.io files are well-formed and nest nodes in their frame', () => {
+  const file = parseXML(DiagramExporter.toDrawio(sampleNodes(), PAGE));
+  const cells = new Map(findAll(file, 'mxCell').map(cell => [cell.attributes.id, cell.attributes]));
+
+  assert.equal(findAll(file, 'diagram')[0].attributes.name, 'Board & <Plans>');
+  assert.equal(cells.get('cluster1')!.value, 'Frame &amp; &lt;1&gt;');
+  assert.equal(cells.get('n1')!.parent, 'cluster1');
+  assert.equal(cells.get('n2')!.value, 'Ship ]]&gt; safely<br>Then iterate');
+  assert.deepEqual([cells.get('e1')!.source, cells.get('e1')!.target], ['n1', 'n2']);
+});
+
+test('connectors not attached at both ends are left out and noted', () => {
+  const loose = boardWith({ '1:5': { connectorEnd: { x: 700, y: 500, strokeCap: 'ARROW_LINES' } } });
+
+  const mermaid = DiagramExporter.toMermaid(loose, PAGE);
+  assert.ok(!mermaid.includes('-->'));
+  assert.ok(mermaid.includes('%% 1 connector is left out, not being attached to shapes at both ends'));
+  assert.ok(!DiagramExporter.toDOT(loose, PAGE).includes('->'));
+  assert.deepEqual(findAll(parseXML(DiagramExporter.toDrawio(loose, PAGE)), 'mxCell').filter(cell => cell.attributes.edge), []);
+});
@@ -0,0 +1,62 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { PPTXConverter } from '../src/pptx-converter.js';
+import { PAGE, boardWith, convertSlides } from './fixtures.js';
+import { XMLElement, findAll } from './xml-parser.js';
+
+/** The shape properties of the sample board's step shape with the given changes */
+function stepProperties(changes: object): XMLElement {
+  const [slide] = convertSlides(boardWith({ '1:3': changes }));
+  const step = findAll(slide, 'p:sp').find(shape => findAll(shape, 'p:cNvPr')[0].attributes.name === 'Step')!;
+  return findAll(step, 'p:spPr')[0];
+}
+
+test('dash patterns use a preset dash when their proportions match one', () => {
+  const dashed = findAll(stepProperties({ dashPattern: [8, 6] }), 'a:ln')[0];
+  assert.equal(findAll(dashed, 'a:prstDash')[0].attributes.val, 'dash');
+
+  const custom = findAll(stepProperties({ dashPattern: [6] }), 'a:ln')[0];
+  assert.deepEqual(findAll(custom, 'a:ds').map(stop => stop.attributes), [{ d: '300000', sp: '300000' }]);
+});
+
+test('stroke caps, joins and alignment are kept', () => {
+  const line = findAll(stepProperties({ strokeCap: 'ROUND', strokeJoin: 'BEVEL', strokeAlign: 'INSIDE' }), 'a:ln')[0];
+
+  assert.deepEqual(line.attributes, { w: '25400', cap: 'rnd', algn: 'in' });
+  assert.equal(findAll(line, 'a:bevel').length, 1);
+});
+
+test('effects are written in DrawingML order, with spread as a scale', () => {
+  const effects: EffectData[] = [
+    { type: 'DROP_SHADOW', radius: 8, offset: { x: 0, y: 4 }, spread: 10, color: { r: 255, g: 0, b: 0 }, opacity: 0.25 },
+    { type: 'INNER_SHADOW', radius: 2, offset: { x: 2, y: 0 } },
+    { type: 'LAYER_BLUR', radius: 4 }
+  ];
+  const [list] = findAll(stepProperties({ effects, blendMode: 'MULTIPLY' }), 'a:effectLst');
+
+  assert.deepEqual(list.children.map(effect => effect.name), ['a:blur', 'a:fillOverlay', 'a:innerShdw', 'a:outerShdw']);
+  assert.equal(list.children[1].attributes.blend, 'mult');
+  assert.deepEqual(list.children[3].attributes,
+    { blurRad: '101600', dist: '50800', dir: '5400000', sx: '110000', sy: '120000', algn: 'ctr', rotWithShape: '0' });
+  assert.deepEqual(findAll(list.children[3], 'a:srgbClr')[0].attributes, { val: 'FF0000' });
+  assert.deepEqual(findAll(list.children[3], 'a:alpha')[0].attributes, { val: '25000' });
+});
+
+test('layer opacity is folded into the paints of the node and its descendants', () => {
+  const [frame] = boardWith({ '1:3': { opacity: 0.5 } }) as ContainerNodeData[];
+  const [slide] = convertSlides([{ ...frame, children: [{ ...frame, id: '1:6', type: 'GROUP', opacity: 0.5, children: frame.children }] }]);
+  const step = findAll(slide, 'p:sp').find(shape => findAll(shape, 'p:cNvPr')[0].attributes.name === 'Step')!;
+
+  assert.deepEqual(findAll(step, 'a:alpha').map(alpha => alpha.attributes.val), ['25000', '25000', '25000']);
+});
+
+test('dropped effects and outside strokes are reported', () => {
+  const effects: EffectData[] = [{ type: 'BACKGROUND_BLUR', radius: 4 }];
+  const codes = PPTXConverter.fidelityReport(boardWith({ '1:3': { effects, strokeAlign: 'OUTSIDE' } }), PAGE)
+    .filter(issue => issue.nodeId === '1:3')
+    .map(issue => issue.code);
+
+  assert.deepEqual(codes.sort(), ['effect-dropped', 'stroke-centered']);
+});
@@ -0,0 +1,111 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { PPTXConverter } from '../src/pptx-converter.js';
+import { SCHEMA_VERSION } from '../src/schema.js';
+import { ZipEntry, readZip } from '../src/zip.js';
+import { PAGE, sampleNodes } from './fixtures.js';
+import { XMLElement, findAll, parseXML } from './xml-parser.js';
+
+const text = (data: Uint8Array | string) => (typeof data === 'string' ? data : new TextDecoder().decode(data));
+
+/** Resolve a relationship target against the folder of the part whose relationships list it */
+function resolveTarget(relsPath: string, target: string): string {
+  const folder = relsPath.replace(/_rels\/[^/]+$/, '').split('/').filter(Boolean);
+  for (const segment of target.split('/')) {
+    if (segment === '..') folder.pop();
+    else if (segment !== '.') folder.push(segment);
+  }
+  return folder.join('/');
+}
+
+function paragraphTexts(part: XMLElement): string[] {
+  return findAll(part, 'a:p').map(paragraph => findAll(paragraph, 'a:t').map(run => run.text).join(''));
+}
+
+test('the XML export parses and keeps names and text', () => {
+  const presentation = parseXML(PPTXConverter.toXML(sampleNodes(), PAGE));
+  const metadata = presentation.children[0];
+
+  assert.equal(presentation.name, 'presentation');
+  assert.equal(findAll(metadata, 'schemaVersion')[0].text, SCHEMA_VERSION);
+  assert.equal(findAll(metadata, 'sourcePage')[0].text, PAGE.name);
+
+  const slides = findAll(presentation, 'slide');
+  assert.equal(slides.length, 1);
+  assert.equal(slides[0].attributes.name, 'Frame & <1>');
+  const shapes = findAll(slides[0], 'shape');
+  assert.deepEqual(shapes.map(shape => findAll(shape, 'id')[0].text), ['1:2', '1:3', '1:4', '1:5']);
+  assert.deepEqual(findAll(slides[0], 'text').map(element => element.text), [
+    'Roadmap "Q1" & <beyond>', 'Plan', 'Ship ]]> safely\nThen iterate'
+  ]);
+});
+
+test('the test parser rejects malformed XML', () => {
+  const malformed = [
+    '<a><b></a></b>',
+    '<a>1 < 2</a>',
+    '<a>fish & chips</a>',
+    '<a title=x/>',
+    '<a x="1" x="2"/>',
+    '<a/><b/>',
+    '<a>'
+  ];
+  malformed.forEach(xml => assert.throws(() => parseXML(xml), xml));
+  assert.equal(parseXML('<a>&lt;&#65;&#x42;<![CDATA[<&>]]></a>').text, '<AB<&>');
+});
+
+test('every part of the pptx is well-formed and referenced', () => {
+  const entries = readZip(PPTXConverter.toPPTX(sampleNodes(), PAGE));
+  const parts = new Map<string, XMLElement>();
+  entries.forEach((entry: ZipEntry) => {
+    if (/\.(xml|rels)$/.test(entry.path)) {
+      assert.doesNotThrow(() => parts.set(entry.path, parseXML(text(entry.data))), entry.path);
+    }
+  });
+
+  const contentTypes = parts.get('[Content_Types].xml')!;
+  const overrides = findAll(contentTypes, 'Override').map(override => override.attributes.PartName.slice(1));
+  overrides.forEach(part => assert.ok(parts.has(part), `content type of missing part ${part}`));
+  for (const path of parts.keys()) {
+    if (path.endsWith('.xml') && path !== '[Content_Types].xml') {
+      assert.ok(overrides.includes(path), `no content type for ${path}`);
+    }
+  }
+
+  for (const [path, part] of parts) {
+    if (!path.endsWith('.rels')) continue;
+    for (const relationship of findAll(part, 'Relationship')) {
+      if (relationship.attributes.TargetMode === 'External') continue;
+      const target = resolveTarget(path, relationship.attributes.Target);
+      assert.ok(entries.some(entry => entry.path === target), `${path} targets missing ${target}`);
+    }
+  }
+});
+
+test('the pptx slide holds the board text', () => {
+  const entries = readZip(PPTXConverter.toPPTX(sampleNodes(), PAGE));
+  const slides = entries.filter(entry => /^ppt\/slides\/slide\d+\.xml$/.test(entry.path));
+  assert.equal(slides.length, 1);
+
+  const texts = paragraphTexts(parseXML(text(slides[0].data)));
+  for (const expected of ['Roadmap "Q1" & <beyond>', 'Plan', 'Ship ]]> safely', 'Then iterate']) {
+    assert.ok(texts.includes(expected), `missing ${expected} in ${JSON.stringify(texts)}`);
+  }
+});
+
+test('the bundle holds the deck and the report of one conversion', () => {
+  const issues: FidelityIssueData[] = [
+    { nodeId: '1:4', nodeName: 'Note', severity: 'warning', code: 'test-issue', message: 'Found extracting', source: 'extraction' }
+  ];
+  const pptx = PPTXConverter.convert(sampleNodes(), PAGE, {}, {}, issues);
+  assert.deepEqual(pptx.report, PPTXConverter.fidelityReport(sampleNodes(), PAGE, {}, {}, issues));
+
+  const entries = readZip(PPTXConverter.toBundle(sampleNodes(), PAGE, 'Board', pptx));
+  assert.deepEqual(entries.map(entry => entry.path),
+    ['Board.pptx', 'Board.json', 'Board.mmd', 'Board.dot', 'Board.drawio', 'Board fidelity report.txt']);
+  assert.deepEqual(entries[0].data, pptx.data);
+  assert.deepEqual(JSON.parse(text(entries[1].data)).report, pptx.report);
+  assert.ok(text(entries[5].data).includes('Found extracting'));
+});
@@ -0,0 +1,64 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { addIssue, describeIssues, formatReport, issuesOfNodes, sortIssues } from '../src/fidelity.js';
+import { PPTXConverter } from '../src/pptx-converter.js';
+import { readZip } from '../src/zip.js';
+import { PAGE, sampleNodes } from './fixtures.js';
+import { findAll, parseXML } from './xml-parser.js';
+
+/** Issues of the sample board, in the order they were found */
+function sampleIssues(): FidelityIssueData[] {
+  const issues: FidelityIssueData[] = [];
+  addIssue(issues, { id: '1:2', name: 'Heading' }, 'info', 'font-substituted', 'Font replaced');
+  addIssue(issues, { id: '1:3', name: 'Step' }, 'error', 'image-missing', 'Image left out');
+  addIssue(issues, { id: '1:3', name: 'Step' }, 'error', 'image-missing', 'Image left out again');
+  addIssue(issues, { name: 'Section title' }, 'error', 'added', 'Not a node of the board');
+  addIssue(issues, { id: '9:9', name: '' }, 'warning', 'effect-dropped', 'Blur dropped', 'extraction');
+  return issues;
+}
+
+test('issues are recorded once per node and kind, and only for nodes of the board', () => {
+  assert.deepEqual(sampleIssues().map(issue => [issue.nodeId, issue.code, issue.source]), [
+    ['1:2', 'font-substituted', 'conversion'],
+    ['1:3', 'image-missing', 'conversion'],
+    ['9:9', 'effect-dropped', 'extraction']
+  ]);
+});
+
+test('issues are sorted by severity and kept for the nodes exported', () => {
+  assert.deepEqual(sortIssues(sampleIssues()).map(issue => issue.severity), ['error', 'warning', 'info']);
+  assert.deepEqual(issuesOfNodes(sampleIssues(), sampleNodes()).map(issue => issue.nodeId), ['1:2', '1:3']);
+});
+
+test('summaries count issues by severity', () => {
+  const [info, error, warning] = sampleIssues();
+
+  assert.equal(describeIssues([]), 'no issues');
+  assert.equal(describeIssues([info, info, error]), '1 error, 2 info');
+  assert.equal(describeIssues([warning, warning]), '2 warnings');
+});
+
+test('reports list one issue per line, the most severe first', () => {
+  assert.equal(formatReport(sampleIssues(), 'Board'), [
+    'Fidelity report: Board',
+    '1 error, 1 warning, 1 info',
+    '',
+    '[error] Step (1:3): Image left out',
+    '[warning] Unnamed (9:9): Blur dropped',
+    '[info] Heading (1:2): Font replaced',
+    ''
+  ].join('\n'));
+});
+
+test('decks carry their report in the document properties', () => {
+  const [, , warning] = sampleIssues();
+  const entries = readZip(PPTXConverter.toPPTX(sampleNodes(), PAGE, {}, {}, [warning]));
+  const custom = entries.find(entry => entry.path === 'docProps/custom.xml')!;
+  const properties = new Map(findAll(parseXML(new TextDecoder().decode(custom.data as Uint8Array)), 'property')
+    .map(property => [property.attributes.name, property.children[0].text]));
+
+  assert.equal(properties.get('FidelityWarnings'), '1');
+  assert.equal(properties.get('Fidelity 1'), 'warning | effect-dropped | 9:9 |  | Blur dropped');
+});
@@ -0,0 +1,123 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { starPath, svgPathToGeometry } from '../src/custom-geometry.js';
+import { PPTXConverter } from '../src/pptx-converter.js';
+import { readZip } from '../src/zip.js';
+import { PAGE, paragraphs, sampleNodes } from './fixtures.js';
+import { XMLElement, findAll, parseXML } from './xml-parser.js';
+
+const BLACK: SolidPaintData = { type: 'solid', color: { r: 0, g: 0, b: 0 }, opacity: 1 };
+
+const BOX = { x: 40, y: 40, width: 200, height: 100, rotation: 0, visible: true };
+
+/** The sample frame holding the given nodes instead of its own */
+function boardOf(children: ExtractedNodeData[]): ExtractedNodeData[] {
+  const [frame] = sampleNodes() as ContainerNodeData[];
+  return [{ ...frame, children }];
+}
+
+/** Slide one of a deck, with its relationships */
+function convertSlide(nodes: ExtractedNodeData[]): { slide: XMLElement; relationships: XMLElement[] } {
+  const entries = readZip(PPTXConverter.toPPTX(boardOf(nodes), PAGE));
+  const part = (path: string) => parseXML(new TextDecoder().decode(entries.find(entry => entry.path === path)!.data as Uint8Array));
+  return {
+    slide: part('ppt/slides/slide1.xml'),
+    relationships: findAll(part('ppt/slides/_rels/slide1.xml.rels'), 'Relationship')
+  };
+}
+
+/** The element of a slide whose non-visual properties carry the given name */
+function elementNamed(slide: XMLElement, element: string, name: string): XMLElement {
+  return findAll(slide, element).find(candidate => findAll(candidate, 'p:cNvPr')[0].attributes.name === name)!;
+}
+
+const texts = (element: XMLElement) => findAll(element, 'a:p').map(paragraph => findAll(paragraph, 'a:t').map(run => run.text).join(''));
+
+test('tables become DrawingML tables with their merged cells', () => {
+  const cell = (text: string, span: Partial<TableCellData> = {}): TableCellData =>
+    ({ text, textParagraphs: paragraphs(text), fills: [], ...span });
+  const table: TableNodeData = {
+    id: '5:1', name: 'Plan', type: 'TABLE', ...BOX, fills: [],
+    columnWidths: [100, 60, 40],
+    rowHeights: [40, 30],
+    cells: [
+      [cell('Wide', { columnSpan: 2 }), cell('', { columnSpan: 0 }), cell('Tall', { rowSpan: 2 })],
+      [cell('A'), cell('B'), cell('', { rowSpan: 0 })]
+    ]
+  };
+  const frame = elementNamed(convertSlide([table]).slide, 'p:graphicFrame', 'Plan');
+
+  assert.deepEqual(findAll(frame, 'a:gridCol').map(column => column.attributes.w), ['1270000', '762000', '508000']);
+  assert.deepEqual(findAll(frame, 'a:tr').map(row => row.attributes.h), ['508000', '381000']);
+  const cells = findAll(frame, 'a:tc');
+  assert.deepEqual(cells.map(({ attributes }) => [attributes.gridSpan, attributes.rowSpan, attributes.hMerge, attributes.vMerge]), [
+    ['2', undefined, undefined, undefined],
+    [undefined, undefined, '1', undefined],
+    [undefined, '2', undefined, undefined],
+    [undefined, undefined, undefined, undefined],
+    [undefined, undefined, undefined, undefined],
+    [undefined, undefined, undefined, '1']
+  ]);
+  assert.deepEqual(cells.map(texts).flat().filter(text => text !== ''), ['Wide', 'Tall', 'A', 'B']);
+});
+
+test('code blocks are monospaced text headed by their language', () => {
+  const code: CodeBlockNodeData = {
+    id: '5:2', name: 'Snippet', type: 'CODE_BLOCK', ...BOX, code: 'if (a) {\n\treturn;\n}', codeLanguage: 'TYPESCRIPT'
+  };
+  const shape = elementNamed(convertSlide([code]).slide, 'p:sp', 'Snippet');
+
+  assert.deepEqual(texts(shape), ['TypeScript', 'if (a) {', '    return;', '}']);
+  assert.deepEqual(findAll(shape, 'a:latin').map(font => font.attributes.typeface), ['Courier New', 'Courier New', 'Courier New']);
+  assert.equal(findAll(shape, 'a:prstGeom')[0].attributes.prst, 'roundRect');
+});
+
+test('embeds without a picture are cards linking to their URL', () => {
+  const embed: EmbedNodeData = {
+    id: '5:3', name: 'Video', type: 'EMBED', ...BOX,
+    title: 'Launch video', description: 'Two minutes', url: 'https://example.com/launch', provider: 'Example'
+  };
+  const { slide, relationships } = convertSlide([embed]);
+  const card = elementNamed(slide, 'p:sp', 'Video');
+
+  assert.deepEqual(texts(card), ['Launch video', 'Two minutes', 'Example']);
+  const link = relationships.find(relationship => relationship.attributes.Id === findAll(card, 'a:hlinkClick')[0].attributes['r:id'])!;
+  assert.deepEqual([link.attributes.Target, link.attributes.TargetMode], ['https://example.com/launch', 'External']);
+});
+
+test('lines, stars and vectors are drawn natively', () => {
+  const line: LineNodeData = { id: '5:4', name: 'Rule', type: 'LINE', ...BOX, height: 0, strokes: [BLACK], strokeWeight: 2 };
+  const star: StarNodeData = {
+    id: '5:5', name: 'Star', type: 'STAR', ...BOX, fills: [BLACK], strokes: [], strokeWeight: 0, pointCount: 5, innerRadius: 0.4
+  };
+  const vector: VectorNodeData = {
+    id: '5:6', name: 'Scribble', type: 'VECTOR', ...BOX, fills: [], strokes: [BLACK], strokeWeight: 2,
+    vectorPaths: [{ windingRule: 'NONE', data: 'M 0 0 L 200 100' }]
+  };
+  const { slide } = convertSlide([line, star, vector]);
+
+  assert.equal(findAll(elementNamed(slide, 'p:cxnSp', 'Rule'), 'a:prstGeom')[0].attributes.prst, 'line');
+  assert.equal(findAll(findAll(elementNamed(slide, 'p:sp', 'Star'), 'a:path')[0], 'a:lnTo').length, 9);
+  assert.equal(findAll(elementNamed(slide, 'p:sp', 'Scribble'), 'a:path')[0].attributes.fill, 'none');
+});
+
+test('stars are stretched over the whole box', () => {
+  const star = starPath(5, 0.4).commands;
+  const points = star.slice(0, -1) as ['M' | 'L', number, number][];
+
+  assert.equal(star.length, 11);
+  assert.deepEqual(star[0], ['M', 500, 0]);
+  assert.deepEqual([Math.min(...points.map(point => point[1])), Math.max(...points.map(point => point[1]))], [0, 1000]);
+  assert.deepEqual([Math.min(...points.map(point => point[2])), Math.max(...points.map(point => point[2]))], [0, 1000]);
+});
+
+test('vector paths keep their coordinates, with quadratic curves made cubic', () => {
+  assert.deepEqual(svgPathToGeometry('M 0 0 L 10 0 Q 10 10 0 10 Z', 10, 10, true), {
+    commands: [['M', 0, 0], ['L', 1000, 0], ['C', 1000, 667, 667, 1000, 0, 1000], ['Z']],
+    fill: 'none',
+    width: 1000,
+    height: 1000
+  });
+});
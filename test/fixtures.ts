@@ -0,0 +1,125 @@
+// Test Fixtures
+// A small board exercising the node types the converters write most
+
+/// <reference path="../src/model.d.ts" />
+
+import { ConversionOptions, PPTXConverter } from '../src/pptx-converter.js';
+import { readZip } from '../src/zip.js';
+import { XMLElement, parseXML } from './xml-parser.js';
+
+const BLACK: SolidPaintData = { type: 'solid', color: { r: 0, g: 0, b: 0 }, opacity: 1 };
+const WHITE: SolidPaintData = { type: 'solid', color: { r: 255, g: 255, b: 255 }, opacity: 1 };
+const YELLOW: SolidPaintData = { type: 'solid', color: { r: 255, g: 217, b: 102 }, opacity: 1 };
+
+/** Paragraphs of plain runs, one per line */
+export function paragraphs(text: string): TextParagraphData[] {
+  return text.split('\n').map(line => ({ runs: line ? [{ text: line }] : [], indentation: 0 }));
+}
+
+export const PAGE: PageInfoData = { id: '0:1', name: 'Board & <Plans>' };
+
+/** A frame holding a heading, a shape with text, a sticky and a connector between them */
+export function sampleNodes(): ExtractedNodeData[] {
+  const heading = 'Roadmap "Q1" & <beyond>';
+  const note = 'Ship ]]> safely\nThen iterate';
+
+  return [
+    {
+      id: '1:1',
+      name: 'Frame & <1>',
+      type: 'FRAME',
+      x: 0,
+      y: 0,
+      width: 960,
+      height: 540,
+      rotation: 0,
+      visible: true,
+      fills: [WHITE],
+      strokes: [],
+      children: [
+        {
+          id: '1:2',
+          name: 'Heading',
+          type: 'TEXT',
+          x: 40,
+          y: 20,
+          width: 600,
+          height: 60,
+          rotation: 0,
+          visible: true,
+          fills: [BLACK],
+          text: heading,
+          textParagraphs: paragraphs(heading),
+          fontSize: 36
+        },
+        {
+          id: '1:3',
+          name: 'Step',
+          type: 'SHAPE_WITH_TEXT',
+          shapeType: 'ROUNDED_RECTANGLE',
+          x: 80,
+          y: 200,
+          width: 200,
+          height: 100,
+          rotation: 0,
+          visible: true,
+          fills: [WHITE],
+          strokes: [BLACK],
+          strokeWeight: 2,
+          text: 'Plan',
+          textParagraphs: paragraphs('Plan')
+        },
+        {
+          id: '1:4',
+          name: 'Note',
+          type: 'STICKY',
+          x: 600,
+          y: 180,
+          width: 240,
+          height: 240,
+          rotation: 0,
+          transform: [[0.9659258, 0.2588190, 600], [-0.2588190, 0.9659258, 180]],
+          visible: true,
+          fills: [YELLOW],
+          text: note,
+          textParagraphs: paragraphs(note),
+          isWideWidth: false,
+          authorName: 'Ada',
+          authorVisible: true
+        },
+        {
+          id: '1:5',
+          name: 'Link',
+          type: 'CONNECTOR',
+          x: 280,
+          y: 250,
+          width: 320,
+          height: 50,
+          rotation: 0,
+          visible: true,
+          strokes: [BLACK],
+          strokeWeight: 2,
+          connectorLineType: 'ELBOWED',
+          connectorStart: { x: 280, y: 250, endpointNodeId: '1:3', magnet: 'RIGHT', strokeCap: 'NONE' },
+          connectorEnd: { x: 600, y: 300, endpointNodeId: '1:4', magnet: 'LEFT', strokeCap: 'ARROW_LINES' }
+        }
+      ]
+    }
+  ];
+}
+
+/** The sample frame with the given children changed, by id */
+export function boardWith(changes: { [id: string]: object }): ExtractedNodeData[] {
+  const [frame] = sampleNodes() as ContainerNodeData[];
+  const children = frame.children.map(child => ({ ...child, ...changes[child.id] }) as ExtractedNodeData);
+  return [{ ...frame, children }];
+}
+
+/** Convert nodes to a deck and parse its slides, in slide order */
+export function convertSlides(nodes: ExtractedNodeData[], options: ConversionOptions = {}): XMLElement[] {
+  const slideNumber = (path: string) => Number(path.replace(/\D/g, ''));
+  return readZip(PPTXConverter.toPPTX(nodes, PAGE, options))
+    .filter(entry => /^ppt\/slides\/slide\d+\.xml$/.test(entry.path))
+    .sort((a, b) => slideNumber(a.path) - slideNumber(b.path))
+    .map(entry => parseXML(typeof entry.data === 'string' ? entry.data : new TextDecoder().decode(entry.data)));
+}
@@ -0,0 +1,77 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import {
+  detectEastAsianLanguage,
+  eastAsianFont,
+  estimateFontScale,
+  estimateTextSize,
+  formatFontSubstitutions,
+  parseFontSubstitutions
+} from '../src/fonts.js';
+import { PPTXConverter } from '../src/pptx-converter.js';
+import { PAGE, boardWith, convertSlides, paragraphs } from './fixtures.js';
+import { XMLElement, findAll } from './xml-parser.js';
+
+/** The shape of a slide with the given name */
+function shapeNamed(slide: XMLElement, name: string): XMLElement {
+  return findAll(slide, 'p:sp').find(shape => findAll(shape, 'p:cNvPr')[0].attributes.name === name)!;
+}
+
+test('substitution tables read and write one family per line', () => {
+  const substitutions = parseFontSubstitutions('Inter = Segoe UI\r\nno separator\n = Arial\nCaveat =\n Roboto Mono=Consolas ');
+
+  assert.deepEqual(substitutions, { 'Inter': 'Segoe UI', 'Roboto Mono': 'Consolas' });
+  assert.equal(formatFontSubstitutions(substitutions), 'Inter = Segoe UI\nRoboto Mono = Consolas');
+  assert.deepEqual(parseFontSubstitutions(formatFontSubstitutions(substitutions)), substitutions);
+});
+
+test('the East Asian language is told by kana and Hangul', () => {
+  assert.equal(detectEastAsianLanguage(['Plan', '日本語のテキスト']), 'ja-JP');
+  assert.equal(detectEastAsianLanguage(['한국어', '漢字']), 'ko-KR');
+  assert.equal(detectEastAsianLanguage(['汉字']), 'zh-CN');
+  assert.equal(detectEastAsianLanguage(['Plan']), undefined);
+
+  assert.equal(eastAsianFont('Noto Sans JP', {}, 'ja-JP'), 'Noto Sans JP');
+  assert.equal(eastAsianFont('Inter', { Inter: 'Segoe UI' }, 'ko-KR'), 'Malgun Gothic');
+  assert.equal(eastAsianFont(undefined, {}, 'zh-CN'), 'Microsoft YaHei');
+});
+
+test('text is shrunk in steps until it is estimated to fit', () => {
+  const text = paragraphs('A line of text long enough to wrap a few times in a narrow box');
+
+  assert.equal(estimateFontScale(text, 2000, 100), 1);
+  const scale = estimateFontScale(text, 200, 60);
+  assert.ok(scale < 1 && scale >= 0.25, String(scale));
+  assert.equal(Math.round(scale * 20), scale * 20);
+  assert.equal(estimateFontScale(text, 1, 1), 0.25);
+
+  assert.deepEqual(estimateTextSize([{ runs: [{ text: 'abcd', fontSize: 20 }], indentation: 0 }]), { width: 44, height: 24 });
+});
+
+test('runs are written in their substitute fonts, with an East Asian typeface for East Asian text', () => {
+  const runs = [{ text: 'Plan ', fontFamily: 'Inter' }, { text: '計画', fontFamily: 'Inter' }];
+  const nodes = boardWith({ '1:2': { text: 'Plan 計画', textParagraphs: [{ runs, indentation: 0 }] } });
+  const heading = shapeNamed(convertSlides(nodes, { fontSubstitutions: { Inter: 'Segoe UI' } })[0], 'Heading');
+  const [latin, eastAsian] = findAll(heading, 'a:rPr');
+
+  assert.equal(latin.attributes.lang, 'en-US');
+  assert.deepEqual(findAll(latin, 'a:latin')[0].attributes, { typeface: 'Segoe UI' });
+  assert.deepEqual(findAll(latin, 'a:ea'), []);
+  assert.equal(eastAsian.attributes.lang, 'zh-CN');
+  assert.deepEqual(findAll(eastAsian, 'a:ea')[0].attributes, { typeface: 'Microsoft YaHei' });
+});
+
+test('overflowing sticky text is shrunk to fit and reported', () => {
+  const long = Array(12).fill('A sticky with far more text than it can hold').join('\n');
+  const nodes = boardWith({ '1:4': { text: long, textParagraphs: paragraphs(long) } });
+  const note = shapeNamed(convertSlides(nodes)[0], 'Note');
+  const autofit = findAll(note, 'a:normAutofit')[0];
+
+  assert.ok(Number(autofit.attributes.fontScale) < 100000);
+  assert.ok(PPTXConverter.fidelityReport(nodes, PAGE).some(issue => issue.nodeId === '1:4' && issue.code === 'text-shrunk'));
+
+  const growing = boardWith({ '1:2': { textAutoResize: 'HEIGHT' } });
+  assert.equal(findAll(shapeNamed(convertSlides(growing)[0], 'Heading'), 'a:spAutoFit').length, 1);
+});
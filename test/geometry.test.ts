@@ -0,0 +1,74 @@
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import {
+  Transform,
+  applyTransform,
+  getBounds,
+  getPlacement,
+  getTransform,
+  multiplyTransforms,
+  placementToTransform
+} from '../src/geometry.js';
+
+function assertTransformsEqual(actual: Transform, expected: Transform, message?: string) {
+  actual.forEach((row, i) => row.forEach((value, j) => {
+    assert.ok(Math.abs(value - expected[i][j]) < 1e-9, `${message || ''} [${i}][${j}]: ${value} != ${expected[i][j]}`);
+  }));
+}
+
+function rotation(degrees: number, x: number, y: number): Transform {
+  const angle = (degrees * Math.PI) / 180;
+  return [[Math.cos(angle), -Math.sin(angle), x], [Math.sin(angle), Math.cos(angle), y]];
+}
+
+test('getTransform falls back to x, y and counter-clockwise rotation', () => {
+  assertTransformsEqual(getTransform({ x: 10, y: 20, rotation: 90 }), [[0, 1, 10], [-1, 0, 20]]);
+  const transform = [[1, 0, 5], [0, 1, 6]];
+  assert.equal(getTransform({ x: 0, y: 0, rotation: 0, transform }), transform);
+});
+
+test('placements and transforms convert back and forth', () => {
+  const mirror: Transform = [[1, 0, 0], [0, -1, 0]];
+  const transforms: Transform[] = [
+    [[1, 0, 40], [0, 1, 30]],
+    rotation(30, 100, 50),
+    rotation(-135, -20, 400),
+    multiplyTransforms(rotation(60, 10, 10), mirror),
+    multiplyTransforms(rotation(180, 0, 0), mirror)
+  ];
+
+  for (const transform of transforms) {
+    const node = { x: 0, y: 0, rotation: 0, width: 120, height: 80, transform };
+    const placement = getPlacement(node);
+    assert.ok(placement.rotation >= 0 && placement.rotation < 360);
+    assertTransformsEqual(placementToTransform(placement), transform, JSON.stringify(transform));
+  }
+});
+
+test('getPlacement rotates about the center', () => {
+  const placement = getPlacement({ x: 0, y: 0, rotation: -90, width: 100, height: 50 });
+  assert.equal(placement.rotation, 90);
+  assert.equal(placement.flipV, false);
+  assert.ok(Math.abs(placement.x - -75) < 1e-9 && Math.abs(placement.y - 25) < 1e-9);
+});
+
+test('multiplyTransforms applies the second transform first', () => {
+  const translate: Transform = [[1, 0, 10], [0, 1, 0]];
+  const scale: Transform = [[2, 0, 0], [0, 2, 0]];
+  assert.deepEqual(applyTransform(multiplyTransforms(translate, scale), 1, 1), { x: 12, y: 2 });
+  assert.deepEqual(applyTransform(multiplyTransforms(scale, translate), 1, 1), { x: 22, y: 2 });
+  assertTransformsEqual(multiplyTransforms(rotation(45, 3, 4), [[1, 0, 0], [0, 1, 0]]), rotation(45, 3, 4));
+});
+
+test('getBounds encloses rotated nodes', () => {
+  const bounds = getBounds([
+    { x: 0, y: 0, rotation: 0, width: 10, height: 10 },
+    { x: 100, y: 100, rotation: 0, width: 20, height: 20, transform: rotation(45, 100, 100) }
+  ]);
+  const diagonal = 20 * Math.SQRT2;
+  assert.equal(bounds.x, 0);
+  assert.equal(bounds.y, 0);
+  assert.ok(Math.abs(bounds.width - (100 + diagonal / 2)) < 1e-9);
+  assert.ok(Math.abs(bounds.height - (100 + diagonal)) < 1e-9);
+  assert.deepEqual(getBounds([]), { x: 0, y: 0, width: 0, height: 0 });
+});
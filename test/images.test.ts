@@ -0,0 +1,87 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { ImageAssets, PPTXConverter } from '../src/pptx-converter.js';
+import { readZip } from '../src/zip.js';
+import { PAGE, boardWith, sampleNodes } from './fixtures.js';
+import { XMLElement, findAll, parseXML } from './xml-parser.js';
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const JPEG = new Uint8Array([0xff, 0xd8, 0xff, 0xe0]);
+
+const IMAGES: ImageAssets = {
+  wide: { bytes: PNG, width: 400, height: 100 },
+  square: { bytes: JPEG, width: 100, height: 100 }
+};
+
+/** A 200 × 100 rectangle filled with the given image paint */
+function picture(id: string, fill: Partial<ImagePaintData>): ShapeNodeData {
+  return {
+    id, name: `Picture ${id}`, type: 'RECTANGLE', x: 40, y: 300, width: 200, height: 100, rotation: 0, visible: true,
+    fills: [{ type: 'image', imageHash: 'wide', scaleMode: 'FILL', opacity: 1, ...fill }], strokes: []
+  };
+}
+
+/** Slide one of a deck of the sample frame holding the given nodes, with its relationships and media */
+function convert(nodes: ExtractedNodeData[]): { slide: XMLElement; relationships: XMLElement[]; media: string[] } {
+  const [frame] = sampleNodes() as ContainerNodeData[];
+  const entries = readZip(PPTXConverter.toPPTX([{ ...frame, children: nodes }], PAGE, {}, IMAGES));
+  const part = (path: string) => parseXML(new TextDecoder().decode(entries.find(entry => entry.path === path)!.data as Uint8Array));
+  return {
+    slide: part('ppt/slides/slide1.xml'),
+    relationships: findAll(part('ppt/slides/_rels/slide1.xml.rels'), 'Relationship'),
+    media: entries.map(entry => entry.path).filter(path => path.startsWith('ppt/media/'))
+  };
+}
+
+const blipFill = (slide: XMLElement, name: string) =>
+  findAll(findAll(slide, 'p:pic').find(pic => findAll(pic, 'p:cNvPr')[0].attributes.name === name)!, 'p:blipFill')[0];
+
+test('image-filled shapes are pictures sharing one media part per image', () => {
+  const { slide, relationships, media } = convert([picture('6:1', {}), picture('6:2', {}), picture('6:3', { imageHash: 'square' })]);
+  const targets = findAll(slide, 'a:blip').map(blip =>
+    relationships.find(relationship => relationship.attributes.Id === blip.attributes['r:embed'])!.attributes.Target);
+
+  assert.equal(findAll(slide, 'p:pic').length, 3);
+  assert.deepEqual(targets, ['../media/image1.png', '../media/image1.png', '../media/image2.jpeg']);
+  assert.deepEqual(media, ['ppt/media/image1.png', 'ppt/media/image2.jpeg']);
+});
+
+test('scale modes crop, letterbox or tile the image', () => {
+  const { slide } = convert([
+    picture('6:1', { scaleMode: 'FILL' }),
+    picture('6:2', { scaleMode: 'FIT', imageHash: 'square' }),
+    picture('6:3', { scaleMode: 'CROP', imageTransform: [[0.5, 0, 0.25], [0, 1, 0]] }),
+    picture('6:4', { scaleMode: 'TILE', scalingFactor: 0.5, opacity: 0.5 })
+  ]);
+
+  assert.deepEqual(findAll(blipFill(slide, 'Picture 6:1'), 'a:srcRect')[0].attributes, { l: '25000', r: '25000' });
+  assert.deepEqual(findAll(blipFill(slide, 'Picture 6:2'), 'a:fillRect')[0].attributes, { l: '25000', r: '25000' });
+  assert.deepEqual(findAll(blipFill(slide, 'Picture 6:3'), 'a:srcRect')[0].attributes, { l: '25000', r: '25000' });
+  const tiled = blipFill(slide, 'Picture 6:4');
+  assert.equal(findAll(tiled, 'a:tile')[0].attributes.sx, '50000');
+  assert.equal(findAll(tiled, 'a:alphaModFix')[0].attributes.amt, '50000');
+});
+
+test('shapes with text keep the image as their fill', () => {
+  const nodes = boardWith({ '1:3': { fills: [{ type: 'image', imageHash: 'square', scaleMode: 'FILL', opacity: 1 }] } });
+  const entries = readZip(PPTXConverter.toPPTX(nodes, PAGE, {}, IMAGES));
+  const slide = parseXML(new TextDecoder().decode(entries.find(entry => entry.path === 'ppt/slides/slide1.xml')!.data as Uint8Array));
+  const step = findAll(slide, 'p:sp').find(shape => findAll(shape, 'p:cNvPr')[0].attributes.name === 'Step')!;
+
+  assert.equal(findAll(findAll(step, 'p:spPr')[0], 'a:blipFill').length, 1);
+  assert.equal(findAll(slide, 'p:pic').length, 0);
+});
+
+test('nodes without a native equivalent are rendered pictures, reported either way', () => {
+  const rendered: ExtractedNodeData = { ...picture('6:1', {}), fills: [], fallbackImage: 'square' };
+  const missing: ExtractedNodeData = { ...picture('6:2', {}), fills: [], fallbackImage: 'absent' };
+  const { slide } = convert([rendered, missing]);
+  const [frame] = sampleNodes() as ContainerNodeData[];
+  const report = PPTXConverter.fidelityReport([{ ...frame, children: [rendered, missing] }], PAGE, {}, IMAGES);
+
+  assert.deepEqual(findAll(slide, 'p:pic').map(pic => findAll(pic, 'p:cNvPr')[0].attributes.name), ['Picture 6:1']);
+  assert.deepEqual(report.map(issue => [issue.nodeId, issue.severity, issue.code]),
+    [['6:2', 'error', 'picture-missing'], ['6:1', 'info', 'rendered-as-picture']]);
+});
@@ -0,0 +1,70 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { PPTXConverter } from '../src/pptx-converter.js';
+import { SCHEMA_VERSION } from '../src/schema.js';
+import { PAGE, convertSlides, sampleNodes } from './fixtures.js';
+import { findAll } from './xml-parser.js';
+
+const RED = { r: 255, g: 0, b: 0 };
+
+/** A 1.x export, which listed simplified shapes */
+const LEGACY_EXPORT = {
+  format: 'figjam2pptx',
+  version: '1.0.0',
+  page: { name: 'Old board' },
+  shapes: [
+    { type: 'rectangle', position: { x: 0, y: 0 }, size: { width: 100, height: 50 }, rotation: 0,
+      fill: { type: 'solid', color: RED, opacity: 1 }, properties: { cornerRadius: 4 } },
+    { type: 'shape', position: { x: 200, y: 0 }, size: { width: 100, height: 50 }, rotation: 0,
+      text: 'Decide', properties: { shapeType: 'DIAMOND' } },
+    { type: 'textbox', position: { x: 0, y: 200 }, size: { width: 200, height: 200 }, rotation: 0,
+      fill: { type: 'gradient', gradientStops: [{ position: 0, color: { ...RED, a: 1 } }], opacity: 1 }, text: 'Sticky' },
+    { type: 'connector', position: { x: 100, y: 25 }, size: { width: 100, height: 0 }, rotation: 0,
+      stroke: { color: RED, width: 2 } }
+  ]
+};
+
+test('1.x exports read back as nodes of their FigJam types', () => {
+  const payload = PPTXConverter.fromJSON(JSON.stringify(LEGACY_EXPORT));
+
+  assert.deepEqual(payload.pageInfo, { name: 'Old board' });
+  assert.deepEqual(payload.nodes.map(node => node.type), ['RECTANGLE', 'SHAPE_WITH_TEXT', 'STICKY', 'CONNECTOR']);
+  assert.deepEqual(payload.nodes.map(node => node.id), ['1', '2', '3', '4']);
+
+  const [rectangle, shape, sticky, connector] =
+    payload.nodes as [ShapeNodeData, ShapeWithTextNodeData, StickyNodeData, ConnectorNodeData];
+  assert.equal(rectangle.cornerRadius, 4);
+  assert.equal(shape.shapeType, 'DIAMOND');
+  assert.deepEqual(sticky.fills.map(fill => fill.type === 'gradient' ? fill.gradientType : fill.type), ['GRADIENT_LINEAR']);
+  assert.deepEqual([connector.connectorStart, connector.connectorEnd].map(end => end && [end.x, end.y]), [[100, 25], [200, 25]]);
+
+  // And convert like current exports
+  const [slide] = convertSlides(payload.nodes);
+  assert.deepEqual(findAll(slide, 'a:t').map(run => run.text), ['Decide', 'Sticky']);
+});
+
+test('JSON exports keep the issues found extracting the board, not those of converting it', () => {
+  const extraction: FidelityIssueData = {
+    nodeId: '1:4', nodeName: 'Note', severity: 'error', code: 'image-fill-skipped', message: 'Image left out', source: 'extraction'
+  };
+  const conversion: FidelityIssueData = { ...extraction, severity: 'info', code: 'text-shrunk', source: 'conversion' };
+  const payload = PPTXConverter.fromJSON(PPTXConverter.toJSON(sampleNodes(), PAGE, [extraction, conversion]));
+
+  assert.deepEqual(payload.issues, [extraction]);
+  assert.deepEqual(payload.pageInfo, PAGE);
+});
+
+test('raw plugin payloads are read with their issues, named after the file when unnamed', () => {
+  const issues: FidelityIssueData[] = [
+    { nodeId: '1:3', nodeName: 'Step', severity: 'warning', code: 'paints-dropped', message: 'Top fill only', source: 'extraction' }
+  ];
+  const payload = PPTXConverter.fromJSON(JSON.stringify({ nodes: sampleNodes(), pageInfo: {}, issues }), 'board');
+
+  assert.equal(payload.schemaVersion, SCHEMA_VERSION);
+  assert.deepEqual(payload.pageInfo, { name: 'board' });
+  assert.deepEqual(payload.nodes, sampleNodes());
+  assert.deepEqual(payload.issues, issues);
+  assert.throws(() => PPTXConverter.fromJSON('{"format":"other"}'), /Not a figjam2pptx JSON export/);
+});
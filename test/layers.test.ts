@@ -0,0 +1,60 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { arrangeLayers } from '../src/layers.js';
+import { boardWith, convertSlides, paragraphs, sampleNodes } from './fixtures.js';
+import { XMLElement, findAll } from './xml-parser.js';
+
+/** Names of the shapes on a slide, with whether they are hidden */
+function shapeNames(slide: XMLElement, hidden: boolean): string[] {
+  return findAll(slide, 'p:cNvPr')
+    .filter(properties => (properties.attributes.hidden === '1') === hidden)
+    .map(properties => properties.attributes.name);
+}
+
+const LABELLED = { text: 'depends on', textParagraphs: paragraphs('depends on') };
+
+test('hidden stickies and connectors are written hidden with their caption and label', () => {
+  const [slide] = convertSlides(boardWith({ '1:4': { visible: false }, '1:5': { visible: false, ...LABELLED } }), {
+    hiddenLayers: 'hidden'
+  });
+
+  assert.deepEqual(shapeNames(slide, true).sort(), ['Link', 'Link label', 'Note', 'Note author', 'Note with author']);
+  assert.ok(!shapeNames(slide, false).some(name => name.startsWith('Note') || name.startsWith('Link')));
+});
+
+test('hidden layers are left out in skip mode', () => {
+  const [slide] = convertSlides(boardWith({ '1:4': { visible: false }, '1:5': { visible: false, ...LABELLED } }));
+  const names = shapeNames(slide, false);
+
+  assert.deepEqual(shapeNames(slide, true), []);
+  assert.ok(names.includes('Heading') && names.includes('Step'));
+  assert.ok(!names.some(name => name.startsWith('Note') || name.startsWith('Link')));
+});
+
+test('locked stickies and connectors lock their caption and label too', () => {
+  const [slide] = convertSlides(boardWith({ '1:4': { locked: true }, '1:5': { locked: true, ...LABELLED } }));
+  const locked = (element: XMLElement) => element.attributes.noMove === '1';
+
+  const groups = findAll(slide, 'p:grpSp').filter(group => findAll(group, 'p:cNvPr')[0].attributes.name === 'Note with author');
+  assert.equal(groups.length, 1);
+  assert.ok(locked(findAll(groups[0], 'a:grpSpLocks')[0]));
+
+  const shapes = findAll(slide, 'p:sp').filter(shape =>
+    ['Note', 'Note author', 'Link label'].includes(findAll(shape, 'p:cNvPr')[0].attributes.name));
+  assert.equal(shapes.length, 3);
+  shapes.forEach(shape => assert.ok(locked(findAll(shape, 'a:spLocks')[0])));
+  assert.ok(locked(findAll(slide, 'a:cxnSpLocks')[0]));
+
+  const unlocked = findAll(slide, 'p:sp').find(shape => findAll(shape, 'p:cNvPr')[0].attributes.name === 'Step')!;
+  assert.deepEqual(findAll(unlocked, 'a:spLocks'), []);
+});
+
+test('arrangeLayers stacks children by z-index at every level', () => {
+  const [frame] = sampleNodes() as ContainerNodeData[];
+  const children = frame.children.map((child, index) => ({ ...child, zIndex: frame.children.length - index }));
+  const [arranged] = arrangeLayers([{ ...frame, children }], 'skip') as ContainerNodeData[];
+
+  assert.deepEqual(arranged.children.map(child => child.id), ['1:5', '1:4', '1:3', '1:2']);
+});
@@ -0,0 +1,83 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { flattenPaints, gradientGeometry } from '../src/paints.js';
+import { PPTXConverter } from '../src/pptx-converter.js';
+import { PAGE, boardWith, convertSlides } from './fixtures.js';
+import { findAll } from './xml-parser.js';
+
+const BLACK: SolidPaintData = { type: 'solid', color: { r: 0, g: 0, b: 0 }, opacity: 1 };
+const RED = { r: 255, g: 0, b: 0, a: 1 };
+const BLUE = { r: 0, g: 0, b: 255, a: 1 };
+
+function gradient(gradientType: GradientPaintData['gradientType'], gradientTransform?: number[][]): GradientPaintData {
+  return {
+    type: 'gradient',
+    gradientType,
+    gradientStops: [{ position: 0, color: RED }, { position: 1, color: BLUE }],
+    gradientTransform,
+    opacity: 1
+  };
+}
+
+test('paints beneath an opaque paint are dropped and solids are composited', () => {
+  const white: SolidPaintData = { type: 'solid', color: { r: 255, g: 255, b: 255 }, opacity: 0.5 };
+
+  assert.deepEqual(flattenPaints([gradient('GRADIENT_LINEAR'), BLACK, white]), [
+    { type: 'solid', color: { r: 128, g: 128, b: 128 }, opacity: 1 }
+  ]);
+});
+
+test('translucent gradients over a solid carry the solid in their stops', () => {
+  const [layer] = flattenPaints([BLACK, { ...gradient('GRADIENT_LINEAR'), opacity: 0.5 }]) as GradientPaintData[];
+
+  assert.equal(layer.opacity, 1);
+  assert.deepEqual(layer.gradientStops.map(stop => stop.color), [{ r: 128, g: 0, b: 0, a: 1 }, { r: 0, g: 0, b: 128, a: 1 }]);
+});
+
+test('stacked gradients stay separate layers', () => {
+  const top = { ...gradient('GRADIENT_RADIAL'), opacity: 0.5 };
+  assert.deepEqual(flattenPaints([gradient('GRADIENT_LINEAR'), top]), [gradient('GRADIENT_LINEAR'), top]);
+});
+
+test('linear gradients follow their transform across the box', () => {
+  assert.deepEqual(gradientGeometry(gradient('GRADIENT_LINEAR'), 200, 100), {
+    angle: 0,
+    stops: [{ position: 0, color: RED }, { position: 1, color: BLUE }]
+  });
+
+  // Top to bottom
+  const vertical = gradientGeometry(gradient('GRADIENT_LINEAR', [[0, 1, 0], [-1, 0, 1]]), 200, 100);
+  assert.equal(vertical.angle, 90);
+  assert.deepEqual(vertical.stops.map(stop => stop.position), [0, 1]);
+});
+
+test('radial gradients reach the corners of the box', () => {
+  const geometry = gradientGeometry(gradient('GRADIENT_RADIAL'), 100, 100);
+
+  assert.equal(geometry.path, 'circle');
+  assert.deepEqual(geometry.center, { x: 0.5, y: 0.5 });
+  // The colors end at the inscribed circle and are extended to the corners
+  const [first, last, extended] = geometry.stops;
+  assert.equal(geometry.stops.length, 3);
+  assert.deepEqual(first, { position: 0, color: RED });
+  assert.ok(Math.abs(last.position - Math.SQRT1_2) < 1e-9);
+  assert.deepEqual(extended, { position: 1, color: BLUE });
+});
+
+test('gradient fills are written as DrawingML gradients and approximations reported', () => {
+  const nodes = boardWith({ '1:3': { fills: [gradient('GRADIENT_LINEAR', [[0, 1, 0], [-1, 0, 1]])] } });
+  const [slide] = convertSlides(nodes);
+  const step = findAll(slide, 'p:sp').find(shape => findAll(shape, 'p:cNvPr')[0].attributes.name === 'Step')!;
+
+  assert.deepEqual(findAll(step, 'a:gs').map(stop => stop.attributes.pos), ['0', '100000']);
+  assert.deepEqual(findAll(step, 'a:srgbClr').slice(0, 2).map(color => color.attributes.val), ['FF0000', '0000FF']);
+  assert.equal(findAll(step, 'a:lin')[0].attributes.ang, '5400000');
+
+  const angular = boardWith({ '1:3': { fills: [gradient('GRADIENT_LINEAR'), { ...gradient('GRADIENT_ANGULAR'), opacity: 0.5 }] } });
+  const codes = PPTXConverter.fidelityReport(angular, PAGE)
+    .filter(issue => issue.nodeId === '1:3')
+    .map(issue => issue.code);
+  assert.deepEqual(codes.sort(), ['gradient-approximated', 'paints-layered']);
+});
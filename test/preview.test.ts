@@ -0,0 +1,58 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { countNodeTypes, filterNodes, renderIssueList, renderLayerTree, renderSlidePreview } from '../src/preview.js';
+import { SlideBuilder } from '../src/slide-builder.js';
+import { PAGE, boardWith, sampleNodes } from './fixtures.js';
+import { findAll, parseXML } from './xml-parser.js';
+
+// 16:9 slide size in EMU
+const SLIDE_SIZE = { width: 12192000, height: 6858000 };
+
+/** Ids of the nodes of the sample board, depth first */
+function ids(nodes: ExtractedNodeData[]): string[] {
+  return nodes.flatMap(node => [node.id, ...('children' in node ? ids(node.children) : [])]);
+}
+
+test('leaving nodes out drops the groups left empty', () => {
+  const [frame] = sampleNodes() as ContainerNodeData[];
+  const [heading, step, note, link] = frame.children;
+  const group: ContainerNodeData = { ...frame, id: '1:6', type: 'GROUP', children: [note] };
+  const nodes = [{ ...frame, children: [heading, step, group, link] }];
+
+  assert.deepEqual(ids(filterNodes(nodes, node => node.id !== '1:4')), ['1:1', '1:2', '1:3', '1:5']);
+  assert.deepEqual(ids(filterNodes(nodes, node => node.id !== '1:3')), ['1:1', '1:2', '1:6', '1:4', '1:5']);
+  assert.deepEqual(countNodeTypes(nodes), { FRAME: 1, TEXT: 1, SHAPE_WITH_TEXT: 1, GROUP: 1, STICKY: 1, CONNECTOR: 1 });
+});
+
+test('the layer tree nests nodes with a checkbox each', () => {
+  const tree = renderLayerTree(sampleNodes(), node => node.id === '1:3');
+
+  assert.ok(tree.startsWith('<ul class="layer-tree"><li><label class="layer" data-node-id="1:1">' +
+    '<input type="checkbox" data-node-id="1:1" checked><span class="layer-type">frame</span> Frame &amp; &lt;1&gt;</label>' +
+    '<ul class="layer-tree">'));
+  assert.ok(tree.includes('<input type="checkbox" data-node-id="1:3"><span class="layer-type">shape with text</span> Step'));
+  assert.equal(tree.match(/ checked>/g)!.length, 4);
+});
+
+test('issues are listed with their node, or a note when there are none', () => {
+  const issue: FidelityIssueData = {
+    nodeId: '1:3', nodeName: '', severity: 'warning', code: 'effect-dropped', message: 'Blur <dropped>', source: 'conversion'
+  };
+
+  assert.equal(renderIssueList([]), '<p class="issue-none">Nothing is left out or approximated.</p>');
+  assert.equal(renderIssueList([issue]), '<ul class="issue-list"><li class="issue issue-warning" data-node-id="1:3" ' +
+    'title="effect-dropped"><span class="issue-severity">warning</span> <strong>1:3</strong>: Blur &lt;dropped&gt;</li></ul>');
+});
+
+test('slide previews are well-formed SVG fitted to the slide, without hidden nodes', () => {
+  const nodes = boardWith({ '1:2': { visible: false } });
+  const [slide] = SlideBuilder.build(nodes, PAGE);
+  const svg = parseXML(renderSlidePreview(slide, SLIDE_SIZE, {}));
+  const drawn = findAll(svg, 'g').map(group => group.attributes['data-node-id']);
+
+  assert.equal(svg.attributes.viewBox, '0 0 960 540');
+  assert.deepEqual(drawn, ['1:3', '1:4', '1:5']);
+  assert.equal(findAll(svg, 'rect')[0].attributes.fill, 'rgb(255, 255, 255)');
+});
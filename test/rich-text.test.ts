@@ -0,0 +1,70 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { PPTXConverter } from '../src/pptx-converter.js';
+import { readZip } from '../src/zip.js';
+import { PAGE, boardWith } from './fixtures.js';
+import { XMLElement, findAll, parseXML } from './xml-parser.js';
+
+const STYLED: TextParagraphData[] = [
+  {
+    indentation: 0,
+    runs: [
+      { text: 'Bold', bold: true, fontSize: 24 },
+      { text: ' italic', italic: true, fontSize: 12, color: { r: 255, g: 0, b: 0 } },
+      { text: ' under', underline: true },
+      { text: ' struck', strikethrough: true },
+      { text: ' link', hyperlink: 'https://example.com/?a=1&b=2' }
+    ]
+  },
+  { listType: 'UNORDERED', indentation: 1, runs: [{ text: 'Point' }] },
+  { listType: 'UNORDERED', indentation: 2, runs: [{ text: 'Sub point' }] },
+  { listType: 'ORDERED', indentation: 1, runs: [{ text: 'Step' }] }
+];
+
+/** The heading of the sample board with styled paragraphs, and its slide's relationships */
+function styledHeading(): { heading: XMLElement; relationships: XMLElement[] } {
+  const nodes = boardWith({ '1:2': { text: 'styled', textParagraphs: STYLED } });
+  const entries = readZip(PPTXConverter.toPPTX(nodes, PAGE));
+  const part = (path: string) => parseXML(new TextDecoder().decode(entries.find(entry => entry.path === path)!.data as Uint8Array));
+  const slide = part('ppt/slides/slide1.xml');
+  return {
+    heading: findAll(slide, 'p:sp').find(shape => findAll(shape, 'p:cNvPr')[0].attributes.name === 'Heading')!,
+    relationships: findAll(part('ppt/slides/_rels/slide1.xml.rels'), 'Relationship')
+  };
+}
+
+test('runs keep their weight, slant, decoration, size and color', () => {
+  const [first] = findAll(styledHeading().heading, 'a:p');
+  const runs = findAll(first, 'a:r');
+
+  assert.deepEqual(runs.map(run => findAll(run, 'a:t')[0].text), ['Bold', ' italic', ' under', ' struck', ' link']);
+  const properties = runs.map(run => findAll(run, 'a:rPr')[0].attributes);
+  assert.equal(properties[0].b, '1');
+  // Sizes scale with the slide, so only their proportion is kept
+  assert.equal(Number(properties[0].sz), 2 * Number(properties[1].sz));
+  assert.equal(properties[1].i, '1');
+  assert.equal(findAll(runs[1], 'a:srgbClr')[0].attributes.val, 'FF0000');
+  assert.equal(properties[2].u, 'sng');
+  assert.equal(properties[3].strike, 'sngStrike');
+  assert.ok(properties.slice(1).every(attributes => attributes.b === undefined));
+});
+
+test('hyperlinks are related to the slide as external targets', () => {
+  const { heading, relationships } = styledHeading();
+  const id = findAll(heading, 'a:hlinkClick')[0].attributes['r:id'];
+  const link = relationships.find(relationship => relationship.attributes.Id === id)!;
+
+  assert.equal(link.attributes.Target, 'https://example.com/?a=1&b=2');
+  assert.equal(link.attributes.TargetMode, 'External');
+});
+
+test('lists are bulleted or numbered with their nesting', () => {
+  const [, point, subPoint, step] = findAll(styledHeading().heading, 'a:p').map(paragraph => findAll(paragraph, 'a:pPr')[0]);
+
+  assert.ok(findAll(point, 'a:buChar').length === 1 && point.attributes.lvl === undefined);
+  assert.equal(subPoint.attributes.lvl, '1');
+  assert.ok(Number(subPoint.attributes.marL) > Number(point.attributes.marL));
+  assert.equal(findAll(step, 'a:buAutoNum').length, 1);
+});
@@ -0,0 +1,63 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { PPTXConverter } from '../src/pptx-converter.js';
+import { SCHEMA_VERSION, assertValid, validateExport, validateNodes } from '../src/schema.js';
+import { PAGE, sampleNodes } from './fixtures.js';
+
+function sampleDocument(): any {
+  return JSON.parse(PPTXConverter.toJSON(sampleNodes(), PAGE));
+}
+
+test('the JSON export is valid and reads back unchanged', () => {
+  const document = sampleDocument();
+  assert.deepEqual(validateExport(document), []);
+  assert.equal(document.schemaVersion, SCHEMA_VERSION);
+
+  const payload = PPTXConverter.fromJSON(JSON.stringify(document));
+  assert.deepEqual(payload.nodes, sampleNodes());
+  assert.deepEqual(payload.pageInfo, PAGE);
+  assert.equal(payload.schemaVersion, SCHEMA_VERSION);
+});
+
+test('exports of 2.x versions up to the current one are valid, other versions are not', () => {
+  const document = sampleDocument();
+  for (const version of ['2.0.0', '2.3.1', '2.7.0', '2.7.12']) {
+    assert.deepEqual(validateExport({ ...document, schemaVersion: version }), [], version);
+  }
+  for (const version of ['1.0.0', '3.0.0', '2.8.0', '2.10.0', '2.70.0', '2.x', '2.0']) {
+    assert.deepEqual(validateExport({ ...document, schemaVersion: version }), [
+      { path: '/schemaVersion', message: 'must match ^2\\.(0|1|2|3|4|5|6|7)\\.\\d+$' }
+    ], version);
+  }
+});
+
+test('errors point at the offending value', () => {
+  const document = sampleDocument();
+  delete document.nodes[0].children[0].width;
+  document.nodes[0].children[1].fills[0].type = 'pattern';
+  document.nodes[0].children[2].opacity = 2;
+
+  assert.deepEqual(validateExport(document), [
+    { path: '/nodes/0/children/0/width', message: 'is required' },
+    { path: '/nodes/0/children/1/fills/0/type', message: 'unknown type "pattern"' },
+    { path: '/nodes/0/children/2/opacity', message: 'must be at most 1' }
+  ]);
+});
+
+test('nodes of a raw payload are validated on their own', () => {
+  assert.deepEqual(validateNodes(sampleNodes()), []);
+  assert.deepEqual(validateNodes([{ ...sampleNodes()[0], type: 'BLOB' }]), [
+    { path: '/nodes/0/type', message: 'unknown type "BLOB"' }
+  ]);
+  assert.throws(() => PPTXConverter.fromJSON(JSON.stringify({ nodes: [{ type: 'TEXT' }] })), /Invalid payload/);
+});
+
+test('assertValid lists the first errors', () => {
+  assert.doesNotThrow(() => assertValid([], 'export'));
+  assert.throws(
+    () => assertValid([{ path: '/nodes', message: 'must be array' }, { path: '', message: 'is wrong' }], 'export'),
+    { message: `Invalid export (schema ${SCHEMA_VERSION}): /nodes: must be array; /: is wrong` }
+  );
+});
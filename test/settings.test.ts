@@ -0,0 +1,81 @@
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { DEFAULT_FONT_SUBSTITUTIONS, normalizeFontSubstitutions } from '../src/fonts.js';
+import {
+  DEFAULT_PRESETS,
+  DEFAULT_SETTINGS,
+  normalizePresets,
+  normalizeSettings,
+  parsePresets,
+  serializePresets,
+  toConversionOptions
+} from '../src/settings.js';
+import { DEFAULT_THEME_COLORS, normalizeThemeColors } from '../src/theme.js';
+
+test('settings are completed with the defaults', () => {
+  for (const value of [undefined, null, 'pptx', 42, []]) {
+    assert.deepEqual(normalizeSettings(value), DEFAULT_SETTINGS, String(value));
+  }
+  assert.deepEqual(normalizeSettings({ format: 'xml', dpi: 144 }), { ...DEFAULT_SETTINGS, format: 'xml', dpi: 144 });
+});
+
+test('invalid and unknown settings are ignored', () => {
+  const settings = normalizeSettings({
+    format: 'pdf',
+    scope: 'frames',
+    slideSize: 16,
+    dpi: -1,
+    customSlideSize: { width: 10, height: 'tall' },
+    templateFonts: 'yes',
+    framePattern: 'Slide *',
+    shiny: true
+  });
+
+  assert.deepEqual(settings, { ...DEFAULT_SETTINGS, scope: 'frames', framePattern: 'Slide *' });
+  assert.equal('shiny' in settings, false);
+});
+
+test('normalized settings do not share tables with the defaults', () => {
+  const settings = normalizeSettings({});
+  settings.themeColors.accent1 = '000000';
+  settings.fontSubstitutions.Inter = 'Arial';
+  settings.customSlideSize.width = 1;
+
+  assert.notEqual(DEFAULT_SETTINGS.themeColors.accent1, '000000');
+  assert.notEqual(DEFAULT_SETTINGS.fontSubstitutions.Inter, 'Arial');
+  assert.notEqual(DEFAULT_SETTINGS.customSlideSize.width, 1);
+});
+
+test('presets files read back what was written', () => {
+  const presets = [
+    ...DEFAULT_PRESETS,
+    { name: 'Custom', settings: { ...DEFAULT_SETTINGS, slideSize: 'custom' as const, customSlideSize: { width: 8, height: 8 } } }
+  ];
+  assert.deepEqual(parsePresets(serializePresets(presets)), presets);
+});
+
+test('presets without a name are dropped and names are trimmed', () => {
+  assert.deepEqual(normalizePresets({ name: 'A' }), []);
+  assert.deepEqual(normalizePresets([null, { name: '  ' }, { name: 3 }, { name: ' A ', settings: { format: 'zip' } }]), [
+    { name: 'A', settings: { ...DEFAULT_SETTINGS, format: 'zip' } }
+  ]);
+});
+
+test('files that are not presets files are rejected', () => {
+  assert.throws(() => parsePresets('{'), /Invalid presets file/);
+  assert.throws(() => parsePresets('[]'), /Not a presets file/);
+  assert.throws(() => parsePresets('{"format": "figjam2pptx", "presets": []}'), /Not a presets file/);
+});
+
+test('theme color and font tables keep their valid entries', () => {
+  assert.deepEqual(normalizeThemeColors('red'), DEFAULT_THEME_COLORS);
+  assert.deepEqual(normalizeThemeColors({ accent1: '#ff0000', accent2: 'red', dk1: 12, custom: '00FF00' }), { accent1: 'FF0000' });
+
+  assert.deepEqual(normalizeFontSubstitutions(null), DEFAULT_FONT_SUBSTITUTIONS);
+  assert.deepEqual(normalizeFontSubstitutions({ ' Inter ': ' Arial ', Roboto: '', ' ': 'Calibri', Caveat: 1 }), { Inter: 'Arial' });
+});
+
+test('theme colors are only passed to the converter in theme mode', () => {
+  assert.deepEqual(toConversionOptions(DEFAULT_SETTINGS).themeColors, DEFAULT_THEME_COLORS);
+  assert.equal(toConversionOptions({ ...DEFAULT_SETTINGS, colorMode: 'rgb' }).themeColors, undefined);
+});
@@ -0,0 +1,72 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { CUSTOM_SHAPE_PATHS, regularPolygonPath } from '../src/custom-geometry.js';
+import { SHAPE_PRESETS } from '../src/pptx-converter.js';
+import { convertSlides, sampleNodes } from './fixtures.js';
+import { XMLElement, findAll } from './xml-parser.js';
+
+/** The sample frame holding one shape with text, named after it, per shape type */
+function boardOfShapes(shapeTypes: string[], cornerRadius?: number): ExtractedNodeData[] {
+  const [frame] = sampleNodes() as ContainerNodeData[];
+  const children = shapeTypes.map((shapeType, i): ShapeWithTextNodeData => ({
+    id: `4:${i + 1}`,
+    name: shapeType,
+    type: 'SHAPE_WITH_TEXT',
+    shapeType,
+    x: (i % 8) * 110,
+    y: Math.floor(i / 8) * 110,
+    width: 200,
+    height: 100,
+    rotation: 0,
+    visible: true,
+    fills: [],
+    strokes: [],
+    cornerRadius,
+    text: '',
+    textParagraphs: []
+  }));
+  return [{ ...frame, children }];
+}
+
+/** Shapes of a slide by name */
+function shapesByName(slide: XMLElement): Map<string, XMLElement> {
+  return new Map(findAll(slide, 'p:sp').map(shape => [findAll(shape, 'p:cNvPr')[0].attributes.name, shape]));
+}
+
+test('shape types with a PowerPoint counterpart use its preset geometry', () => {
+  const shapeTypes = Object.keys(SHAPE_PRESETS);
+  const shapes = shapesByName(convertSlides(boardOfShapes([...shapeTypes, 'UNKNOWN_SHAPE']))[0]);
+
+  shapeTypes.forEach(shapeType =>
+    assert.equal(findAll(shapes.get(shapeType)!, 'a:prstGeom')[0].attributes.prst, SHAPE_PRESETS[shapeType], shapeType));
+  assert.equal(findAll(shapes.get('UNKNOWN_SHAPE')!, 'a:prstGeom')[0].attributes.prst, 'rect');
+});
+
+test('other shape types are drawn with custom geometry', () => {
+  const shapeTypes = Object.keys(CUSTOM_SHAPE_PATHS);
+  const shapes = shapesByName(convertSlides(boardOfShapes(shapeTypes))[0]);
+
+  shapeTypes.forEach(shapeType => {
+    const geometry = findAll(shapes.get(shapeType)!, 'a:custGeom');
+    assert.equal(geometry.length, 1, shapeType);
+    assert.equal(findAll(geometry[0], 'a:path').length, CUSTOM_SHAPE_PATHS[shapeType].length, shapeType);
+    // Connectors glue to the top, left, bottom and right like on a rectangle
+    assert.equal(findAll(geometry[0], 'a:cxn').length, 4, shapeType);
+  });
+  assert.equal(findAll(shapes.get('ENG_FILE')!, 'a:path')[1].attributes.fill, 'darkenLess');
+});
+
+test('rounded rectangles keep their corner radius relative to the shorter side', () => {
+  const shapes = shapesByName(convertSlides(boardOfShapes(['ROUNDED_RECTANGLE'], 20))[0]);
+  assert.deepEqual(findAll(shapes.get('ROUNDED_RECTANGLE')!, 'a:gd')[0].attributes, { name: 'adj', fmla: 'val 20000' });
+
+  const capped = shapesByName(convertSlides(boardOfShapes(['ROUNDED_RECTANGLE'], 500))[0]);
+  assert.equal(findAll(capped.get('ROUNDED_RECTANGLE')!, 'a:gd')[0].attributes.fmla, 'val 50000');
+});
+
+test('regular polygons are stretched over the whole box', () => {
+  assert.deepEqual(regularPolygonPath(4).commands, [['M', 500, 0], ['L', 1000, 500], ['L', 500, 1000], ['L', 0, 500], ['Z']]);
+  assert.deepEqual(regularPolygonPath(3).commands, [['M', 500, 0], ['L', 1000, 1000], ['L', 0, 1000], ['Z']]);
+});
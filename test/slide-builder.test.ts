@@ -0,0 +1,46 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { SlideBuilder } from '../src/slide-builder.js';
+import { PAGE, sampleNodes } from './fixtures.js';
+
+/** An empty frame, or a section, at the given position */
+function frame(name: string, x: number, y: number, type: 'FRAME' | 'SECTION' = 'FRAME'): ContainerNodeData {
+  return { id: name, name, type, x, y, width: 400, height: 300, rotation: 0, visible: true, children: [] };
+}
+
+// Two rows of frames, in layer order; "Frame 2" sits a little lower than "Frame 10"
+const BOARD = [frame('Frame 10', 500, 40), frame('Intro', 0, 0), frame('Frame 2', 1000, 0), frame('Outro', 0, 400)];
+
+test('slides follow reading order, layer order or name order', () => {
+  const names = (order?: 'reading' | 'layer' | 'name') => SlideBuilder.build(BOARD, PAGE, order).map(slide => slide.name);
+
+  assert.deepEqual(names(), ['Intro', 'Frame 10', 'Frame 2', 'Outro']);
+  assert.deepEqual(names('layer'), ['Frame 10', 'Intro', 'Frame 2', 'Outro']);
+  assert.deepEqual(names('name'), ['Frame 2', 'Frame 10', 'Intro', 'Outro']);
+});
+
+test('frames and sections become slides, and nodes outside them one more slide', () => {
+  const loose = (sampleNodes()[0] as ContainerNodeData).children[0];
+  const section = { ...frame('Ideas', 0, 600, 'SECTION'), visible: false };
+  const slides = SlideBuilder.build([...sampleNodes(), section, loose], PAGE);
+
+  assert.deepEqual(slides.map(slide => [slide.name, slide.title, slide.hidden]), [
+    ['Frame & <1>', undefined, false],
+    ['Ideas', 'Ideas', true],
+    [PAGE.name, undefined, undefined]
+  ]);
+  // Loose nodes keep their page coordinates, framed by their bounds
+  assert.deepEqual([slides[2].originX, slides[2].originY, slides[2].width, slides[2].height], [40, 20, 600, 60]);
+  assert.deepEqual(slides[2].nodes, [loose]);
+});
+
+test('pages keep their order and name the section of their slides', () => {
+  const page = (id: string, name: string, children: ExtractedNodeData[]): PageNodeData =>
+    ({ id, name, type: 'PAGE', x: 0, y: 0, width: 0, height: 0, rotation: 0, visible: true, children });
+  const slides = SlideBuilder.build([page('0:2', 'Second', [frame('B', 0, 0)]), page('0:1', 'First', BOARD)], PAGE, 'name');
+
+  assert.deepEqual(slides.map(slide => `${slide.section}/${slide.name}`),
+    ['Second/B', 'First/Frame 2', 'First/Frame 10', 'First/Intro', 'First/Outro']);
+});
@@ -0,0 +1,84 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { PPTXConverter } from '../src/pptx-converter.js';
+import { SlideBuilder } from '../src/slide-builder.js';
+import { findPlaceholders } from '../src/slide-layout.js';
+import { readZip } from '../src/zip.js';
+import { PAGE, convertSlides, paragraphs, sampleNodes } from './fixtures.js';
+import { XMLElement, findAll, parseXML } from './xml-parser.js';
+
+const text = (data: Uint8Array | string) => (typeof data === 'string' ? data : new TextDecoder().decode(data));
+
+/** A text node of the sample frame */
+function textNode(id: string, y: number, content: string): TextNodeData {
+  return {
+    id,
+    name: content.split('\n')[0],
+    type: 'TEXT',
+    x: 40,
+    y,
+    width: 300,
+    height: 30,
+    rotation: 0,
+    visible: true,
+    fills: [{ type: 'solid', color: { r: 0, g: 0, b: 0 }, opacity: 1 }],
+    text: content,
+    textParagraphs: paragraphs(content)
+  };
+}
+
+/** The sample frame with two stacked text nodes under its heading */
+function boardWithList(): ExtractedNodeData[] {
+  const [frame] = sampleNodes() as ContainerNodeData[];
+  return [{ ...frame, children: [...frame.children, textNode('1:6', 100, 'First point'), textNode('1:7', 140, 'Second point\nThird')] }];
+}
+
+/** Placeholder element of the shape with the given name, if it has one */
+function placeholderOf(slide: XMLElement, name: string): { [name: string]: string } | undefined {
+  const shape = findAll(slide, 'p:sp').find(candidate => findAll(candidate, 'p:cNvPr')[0].attributes.name === name);
+  assert.ok(shape, `no shape ${name}`);
+  const placeholder = findAll(shape!, 'p:ph')[0];
+  return placeholder ? placeholder.attributes : undefined;
+}
+
+test('the largest heading near the top titles the slide', () => {
+  const [slide] = SlideBuilder.build(boardWithList(), PAGE);
+
+  assert.deepEqual(findPlaceholders(slide, slide.nodes, 'title'), { titleNodeId: '1:2', bodies: [] });
+});
+
+test('stacked text becomes one bulleted body, leaving connected nodes free', () => {
+  const [slide] = SlideBuilder.build(boardWithList(), PAGE);
+  const { bodies } = findPlaceholders(slide, slide.nodes, 'structured');
+
+  assert.equal(bodies.length, 1);
+  assert.deepEqual(bodies[0].nodeIds, ['1:6', '1:7']);
+  assert.deepEqual(bodies[0].bounds, { x: 40, y: 100, width: 300, height: 70 });
+  assert.deepEqual(bodies[0].paragraphs.map(paragraph => [paragraph.runs[0].text, paragraph.listType, paragraph.indentation]), [
+    ['First point', 'UNORDERED', 1],
+    ['Second point', 'UNORDERED', 1],
+    ['Third', 'UNORDERED', 1]
+  ]);
+});
+
+test('structured slides use the Title and Content layout with their placeholders', () => {
+  const entries = readZip(PPTXConverter.toPPTX(boardWithList(), PAGE, { placeholders: 'structured' }));
+  const part = (path: string) => parseXML(text(entries.find(entry => entry.path === path)!.data));
+  const slide = part('ppt/slides/slide1.xml');
+
+  assert.deepEqual(placeholderOf(slide, 'Heading'), { type: 'title' });
+  assert.deepEqual(placeholderOf(slide, 'Body 1'), { type: 'body', idx: '1' });
+  assert.equal(placeholderOf(slide, 'Note'), undefined);
+  assert.ok(!findAll(slide, 'p:cNvPr').some(properties => ['First point', 'Second point'].includes(properties.attributes.name)));
+
+  const layout = findAll(part('ppt/slides/_rels/slide1.xml.rels'), 'Relationship')
+    .find(relationship => relationship.attributes.Type.endsWith('/slideLayout'))!;
+  assert.equal(part(`ppt/slides/${layout.attributes.Target}`.replace('slides/../', '')).attributes.type, 'obj');
+});
+
+test('slides keep free text boxes without placeholders', () => {
+  const [slide] = convertSlides(boardWithList());
+  assert.deepEqual(findAll(slide, 'p:ph'), []);
+});
@@ -0,0 +1,95 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { PPTXConverter } from '../src/pptx-converter.js';
+import { collectStickyNotes, getStickyColorName, removeStickies, StickyNotesMode } from '../src/stickies.js';
+import { readZip } from '../src/zip.js';
+import { PAGE, boardWith, convertSlides, paragraphs, sampleNodes } from './fixtures.js';
+import { findAll, parseXML } from './xml-parser.js';
+
+/** A sticky at the given position */
+function sticky(id: string, x: number, y: number, text: string, authorName: string = ''): StickyNodeData {
+  return {
+    id,
+    name: text,
+    type: 'STICKY',
+    x,
+    y,
+    width: 240,
+    height: 240,
+    rotation: 0,
+    visible: true,
+    fills: [],
+    text,
+    textParagraphs: paragraphs(text),
+    isWideWidth: false,
+    authorName,
+    authorVisible: authorName !== ''
+  };
+}
+
+/** A group of the given children */
+function group(id: string, children: ExtractedNodeData[]): ContainerNodeData {
+  return { id, name: id, type: 'GROUP', x: 0, y: 0, width: 0, height: 0, rotation: 0, visible: true, children };
+}
+
+/** Paragraph texts of the speaker notes of each slide, by slide number */
+function speakerNotes(nodes: ExtractedNodeData[], stickyNotes: StickyNotesMode): string[][] {
+  return readZip(PPTXConverter.toPPTX(nodes, PAGE, { stickyNotes }))
+    .filter(entry => /^ppt\/notesSlides\/notesSlide\d+\.xml$/.test(entry.path))
+    .map(entry => findAll(parseXML(new TextDecoder().decode(entry.data as Uint8Array)), 'a:p')
+      .map(paragraph => findAll(paragraph, 'a:t').map(run => run.text).join(''))
+      .filter(text => text !== ''));
+}
+
+test('sticky fills are named after the nearest FigJam color', () => {
+  assert.equal(getStickyColorName({ r: 255, g: 217, b: 102 }), 'yellow');
+  assert.equal(getStickyColorName({ r: 129, g: 200, b: 254 }), 'blue');
+  assert.equal(getStickyColorName({ r: 10, g: 20, b: 30 }), undefined);
+  assert.equal(getStickyColorName(undefined), undefined);
+});
+
+test('notes list shown stickies in reading order, with their authors', () => {
+  const frame: ContainerNodeData = {
+    id: '2:1', name: 'Frame', type: 'FRAME', x: 1000, y: 0, width: 600, height: 600, rotation: 0, visible: true,
+    children: [sticky('2:2', 0, 0, 'Framed')]
+  };
+  const hidden = { ...sticky('2:4', 0, 0, 'Hidden'), visible: false };
+  const notes = collectStickyNotes([
+    sticky('2:3', 500, 300, 'Second\n row', 'Ada'),
+    frame,
+    group('2:5', [sticky('2:6', 0, 300, 'First of the row'), hidden])
+  ]);
+
+  assert.deepEqual(notes, ['• Framed', '• First of the row', '• Second row — Ada']);
+});
+
+test('removing stickies drops the groups left empty', () => {
+  const kept: ShapeNodeData = {
+    id: '3:2', name: 'Box', type: 'RECTANGLE', x: 0, y: 0, width: 10, height: 10, rotation: 0, visible: true, fills: [], strokes: []
+  };
+  const nodes = removeStickies([group('3:1', [sticky('3:3', 0, 0, 'a'), kept]), group('3:4', [sticky('3:5', 0, 0, 'b')])]);
+
+  assert.deepEqual(nodes, [group('3:1', [kept])]);
+});
+
+test('stickies go to the slide, the speaker notes or both', () => {
+  const names = (stickyNotes: StickyNotesMode) =>
+    findAll(convertSlides(sampleNodes(), { stickyNotes })[0], 'p:cNvPr').map(properties => properties.attributes.name);
+  const note = '• Ship ]]> safely Then iterate — Ada';
+
+  assert.ok(names('slide').includes('Note with author'));
+  assert.deepEqual(speakerNotes(sampleNodes(), 'slide'), []);
+  assert.ok(!names('notes').some(name => name.startsWith('Note')));
+  assert.deepEqual(speakerNotes(sampleNodes(), 'notes'), [[note]]);
+  assert.ok(names('both').includes('Note with author'));
+  assert.deepEqual(speakerNotes(sampleNodes(), 'both'), [[note]]);
+});
+
+test('stickies without a fill are yellow', () => {
+  const [slide] = convertSlides(boardWith({ '1:4': { fills: [], authorVisible: false } }));
+  const note = findAll(slide, 'p:sp').find(shape => findAll(shape, 'p:cNvPr')[0].attributes.name === 'Note')!;
+
+  assert.equal(findAll(findAll(note, 'p:spPr')[0], 'a:srgbClr')[0].attributes.val, 'FFD966');
+});
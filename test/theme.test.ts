@@ -0,0 +1,44 @@
+/// <reference path="../src/model.d.ts" />
+
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { PPTXConverter } from '../src/pptx-converter.js';
+import { DEFAULT_THEME_COLORS, findSchemeColor, THEME_COLOR_SLOTS } from '../src/theme.js';
+import { readZip } from '../src/zip.js';
+import { PAGE, convertSlides, sampleNodes } from './fixtures.js';
+import { XMLElement, findAll, parseXML } from './xml-parser.js';
+
+/** The fill color of the named shape of a slide */
+function fillOf(slide: XMLElement, name: string): XMLElement {
+  const shape = findAll(slide, 'p:sp').find(candidate => findAll(candidate, 'p:cNvPr')[0].attributes.name === name)!;
+  return findAll(shape, 'a:solidFill')[0].children[0];
+}
+
+test('colors close to a slot are named after it, dark and light slots through the color map', () => {
+  assert.equal(findSchemeColor({ r: 13, g: 153, b: 255 }, DEFAULT_THEME_COLORS), 'accent1');
+  assert.equal(findSchemeColor({ r: 20, g: 160, b: 250 }, DEFAULT_THEME_COLORS), 'accent1');
+  assert.equal(findSchemeColor({ r: 0, g: 0, b: 0 }, DEFAULT_THEME_COLORS), 'tx1');
+  assert.equal(findSchemeColor({ r: 250, g: 250, b: 250 }, DEFAULT_THEME_COLORS), 'bg2');
+  assert.equal(findSchemeColor({ r: 255, g: 217, b: 102 }, DEFAULT_THEME_COLORS), undefined);
+  assert.equal(findSchemeColor({ r: 0, g: 0, b: 0 }, { accent2: '000000' }), 'accent2');
+});
+
+test('board colors are written as theme colors only when a color table is given', () => {
+  const [themed] = convertSlides(sampleNodes(), { themeColors: DEFAULT_THEME_COLORS });
+  const [plain] = convertSlides(sampleNodes());
+
+  assert.deepEqual(fillOf(themed, 'Step'), { name: 'a:schemeClr', attributes: { val: 'bg1' }, children: [], text: '' });
+  assert.deepEqual(fillOf(themed, 'Note'), { name: 'a:srgbClr', attributes: { val: 'FFD966' }, children: [], text: '' });
+  assert.deepEqual(fillOf(plain, 'Step'), { name: 'a:srgbClr', attributes: { val: 'FFFFFF' }, children: [], text: '' });
+});
+
+test('the built-in theme holds the default colors', () => {
+  const theme = readZip(PPTXConverter.toPPTX(sampleNodes(), PAGE)).find(entry => entry.path === 'ppt/theme/theme1.xml')!;
+  const scheme = findAll(parseXML(new TextDecoder().decode(theme.data as Uint8Array)), 'a:clrScheme')[0];
+
+  THEME_COLOR_SLOTS.forEach(slot => {
+    // The dark and light slots follow the system colors, last seen as black and white
+    const { attributes } = findAll(scheme, `a:${slot}`)[0].children[0];
+    assert.equal(attributes.lastClr || attributes.val, DEFAULT_THEME_COLORS[slot], slot);
+  });
+});
@@ -0,0 +1,141 @@
+// XML Parser
+// Minimal well-formedness parser for the tests, since Node has no DOMParser.
+// Checks tag nesting, attribute syntax and entity references, and keeps enough
+// of the tree to look elements up by name.
+
+export interface XMLElement {
+  name: string;
+  attributes: { [name: string]: string };
+  children: XMLElement[];
+  // Character data directly inside the element, entities resolved
+  text: string;
+}
+
+const ENTITIES: { [name: string]: string } = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+const NAME = /^[A-Za-z_][\w.:-]*/;
+
+/**
+ * Parse an XML document, throwing with the offset of the first error
+ */
+export function parseXML(xml: string): XMLElement {
+  const stack: XMLElement[] = [];
+  let root: XMLElement | undefined;
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} at offset ${position}`);
+  };
+
+  const skip = (terminator: string) => {
+    const end = xml.indexOf(terminator, position);
+    if (end < 0) fail(`Missing ${terminator}`);
+    const content = xml.slice(position, end);
+    position = end + terminator.length;
+    return content;
+  };
+
+  while (position < xml.length) {
+    if (xml.startsWith('<?', position)) {
+      skip('?>');
+    } else if (xml.startsWith('<!--', position)) {
+      skip('-->');
+    } else if (xml.startsWith('<![CDATA[', position)) {
+      if (stack.length === 0) fail('Character data outside the root element');
+      position += 9;
+      stack[stack.length - 1].text += skip(']]>');
+    } else if (xml.startsWith('</', position)) {
+      position += 2;
+      const name = readName();
+      skipSpace();
+      if (xml[position] !== '>') fail(`Malformed end tag </${name}`);
+      position++;
+      const open = stack.pop();
+      if (!open || open.name !== name) fail(`Unexpected </${name}>`);
+    } else if (xml[position] === '<') {
+      position++;
+      const element: XMLElement = { name: readName(), attributes: {}, children: [], text: '' };
+      readAttributes(element);
+      if (stack.length > 0) {
+        stack[stack.length - 1].children.push(element);
+      } else if (root) {
+        fail(`Second root element <${element.name}>`);
+      } else {
+        root = element;
+      }
+      if (xml.startsWith('/>', position)) {
+        position += 2;
+      } else if (xml[position] === '>') {
+        position++;
+        stack.push(element);
+      } else {
+        fail(`Malformed start tag <${element.name}`);
+      }
+    } else {
+      const end = xml.indexOf('<', position);
+      const text = decode(xml.slice(position, end < 0 ? xml.length : end));
+      if (stack.length > 0) {
+        stack[stack.length - 1].text += text;
+      } else if (text.trim() !== '') {
+        fail('Character data outside the root element');
+      }
+      position = end < 0 ? xml.length : end;
+    }
+  }
+
+  if (stack.length > 0) fail(`Unclosed <${stack[stack.length - 1].name}>`);
+  if (!root) return fail('No root element');
+  return root;
+
+  function readName(): string {
+    const match = NAME.exec(xml.slice(position, position + 256));
+    if (!match) fail('Expected a name');
+    position += match![0].length;
+    return match![0];
+  }
+
+  function skipSpace() {
+    while (/\s/.test(xml[position] || '')) position++;
+  }
+
+  function readAttributes(element: XMLElement) {
+    for (;;) {
+      const before = position;
+      skipSpace();
+      if (xml[position] === '>' || xml.startsWith('/>', position)) return;
+      if (position === before) fail('Expected whitespace before an attribute');
+      const name = readName();
+      skipSpace();
+      if (xml[position] !== '=') fail(`Attribute ${name} has no value`);
+      position++;
+      skipSpace();
+      const quote = xml[position];
+      if (quote !== '"' && quote !== "'") fail(`Attribute ${name} is not quoted`);
+      position++;
+      const value = skip(quote);
+      if (value.includes('<')) fail(`Attribute ${name} contains <`);
+      if (name in element.attributes) fail(`Duplicate attribute ${name}`);
+      element.attributes[name] = decode(value);
+    }
+  }
+
+  function decode(text: string): string {
+    return text.replace(/&([^;&<]*)(;?)/g, (reference, name: string, semicolon: string) => {
+      if (semicolon && name in ENTITIES) return ENTITIES[name];
+      if (semicolon && /^#[0-9]+$/.test(name)) return String.fromCodePoint(parseInt(name.slice(1), 10));
+      if (semicolon && /^#x[0-9a-fA-F]+$/.test(name)) return String.fromCodePoint(parseInt(name.slice(2), 16));
+      return fail(`Bad entity reference ${reference}`);
+    });
+  }
+}
+
+/**
+ * Find the descendants of an element with the given name, in document order
+ */
+export function findAll(element: XMLElement, name: string): XMLElement[] {
+  const found: XMLElement[] = [];
+  for (const child of element.children) {
+    if (child.name === name) found.push(child);
+    found.push(...findAll(child, name));
+  }
+  return found;
+}
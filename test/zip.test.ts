@@ -0,0 +1,57 @@
+import { strict as assert } from 'assert';
+import { test } from 'node:test';
+import { deflateRawSync } from 'zlib';
+import { crc32, createZip, inflate, readZip } from '../src/zip.js';
+
+const text = (data: Uint8Array | string) => (typeof data === 'string' ? data : new TextDecoder().decode(data));
+
+test('crc32 matches the standard check value', () => {
+  assert.equal(crc32(new TextEncoder().encode('123456789')), 0xcbf43926);
+  assert.equal(crc32(new Uint8Array(0)), 0);
+});
+
+test('readZip reads back what createZip writes', () => {
+  const binary = new Uint8Array(300).map((_, index) => (index * 7) & 0xff);
+  const archive = createZip([
+    { path: '[Content_Types].xml', data: '<Types/>' },
+    { path: 'ppt/slides/slide1.xml', data: 'Grüße & <tags>' },
+    { path: 'ppt/media/image1.png', data: binary },
+    { path: 'empty.txt', data: '' }
+  ]);
+
+  const entries = readZip(archive);
+  assert.deepEqual(entries.map(entry => entry.path), [
+    '[Content_Types].xml', 'ppt/slides/slide1.xml', 'ppt/media/image1.png', 'empty.txt'
+  ]);
+  assert.equal(text(entries[1].data), 'Grüße & <tags>');
+  assert.deepEqual(Array.from(entries[2].data as Uint8Array), Array.from(binary));
+  assert.equal(text(entries[3].data), '');
+});
+
+test('readZip finds the directory behind an archive comment', () => {
+  const archive = createZip([{ path: 'a.txt', data: 'a' }]);
+  const comment = new TextEncoder().encode('saved by a test');
+  const commented = new Uint8Array(archive.length + comment.length);
+  commented.set(archive);
+  commented.set(comment, archive.length);
+  // The comment length is the last field of the end of central directory record
+  new DataView(commented.buffer).setUint16(archive.length - 2, comment.length, true);
+
+  assert.equal(text(readZip(commented)[0].data), 'a');
+});
+
+test('readZip rejects data that is not an archive', () => {
+  assert.throws(() => readZip(new TextEncoder().encode('not a zip')), /Not a ZIP archive/);
+});
+
+test('inflate undoes raw deflate', () => {
+  const repetitive = 'slide '.repeat(2000);
+  const noisy = Buffer.from(new Uint8Array(5000).map((_, index) => (index * index * 31) & 0xff));
+
+  for (const data of [Buffer.from(repetitive), noisy, Buffer.alloc(0)]) {
+    for (const level of [0, 1, 9]) {
+      const inflated = inflate(new Uint8Array(deflateRawSync(data, { level })));
+      assert.ok(Buffer.from(inflated).equals(data), `level ${level}, ${data.length} bytes`);
+    }
+  }
+});